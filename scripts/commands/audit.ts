@@ -0,0 +1,120 @@
+/**
+ * audit
+ *
+ * Checks an OVault mesh is wired correctly before users hit it: for every asset / share OFT
+ * in the manifest, peers in both directions, shared decimals, send / receive libraries, DVN
+ * and executor configs, enforced options, owner and delegate, plus the hub composer and vault.
+ * Run it after each new spoke is added.
+ *
+ * Run: npm run ovault -- audit
+ *      npm run ovault -- audit --json > audit.json
+ */
+
+import fs from 'fs'
+import { parseArgs } from 'util'
+import { CONFIG } from '../config'
+import { AUDIT_CHECKS, AuditCell, AuditReport, AuditStatus, auditDeployment } from '../lib/audit'
+import { failure } from '../lib/exitCodes'
+import { loadManifest } from '../lib/manifest'
+
+export const USAGE = `
+Usage: ovault audit [options]
+
+Options:
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  --json                     Print the report as JSON instead of tables
+  --out <file>               Also write the JSON report to <file>
+  -h, --help                 Show this help
+
+Exits with an error when any check fails; warnings are reported only.
+`
+
+// ============================================
+// FORMATTING
+// ============================================
+const MARKS: Record<AuditStatus, string> = { ok: 'ok', warn: 'WARN', fail: 'FAIL', 'n/a': '-' }
+
+function mark(cell: AuditCell): string {
+    return MARKS[cell.status]
+}
+
+function printReport(report: AuditReport): void {
+    console.log('='.repeat(80))
+    console.log(`Wiring audit: ${report.deployment} (hub: ${report.hub})`)
+    console.log('='.repeat(80))
+
+    console.log('\nHub')
+    for (const { name, cell } of report.hubChecks) {
+        console.log(`   ${mark(cell).padEnd(5)} ${name.padEnd(22)} ${cell.detail}`)
+    }
+
+    console.log('\nOwnership')
+    for (const oapp of report.oapps) {
+        console.log(`   ${mark(oapp.ownership).padEnd(5)} ${oapp.chain.padEnd(10)} ${oapp.role.padEnd(9)} ${oapp.address}  owner ${oapp.owner ?? '-'}  delegate ${oapp.delegate ?? '-'}`)
+    }
+
+    // The matrix: one row per directed pathway, one column per check
+    const width = Math.max(...report.pathways.map((pathway) => `${pathway.from} → ${pathway.to}`.length), 7)
+    const columns = (values: string[]) => values.map((value) => value.padEnd(9)).join(' ').trimEnd()
+    console.log(`\n   ${'Mesh'.padEnd(9)} ${'Pathway'.padEnd(width)}  ${columns([...AUDIT_CHECKS])}`)
+    for (const pathway of report.pathways) {
+        const cells = columns(AUDIT_CHECKS.map((check) => mark(pathway.cells[check])))
+        console.log(`   ${pathway.mesh.padEnd(9)} ${`${pathway.from} → ${pathway.to}`.padEnd(width)}  ${cells}`)
+    }
+
+    const problems = [
+        ...report.hubChecks.map(({ name, cell }) => ({ where: `Hub ${name}`, cell })),
+        ...report.oapps.map((oapp) => ({ where: `${oapp.chain} ${oapp.role} ownership`, cell: oapp.ownership })),
+        ...report.pathways.flatMap((pathway) =>
+            AUDIT_CHECKS.map((check) => ({ where: `${pathway.mesh} ${pathway.from} → ${pathway.to} ${check}`, cell: pathway.cells[check] }))
+        ),
+    ].filter(({ cell }) => cell.status === 'fail' || cell.status === 'warn')
+    if (problems.length > 0) {
+        console.log('\nProblems')
+        for (const { where, cell } of problems) {
+            console.log(`   ${cell.status === 'fail' ? '❌' : '⚠️ '} ${where}: ${cell.detail}`)
+        }
+    }
+
+    const { summary } = report
+    console.log(`\n${summary.ok} ok, ${summary.warn} warning(s), ${summary.fail} failure(s), ${summary['n/a']} not applicable`)
+}
+
+// ============================================
+// COMMAND
+// ============================================
+export async function run(argv: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            deployment: { type: 'string' },
+            json: { type: 'boolean' },
+            out: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const report = await auditDeployment(deployment)
+
+    if (values.json) {
+        console.log(JSON.stringify(report, null, 2))
+    } else {
+        printReport(report)
+    }
+    if (values.out) {
+        fs.writeFileSync(values.out, JSON.stringify(report, null, 2) + '\n')
+        if (!values.json) {
+            console.log(`📝 Report written to ${values.out}`)
+        }
+    }
+
+    if (report.summary.fail > 0) {
+        throw failure('config', `❌ Audit found ${report.summary.fail} failing check(s)`)
+    }
+}
@@ -0,0 +1,418 @@
+/**
+ * batch
+ *
+ * Distributes assets or shares from one chain to many (dstChain, recipient, amount) rows
+ * read from a CSV or JSON file. The total balance and the summed LayerZero fees are checked
+ * up front, the OFT is approved once for the whole batch, and the sends go out one after
+ * another with explicitly managed nonces. Every row's tx hash and GUID land in a results
+ * file; re-running the same command resumes where a failed or interrupted run stopped.
+ * Rows that ride a Stargate bus are followed until their bus is driven and delivered.
+ *
+ * Run: npm run ovault -- batch bridge-shares --src ethereum --file payouts.csv
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { parseUnits } from 'ethers/lib/utils'
+import { parseArgs } from 'util'
+import { Options } from '@layerzerolabs/lz-v2-utilities'
+import { CONFIG } from '../config'
+import { APPROVAL_CLI_OPTIONS, APPROVAL_USAGE, AllowanceGrant, ensureAllowance, isApprovalRequired, resolveApprovalConfig, settleAllowances } from '../lib/approval'
+import { BatchResults, BatchRowResult, defaultResultsPath, loadBatchRows, openBatchResults, saveBatchResults } from '../lib/batch'
+import { getChain, getContract, getEndpoint, getProvider, getSigner } from '../lib/chains'
+import { parseWholeNumber } from '../lib/cli'
+import { errorSummary } from '../lib/errors'
+import { check, createExecution, executeTx, printPlan } from '../lib/execution'
+import { failure } from '../lib/exitCodes'
+import { LzToken, getLzToken, logFeeOptions, quoteInLzToken } from '../lib/lzToken'
+import { DeploymentManifest, loadManifest } from '../lib/manifest'
+import { connectOFT } from '../lib/oft'
+import { checkOFTQuote } from '../lib/oftQuote'
+import { preflight } from '../lib/preflight'
+import { MessagingFee, SendParam, buildSendParam } from '../lib/sendParam'
+import { SIGNER_CLI_OPTIONS, SIGNER_USAGE, resolveSignerConfig } from '../lib/signer'
+import { estimateOFTHop, parseSlippageBps, resolveSlippageBps } from '../lib/slippage'
+import { StargateRide, parseStargateMode, selectRide } from '../lib/stargate'
+import { ERC20_ABI } from '../lib/tokens'
+import { TrackOptions, defaultTrackOptions, followMessages, parseBusRides, parseSentPackets, parseTrackTimeout } from '../lib/tracking'
+
+const BATCH_COMMANDS = ['bridge-assets', 'bridge-shares'] as const
+type BatchCommand = (typeof BATCH_COMMANDS)[number]
+
+export const USAGE = `
+Usage: ovault batch <bridge-assets|bridge-shares> --src <chain> --file <rows.csv|rows.json> [options]
+
+Rows: CSV with a header naming dstChain, recipient and amount columns, or a JSON array of
+{ "dstChain": "katana", "recipient": "0x...", "amount": "12.5" }. Amounts are human readable.
+
+Options:
+  --src <chain>              Chain every row is sent from (required)
+  --file <path>              Rows to send (required)
+  --results <path>           Results file (default: <file>.results.json next to the rows)
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  --lz-receive-gas <gas>     Gas for lzReceive on each destination (default: ${CONFIG.defaults.lzReceiveGas})
+  --max-slippage <bps>       Slippage budget off each row's quoted credit (default: ${CONFIG.defaults.maxSlippageBps})
+  --stargate-mode <mode>     Stargate pools: taxi, bus or auto (cheaper per row; default: ${CONFIG.defaults.stargateMode})
+  --track-timeout <minutes>  How long to wait for the bus carrying bus rows, and for rows a previous
+                             run left unconfirmed (default: ${CONFIG.defaults.trackTimeoutMinutes})
+  --pay-in-lz-token          Pay the LayerZero protocol fees in ZRO (one approval for the batch; taxi only)
+  --dry-run                  Check balances, quote and simulate every row, broadcast nothing
+  -h, --help                 Show this help
+
+Re-run the same command to resume: rows already sent are skipped, failed rows are retried and
+rows broadcast but not yet confirmed are looked up on-chain first (and stay pending, never
+resent, while still unconfirmed). Bus rows whose bus has not been driven in time are followed
+again by the next run.
+
+${APPROVAL_USAGE}
+
+${SIGNER_USAGE}
+`
+
+interface PreparedRow {
+    result: BatchRowResult
+    amountLD: BigNumber
+    sendParam: SendParam
+    fee: MessagingFee
+    value: BigNumber
+    ride: StargateRide
+    native: MessagingFee
+    lzToken?: MessagingFee
+}
+
+function sumFees(fees: MessagingFee[]): MessagingFee {
+    return fees.reduce(
+        (sum, fee) => ({ nativeFee: sum.nativeFee.add(fee.nativeFee), lzTokenFee: sum.lzTokenFee.add(fee.lzTokenFee) }),
+        { nativeFee: BigNumber.from(0), lzTokenFee: BigNumber.from(0) }
+    )
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+function recordReceipt(row: BatchRowResult, receipt: ethers.providers.TransactionReceipt, endpoint: string): void {
+    if (receipt.status === 1) {
+        row.status = 'sent'
+        row.guid = parseSentPackets(receipt, endpoint)[0]?.guid
+        row.ticketId = parseBusRides(receipt)[0]?.ticketId.toString()
+        row.error = undefined
+    } else {
+        row.status = 'failed'
+        row.error = `reverted in ${receipt.transactionHash}`
+    }
+}
+
+/**
+ * Settle rows a previous run broadcast but never saw confirmed. A row whose tx is still in the
+ * mempool after timeoutMs stays pending: it is not sent again, and the next run looks it up anew.
+ */
+async function reconcilePending(results: BatchResults, provider: ethers.providers.Provider, endpoint: string, timeoutMs: number): Promise<void> {
+    for (const row of results.rows) {
+        if (row.status !== 'pending' || !row.txHash) {
+            continue
+        }
+        console.log(`🔎 Row ${row.index + 1}: checking ${row.txHash} from the previous run...`)
+        let receipt = await provider.getTransactionReceipt(row.txHash)
+        if (!receipt && (await provider.getTransaction(row.txHash))) {
+            try {
+                receipt = await provider.waitForTransaction(row.txHash, 1, timeoutMs)
+            } catch (error: any) {
+                if (error.code !== ethers.errors.TIMEOUT) {
+                    throw error
+                }
+                console.warn(`⚠️  Row ${row.index + 1}: ${row.txHash} is still unconfirmed; leaving it pending`)
+                continue
+            }
+        }
+        if (receipt) {
+            recordReceipt(row, receipt, endpoint)
+        } else {
+            // Dropped from the mempool: nothing was sent, so the row goes out again
+            row.status = 'queued'
+            row.error = `${row.txHash} was dropped`
+            row.txHash = undefined
+            row.nonce = undefined
+        }
+    }
+}
+
+/** Rows broadcast but unconfirmed are neither sent nor failed: the batch is not done until they land */
+function checkNonePending(results: BatchResults, resultsFile: string): void {
+    const pending = results.rows.filter((row) => row.status === 'pending').length
+    if (pending > 0) {
+        throw failure('rpc', `❌ ${pending} of ${results.rows.length} row(s) broadcast but not confirmed yet. Re-run the same command to look them up again (results: ${resultsFile})`)
+    }
+}
+
+/**
+ * Wait (until one shared deadline) for the bus carrying every bus row, then follow its packet.
+ * Rows whose bus has not been driven keep no GUID and are followed again on the next run.
+ */
+async function followBuses(
+    results: BatchResults,
+    deployment: DeploymentManifest,
+    provider: ethers.providers.Provider,
+    options: TrackOptions,
+    persist: (results: BatchResults) => void
+): Promise<void> {
+    const riding = results.rows.filter((row) => row.status === 'sent' && row.ticketId && row.delivery !== 'delivered')
+    if (riding.length === 0) {
+        return
+    }
+    console.log(`🚌 Waiting for the bus: ${riding.length} row(s)...`)
+    const deadline = Date.now() + options.timeoutMs
+    for (const row of riding) {
+        const receipt = await provider.getTransactionReceipt(row.txHash!)
+        const [hop] = await followMessages(deployment, results.src, receipt, { ...options, timeoutMs: Math.max(0, deadline - Date.now()), progress: false })
+        row.guid = hop.status === 'waiting-for-bus' ? undefined : hop.packet.guid
+        row.delivery = hop.status
+        persist(results)
+    }
+}
+
+function printRows(results: BatchResults): void {
+    console.log('='.repeat(80))
+    for (const row of results.rows) {
+        let detail = row.status === 'sent' ? `${row.txHash} GUID ${row.guid}` : row.error ?? ''
+        if (row.status === 'sent' && row.ticketId) {
+            detail = `${row.txHash} bus ticket ${row.ticketId}, ${row.guid ? `GUID ${row.guid} ${row.delivery}` : 'waiting for the bus'}`
+        }
+        console.log(`${String(row.index + 1).padStart(4)}  ${row.status.padEnd(7)} ${row.amount} → ${row.recipient} (${row.dstChain})  ${detail}`)
+    }
+    console.log('='.repeat(80))
+}
+
+// ============================================
+// COMMAND
+// ============================================
+export async function run(argv: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            src: { type: 'string' },
+            file: { type: 'string' },
+            results: { type: 'string' },
+            deployment: { type: 'string' },
+            'lz-receive-gas': { type: 'string' },
+            'max-slippage': { type: 'string' },
+            'stargate-mode': { type: 'string' },
+            'track-timeout': { type: 'string' },
+            'pay-in-lz-token': { type: 'boolean' },
+            'dry-run': { type: 'boolean' },
+            ...APPROVAL_CLI_OPTIONS,
+            ...SIGNER_CLI_OPTIONS,
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+    const command = positionals[0] as BatchCommand
+    if (!BATCH_COMMANDS.includes(command)) {
+        throw failure('config', `❌ Batch command must be one of ${BATCH_COMMANDS.join(', ')} (got "${positionals[0] ?? ''}")`)
+    }
+    if (!values.src || !values.file) {
+        throw failure('config', '❌ --src and --file are required')
+    }
+
+    const src = values.src
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const srcChainConfig = getChain(deployment, src)
+    const rows = loadBatchRows(values.file, deployment, src)
+    const approval = resolveApprovalConfig(values, CONFIG.approval)
+    const payInLzToken = values['pay-in-lz-token'] ?? false
+    if (payInLzToken && values['stargate-mode'] && values['stargate-mode'] !== 'taxi') {
+        throw failure('config', '❌ --pay-in-lz-token rides the taxi: Stargate bus fares are paid in native only')
+    }
+    const stargateMode = payInLzToken ? 'taxi' : parseStargateMode(values['stargate-mode']) ?? CONFIG.defaults.stargateMode
+    const lzReceiveGas = parseWholeNumber('lz-receive-gas', values['lz-receive-gas'], 1) ?? CONFIG.defaults.lzReceiveGas
+    const track = defaultTrackOptions()
+    track.timeoutMs = parseTrackTimeout(values['track-timeout']) ?? track.timeoutMs
+    const execution = createExecution(values['dry-run'])
+
+    const wallet = await getSigner(deployment, src, resolveSignerConfig(values, CONFIG.signer))
+    const walletAddress = await wallet.getAddress()
+    const provider = getProvider(deployment, src)
+    const endpoint = getEndpoint(deployment, src)
+    const oftAddress = getContract(deployment, src, command === 'bridge-assets' ? 'assetOFT' : 'shareOFT')
+    const oft = connectOFT(oftAddress, wallet)
+
+    const resultsFile = values.results ?? defaultResultsPath(values.file)
+    const results = openBatchResults(resultsFile, { command, deployment: deployment.name, src, from: walletAddress, input: values.file }, rows)
+    const persist = (results: BatchResults) => !execution.dryRun && saveBatchResults(resultsFile, results)
+
+    console.log('='.repeat(80))
+    console.log(`Batch ${command} from ${srcChainConfig.name} (EID: ${srcChainConfig.eid})`)
+    console.log('='.repeat(80))
+    console.log(`Rows: ${rows.length} from ${values.file}`)
+    console.log(`Results: ${resultsFile}`)
+    console.log(`Your wallet: ${walletAddress}`)
+
+    await reconcilePending(results, provider, endpoint, track.timeoutMs)
+    persist(results)
+
+    const todo = results.rows.filter((row) => row.status !== 'sent' && row.status !== 'pending')
+    if (todo.length < rows.length) {
+        console.log(`⏭️  ${rows.length - todo.length} row(s) already sent or pending, ${todo.length} to go`)
+    }
+    if (todo.length === 0) {
+        await followBuses(results, deployment, provider, track, persist)
+        printRows(results)
+        checkNonePending(results, resultsFile)
+        console.log('✅ Every row has already been sent')
+        return
+    }
+
+    // Token and decimals
+    const underlyingToken = await oft.token()
+    const isNativeToken = underlyingToken === ethers.constants.AddressZero
+    const token = isNativeToken ? undefined : new ethers.Contract(underlyingToken, ERC20_ABI, wallet)
+    const decimals: number = token ? await token.decimals() : 18
+
+    // Build and quote every remaining row
+    console.log(`💭 Quoting ${todo.length} row(s)...`)
+    const slippageBps = resolveSlippageBps(parseSlippageBps(values['max-slippage']))
+    const extraOptions = Options.newOptions()
+        .addExecutorLzReceiveOption(lzReceiveGas, 0)
+        .toHex()
+
+    // Pre-flight once per destination: rows to the same chain share the peer and the options
+    const destinations = [...new Set(todo.map((row) => row.dstChain))]
+    await preflight(execution, {
+        deployment,
+        hub: deployment.hub,
+        hops: destinations.map((dst) => ({
+            label: `${srcChainConfig.name} → ${getChain(deployment, dst).name}`,
+            src,
+            dst,
+            role: command === 'bridge-assets' ? 'assetOFT' : 'shareOFT',
+            sendParam: buildSendParam({ dstEid: getChain(deployment, dst).eid, to: walletAddress, amountLD: 0, minAmountLD: 0, extraOptions }),
+        })),
+    })
+
+    const lzToken: LzToken | undefined = await getLzToken(deployment, src, wallet)
+    const prepared: PreparedRow[] = []
+    for (const result of todo) {
+        const amountLD = parseUnits(result.amount, decimals)
+        const sendParam = buildSendParam({
+            dstEid: getChain(deployment, result.dstChain).eid,
+            to: result.recipient,
+            amountLD,
+            minAmountLD: 0,
+            extraOptions,
+        })
+        const hop = await estimateOFTHop(oft, sendParam, slippageBps, { label: `Row ${result.index + 1}`, symbol: command, decimals })
+        sendParam.minAmountLD = hop.min
+        await checkOFTQuote(execution, oft, sendParam, hop)
+        const { ride, sendParam: rideParam, fee: native } = await selectRide(execution, oft, sendParam, decimals, stargateMode)
+        const lzTokenFee = lzToken ? await quoteInLzToken(oft, rideParam) : undefined
+        if (payInLzToken) {
+            check(execution, lzTokenFee !== undefined, 'config', `❌ Row ${result.index + 1}: ${srcChainConfig.name} does not take LayerZero fees in lzToken. Drop --pay-in-lz-token`)
+        }
+        const fee = payInLzToken && lzTokenFee ? lzTokenFee : native
+        prepared.push({ result, amountLD, sendParam: rideParam, fee, ride, native, lzToken: lzTokenFee, value: isNativeToken ? fee.nativeFee.add(amountLD) : fee.nativeFee })
+    }
+
+    // Pre-check the totals before anything is sent
+    const totalAmount = prepared.reduce((sum, row) => sum.add(row.amountLD), BigNumber.from(0))
+    const totalFees = prepared.reduce((sum, row) => sum.add(row.fee.nativeFee), BigNumber.from(0))
+    const totalValue = prepared.reduce((sum, row) => sum.add(row.value), BigNumber.from(0))
+    console.log(`📊 Total: ${ethers.utils.formatUnits(totalAmount, decimals)} ${command === 'bridge-assets' ? 'assets' : 'shares'}`)
+    const lzTokenTotal = prepared.every((row) => row.lzToken) ? sumFees(prepared.map((row) => row.lzToken!)) : undefined
+    logFeeOptions(sumFees(prepared.map((row) => row.native)), lzTokenTotal, lzToken, payInLzToken)
+    const totalLzTokenFee = sumFees(prepared.map((row) => row.fee)).lzTokenFee
+
+    if (token) {
+        const balance: BigNumber = await token.balanceOf(walletAddress)
+        check(execution, balance.gte(totalAmount), 'funds', `❌ Insufficient balance for the batch. Required: ${ethers.utils.formatUnits(totalAmount, decimals)}, Available: ${ethers.utils.formatUnits(balance, decimals)}`)
+    }
+    const nativeBalance = await provider.getBalance(walletAddress)
+    check(execution, nativeBalance.gte(totalValue), 'funds', `❌ Insufficient native balance for fees${isNativeToken ? ' and amounts' : ''}. Required: ${ethers.utils.formatEther(totalValue)}, Available: ${ethers.utils.formatEther(nativeBalance)}`)
+    if (lzToken && totalLzTokenFee.gt(0)) {
+        const lzTokenBalance: BigNumber = await new ethers.Contract(lzToken.address, ERC20_ABI, wallet).balanceOf(walletAddress)
+        check(
+            execution,
+            lzTokenBalance.gte(totalLzTokenFee),
+            'funds',
+            `❌ Insufficient ${lzToken.symbol} for the batch fees. Required: ${ethers.utils.formatUnits(totalLzTokenFee, lzToken.decimals)}, Available: ${ethers.utils.formatUnits(lzTokenBalance, lzToken.decimals)}`
+        )
+    }
+
+    // One approval for the whole batch
+    let grant: AllowanceGrant | undefined
+    if (token && (await isApprovalRequired(oft, underlyingToken))) {
+        grant = await ensureAllowance(execution, wallet, { chain: src, token: underlyingToken, spender: oftAddress, amount: totalAmount, decimals, label: 'OFT' }, approval)
+    }
+    let lzTokenGrant: AllowanceGrant | undefined
+    if (lzToken && totalLzTokenFee.gt(0)) {
+        // The OFT pulls the lzToken with transferFrom, so Permit2 cannot grant this allowance
+        const lzTokenApproval = { ...approval, method: approval.method === 'permit2' ? 'approve' : approval.method }
+        lzTokenGrant = await ensureAllowance(
+            execution,
+            wallet,
+            { chain: src, token: lzToken.address, spender: oftAddress, amount: totalLzTokenFee, decimals: lzToken.decimals, label: `${lzToken.symbol} fee` },
+            lzTokenApproval
+        )
+    }
+
+    // Send sequentially; nonces are assigned here so a slow RPC cannot reorder or reuse them
+    let nonce = execution.dryRun ? undefined : await wallet.getTransactionCount('pending')
+    try {
+        for (const { result, sendParam, fee, value, ride } of prepared) {
+            result.ride = ride
+            const label = `Row ${result.index + 1}: ${result.amount} → ${result.recipient} on ${result.dstChain}`
+            const tx = await oft.populateSend(sendParam, fee, walletAddress, { value, nonce })
+            try {
+                const receipt = await executeTx(execution, wallet, src, label, tx, (sent) => {
+                    result.status = 'pending'
+                    result.txHash = sent.hash
+                    result.nonce = sent.nonce
+                    persist(results)
+                })
+                if (receipt) {
+                    recordReceipt(result, receipt, endpoint)
+                }
+                nonce = nonce === undefined ? undefined : nonce + 1
+            } catch (error: any) {
+                // A revert has a receipt; anything else after broadcast stays pending for the next run
+                if (result.status !== 'pending' || error.receipt) {
+                    result.status = 'failed'
+                }
+                result.error = errorSummary(error)
+                console.warn(`⚠️  ${label} ${result.status}: ${result.error}`)
+                nonce = await wallet.getTransactionCount('pending')
+            }
+            persist(results)
+        }
+    } finally {
+        await settleAllowances(execution, wallet, [grant, lzTokenGrant])
+    }
+
+    if (execution.dryRun) {
+        printPlan(execution, `batch-${command}`, {
+            src,
+            rows: prepared.map(({ result, amountLD, fee, ride }) => ({ index: result.index, dst: result.dstChain, recipient: result.recipient, amountLD, fee, ride })),
+            totalAmountLD: totalAmount,
+            totalFees,
+            totalLzTokenFee,
+            resultsFile,
+        })
+        return
+    }
+
+    await followBuses(results, deployment, provider, track, persist)
+    printRows(results)
+
+    const unsent = results.rows.filter((row) => row.status !== 'sent' && row.status !== 'pending').length
+    if (unsent > 0) {
+        throw failure('revert', `❌ ${unsent} of ${rows.length} row(s) not sent. Re-run the same command to retry them (results: ${resultsFile})`)
+    }
+    checkNonePending(results, resultsFile)
+    const waiting = results.rows.filter((row) => row.ticketId && !row.guid).length
+    if (waiting > 0) {
+        console.warn(`⚠️  ${waiting} bus row(s) still waiting for the bus. Re-run the same command to keep following them`)
+    }
+    console.log(`✅ All ${rows.length} row(s) sent. Follow one with "ovault status --tx <hash> --chain ${src}"`)
+}
@@ -0,0 +1,104 @@
+/**
+ * import-deployments
+ *
+ * Turns a hardhat-deploy `deployments/` directory into a deployment manifest so the
+ * CLI can drive a vault without hand-copying addresses.
+ *
+ * Run: npm run ovault -- import-deployments --from ../deployments --name my-vault
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { failure } from '../lib/exitCodes'
+import { importHardhatDeployments } from '../lib/importer'
+import { resolveManifestPath } from '../lib/manifest'
+
+export const USAGE = `
+Usage: ovault import-deployments --from <dir> --name <name> [options]
+
+Options:
+  --from <dir>               hardhat-deploy deployments directory (contains <network>/*.json)
+  --name <name>              Deployment name (written to manifests/<name>.json)
+  --description <text>       Optional manifest description
+  --hub <network>            Hub network directory (default: the one with vault + composer)
+  --eid <network=eid>        EID for a network the importer does not know (repeatable)
+  --rpc <network=url>        RPC URL override for a network (repeatable)
+  --out <path>               Output file (default: manifests/<name>.json)
+  --force                    Overwrite an existing manifest
+  -h, --help                 Show this help
+`
+
+function parsePairs(values: string[] | undefined, flag: string): Record<string, string> {
+    const pairs: Record<string, string> = {}
+    for (const value of values ?? []) {
+        const [key, ...rest] = value.split('=')
+        if (!key || rest.length === 0) {
+            throw failure('config', `❌ ${flag} expects <network>=<value> (got "${value}")`)
+        }
+        pairs[key] = rest.join('=')
+    }
+    return pairs
+}
+
+export async function run(argv: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            from: { type: 'string' },
+            name: { type: 'string' },
+            description: { type: 'string' },
+            hub: { type: 'string' },
+            eid: { type: 'string', multiple: true },
+            rpc: { type: 'string', multiple: true },
+            out: { type: 'string' },
+            force: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+    if (!values.from) {
+        throw failure('config', '❌ --from is required')
+    }
+    if (!values.name) {
+        throw failure('config', '❌ --name is required')
+    }
+
+    const eids: Record<string, number> = {}
+    for (const [network, eid] of Object.entries(parsePairs(values.eid, '--eid'))) {
+        eids[network] = parseInt(eid)
+    }
+
+    const { manifest, contracts, warnings } = importHardhatDeployments(path.resolve(values.from), {
+        name: values.name,
+        description: values.description,
+        hub: values.hub,
+        eids,
+        rpcUrls: parsePairs(values.rpc, '--rpc'),
+    })
+
+    const out = values.out ? path.resolve(values.out) : resolveManifestPath(values.name)
+    if (fs.existsSync(out) && !values.force) {
+        throw failure('config', `❌ ${out} already exists. Pass --force to overwrite`)
+    }
+
+    console.log('='.repeat(80))
+    console.log(`Imported ${values.from} → ${manifest.name} (hub: ${manifest.hub})`)
+    console.log('='.repeat(80))
+    for (const contract of contracts.filter((c) => c.role)) {
+        console.log(`  ${contract.network.padEnd(16)} ${String(contract.role).padEnd(10)} ${contract.address}  ${contract.contractName} (${contract.reason})`)
+    }
+    for (const warning of warnings) {
+        console.warn(`⚠️  ${warning}`)
+    }
+
+    fs.mkdirSync(path.dirname(out), { recursive: true })
+    fs.writeFileSync(out, JSON.stringify(manifest, null, 2) + '\n')
+    console.log('='.repeat(80))
+    console.log(`✅ Wrote ${out}`)
+    console.log(`   Review the RPC URLs, then run: npm run ovault -- <command> --deployment ${manifest.name} ...`)
+}
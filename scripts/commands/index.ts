@@ -0,0 +1,32 @@
+/**
+ * Utility command registry: subcommands that do not resolve to a flow
+ */
+
+import * as audit from './audit'
+import * as batch from './batch'
+import * as importDeployments from './importDeployments'
+import * as inspect from './inspect'
+import * as resume from './resume'
+import * as retryCompose from './retryCompose'
+import * as revoke from './revoke'
+import * as rpcHealth from './rpcHealth'
+import * as status from './status'
+import * as track from './track'
+
+export interface UtilityCommand {
+    summary: string
+    run: (argv: string[]) => Promise<void>
+}
+
+export const UTILITY_COMMANDS: Record<string, UtilityCommand> = {
+    audit: { summary: 'Cross-check peers, decimals, libraries, DVN / executor config, options and owners of the mesh', run: audit.run },
+    batch: { summary: 'Send assets or shares to many recipients from a CSV / JSON file (resumable)', run: batch.run },
+    'import-deployments': { summary: 'Create a manifest from a hardhat-deploy deployments/ directory', run: importDeployments.run },
+    resume: { summary: 'Continue an unfinished run from its journal without resending confirmed transactions', run: resume.run },
+    status: { summary: 'One-shot check: completed, refunded, stuck on lzCompose or in flight', run: status.run },
+    'retry-compose': { summary: 'Re-execute a stuck lzCompose on the hub from a GUID or source tx', run: retryCompose.run },
+    'rpc-health': { summary: 'Probe every RPC endpoint of the manifest: status, latency and block-height skew', run: rpcHealth.run },
+    revoke: { summary: 'List and zero the allowances granted to OFTs, pools, the composer and the vault', run: revoke.run },
+    inspect: { summary: 'Decode a composeMsg, executor options or send() calldata (hex or --tx)', run: inspect.run },
+    track: { summary: 'Follow the LayerZero messages of a sent transaction hop by hop', run: track.run },
+}
@@ -0,0 +1,223 @@
+/**
+ * inspect
+ *
+ * Decodes a composeMsg, executor options, an lzCompose payload or full send() /
+ * depositAndSend() / redeemAndSend() calldata (given as hex or pulled from a tx hash)
+ * and prints every field in human-readable units.
+ *
+ * Run: npm run ovault -- inspect <hex>
+ *      npm run ovault -- inspect --tx <hash> --chain base
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { parseArgs } from 'util'
+import { bytes32ToEthAddress } from '@layerzerolabs/lz-v2-utilities'
+import { CONFIG } from '../config'
+import { getChain, getProvider } from '../lib/chains'
+import { failure } from '../lib/exitCodes'
+import { DecodedOptions, DecodedPayload, PAYLOAD_KINDS, PayloadKind, decodeOptions, decodePayload } from '../lib/inspect'
+import { DeploymentManifest, loadManifest } from '../lib/manifest'
+import { networkByEid } from '../lib/networks'
+import { getOFTDecimals } from '../lib/oft'
+import { SendParam, decodeComposeMsg } from '../lib/sendParam'
+
+export const USAGE = `
+Usage: ovault inspect <hex> [options]
+       ovault inspect --tx <hash> --chain <chain> [options]
+
+Options:
+  --tx <hash>                Decode the calldata of a send / depositAndSend / redeemAndSend transaction
+  --chain <chain>            Chain the transaction was sent on (with --tx)
+  --deployment <name|path>   Deployment manifest for chain names and RPCs (default: ${CONFIG.deployment})
+  --as <kind>                Force the payload kind: ${PAYLOAD_KINDS.join(' | ')}
+  --decimals <n>             Decimals of the sent token (auto-detected with --tx on send())
+  --hop-decimals <n>         Decimals of the second-hop token inside a composeMsg
+  -h, --help                 Show this help
+`
+
+interface RenderContext {
+    deployment: DeploymentManifest
+    decimals?: number
+    hopDecimals?: number
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+function eidLabel(eid: number, deployment: DeploymentManifest): string {
+    const chain = Object.entries(deployment.chains).find(([, config]) => config.eid === eid)
+    const name = chain ? chain[0] : networkByEid(eid)?.name
+    return name ? `${eid} (${name})` : `${eid} (unknown)`
+}
+
+function amount(value: BigNumber, decimals?: number): string {
+    return decimals === undefined ? value.toString() : `${value.toString()} (${ethers.utils.formatUnits(value, decimals)})`
+}
+
+function native(value: BigNumber): string {
+    return `${value.toString()} wei (${ethers.utils.formatEther(value)} native)`
+}
+
+function recipient(to: string): string {
+    // EVM recipients are left-padded addresses; anything else (e.g. Solana) is shown raw
+    return ethers.utils.hexDataSlice(to, 0, 12) === ethers.utils.hexZeroPad('0x', 12) ? bytes32ToEthAddress(to) : to
+}
+
+function renderOptions(options: DecodedOptions, indent: string): void {
+    if (options.lzReceive) {
+        console.log(`${indent}lzReceive: gas ${options.lzReceive.gas.toString()}, value ${native(options.lzReceive.value)}`)
+    }
+    for (const compose of options.compose) {
+        console.log(`${indent}lzCompose[${compose.index}]: gas ${compose.gas.toString()}, value ${native(compose.value)}`)
+    }
+    for (const drop of options.nativeDrop) {
+        console.log(`${indent}nativeDrop: ${native(drop.amount)} → ${recipient(drop.receiver)}`)
+    }
+    if (options.ordered) {
+        console.log(`${indent}ordered execution`)
+    }
+    if (!options.lzReceive && options.compose.length === 0 && options.nativeDrop.length === 0) {
+        console.log(`${indent}(none - enforced options only)`)
+    }
+}
+
+function renderSendParam(sendParam: SendParam, ctx: RenderContext, decimals: number | undefined, indent: string): void {
+    console.log(`${indent}dstEid:       ${eidLabel(sendParam.dstEid, ctx.deployment)}`)
+    console.log(`${indent}to:           ${recipient(sendParam.to)}`)
+    console.log(`${indent}amountLD:     ${amount(sendParam.amountLD, decimals)}`)
+    console.log(`${indent}minAmountLD:  ${amount(sendParam.minAmountLD, decimals)}`)
+    console.log(`${indent}oftCmd:       ${sendParam.oftCmd}${sendParam.oftCmd === '0x' ? ' (default / Stargate taxi)' : ''}`)
+    console.log(`${indent}extraOptions: ${sendParam.extraOptions}`)
+    try {
+        renderOptions(decodeOptions(sendParam.extraOptions), `${indent}  `)
+    } catch (error: any) {
+        console.log(`${indent}  ⚠️  ${error.message}`)
+    }
+    if (sendParam.composeMsg !== '0x') {
+        console.log(`${indent}composeMsg:   ${sendParam.composeMsg.length / 2 - 1} bytes`)
+        try {
+            const { sendParam: secondHop, msgValue } = decodeComposeMsg(sendParam.composeMsg)
+            console.log(`${indent}  second hop (msgValue ${native(msgValue)}):`)
+            renderSendParam(secondHop, ctx, ctx.hopDecimals, `${indent}    `)
+        } catch {
+            console.log(`${indent}  ⚠️  Not an OVaultComposer composeMsg`)
+        }
+    }
+}
+
+function render(decoded: DecodedPayload, ctx: RenderContext): void {
+    switch (decoded.kind) {
+        case 'calldata': {
+            const { call } = decoded
+            console.log(`📦 ${call.method}() calldata`)
+            if (call.amount) {
+                console.log(`  amount:        ${amount(call.amount, ctx.decimals)}`)
+            }
+            if (call.fee) {
+                console.log(`  nativeFee:     ${native(call.fee.nativeFee)}`)
+                console.log(`  lzTokenFee:    ${call.fee.lzTokenFee.toString()}`)
+            }
+            console.log(`  refundAddress: ${call.refundAddress}`)
+            console.log('  sendParam:')
+            // depositAndSend / redeemAndSend carry the output hop directly
+            renderSendParam(call.sendParam, ctx, call.method === 'send' ? ctx.decimals : ctx.hopDecimals, '    ')
+            break
+        }
+        case 'options':
+            console.log('📦 Executor options')
+            renderOptions(decoded.options, '  ')
+            break
+        case 'composeMsg':
+            console.log(`📦 OVaultComposer composeMsg (msgValue ${native(decoded.msgValue)})`)
+            console.log('  second hop:')
+            renderSendParam(decoded.sendParam, ctx, ctx.hopDecimals, '    ')
+            break
+        case 'composePayload': {
+            const { payload } = decoded
+            console.log('📦 lzCompose payload (OFTComposeMsgCodec)')
+            console.log(`  nonce:       ${payload.nonce.toString()}`)
+            console.log(`  srcEid:      ${eidLabel(payload.srcEid, ctx.deployment)}`)
+            console.log(`  amountLD:    ${amount(payload.amountLD, ctx.decimals)}`)
+            console.log(`  composeFrom: ${recipient(payload.composeFrom)}`)
+            try {
+                const { sendParam, msgValue } = decodeComposeMsg(payload.composeMsg)
+                console.log(`  second hop (msgValue ${native(msgValue)}):`)
+                renderSendParam(sendParam, ctx, ctx.hopDecimals, '    ')
+            } catch {
+                console.log(`  composeMsg:  ${payload.composeMsg}`)
+            }
+            break
+        }
+    }
+}
+
+// ============================================
+// COMMAND
+// ============================================
+async function sentTokenDecimals(deployment: DeploymentManifest, chain: string, oftAddress: string): Promise<number | undefined> {
+    try {
+        return await getOFTDecimals(oftAddress, getProvider(deployment, chain))
+    } catch {
+        return undefined
+    }
+}
+
+export async function run(argv: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            tx: { type: 'string' },
+            chain: { type: 'string' },
+            deployment: { type: 'string' },
+            as: { type: 'string' },
+            decimals: { type: 'string' },
+            'hop-decimals': { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help || (!values.tx && positionals.length === 0)) {
+        console.log(USAGE)
+        return
+    }
+    if (values.as && !PAYLOAD_KINDS.includes(values.as as PayloadKind)) {
+        throw failure('config', `❌ Unknown --as "${values.as}". Use one of: ${PAYLOAD_KINDS.join(', ')}`)
+    }
+
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const ctx: RenderContext = {
+        deployment,
+        decimals: values.decimals ? parseInt(values.decimals) : undefined,
+        hopDecimals: values['hop-decimals'] ? parseInt(values['hop-decimals']) : undefined,
+    }
+
+    let hex = positionals[0]
+    let kind = values.as as PayloadKind | undefined
+
+    if (values.tx) {
+        if (!values.chain) {
+            throw failure('config', '❌ --chain is required with --tx')
+        }
+        const chainConfig = getChain(deployment, values.chain)
+        const tx = await getProvider(deployment, values.chain).getTransaction(values.tx)
+        if (!tx) {
+            throw failure('config', `❌ Transaction ${values.tx} not found on ${chainConfig.name}`)
+        }
+        console.log(`🔎 ${values.tx} on ${chainConfig.name}`)
+        console.log(`  from:  ${tx.from}`)
+        console.log(`  to:    ${tx.to}`)
+        console.log(`  value: ${native(tx.value)}`)
+        hex = tx.data
+        kind = kind ?? 'calldata'
+
+        const decoded = decodePayload(hex, kind)
+        if (ctx.decimals === undefined && decoded.kind === 'calldata' && decoded.call.method === 'send' && tx.to) {
+            ctx.decimals = await sentTokenDecimals(deployment, values.chain, tx.to)
+        }
+        render(decoded, ctx)
+        return
+    }
+
+    render(decodePayload(hex, kind), ctx)
+}
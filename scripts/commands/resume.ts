@@ -0,0 +1,178 @@
+/**
+ * resume
+ *
+ * Pick up a flow from its execution journal (see scripts/lib/journal.ts). The flow runs
+ * again with the recorded inputs; transactions the earlier run already landed are handed
+ * back from the journal instead of being approved or sent a second time, and tracking
+ * continues from the recorded send.
+ *
+ * Run: npm run ovault -- resume            (newest unfinished run)
+ *      npm run ovault -- resume <id|path> [--json]
+ */
+
+import { parseArgs } from 'util'
+import { CONFIG } from '../config'
+import { FLOWS, FlowParams } from '../flows'
+import { failure } from '../lib/exitCodes'
+import { Journal, JournalParams, finishJournal, isResumable, listJournals, loadJournal } from '../lib/journal'
+import { getEndpoint } from '../lib/chains'
+import { loadManifest } from '../lib/manifest'
+import { FlowReport, createReport, failureOf, printReport, redirectLogs, reportHops } from '../lib/report'
+import { SIGNER_CLI_OPTIONS, SIGNER_USAGE, resolveSignerConfig } from '../lib/signer'
+import { TrackOptions, checkDelivered, defaultTrackOptions, followMessages, isComplete, parseSentPackets, parseTrackTimeout } from '../lib/tracking'
+
+export const USAGE = `
+Usage: ovault resume [<id|path>] [options]
+
+Resumes the newest unfinished run when no journal is given.
+
+Options:
+  --list                     List journals and their status
+  --no-track                 Exit after the source transaction instead of following every hop
+  --track-timeout <minutes>  Fail if the message is not delivered in time (default: ${CONFIG.defaults.trackTimeoutMinutes})
+  --json                     Print the run's JSON result object on stdout, as the flow commands do
+  -h, --help                 Show this help
+
+${SIGNER_USAGE}
+Signer options default to the ones the run was started with.
+`
+
+// ============================================
+// JOURNALED RUNS
+// ============================================
+
+/** The part of FlowParams a journal keeps */
+export function journalParams(params: FlowParams): JournalParams {
+    return {
+        src: params.src,
+        dst: params.dst,
+        hub: params.hub,
+        amount: params.amount,
+        recipient: params.recipient,
+        minAmount: params.minAmount,
+        maxSlippageBps: params.maxSlippageBps,
+        lzReceiveGas: params.lzReceiveGas,
+        lzComposeGas: params.lzComposeGas,
+        lzComposeGasMarginBps: params.lzComposeGasMarginBps,
+        lzComposeValue: params.lzComposeValue,
+        approval: params.approval,
+        wrapped: params.wrapped,
+        stargateMode: params.stargateMode,
+        payInLzToken: params.payInLzToken,
+        signer: params.signer,
+    }
+}
+
+/**
+ * Run the journal's flow and track it, keeping the journal's status in step:
+ * sent once every transaction confirmed, complete once delivered, failed with the error.
+ * With a --json report, the GUIDs sent and every hop's status go in it too.
+ */
+export async function runJournaled(journal: Journal, params: FlowParams, track?: TrackOptions): Promise<void> {
+    const { report } = params
+    try {
+        const receipt = await FLOWS[journal.flow]({ ...params, journal })
+        finishJournal(journal, 'sent')
+        if (receipt && report) {
+            const packets = parseSentPackets(receipt, getEndpoint(params.deployment, params.src))
+            report.tracking = { status: 'untracked', guids: packets.map((packet) => packet.guid), hops: [] }
+        }
+        if (receipt && track) {
+            const hops = await followMessages(params.deployment, params.src, receipt, track)
+            if (report) {
+                reportHops(report, hops, isComplete(hops))
+            }
+            checkDelivered(hops)
+            finishJournal(journal, 'complete')
+        }
+    } catch (error: any) {
+        finishJournal(journal, 'failed', error.message)
+        console.error(`📒 Journal: ${journal.file}\n💡 Run "ovault resume ${journal.id}" to continue without resending confirmed transactions`)
+        throw error
+    }
+}
+
+// ============================================
+// COMMAND
+// ============================================
+function printJournals(): void {
+    const journals = listJournals()
+    if (journals.length === 0) {
+        console.log('ℹ️  No journals')
+        return
+    }
+    for (const journal of journals) {
+        const { src, dst, amount } = journal.params
+        const confirmed = journal.steps.filter((step) => step.status === 'confirmed').length
+        console.log(`${journal.id}  ${journal.status.padEnd(8)} ${journal.command} ${amount} ${src} → ${dst}  ${confirmed}/${journal.steps.length} tx confirmed`)
+        if (journal.error) {
+            console.log(`   ${journal.error}`)
+        }
+    }
+}
+
+export async function run(argv: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            list: { type: 'boolean' },
+            'no-track': { type: 'boolean' },
+            'track-timeout': { type: 'string' },
+            json: { type: 'boolean' },
+            ...SIGNER_CLI_OPTIONS,
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+    if (values.list) {
+        printJournals()
+        return
+    }
+
+    // Same report as the flow commands: printed on stdout even when the run fails
+    let report: FlowReport | undefined
+    if (values.json) {
+        redirectLogs()
+    }
+    try {
+        const journal = positionals[0] ? loadJournal(positionals[0]) : listJournals().find(isResumable)
+        if (!journal) {
+            throw failure('config', '❌ No unfinished run to resume. Run "ovault resume --list"')
+        }
+        const deployment = loadManifest(journal.deployment)
+        if (values.json) {
+            report = createReport({ command: journal.command, flow: journal.flow, deployment, inputs: journal.params })
+            report.journal = journal.file
+        }
+        if (journal.status === 'complete') {
+            console.log(`✅ ${journal.id} is already complete`)
+        } else {
+            const { signer, ...inputs } = journal.params
+            const params: FlowParams = { deployment, signer: resolveSignerConfig(values, signer), ...inputs, report }
+            const timeoutMs = parseTrackTimeout(values['track-timeout'])
+            const track = values['no-track'] ? undefined : defaultTrackOptions()
+            if (track && timeoutMs) {
+                track.timeoutMs = timeoutMs
+            }
+
+            const confirmed = journal.steps.filter((step) => step.status === 'confirmed').length
+            console.log(`📒 Resuming ${journal.id} (${journal.status}, ${confirmed}/${journal.steps.length} tx confirmed)`)
+            console.log(`📦 Deployment: ${deployment.name}`)
+            console.log(`🧭 ${journal.command} → ${journal.flow}`)
+            await runJournaled(journal, params, track)
+        }
+    } catch (error) {
+        if (values.json) {
+            printReport({ ...report, ...failureOf(error) })
+        }
+        throw error
+    }
+    if (report) {
+        printReport(report)
+    }
+}
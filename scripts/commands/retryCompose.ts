@@ -0,0 +1,183 @@
+/**
+ * retry-compose
+ *
+ * Re-executes a compose stuck in EndpointV2's composeQueue (e.g. lzCompose ran out of gas)
+ * by calling the permissionless EndpointV2.lzCompose on the hub with the stored message,
+ * a fresh gas estimate and enough msg.value to pay for the second hop.
+ *
+ * Run: npm run ovault -- retry-compose --tx <source tx> --chain base
+ *      npm run ovault -- retry-compose --guid <guid>
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { parseArgs } from 'util'
+import { CONFIG } from '../config'
+import { getChain, getProvider, getSigner } from '../lib/chains'
+import { parseWholeNumber } from '../lib/cli'
+import {
+    ComposeValue,
+    QueuedCompose,
+    estimateComposeGas,
+    findComposeByGuid,
+    findComposesByTx,
+    getComposeQueueState,
+    getComposeValue,
+    populateLzCompose,
+} from '../lib/composeRetry'
+import { createExecution, executeTx, printPlan } from '../lib/execution'
+import { failure } from '../lib/exitCodes'
+import { DeploymentManifest, loadManifest } from '../lib/manifest'
+import { SIGNER_CLI_OPTIONS, SIGNER_USAGE, resolveSignerConfig } from '../lib/signer'
+import { defaultTrackOptions, estimateBlockAt, trackMessages } from '../lib/tracking'
+
+// How far back a --guid lookup scans for the ComposeSent log when --from-block is not given
+const GUID_LOOKBACK_DAYS = 7
+
+export const USAGE = `
+Usage: ovault retry-compose --tx <hash> --chain <chain> [options]
+       ovault retry-compose --guid <guid> [--hub <chain>] [options]
+
+Options:
+  --tx <hash>                Source transaction whose compose is stuck
+  --chain <chain>            Chain the source transaction was sent on (with --tx)
+  --guid <guid>              GUID of the message that queued the compose
+  --hub <chain>              Chain holding the compose (with --guid, default: the deployment's hub)
+  --index <n>                Compose index (with --guid, default: 0)
+  --from-block <n>           First block to scan for the compose (with --guid, default: ${GUID_LOOKBACK_DAYS} days back)
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  --value <eth>              msg.value for lzCompose (default: max of the composeMsg value and a fresh quote)
+  --gas-limit <gas>          Gas limit for lzCompose (default: estimate + ${CONFIG.defaults.retryComposeGasBufferBps / 100}%)
+  --dry-run                  Simulate the retry and print the plan, broadcast nothing
+  --no-track                 Exit after lzCompose instead of following the second hop
+  -h, --help                 Show this help
+
+${SIGNER_USAGE}
+`
+
+async function locateCompose(deployment: DeploymentManifest, values: Record<string, string | boolean | undefined>): Promise<QueuedCompose> {
+    if (typeof values.tx === 'string') {
+        if (typeof values.chain !== 'string') {
+            throw failure('config', '❌ --chain is required with --tx')
+        }
+        const chainConfig = getChain(deployment, values.chain)
+        const receipt = await getProvider(deployment, values.chain).getTransactionReceipt(values.tx)
+        if (!receipt) {
+            throw failure('config', `❌ Transaction ${values.tx} not found (or not mined yet) on ${chainConfig.name}`)
+        }
+        const composes = await findComposesByTx(deployment, values.chain, receipt)
+        if (composes.length === 0) {
+            throw failure('crossChain', `❌ No compose was queued for ${values.tx} yet. Run "ovault status --tx ${values.tx} --chain ${values.chain}"`)
+        }
+        for (const compose of composes) {
+            if ((await getComposeQueueState(deployment, compose)) === 'pending') {
+                return compose
+            }
+        }
+        throw failure('config', `❌ Every compose of ${values.tx} has already been executed`)
+    }
+
+    if (typeof values.guid !== 'string') {
+        throw failure('config', '❌ Pass --tx and --chain, or --guid')
+    }
+    const hub = typeof values.hub === 'string' ? values.hub : deployment.hub
+    const provider = getProvider(deployment, hub)
+    const fromBlock =
+        parseWholeNumber('from-block', values['from-block'] as string | undefined, 0) ??
+        (await estimateBlockAt(provider, Math.floor(Date.now() / 1000) - GUID_LOOKBACK_DAYS * 86_400))
+    const index = parseWholeNumber('index', values.index as string | undefined, 0) ?? 0
+
+    console.log(`🔎 Scanning ${getChain(deployment, hub).name} for the compose of ${values.guid} from block ${fromBlock}...`)
+    const compose = await findComposeByGuid(deployment, hub, values.guid, index, fromBlock)
+    if (!compose) {
+        throw failure('config', `❌ No compose with GUID ${values.guid} (index ${index}) on ${getChain(deployment, hub).name} since block ${fromBlock}. Try an earlier --from-block`)
+    }
+    return compose
+}
+
+function printCompose(deployment: DeploymentManifest, compose: QueuedCompose, value: ComposeValue): void {
+    console.log(`📬 Compose on ${getChain(deployment, compose.chain).name}`)
+    console.log(`   GUID:      ${compose.guid} (index ${compose.index})`)
+    console.log(`   From OFT:  ${compose.from}`)
+    console.log(`   Composer:  ${compose.to}`)
+    console.log(`   Delivered: ${compose.deliveryTx}`)
+    console.log(`   Amount:    ${value.payload.amountLD.toString()} LD from EID ${value.payload.srcEid}`)
+    console.log(`   Second hop to EID ${value.secondHop.dstEid}, encoded msgValue ${ethers.utils.formatEther(value.minMsgValue)} native`)
+    if (value.quotedFee) {
+        console.log(`💰 Second hop fee now: ${ethers.utils.formatEther(value.quotedFee)} native (+${CONFIG.defaults.secondHopFeeBufferBps / 100}% buffer)`)
+    }
+}
+
+export async function run(argv: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            tx: { type: 'string' },
+            chain: { type: 'string' },
+            guid: { type: 'string' },
+            hub: { type: 'string' },
+            index: { type: 'string' },
+            'from-block': { type: 'string' },
+            deployment: { type: 'string' },
+            value: { type: 'string' },
+            'gas-limit': { type: 'string' },
+            'dry-run': { type: 'boolean' },
+            'no-track': { type: 'boolean' },
+            ...SIGNER_CLI_OPTIONS,
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+
+    const gasLimitFlag = parseWholeNumber('gas-limit', values['gas-limit'], 1)
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const compose = await locateCompose(deployment, values)
+    const chainName = getChain(deployment, compose.chain).name
+
+    const state = await getComposeQueueState(deployment, compose)
+    if (state === 'executed') {
+        throw failure('config', `❌ The compose of ${compose.guid} was already executed on ${chainName}`)
+    }
+    if (state === 'missing') {
+        throw failure('crossChain', `❌ The compose of ${compose.guid} is not in the ${chainName} compose queue`)
+    }
+
+    const value = await getComposeValue(deployment, compose)
+    if (values.value) {
+        value.value = ethers.utils.parseEther(values.value)
+    }
+    printCompose(deployment, compose, value)
+    if (value.value.lt(value.minMsgValue)) {
+        console.warn(`⚠️  msg.value is below the encoded msgValue; the composer will refund instead of sending`)
+    }
+
+    const signer = await getSigner(deployment, compose.chain, resolveSignerConfig(values, CONFIG.signer))
+    let gasLimit: BigNumber
+    if (gasLimitFlag !== undefined) {
+        gasLimit = BigNumber.from(gasLimitFlag)
+    } else {
+        const estimated = await estimateComposeGas(deployment, compose, signer, value)
+        gasLimit = estimated.gasLimit
+        const profiled = estimated.profiledGas ? `, profiled ${estimated.profiledGas.toString()}` : ''
+        console.log(`⛽ lzCompose gas: estimate ${estimated.estimate.toString()}${profiled}, limit ${gasLimit.toString()}`)
+    }
+
+    const execution = createExecution(values['dry-run'])
+    const tx = await populateLzCompose(deployment, compose, signer, { value: value.value, gasLimit })
+    console.log(`🔁 Retrying lzCompose with ${ethers.utils.formatEther(value.value)} native...`)
+    const receipt = await executeTx(execution, signer, compose.chain, 'lzCompose', tx)
+
+    if (!receipt) {
+        printPlan(execution, 'retry-compose', { compose, value: value.value, gasLimit })
+        return
+    }
+    if (values['no-track']) {
+        console.log(`✅ Compose executed. Follow it with "ovault track --tx ${receipt.transactionHash} --chain ${compose.chain}"`)
+        return
+    }
+    // The lzCompose receipt sends the second hop (or the composer's refund)
+    await trackMessages(deployment, compose.chain, receipt, defaultTrackOptions())
+}
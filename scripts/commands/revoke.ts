@@ -0,0 +1,182 @@
+/**
+ * revoke
+ *
+ * Lists the allowances the wallet has granted to the deployment's OFTs, pools, composer
+ * and vault (ERC20 approvals and Permit2 allowances) and zeroes them. Useful after
+ * --approval infinite / capped, or to clean up approvals left by older scripts.
+ *
+ * Run: npm run ovault -- revoke --list
+ *      npm run ovault -- revoke --chain base
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { parseArgs } from 'util'
+import { CONFIG } from '../config'
+import { PERMIT2_ABI, PERMIT2_ADDRESS } from '../lib/approval'
+import { getChain, getProvider, getSigner } from '../lib/chains'
+import { createExecution, executeTx, printPlan } from '../lib/execution'
+import { DeploymentManifest, loadManifest } from '../lib/manifest'
+import { SIGNER_CLI_OPTIONS, SIGNER_USAGE, resolveSignerConfig } from '../lib/signer'
+import { ERC20_ABI } from '../lib/tokens'
+
+export const USAGE = `
+Usage: ovault revoke [options]
+
+Options:
+  --chain <chain>            Only this chain (default: every chain of the deployment)
+  --list                     Only list non-zero allowances, change nothing
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  --dry-run                  Simulate the revocations, broadcast nothing
+  -h, --help                 Show this help
+
+${SIGNER_USAGE}
+`
+
+interface GrantedAllowance {
+    chain: string
+    token: string
+    symbol: string
+    spender: string
+    label: string
+    viaPermit2: boolean         // Permit2 allowance rather than an ERC20 approval
+    amount: BigNumber
+}
+
+const TOKEN_ABI = [...ERC20_ABI, 'function symbol() view returns (string)']
+
+// ============================================
+// DISCOVERY
+// ============================================
+
+/** Every (token, spender) pair the CLI grants allowances for on `chain` */
+async function spenderPairs(deployment: DeploymentManifest, chain: string, provider: ethers.providers.Provider): Promise<{ token: string; spender: string; label: string }[]> {
+    const { contracts } = getChain(deployment, chain)
+    const pairs: { token: string; spender: string; label: string }[] = []
+
+    for (const role of ['assetOFT', 'shareOFT'] as const) {
+        const oft = contracts[role]
+        if (!oft) {
+            continue
+        }
+        const token: string = await new ethers.Contract(oft, ['function token() view returns (address)'], provider).token()
+        // Native pools and mint/burn OFTs never pull with transferFrom
+        if (token !== ethers.constants.AddressZero && token.toLowerCase() !== oft.toLowerCase()) {
+            pairs.push({ token, spender: oft, label: role === 'assetOFT' ? 'asset OFT / pool' : 'share OFT adapter' })
+        }
+    }
+    if (contracts.vault) {
+        const asset: string = await new ethers.Contract(contracts.vault, ['function asset() view returns (address)'], provider).asset()
+        pairs.push({ token: asset, spender: contracts.vault, label: 'vault' })
+        if (contracts.composer) {
+            pairs.push({ token: asset, spender: contracts.composer, label: 'composer (assets)' })
+            pairs.push({ token: contracts.vault, spender: contracts.composer, label: 'composer (shares)' })
+        }
+    }
+    return pairs
+}
+
+async function findAllowances(deployment: DeploymentManifest, chain: string, owner: string): Promise<GrantedAllowance[]> {
+    const provider = getProvider(deployment, chain)
+    const pairs = await spenderPairs(deployment, chain, provider)
+    const hasPermit2 = (await provider.getCode(PERMIT2_ADDRESS)) !== '0x'
+    const permit2 = new ethers.Contract(PERMIT2_ADDRESS, PERMIT2_ABI, provider)
+    const found: GrantedAllowance[] = []
+
+    const symbols = new Map<string, string>()
+    const symbolOf = async (token: string): Promise<string> => {
+        if (!symbols.has(token)) {
+            symbols.set(token, await new ethers.Contract(token, TOKEN_ABI, provider).symbol().catch(() => token))
+        }
+        return symbols.get(token)!
+    }
+
+    for (const { token, spender, label } of pairs) {
+        const erc20 = new ethers.Contract(token, TOKEN_ABI, provider)
+        const amount: BigNumber = await erc20.allowance(owner, spender)
+        if (!amount.isZero()) {
+            found.push({ chain, token, symbol: await symbolOf(token), spender, label, viaPermit2: false, amount })
+        }
+        if (hasPermit2) {
+            const allowance = await permit2.allowance(owner, token, spender)
+            if (!allowance.amount.isZero()) {
+                found.push({ chain, token, symbol: await symbolOf(token), spender, label, viaPermit2: true, amount: allowance.amount })
+            }
+        }
+    }
+
+    // The token → Permit2 approvals themselves
+    if (hasPermit2) {
+        for (const token of new Set(pairs.map((pair) => pair.token))) {
+            const amount: BigNumber = await new ethers.Contract(token, TOKEN_ABI, provider).allowance(owner, PERMIT2_ADDRESS)
+            if (!amount.isZero()) {
+                found.push({ chain, token, symbol: await symbolOf(token), spender: PERMIT2_ADDRESS, label: 'Permit2', viaPermit2: false, amount })
+            }
+        }
+    }
+    return found
+}
+
+function formatAmount(amount: BigNumber): string {
+    return amount.eq(ethers.constants.MaxUint256) || amount.eq(BigNumber.from(2).pow(160).sub(1)) ? 'unlimited' : amount.toString()
+}
+
+// ============================================
+// COMMAND
+// ============================================
+export async function run(argv: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            chain: { type: 'string' },
+            list: { type: 'boolean' },
+            deployment: { type: 'string' },
+            'dry-run': { type: 'boolean' },
+            ...SIGNER_CLI_OPTIONS,
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const chains = values.chain ? [values.chain] : Object.keys(deployment.chains)
+    chains.forEach((chain) => getChain(deployment, chain))
+    const signerConfig = resolveSignerConfig(values, CONFIG.signer)
+    const execution = createExecution(values['dry-run'])
+
+    let total = 0
+    for (const chain of chains) {
+        const wallet = await getSigner(deployment, chain, signerConfig)
+        const owner = await wallet.getAddress()
+        const allowances = await findAllowances(deployment, chain, owner)
+        total += allowances.length
+
+        console.log(`\n${getChain(deployment, chain).name}: ${allowances.length === 0 ? 'no allowances granted' : `${allowances.length} allowance(s)`}`)
+        for (const allowance of allowances) {
+            const via = allowance.viaPermit2 ? ' via Permit2' : ''
+            console.log(`   ${allowance.symbol.padEnd(10)} → ${allowance.label}${via} (${allowance.spender})  ${formatAmount(allowance.amount)}`)
+        }
+        if (values.list) {
+            continue
+        }
+
+        for (const allowance of allowances) {
+            const label = `Revoke ${allowance.symbol} → ${allowance.label}${allowance.viaPermit2 ? ' via Permit2' : ''}`
+            const tx = allowance.viaPermit2
+                ? await new ethers.Contract(PERMIT2_ADDRESS, PERMIT2_ABI, wallet).populateTransaction.lockdown([{ token: allowance.token, spender: allowance.spender }])
+                : await new ethers.Contract(allowance.token, ERC20_ABI, wallet).populateTransaction.approve(allowance.spender, 0)
+            await executeTx(execution, wallet, chain, label, tx)
+        }
+    }
+
+    if (execution.dryRun && !values.list) {
+        printPlan(execution, 'revoke', { chains })
+        return
+    }
+    if (!values.list && total > 0) {
+        console.log(`\n✅ Revoked ${total} allowance(s)`)
+    }
+}
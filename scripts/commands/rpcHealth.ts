@@ -0,0 +1,107 @@
+/**
+ * rpc-health
+ *
+ * Probes every RPC endpoint of every chain in a manifest: whether it answers, its chain ID,
+ * median latency and how many blocks it trails the highest endpoint of the same chain. Run
+ * it before a long multi-hop flow, or when one starts failing midway.
+ *
+ * Run: npm run ovault -- rpc-health
+ *      npm run ovault -- rpc-health --chain base --samples 10
+ */
+
+import { parseArgs } from 'util'
+import { CONFIG } from '../config'
+import { getChain } from '../lib/chains'
+import { failure } from '../lib/exitCodes'
+import { loadManifest } from '../lib/manifest'
+import { EndpointHealth, checkRpcHealth, redactUrl } from '../lib/rpc'
+
+export const USAGE = `
+Usage: ovault rpc-health [options]
+
+Options:
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  --chain <chain>            Only this chain (repeatable; default: every chain)
+  --samples <n>              eth_blockNumber requests per endpoint for the latency (default: 3)
+  --max-skew <blocks>        Warn about endpoints further behind the highest one (default: 5)
+  --json                     Print the results as JSON
+  -h, --help                 Show this help
+
+Exits with an error when a chain has no endpoint answering.
+`
+
+export interface ChainHealth {
+    chain: string
+    quorum: number
+    endpoints: EndpointHealth[]
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+function printHealth(results: ChainHealth[], maxSkew: number): void {
+    const width = Math.max(...results.flatMap((result) => result.endpoints.map((endpoint) => redactUrl(endpoint.url).length)), 8)
+    console.log(`   ${'Chain'.padEnd(10)} ${'Endpoint'.padEnd(width)}  ${'Weight'.padEnd(6)}  ${'Status'.padEnd(6)}  ${'Latency'.padStart(8)}  ${'Block'.padStart(10)}  Skew`)
+    for (const { chain, endpoints } of results) {
+        for (const endpoint of endpoints) {
+            const lagging = endpoint.ok && endpoint.skew! > maxSkew
+            const status = !endpoint.ok ? 'DOWN' : lagging ? 'LAG' : 'ok'
+            const latency = endpoint.ok ? `${endpoint.latencyMs} ms` : '-'
+            const block = endpoint.ok ? String(endpoint.blockNumber) : '-'
+            const skew = endpoint.ok ? String(endpoint.skew) : endpoint.error!
+            console.log(`   ${chain.padEnd(10)} ${redactUrl(endpoint.url).padEnd(width)}  ${String(endpoint.weight).padEnd(6)}  ${status.padEnd(6)}  ${latency.padStart(8)}  ${block.padStart(10)}  ${skew}`)
+        }
+    }
+}
+
+// ============================================
+// COMMAND
+// ============================================
+export async function run(argv: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            deployment: { type: 'string' },
+            chain: { type: 'string', multiple: true },
+            samples: { type: 'string' },
+            'max-skew': { type: 'string' },
+            json: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+
+    const samples = Number(values.samples ?? 3)
+    const maxSkew = Number(values['max-skew'] ?? 5)
+    if (!Number.isInteger(samples) || samples <= 0) {
+        throw failure('config', `❌ --samples must be a positive integer (got ${values.samples})`)
+    }
+    if (!Number.isInteger(maxSkew) || maxSkew < 0) {
+        throw failure('config', `❌ --max-skew must be a non-negative integer (got ${values['max-skew']})`)
+    }
+
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const chains = values.chain ?? Object.keys(deployment.chains)
+    const results: ChainHealth[] = []
+    for (const key of chains) {
+        const chain = getChain(deployment, key)
+        results.push({ chain: key, quorum: chain.rpcQuorum ?? 1, endpoints: await checkRpcHealth(chain, samples, CONFIG.rpc.timeoutSeconds * 1000) })
+    }
+
+    if (values.json) {
+        console.log(JSON.stringify(results, null, 2))
+    } else {
+        console.log(`🩺 RPC health: ${deployment.name} (${samples} sample(s) per endpoint)\n`)
+        printHealth(results, maxSkew)
+    }
+
+    // A quorum needs enough healthy weight, a plain fallback just one endpoint
+    const unhealthy = results.filter(({ quorum, endpoints }) => endpoints.filter((endpoint) => endpoint.ok).reduce((sum, endpoint) => sum + endpoint.weight, 0) < quorum)
+    if (unhealthy.length > 0) {
+        throw failure('rpc', `❌ Not enough healthy RPC endpoints on ${unhealthy.map(({ chain, quorum }) => (quorum > 1 ? `${chain} (quorum ${quorum})` : chain)).join(', ')}`)
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * status
+ *
+ * One-shot status check of a sent transaction for support tickets: did the composed
+ * operation succeed, was it refunded (how much, to whom, on which chain), or is it still
+ * in flight / waiting for lzCompose. Exits non-zero unless the operation completed.
+ *
+ * Run: npm run ovault -- status --tx <hash> --chain base
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { parseArgs } from 'util'
+import { CONFIG } from '../config'
+import { getChain, getProvider } from '../lib/chains'
+import { failure } from '../lib/exitCodes'
+import { DeploymentManifest, loadManifest } from '../lib/manifest'
+import { getOFTDecimals } from '../lib/oft'
+import { HopResult, HopStatus, followMessages, isComplete } from '../lib/tracking'
+
+export const USAGE = `
+Usage: ovault status --tx <hash> --chain <chain> [options]
+
+Options:
+  --tx <hash>                Source transaction of the operation
+  --chain <chain>            Chain the transaction was sent on
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  -h, --help                 Show this help
+`
+
+const STATUS_LABELS: Record<HopStatus, string> = {
+    'waiting-for-bus': '🚌 waiting for the bus',
+    inflight: '⏳ in flight',
+    delivered: '✅ delivered',
+    'compose-pending': '⏸️  waiting for lzCompose',
+    composed: '✅ composed',
+    refunded: '↩️  refunded',
+    failed: '❌ failed',
+}
+
+async function formatAmount(deployment: DeploymentManifest, hop: HopResult, amount: BigNumber | undefined): Promise<string> {
+    if (!amount) {
+        return 'unknown amount'
+    }
+    try {
+        // The receiving OFT knows the token's decimals on the destination chain
+        const decimals = await getOFTDecimals(hop.packet.receiver, getProvider(deployment, hop.dst))
+        return `${ethers.utils.formatUnits(amount, decimals)} (${amount.toString()} LD)`
+    } catch {
+        return `${amount.toString()} LD`
+    }
+}
+
+function describe(hops: HopResult[]): string {
+    if (isComplete(hops)) {
+        return '✅ COMPLETED'
+    }
+    const refund = hops.find((hop) => hop.refund)
+    if (refund) {
+        return refund.status === 'inflight' ? '↩️  REFUNDED (refund still in flight)' : '↩️  REFUNDED'
+    }
+    const stuck = hops.find((hop) => hop.status !== 'delivered' && hop.status !== 'composed')!
+    switch (stuck.status) {
+        case 'compose-pending':
+            return '⏸️  STUCK - delivered to the composer but lzCompose has not been executed'
+        case 'waiting-for-bus':
+            return '🚌 WAITING FOR THE BUS - the Stargate bus ticket is booked but the bus has not been driven'
+        case 'failed':
+            return `❌ FAILED - ${stuck.error}`
+        case 'refunded':
+            return '↩️  REFUNDED'
+        default:
+            return '⏳ IN FLIGHT'
+    }
+}
+
+export async function run(argv: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            tx: { type: 'string' },
+            chain: { type: 'string' },
+            deployment: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+    if (!values.tx || !values.chain) {
+        throw failure('config', '❌ --tx and --chain are required')
+    }
+
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const chainConfig = getChain(deployment, values.chain)
+    const receipt = await getProvider(deployment, values.chain).getTransactionReceipt(values.tx)
+    if (!receipt) {
+        throw failure('config', `❌ Transaction ${values.tx} not found (or not mined yet) on ${chainConfig.name}`)
+    }
+    if (receipt.status === 0) {
+        throw failure('revert', `❌ Transaction ${values.tx} reverted on ${chainConfig.name}; nothing was sent`)
+    }
+
+    const hops = await followMessages(deployment, values.chain, receipt, { timeoutMs: 0, pollIntervalMs: 0, progress: false })
+
+    console.log('='.repeat(80))
+    console.log(`📋 Status of ${values.tx} (${chainConfig.name})`)
+    console.log('='.repeat(80))
+    if (hops.length === 0) {
+        console.log('ℹ️  The transaction sent no LayerZero messages')
+        return
+    }
+
+    let index = 0
+    for (const hop of hops) {
+        const route = `${getChain(deployment, hop.src).name} → ${getChain(deployment, hop.dst).name}`
+        console.log(`${hop.refund ? 'Refund' : `Hop ${++index}`}  ${route}  ${STATUS_LABELS[hop.status]}`)
+        if (hop.packet.ticketId) {
+            console.log(`   Bus ticket: ${hop.packet.ticketId.toString()}`)
+        }
+        if (hop.status !== 'waiting-for-bus') {
+            console.log(`   GUID: ${hop.packet.guid}  Nonce: ${hop.packet.nonce.toString()}`)
+        }
+        if (hop.deliveryTx) {
+            console.log(`   Delivered: ${hop.deliveryTx}`)
+        }
+        if (hop.composer) {
+            console.log(`   Composer:  ${hop.composer}${hop.composeTx ? ` (lzCompose ${hop.composeTx})` : ''}`)
+        }
+        if (hop.refund) {
+            const amount = await formatAmount(deployment, hop, hop.amountReceivedLD ?? hop.packet.amountSentLD)
+            const to = hop.recipient ?? 'the original sender'
+            console.log(`   Refund:    ${amount} to ${to} on ${getChain(deployment, hop.dst).name}`)
+        }
+        if (hop.error && hop.status !== 'refunded') {
+            console.log(`   ${hop.error}`)
+        }
+    }
+
+    const result = describe(hops)
+    console.log('='.repeat(80))
+    console.log(`Result: ${result}`)
+    console.log(`LayerZero Scan: https://layerzeroscan.com/tx/${values.tx}`)
+    console.log('='.repeat(80))
+
+    if (!isComplete(hops)) {
+        throw failure('crossChain', `❌ Operation not completed: ${result.replace(/^\S+\s+/, '')}`)
+    }
+}
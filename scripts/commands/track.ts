@@ -0,0 +1,65 @@
+/**
+ * track
+ *
+ * Follows the LayerZero messages of an already-sent transaction hop by hop:
+ * delivery, compose on the hub and the second hop, exiting non-zero on failure.
+ *
+ * Run: npm run ovault -- track --tx <hash> --chain base
+ */
+
+import { parseArgs } from 'util'
+import { CONFIG } from '../config'
+import { getChain, getProvider } from '../lib/chains'
+import { failure } from '../lib/exitCodes'
+import { loadManifest } from '../lib/manifest'
+import { defaultTrackOptions, parseTrackTimeout, trackMessages } from '../lib/tracking'
+
+export const USAGE = `
+Usage: ovault track --tx <hash> --chain <chain> [options]
+
+Options:
+  --tx <hash>                Source transaction (send, depositAndSend, redeemAndSend, ...)
+  --chain <chain>            Chain the transaction was sent on
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  --timeout <minutes>        Give up after this long (default: ${CONFIG.defaults.trackTimeoutMinutes})
+  -h, --help                 Show this help
+`
+
+export async function run(argv: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            tx: { type: 'string' },
+            chain: { type: 'string' },
+            deployment: { type: 'string' },
+            timeout: { type: 'string' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    if (values.help) {
+        console.log(USAGE)
+        return
+    }
+    if (!values.tx || !values.chain) {
+        throw failure('config', '❌ --tx and --chain are required')
+    }
+    const options = defaultTrackOptions()
+    options.timeoutMs = parseTrackTimeout(values.timeout, 'timeout') ?? options.timeoutMs
+
+    const deployment = loadManifest(values.deployment ?? CONFIG.deployment)
+    const chainConfig = getChain(deployment, values.chain)
+    const receipt = await getProvider(deployment, values.chain).getTransactionReceipt(values.tx)
+    if (!receipt) {
+        throw failure('config', `❌ Transaction ${values.tx} not found (or not mined yet) on ${chainConfig.name}`)
+    }
+    if (receipt.status === 0) {
+        throw failure('revert', `❌ Transaction ${values.tx} reverted on ${chainConfig.name}`)
+    }
+
+    console.log(`🔎 Tracking ${values.tx} from ${chainConfig.name}`)
+    const hops = await trackMessages(deployment, values.chain, receipt, options)
+    if (hops.length === 0) {
+        console.log('ℹ️  The transaction sent no LayerZero messages')
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * OVault CLI Configuration
+ *
+ * Shared by every `ovault` subcommand. Chains and contract addresses live in the
+ * deployment manifests under manifests/ and are selected with --deployment.
+ */
+
+import { ApprovalConfig } from './lib/approval'
+import { RpcOptions } from './lib/rpc'
+import { SignerConfig } from './lib/signer'
+import { StargateMode } from './lib/stargate'
+
+// ============================================
+// CONFIGURATION - EDIT THESE VALUES
+// ============================================
+export const CONFIG = {
+    // Where the signing key comes from (override with --signer). Secrets are never read from
+    // this file: env uses $OVAULT_PRIVATE_KEY, mnemonic uses $OVAULT_MNEMONIC, keystore prompts
+    // for its passphrase (or reads $OVAULT_KEYSTORE_PASSWORD). See scripts/lib/signer.ts.
+    signer: { type: 'env' } as SignerConfig,
+
+    // How much spenders may pull and how the allowance is granted (override with --approval,
+    // --approval-cap and --approval-method). See scripts/lib/approval.ts.
+    approval: { policy: 'exact', method: 'approve' } as ApprovalConfig,
+
+    // Every RPC request: per-endpoint timeout, attempts across a chain's rpcUrls, and the
+    // exponential back-off of an endpoint that timed out or answered 429 / 5xx. See scripts/lib/rpc.ts.
+    rpc: { timeoutSeconds: 30, maxAttempts: 6, backoffMs: 500, maxBackoffMs: 8000 } as RpcOptions,
+
+    // Deployment manifest used when --deployment is not passed (manifests/<name>.json)
+    deployment: 'katana-vbusdc',
+
+    // Defaults applied when the matching flag is not passed
+    defaults: {
+        lzReceiveGas: 100000,           // Gas for lzReceive on destination
+        lzComposeGasHub: 175000,        // Fallback gas for vault operation only (destination is hub)
+        lzComposeGasCrossChain: 395000, // Fallback gas for vault operation + second cross-chain hop
+        lzComposeGasMarginBps: 2000,    // 20% on top of the profiled lzCompose gas
+        maxSlippageBps: 50,             // 0.5% off the expected output of each hop (override with --max-slippage)
+        stargateMode: 'taxi' as StargateMode, // Plain Stargate transfers: taxi, bus or auto (override with --stargate-mode)
+        secondHopFeeBufferBps: 2000,    // 20% on top of the quoted second-hop fee for hub gas drift
+        trackTimeoutMinutes: 30,        // Give up tracking a message after this long
+        trackPollSeconds: 15,           // Delay between eth_getLogs polls while tracking
+        retryComposeGasBufferBps: 3000, // 30% on top of the estimated gas when retrying lzCompose
+        permitDeadlineMinutes: 30,      // Validity of EIP-2612 / Permit2 signatures
+        permit2ExpirationHours: 24,     // Lifetime of a Permit2 allowance
+    },
+}
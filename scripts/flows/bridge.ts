@@ -0,0 +1,163 @@
+/**
+ * Bridge Assets / Shares (No Vault)
+ *
+ * Sends assets or shares from one chain to another using the chain's OFT
+ * (OFT, OFTAdapter, ShareOFTAdapter or Stargate pool). Just a direct cross-chain transfer.
+ *
+ * Flow: Chain A (Assets|Shares) → Chain B (Assets|Shares)
+ */
+
+import { ethers } from 'ethers'
+import { parseUnits } from 'ethers/lib/utils'
+import { Options } from '@layerzerolabs/lz-v2-utilities'
+import { CONFIG } from '../config'
+import { AllowanceGrant, ensureAllowance, isApprovalRequired, settleAllowances } from '../lib/approval'
+import { getChain, getContract, getSigner } from '../lib/chains'
+import { createExecution, executeTx, noteJournaledSend, printPlan, reportFlow } from '../lib/execution'
+import { chooseMessagingFee } from '../lib/lzToken'
+import { checkNativeBalance, logMsgValue, msgValue } from '../lib/native'
+import { connectOFT } from '../lib/oft'
+import { checkOFTQuote } from '../lib/oftQuote'
+import { preflight } from '../lib/preflight'
+import { buildSendParam } from '../lib/sendParam'
+import { estimateOFTHop, logSlippage, resolveSlippageBps, worstCase } from '../lib/slippage'
+import { selectRide } from '../lib/stargate'
+import { ERC20_ABI } from '../lib/tokens'
+import { FlowParams, FlowResult } from './types'
+
+// Journal label of the send; resume finds it to tell whether the tokens already left
+const SEND_LABEL = 'OFT send'
+
+export type BridgeKind = 'assets' | 'shares'
+
+export async function bridge(kind: BridgeKind, params: FlowParams): Promise<FlowResult> {
+    const srcChainConfig = getChain(params.deployment, params.src)
+    const dstChainConfig = getChain(params.deployment, params.dst)
+    const oftAddress = getContract(params.deployment, params.src, kind === 'assets' ? 'assetOFT' : 'shareOFT')
+
+    console.log('='.repeat(80))
+    console.log(`Send ${kind === 'assets' ? 'Assets' : 'Shares'} (${srcChainConfig.name} → ${dstChainConfig.name})`)
+    console.log('='.repeat(80))
+
+    const execution = createExecution(params.dryRun, params.journal, params.report)
+    noteJournaledSend(execution, params.src, SEND_LABEL)
+    const wallet = await getSigner(params.deployment, params.src, params.signer)
+    const walletAddress = await wallet.getAddress()
+    const recipient = params.recipient ?? walletAddress
+
+    console.log(`Source: ${srcChainConfig.name} (EID: ${srcChainConfig.eid})`)
+    console.log(`Destination: ${dstChainConfig.name} (EID: ${dstChainConfig.eid})`)
+    console.log(`Amount: ${params.amount} ${kind}`)
+    console.log(`Recipient: ${recipient}`)
+    console.log('='.repeat(80))
+    console.log(`Your wallet: ${walletAddress}`)
+
+    const oft = connectOFT(oftAddress, wallet)
+
+    // Check if the token is native or ERC20 (shares are always ERC20)
+    const underlyingToken = await oft.token()
+    const isNativeToken = underlyingToken === ethers.constants.AddressZero
+
+    // Get decimals
+    let decimals: number
+    if (isNativeToken) {
+        decimals = 18
+        console.log(`ℹ️  Native token detected, using 18 decimals`)
+    } else {
+        const token = new ethers.Contract(underlyingToken, ERC20_ABI, wallet)
+        decimals = await token.decimals()
+    }
+
+    const amountUnits = parseUnits(params.amount, decimals)
+
+    // Build options
+    const options = Options.newOptions().addExecutorLzReceiveOption(params.lzReceiveGas ?? CONFIG.defaults.lzReceiveGas, 0)
+
+    // Build SendParam
+    const sendParam = buildSendParam({
+        dstEid: dstChainConfig.eid,
+        to: recipient,
+        amountLD: amountUnits,
+        minAmountLD: 0,
+        extraOptions: options.toHex(),
+    })
+
+    // Read-only checks before anything is approved or sent
+    await preflight(execution, {
+        deployment: params.deployment,
+        hub: params.hub,
+        hops: [{ label: `${srcChainConfig.name} → ${dstChainConfig.name}`, src: params.src, dst: params.dst, role: kind === 'assets' ? 'assetOFT' : 'shareOFT', sendParam }],
+    })
+
+    // Min amount: what the destination is credited (quoteOFT) less the slippage budget
+    const slippageBps = resolveSlippageBps(params.maxSlippageBps)
+    const hop = await estimateOFTHop(oft, sendParam, slippageBps, { label: `${srcChainConfig.name} → ${dstChainConfig.name}`, symbol: kind, decimals })
+    const minOverride = params.minAmount ? parseUnits(params.minAmount, decimals) : undefined
+    sendParam.minAmountLD = worstCase([hop], minOverride)
+    await checkOFTQuote(execution, oft, sendParam, hop)
+    logSlippage([hop], slippageBps, minOverride)
+
+    // Quote the transaction: the taxi, and the bus when a Stargate pool runs one to the destination
+    // (bus fares are native only, so paying in lzToken always takes the taxi)
+    console.log(`💭 Quoting transaction...`)
+    const stargateMode = params.payInLzToken ? 'taxi' : params.stargateMode ?? CONFIG.defaults.stargateMode
+    const { ride, sendParam: rideParam, fee: nativeFee } = await selectRide(execution, oft, sendParam, decimals, stargateMode)
+
+    // Approve ERC20 tokens once the limits, pool credit and bus have accepted the send
+    let grant: AllowanceGrant | undefined
+    if (!isNativeToken && (await isApprovalRequired(oft, underlyingToken))) {
+        grant = await ensureAllowance(
+            execution,
+            wallet,
+            { chain: params.src, token: underlyingToken, spender: oftAddress, amount: amountUnits, decimals, label: 'OFT' },
+            params.approval
+        )
+    }
+
+    const { fee: msgFee, grant: lzTokenGrant } = await chooseMessagingFee(execution, wallet, {
+        deployment: params.deployment,
+        chain: params.src,
+        oft,
+        sendParam: rideParam,
+        native: nativeFee,
+        payInLzToken: params.payInLzToken,
+        approval: params.approval,
+    })
+
+    // Native OFTs / pools take the amount in msg.value on top of the fee
+    const value = msgValue(isNativeToken ? amountUnits : 0, msgFee.nativeFee)
+    logMsgValue(value)
+    if (isNativeToken) {
+        await checkNativeBalance(execution, wallet, value)
+    }
+
+    const details = { src: params.src, dst: params.dst, amountLD: amountUnits, sendParam: rideParam, ride, slippage: { bps: slippageBps, hops: [hop] }, fee: msgFee, msgValue: value }
+    reportFlow(execution, { wallet: walletAddress, recipient }, details)
+
+    // Send the transaction
+    console.log(`📤 Sending transaction...`)
+    let receipt: ethers.providers.TransactionReceipt | undefined
+    try {
+        receipt = await executeTx(execution, wallet, params.src, SEND_LABEL, await oft.populateSend(rideParam, msgFee, walletAddress, { value: value.total }))
+    } finally {
+        await settleAllowances(execution, wallet, [grant, lzTokenGrant])
+    }
+    if (!receipt) {
+        printPlan(execution, `bridge-${kind}`, details)
+        return undefined
+    }
+
+    console.log('='.repeat(80))
+    console.log(`✅ ${kind === 'assets' ? 'Asset' : 'Share'} Transfer Transaction Sent!`)
+    console.log('='.repeat(80))
+    console.log(`Transaction Hash: ${receipt.transactionHash}`)
+    console.log(`LayerZero Scan: https://layerzeroscan.com/tx/${receipt.transactionHash}`)
+    if (ride === 'bus') {
+        console.log(`🚌 Seat booked on the bus: delivery follows once the bus to ${dstChainConfig.name} is driven`)
+    }
+    console.log('='.repeat(80))
+    console.log(`Flow: ${params.amount} ${kind} (${srcChainConfig.name}) → (${dstChainConfig.name})`)
+    console.log('='.repeat(80))
+
+    return receipt
+}
@@ -0,0 +1,280 @@
+/**
+ * Compose Deposit / Redemption (Spoke → Hub → Any Chain)
+ *
+ * Sends assets (or shares) from a spoke chain to the OVaultComposer on the hub,
+ * deposits (or redeems) them in the vault, and sends the output to the destination.
+ * When the destination is the hub, the output stays on the hub (no second hop).
+ *
+ * Flow: Spoke (Assets) → Hub (Vault Deposit) → Destination (Shares)
+ *       Spoke (Shares) → Hub (Vault Redeem)  → Destination (Assets)
+ */
+
+import { ethers } from 'ethers'
+import { parseUnits } from 'ethers/lib/utils'
+import { Options } from '@layerzerolabs/lz-v2-utilities'
+import { CONFIG } from '../config'
+import { AllowanceGrant, ensureAllowance, isApprovalRequired, settleAllowances } from '../lib/approval'
+import { getChain, getContract, getProvider, getSigner } from '../lib/chains'
+import { createExecution, executeTx, noteJournaledSend, noteQuote, printPlan, reportFlow } from '../lib/execution'
+import { failure } from '../lib/exitCodes'
+import { checkNativeBalance, logMsgValue, msgValue } from '../lib/native'
+import { ComposeGasProfile, profileComposeGas } from '../lib/gasProfile'
+import { chooseMessagingFee } from '../lib/lzToken'
+import { connectOFT } from '../lib/oft'
+import { checkOFTQuote } from '../lib/oftQuote'
+import { preflight } from '../lib/preflight'
+import { buildSendParam, encodeComposeMsg } from '../lib/sendParam'
+import { HopEstimate, estimateOFTHop, estimateVaultStep, logSlippage, resolveSlippageBps, worstCase } from '../lib/slippage'
+import { ERC20_ABI, VAULT_ABI } from '../lib/tokens'
+import { FlowParams, FlowResult } from './types'
+
+// Journal label of the send; resume finds it to tell whether the tokens already left
+const SEND_LABEL = 'OFT send to composer'
+
+export type ComposeKind = 'deposit' | 'redeem'
+
+export async function composeOperation(kind: ComposeKind, params: FlowParams): Promise<FlowResult> {
+    const isDeposit = kind === 'deposit'
+    const input = isDeposit ? 'assets' : 'shares'
+    const output = isDeposit ? 'shares' : 'assets'
+
+    console.log('='.repeat(80))
+    console.log(isDeposit ? 'Asset Deposit (Cross-Chain)' : 'Share Redemption (Cross-Chain)')
+    console.log('='.repeat(80))
+
+    if (params.src === params.hub) {
+        throw failure('config', `❌ Source chain cannot be hub chain. Use "ovault ${kind} --src ${params.hub}" for hub operations`)
+    }
+
+    const srcChainConfig = getChain(params.deployment, params.src)
+    const dstChainConfig = getChain(params.deployment, params.dst)
+    const hubChainConfig = getChain(params.deployment, params.hub)
+    const hasSecondHop = dstChainConfig.eid !== hubChainConfig.eid
+
+    const vaultAddress = getContract(params.deployment, params.hub, 'vault')
+    const composerAddress = getContract(params.deployment, params.hub, 'composer')
+    const srcOFTAddress = getContract(params.deployment, params.src, isDeposit ? 'assetOFT' : 'shareOFT')
+
+    const hubProvider = getProvider(params.deployment, params.hub)
+    const execution = createExecution(params.dryRun, params.journal, params.report)
+    noteJournaledSend(execution, params.src, SEND_LABEL)
+    const srcWallet = await getSigner(params.deployment, params.src, params.signer)
+    const srcWalletAddress = await srcWallet.getAddress()
+    const recipient = params.recipient ?? srcWalletAddress
+
+    console.log(`Source: ${srcChainConfig.name} (EID: ${srcChainConfig.eid})`)
+    console.log(`Hub: ${hubChainConfig.name} (EID: ${hubChainConfig.eid})`)
+    console.log(`Destination: ${dstChainConfig.name} (EID: ${dstChainConfig.eid})`)
+    console.log(`Amount: ${params.amount} ${input}`)
+    console.log(`Recipient: ${recipient}`)
+    console.log('='.repeat(80))
+    console.log(`Your wallet: ${srcWalletAddress}`)
+
+    // Get vault contract on hub to preview operations
+    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, hubProvider)
+
+    // Get decimals
+    const assetAddress = await vault.asset()
+    const assetToken = new ethers.Contract(assetAddress, ERC20_ABI, hubProvider)
+    const assetDecimals = await assetToken.decimals()
+    const shareDecimals = await vault.decimals()
+    const inputDecimals = isDeposit ? assetDecimals : shareDecimals
+    const outputDecimals = isDeposit ? shareDecimals : assetDecimals
+
+    const inputAmountUnits = parseUnits(params.amount, inputDecimals)
+    const slippageBps = resolveSlippageBps(params.maxSlippageBps)
+    const srcOFT = connectOFT(srcOFTAddress, srcWallet)
+
+    // First hop: what the hub is credited after dust removal and fees
+    const firstHopQuoteParam = buildSendParam({ dstEid: hubChainConfig.eid, to: composerAddress, amountLD: inputAmountUnits, minAmountLD: 0 })
+    const firstHop = await estimateOFTHop(srcOFT, firstHopQuoteParam, slippageBps, {
+        label: `${srcChainConfig.name} → ${hubChainConfig.name}`,
+        symbol: input,
+        decimals: inputDecimals,
+    })
+    await checkOFTQuote(execution, srcOFT, firstHopQuoteParam, firstHop)
+    const hubInputAmount = firstHop.expected
+
+    // Preview vault operation on what actually reaches the hub
+    let expectedOutputAmount: string
+    try {
+        const previewed = isDeposit ? await vault.previewDeposit(hubInputAmount) : await vault.previewRedeem(hubInputAmount)
+        expectedOutputAmount = previewed.toString()
+        console.log(`📊 Vault preview: ${ethers.utils.formatUnits(hubInputAmount, inputDecimals)} ${input} → ${(parseInt(expectedOutputAmount) / 10 ** outputDecimals).toFixed(6)} ${output}`)
+    } catch (error) {
+        console.warn(`⚠️  Vault preview failed, using 1:1 estimate`)
+        expectedOutputAmount = hubInputAmount.toString()
+    }
+
+    // Build second hop SendParam (hub → destination, or hub-local when destination is hub)
+    const secondHopSendParam = buildSendParam({
+        dstEid: dstChainConfig.eid,
+        to: recipient,
+        amountLD: expectedOutputAmount,
+        minAmountLD: 0,
+        extraOptions: Options.newOptions().addExecutorLzReceiveOption(params.lzReceiveGas ?? CONFIG.defaults.lzReceiveGas, 0).toHex(),
+    })
+
+    // Minimums: the vault output (checked by the composer) and, with a second hop, the credit on the destination
+    const outputStep = { symbol: output, decimals: outputDecimals }
+    const hops: HopEstimate[] = [firstHop, estimateVaultStep(ethers.BigNumber.from(expectedOutputAmount), slippageBps, { label: `Vault ${kind}`, ...outputStep })]
+    if (hasSecondHop) {
+        const hubOFT = connectOFT(getContract(params.deployment, params.hub, isDeposit ? 'shareOFT' : 'assetOFT'), hubProvider)
+        const secondHop = await estimateOFTHop(hubOFT, secondHopSendParam, slippageBps, { label: `${hubChainConfig.name} → ${dstChainConfig.name}`, ...outputStep })
+        // A second hop the hub pool cannot carry is refunded to the source, not delivered
+        await checkOFTQuote(execution, hubOFT, secondHopSendParam, secondHop)
+        hops.push(secondHop)
+    }
+    const minOverride = params.minAmount ? parseUnits(params.minAmount, outputDecimals) : undefined
+    secondHopSendParam.minAmountLD = worstCase(hops, minOverride)
+    logSlippage(hops, slippageBps, minOverride)
+
+    // Quote second hop
+    let lzComposeValue = params.lzComposeValue || '0'
+
+    if (!params.lzComposeValue && hasSecondHop) {
+        const hubOFT = connectOFT(getContract(params.deployment, params.hub, isDeposit ? 'shareOFT' : 'assetOFT'), hubProvider)
+
+        try {
+            const quoteFee = await hubOFT.quote(secondHopSendParam)
+            lzComposeValue = quoteFee.nativeFee
+                .mul(10000 + CONFIG.defaults.secondHopFeeBufferBps)
+                .div(10000)
+                .toString()
+            console.log(`💰 Quoted second hop fee: ${(parseInt(quoteFee.nativeFee.toString()) / 1e18).toFixed(6)} ETH (+${CONFIG.defaults.secondHopFeeBufferBps / 100}% buffer)`)
+        } catch (error) {
+            console.warn(`⚠️  Quote failed, using default: 0.025 ETH`)
+            lzComposeValue = '25000000000000000'
+        }
+    }
+
+    if (!hasSecondHop) {
+        lzComposeValue = '0'
+        console.log(`ℹ️  Destination is hub - no second hop needed`)
+    }
+
+    // Encode composeMsg
+    const composeMsg = encodeComposeMsg(secondHopSendParam, lzComposeValue)
+
+    // First hop SendParam: the compose option carries the lzCompose gas and the second hop's value
+    const defaultComposeGas = hasSecondHop ? CONFIG.defaults.lzComposeGasCrossChain : CONFIG.defaults.lzComposeGasHub
+    const firstHopSendParam = (lzComposeGas: number) =>
+        buildSendParam({
+            dstEid: hubChainConfig.eid,
+            to: composerAddress,
+            amountLD: inputAmountUnits,
+            minAmountLD: firstHop.min,
+            extraOptions: Options.newOptions().addExecutorComposeOption(0, lzComposeGas, lzComposeValue).toHex(),
+            composeMsg,
+        })
+
+    // Read-only checks before anything is profiled, approved or sent: both hops' peers and options,
+    // the vault and the composer (its maxRedeem cannot be read ahead: the composer holds no shares yet).
+    // Only the lzCompose gas changes once profiled, so the default stands in for it here
+    const hubRole = isDeposit ? 'shareOFT' : 'assetOFT'
+    await preflight(execution, {
+        deployment: params.deployment,
+        hub: params.hub,
+        hops: [
+            { label: `${srcChainConfig.name} → ${hubChainConfig.name}`, src: params.src, dst: params.hub, role: isDeposit ? 'assetOFT' : 'shareOFT', sendParam: firstHopSendParam(params.lzComposeGas ?? defaultComposeGas) },
+            ...(hasSecondHop ? [{ label: `${hubChainConfig.name} → ${dstChainConfig.name}`, src: params.hub, dst: params.dst, role: hubRole, sendParam: secondHopSendParam } as const] : []),
+        ],
+        vault: { operation: kind, amount: hubInputAmount, account: isDeposit ? composerAddress : undefined, symbol: input, decimals: inputDecimals },
+        composer: true,
+    })
+
+    // Profile lzCompose against hub state unless the gas is given, on the amount the hub is credited
+    let lzComposeGas = params.lzComposeGas
+    let gasProfile: ComposeGasProfile | undefined
+    if (lzComposeGas === undefined) {
+        try {
+            gasProfile = await profileComposeGas(params.deployment, {
+                hub: params.hub,
+                inputOFT: getContract(params.deployment, params.hub, isDeposit ? 'assetOFT' : 'shareOFT'),
+                amountLD: hubInputAmount,
+                composeFrom: srcWalletAddress,
+                composeMsg,
+                msgValue: lzComposeValue,
+            }, params.lzComposeGasMarginBps)
+            lzComposeGas = gasProfile.lzComposeGas.toNumber()
+            console.log(`⛽ Profiled lzCompose: ${gasProfile.measuredGas.toString()} gas → ${lzComposeGas} with overhead and ${gasProfile.marginBps / 100}% margin`)
+        } catch (error: any) {
+            lzComposeGas = defaultComposeGas
+            console.warn(`⚠️  lzCompose gas profiling failed, using default ${lzComposeGas}: ${error.message.replace(/^❌\s*/, '')}`)
+        }
+    }
+    noteQuote(execution, 'lzComposeGas', lzComposeGas)
+    noteQuote(execution, 'lzComposeValue', lzComposeValue)
+    const sendParam = firstHopSendParam(lzComposeGas)
+
+    // Check if the input is native or ERC20 (shares are always ERC20)
+    const underlyingToken = await srcOFT.token()
+    const isNativeToken = underlyingToken === ethers.constants.AddressZero
+
+    // Handle approval for ERC20 tokens
+    let grant: AllowanceGrant | undefined
+    if (!isNativeToken && (await isApprovalRequired(srcOFT, underlyingToken))) {
+        grant = await ensureAllowance(
+            execution,
+            srcWallet,
+            { chain: params.src, token: underlyingToken, spender: srcOFTAddress, amount: inputAmountUnits, decimals: inputDecimals, label: 'OFT' },
+            params.approval
+        )
+    }
+
+    // Quote the transaction (lzToken pays the first hop only; the composer pays the second in native)
+    console.log(`💭 Quoting transaction...`)
+    const { fee: msgFee, grant: lzTokenGrant } = await chooseMessagingFee(execution, srcWallet, {
+        deployment: params.deployment,
+        chain: params.src,
+        oft: srcOFT,
+        sendParam,
+        payInLzToken: params.payInLzToken,
+        approval: params.approval,
+    })
+
+    // Native OFTs / pools take the amount in msg.value on top of the fee (which covers both hops)
+    const value = msgValue(isNativeToken ? inputAmountUnits : 0, msgFee.nativeFee)
+    logMsgValue(value)
+    if (isNativeToken) {
+        await checkNativeBalance(execution, srcWallet, value)
+    }
+
+    const details = {
+        src: params.src,
+        hub: params.hub,
+        dst: params.dst,
+        expectedOutputLD: expectedOutputAmount,
+        sendParam,
+        slippage: { bps: slippageBps, hops, worstCase: secondHopSendParam.minAmountLD },
+        composeMsg: { secondHopSendParam, msgValue: lzComposeValue },
+        extraOptions: { lzComposeGas, lzComposeValue, gasProfile },
+        fee: msgFee,
+        msgValue: value,
+    }
+    reportFlow(execution, { wallet: srcWalletAddress, recipient }, details)
+
+    // Send the transaction
+    console.log(`📤 Sending transaction...`)
+    let receipt: ethers.providers.TransactionReceipt | undefined
+    try {
+        receipt = await executeTx(execution, srcWallet, params.src, SEND_LABEL, await srcOFT.populateSend(sendParam, msgFee, srcWalletAddress, { value: value.total }))
+    } finally {
+        await settleAllowances(execution, srcWallet, [grant, lzTokenGrant])
+    }
+    if (!receipt) {
+        printPlan(execution, `compose-${kind}`, details)
+        return undefined
+    }
+
+    console.log('='.repeat(80))
+    console.log(isDeposit ? '✅ Asset Deposit Transaction Sent!' : '✅ Share Redemption Transaction Sent!')
+    console.log('='.repeat(80))
+    console.log(`Transaction Hash: ${receipt.transactionHash}`)
+    console.log(`LayerZero Scan: https://layerzeroscan.com/tx/${receipt.transactionHash}`)
+    console.log('='.repeat(80))
+    console.log(`Flow: ${params.amount} ${input} (${srcChainConfig.name}) → Vault ${isDeposit ? 'Deposit' : 'Redeem'} (${hubChainConfig.name}) → ${isDeposit ? 'Shares' : 'Assets'} (${dstChainConfig.name})`)
+    console.log('='.repeat(80))
+
+    return receipt
+}
@@ -0,0 +1,182 @@
+/**
+ * Hub Deposit / Redeem & Send (via Composer)
+ *
+ * Deposits assets (or redeems shares) in the vault on the hub and sends the
+ * output to a spoke chain in a single transaction using the OVaultComposer.
+ *
+ * Flow: Hub (Assets) → Vault → Spoke (Shares)  - depositAndSend
+ *       Hub (Shares) → Vault → Spoke (Assets)  - redeemAndSend
+ */
+
+import { ethers } from 'ethers'
+import { parseUnits } from 'ethers/lib/utils'
+import { Options } from '@layerzerolabs/lz-v2-utilities'
+import { CONFIG } from '../config'
+import { AllowanceGrant, ensureAllowance, settleAllowances } from '../lib/approval'
+import { getChain, getContract, getSigner } from '../lib/chains'
+import { check, createExecution, executeTx, noteJournaledSend, noteQuote, printPlan, reportFlow } from '../lib/execution'
+import { failsAs, failure } from '../lib/exitCodes'
+import { checkNativeBalance, isNativeHub, logMsgValue, msgValue } from '../lib/native'
+import { connectComposer, connectOFT } from '../lib/oft'
+import { checkOFTQuote } from '../lib/oftQuote'
+import { preflight } from '../lib/preflight'
+import { buildSendParam } from '../lib/sendParam'
+import { estimateOFTHop, estimateVaultStep, logSlippage, resolveSlippageBps, worstCase } from '../lib/slippage'
+import { ERC20_ABI, VAULT_ABI } from '../lib/tokens'
+import { FlowParams, FlowResult } from './types'
+
+export type ComposerKind = 'deposit' | 'redeem'
+
+export async function composerOperationAndSend(kind: ComposerKind, params: FlowParams): Promise<FlowResult> {
+    const isDeposit = kind === 'deposit'
+    const input = isDeposit ? 'assets' : 'shares'
+    const output = isDeposit ? 'shares' : 'assets'
+
+    // OVaultComposer sends the output with MessagingFee(msg.value, 0): native only
+    if (params.payInLzToken) {
+        throw failure('config', `❌ --pay-in-lz-token does not apply to ${kind}AndSend: OVaultComposer pays the LayerZero fee in native`)
+    }
+
+    const hubChainConfig = getChain(params.deployment, params.hub)
+    const dstChainConfig = getChain(params.deployment, params.dst)
+
+    console.log('='.repeat(80))
+    console.log(`${hubChainConfig.name} ${input} → Vault → ${dstChainConfig.name} ${output} (via Composer)`)
+    console.log('='.repeat(80))
+
+    const vaultAddress = getContract(params.deployment, params.hub, 'vault')
+    const composerAddress = getContract(params.deployment, params.hub, 'composer')
+    const hubOFTAddress = getContract(params.deployment, params.hub, isDeposit ? 'shareOFT' : 'assetOFT')
+
+    const execution = createExecution(params.dryRun, params.journal, params.report)
+    const wallet = await getSigner(params.deployment, params.hub, params.signer)
+    const walletAddress = await wallet.getAddress()
+    const recipient = params.recipient ?? walletAddress
+
+    console.log(`Wallet: ${walletAddress}`)
+    console.log(`Amount: ${params.amount} ${input}`)
+    console.log(`Recipient on ${dstChainConfig.name}: ${recipient}`)
+    console.log('='.repeat(80))
+
+    // Vault and the token the composer pulls from the wallet
+    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, wallet)
+    const vaultDecimals = await vault.decimals()
+    const assetAddress = await vault.asset()
+    const inputToken = new ethers.Contract(isDeposit ? assetAddress : vaultAddress, ERC20_ABI, wallet)
+    const inputDecimals = await inputToken.decimals()
+    const outputDecimals = isDeposit ? vaultDecimals : await new ethers.Contract(assetAddress, ERC20_ABI, wallet).decimals()
+    const amount = parseUnits(params.amount, inputDecimals)
+
+    // ETH vaults take ETH through depositNativeAndSend (wrapped by the composer) unless --wrapped
+    const nativeDeposit = isDeposit && !params.wrapped && (await isNativeHub(params.deployment, params.hub, wallet.provider!))
+    const method = nativeDeposit ? 'depositNativeAndSend' : isDeposit ? 'depositAndSend' : 'redeemAndSend'
+    noteJournaledSend(execution, params.hub, method)
+
+    // Check balance (ETH is checked against amount + fee once the fee is quoted)
+    if (nativeDeposit) {
+        console.log(`💰 Your balance: ${ethers.utils.formatEther(await wallet.getBalance())} ETH`)
+    } else {
+        const balance = await inputToken.balanceOf(walletAddress)
+        console.log(`💰 Your balance: ${ethers.utils.formatUnits(balance, inputDecimals)} ${input}`)
+
+        check(execution, balance.gte(amount), 'funds', `❌ Insufficient balance. Need ${params.amount}, have ${ethers.utils.formatUnits(balance, inputDecimals)}`)
+    }
+
+    // Preview vault operation
+    const expectedOutput: ethers.BigNumber = await failsAs('quote', isDeposit ? vault.previewDeposit(amount) : vault.previewRedeem(amount))
+    console.log(`📊 Expected ${output}: ${ethers.utils.formatUnits(expectedOutput, outputDecimals)}`)
+
+    // Build sendParam for the destination
+    const sendParam = buildSendParam({
+        dstEid: dstChainConfig.eid,
+        to: recipient,
+        amountLD: expectedOutput,
+        minAmountLD: 0,
+        extraOptions: Options.newOptions().addExecutorLzReceiveOption(params.lzReceiveGas ?? CONFIG.defaults.lzReceiveGas, 0).toHex(),
+    })
+    const hubOFT = connectOFT(hubOFTAddress, wallet)
+
+    // The composer checks the vault output against the same minimum the OFT checks the credit with
+    const slippageBps = resolveSlippageBps(params.maxSlippageBps)
+    const hops = [
+        estimateVaultStep(expectedOutput, slippageBps, { label: `Vault ${kind}`, symbol: output, decimals: outputDecimals }),
+        await estimateOFTHop(hubOFT, sendParam, slippageBps, { label: `${hubChainConfig.name} → ${dstChainConfig.name}`, symbol: output, decimals: outputDecimals }),
+    ]
+    const minOverride = params.minAmount ? parseUnits(params.minAmount, outputDecimals) : undefined
+    sendParam.minAmountLD = worstCase(hops, minOverride)
+    await checkOFTQuote(execution, hubOFT, sendParam, hops[1])
+    logSlippage(hops, slippageBps, minOverride)
+
+    // Read-only checks before anything is approved or sent. The composer redeems shares it pulls
+    // from this wallet, so the wallet's maxRedeem stands in for its own
+    await preflight(execution, {
+        deployment: params.deployment,
+        hub: params.hub,
+        hops: [{ label: `${hubChainConfig.name} → ${dstChainConfig.name}`, src: params.hub, dst: params.dst, role: isDeposit ? 'shareOFT' : 'assetOFT', sendParam }],
+        vault: { operation: kind, amount, account: isDeposit ? composerAddress : walletAddress, symbol: input, decimals: inputDecimals },
+        composer: true,
+    })
+
+    // Quote the LayerZero fee for bridging the output
+
+    console.log(`\n💭 Quoting LayerZero fee for ${output} bridge...`)
+    const quote = await hubOFT.quote(sendParam)
+    const bridgeFee = quote.nativeFee
+    console.log(`💰 Bridge fee: ${ethers.utils.formatEther(bridgeFee)} ETH`)
+    noteQuote(execution, 'nativeFee', bridgeFee)
+
+    const composer = connectComposer(composerAddress, wallet)
+    const value = msgValue(nativeDeposit ? amount : 0, bridgeFee)
+    logMsgValue(value)
+
+    let tx: ethers.PopulatedTransaction
+    let grant: AllowanceGrant | undefined
+    if (nativeDeposit) {
+        // Native approach: no approval, msg.value carries the deposit on top of the fee
+        await checkNativeBalance(execution, wallet, value)
+        console.log(`\n📝 Deposit ETH & Bridge to ${dstChainConfig.name} (Single Transaction)`)
+        console.log(`   Calling ${method} on composer...`)
+        tx = await composer.populateDepositNativeAndSend(amount, sendParam, walletAddress, { value: value.total })
+    } else {
+        // Standard approach: Approve input token to Composer, then call depositAndSend / redeemAndSend
+        console.log(`\n📝 Step 1: Approve ${input} to Composer`)
+        grant = await ensureAllowance(
+            execution,
+            wallet,
+            { chain: params.hub, token: inputToken.address, spender: composerAddress, amount, decimals: inputDecimals, label: `${input} to composer` },
+            params.approval
+        )
+
+        console.log(`\n📝 Step 2: ${isDeposit ? 'Deposit' : 'Redeem'} & Bridge to ${dstChainConfig.name} (Single Transaction)`)
+        console.log(`   Calling ${method} on composer...`)
+        tx = isDeposit
+            ? await composer.populateDepositAndSend(amount, sendParam, walletAddress, { value: value.total })
+            : await composer.populateRedeemAndSend(amount, sendParam, walletAddress, { value: value.total })
+    }
+    const details = { hub: params.hub, dst: params.dst, amount, expectedOutput, sendParam, slippage: { bps: slippageBps, hops }, fee: quote, msgValue: value }
+    reportFlow(execution, { wallet: walletAddress, recipient }, details)
+    let receipt: ethers.providers.TransactionReceipt | undefined
+    try {
+        receipt = await executeTx(execution, wallet, params.hub, method, tx)
+    } finally {
+        await settleAllowances(execution, wallet, [grant])
+    }
+    if (!receipt) {
+        printPlan(execution, `${kind}-and-send`, details)
+        return undefined
+    }
+
+    console.log('\n' + '='.repeat(80))
+    console.log('✅ Success!')
+    console.log('='.repeat(80))
+    console.log(`Transaction: ${receipt.transactionHash}`)
+    console.log(`LayerZero Scan: https://layerzeroscan.com/tx/${receipt.transactionHash}`)
+    console.log('='.repeat(80))
+    console.log(`Summary:`)
+    console.log(`  • ${params.amount} ${input} ${isDeposit ? 'deposited into' : 'redeemed from'} vault`)
+    console.log(`  • ~${ethers.utils.formatUnits(expectedOutput, outputDecimals)} ${output} sent to ${dstChainConfig.name}`)
+    console.log(`  • Recipient: ${recipient}`)
+    console.log('='.repeat(80))
+
+    return receipt
+}
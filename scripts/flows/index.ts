@@ -0,0 +1,23 @@
+/**
+ * Flow registry: every route the CLI can resolve to
+ */
+
+import { FlowName } from '../lib/route'
+import { bridge } from './bridge'
+import { composeOperation } from './compose'
+import { composerOperationAndSend } from './composer'
+import { FlowParams, FlowResult } from './types'
+import { directDeposit, directRedeem } from './vault'
+
+export { FlowParams, FlowResult } from './types'
+
+export const FLOWS: Record<FlowName, (params: FlowParams) => Promise<FlowResult>> = {
+    'direct-deposit': directDeposit,
+    'direct-redeem': directRedeem,
+    'deposit-and-send': (params) => composerOperationAndSend('deposit', params),
+    'redeem-and-send': (params) => composerOperationAndSend('redeem', params),
+    'compose-deposit': (params) => composeOperation('deposit', params),
+    'compose-redeem': (params) => composeOperation('redeem', params),
+    'bridge-assets': (params) => bridge('assets', params),
+    'bridge-shares': (params) => bridge('shares', params),
+}
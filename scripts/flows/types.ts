@@ -0,0 +1,36 @@
+import { ethers } from 'ethers'
+import { ApprovalConfig } from '../lib/approval'
+import { Journal } from '../lib/journal'
+import { DeploymentManifest } from '../lib/manifest'
+import { FlowReport } from '../lib/report'
+import { SignerConfig } from '../lib/signer'
+import { StargateMode } from '../lib/stargate'
+
+/**
+ * Parameters shared by every flow. Chain values are keys of deployment.chains.
+ */
+export interface FlowParams {
+    deployment: DeploymentManifest
+    signer: SignerConfig
+    src: string
+    dst: string
+    hub: string
+    amount: string              // Human readable amount of the input token
+    recipient?: string          // Defaults to the signer address
+    minAmount?: string          // Optional: custom minimum output (human readable)
+    maxSlippageBps?: number     // Slippage budget off each hop's quoted output (default: CONFIG.defaults.maxSlippageBps)
+    lzReceiveGas?: number       // Gas for lzReceive on the destination
+    lzComposeGas?: number       // Gas for the composer's lzCompose on the hub (profiled if undefined)
+    lzComposeGasMarginBps?: number  // Margin on top of the profiled lzCompose gas
+    lzComposeValue?: string     // Wei forwarded to the second hop (auto-quoted if undefined)
+    approval?: ApprovalConfig   // Allowance policy and method (default: CONFIG.approval)
+    wrapped?: boolean           // Native-asset hub: spend / receive WETH instead of ETH
+    stargateMode?: StargateMode // Plain Stargate transfers: taxi, bus or the cheaper (default: CONFIG.defaults.stargateMode)
+    payInLzToken?: boolean      // Pay the protocol share of the LayerZero fee in the endpoint's lzToken (ZRO)
+    dryRun?: boolean            // Simulate and print the plan instead of broadcasting
+    journal?: Journal           // Record every broadcast; steps it already holds are not sent again
+    report?: FlowReport         // --json: filled with quotes, payloads and transactions as the flow runs
+}
+
+/** Receipt of the transaction that starts the cross-chain leg (undefined on a dry run) */
+export type FlowResult = ethers.providers.TransactionReceipt | undefined
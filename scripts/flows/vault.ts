@@ -0,0 +1,225 @@
+/**
+ * Direct Vault Deposit / Redemption (Hub → Hub)
+ *
+ * Deposits assets into, or redeems shares from, the vault on the hub chain.
+ * No LayerZero cross-chain messaging involved.
+ *
+ * Flow: Hub (Assets) → Hub (Vault Deposit) → Hub (Shares)
+ *       Hub (Shares) → Hub (Vault Redeem)  → Hub (Assets)
+ */
+
+import { ethers } from 'ethers'
+import { parseUnits } from 'ethers/lib/utils'
+import { ensureAllowance, settleAllowances } from '../lib/approval'
+import { getChain, getContract, getSigner } from '../lib/chains'
+import { check, createExecution, executeTx, noteJournaledSend, noteQuote, printPlan, reportFlow } from '../lib/execution'
+import { failure } from '../lib/exitCodes'
+import { isNativeHub, unwrap, wrapShortfall } from '../lib/native'
+import { preflight } from '../lib/preflight'
+import { applySlippage, resolveSlippageBps } from '../lib/slippage'
+import { ERC20_ABI, VAULT_ABI } from '../lib/tokens'
+import { FlowParams, FlowResult } from './types'
+
+export async function directDeposit(params: FlowParams): Promise<FlowResult> {
+    console.log('='.repeat(80))
+    console.log('Direct Vault Deposit (Hub → Hub)')
+    console.log('='.repeat(80))
+
+    const hubChainConfig = getChain(params.deployment, params.hub)
+    const vaultAddress = getContract(params.deployment, params.hub, 'vault')
+
+    const execution = createExecution(params.dryRun, params.journal, params.report)
+    noteJournaledSend(execution, params.hub, 'Vault deposit')
+    const wallet = await getSigner(params.deployment, params.hub, params.signer)
+    const walletAddress = await wallet.getAddress()
+    const recipient = params.recipient ?? walletAddress
+
+    console.log(`Hub: ${hubChainConfig.name} (EID: ${hubChainConfig.eid})`)
+    console.log(`Amount: ${params.amount} assets`)
+    console.log(`Recipient: ${recipient}`)
+    console.log('='.repeat(80))
+    console.log(`Your wallet: ${walletAddress}`)
+
+    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, wallet)
+
+    // Get decimals
+    const assetAddress = await vault.asset()
+    const assetToken = new ethers.Contract(assetAddress, ERC20_ABI, wallet)
+    const assetDecimals = await assetToken.decimals()
+    const shareDecimals = await vault.decimals()
+
+    const inputAmountUnits = parseUnits(params.amount, assetDecimals)
+
+    // ETH vaults: ETH counts towards the balance and is wrapped as needed, unless --wrapped
+    const wrapNative = !params.wrapped && (await isNativeHub(params.deployment, params.hub, wallet.provider!))
+
+    // Check balance
+    const balance = await assetToken.balanceOf(walletAddress)
+    if (wrapNative) {
+        const spendable = balance.add(await wallet.getBalance())
+        check(execution, spendable.gte(inputAmountUnits), 'funds', `❌ Insufficient balance. Required: ${params.amount}, Available: ${ethers.utils.formatEther(balance)} WETH + ${ethers.utils.formatEther(spendable.sub(balance))} ETH`)
+    } else {
+        check(execution, balance.gte(inputAmountUnits), 'funds', `❌ Insufficient balance. Required: ${params.amount}, Available: ${ethers.utils.formatUnits(balance, assetDecimals)}`)
+    }
+
+    // Preview deposit
+    let expectedShares: string
+    try {
+        const previewedShares = await vault.previewDeposit(inputAmountUnits)
+        expectedShares = previewedShares.toString()
+        noteQuote(execution, 'previewDeposit', previewedShares)
+        console.log(`📊 Vault preview: ${params.amount} assets → ${(parseInt(expectedShares) / 10 ** shareDecimals).toFixed(6)} shares`)
+    } catch (error) {
+        console.warn(`⚠️  Vault preview failed, proceeding with transaction...`)
+        expectedShares = inputAmountUnits.toString()
+    }
+
+    // Calculate minAmount with slippage
+    const slippageBps = resolveSlippageBps(params.maxSlippageBps)
+    const minAmountOut = params.minAmount ? parseUnits(params.minAmount, shareDecimals) : applySlippage(expectedShares, slippageBps)
+    console.log(`📉 Max slippage ${(slippageBps / 100).toFixed(2)}%: worst-case output ${ethers.utils.formatUnits(minAmountOut, shareDecimals)} shares`)
+
+    await preflight(execution, {
+        deployment: params.deployment,
+        hub: params.hub,
+        hops: [],
+        vault: { operation: 'deposit', amount: inputAmountUnits, account: recipient, symbol: 'assets', decimals: assetDecimals },
+    })
+
+    // Check slippage
+    if (ethers.BigNumber.from(expectedShares).lt(minAmountOut)) {
+        throw failure('quote', `❌ Expected output ${expectedShares} is less than minimum ${minAmountOut.toString()}`)
+    }
+
+    const wrapped = wrapNative ? await wrapShortfall(execution, wallet, params.hub, assetAddress, inputAmountUnits) : undefined
+
+    // Check and handle approval
+    const grant = await ensureAllowance(
+        execution,
+        wallet,
+        { chain: params.hub, token: assetAddress, spender: vaultAddress, amount: inputAmountUnits, decimals: assetDecimals, label: 'vault' },
+        params.approval
+    )
+
+    const details = { hub: params.hub, assets: inputAmountUnits, wrapped, expectedShares, minShares: minAmountOut, recipient }
+    reportFlow(execution, { wallet: walletAddress, recipient }, details)
+
+    // Execute deposit
+    console.log(`📤 Depositing ${params.amount} assets to vault...`)
+    let receipt: ethers.providers.TransactionReceipt | undefined
+    try {
+        receipt = await executeTx(execution, wallet, params.hub, 'Vault deposit', await vault.populateTransaction.deposit(inputAmountUnits, recipient))
+    } finally {
+        await settleAllowances(execution, wallet, [grant])
+    }
+    if (!receipt) {
+        printPlan(execution, 'direct-deposit', details)
+        return undefined
+    }
+
+    console.log('='.repeat(80))
+    console.log('✅ Direct Vault Deposit Successful!')
+    console.log('='.repeat(80))
+    console.log(`Transaction Hash: ${receipt.transactionHash}`)
+    console.log(`Deposited: ${params.amount} assets`)
+    console.log(`Expected Shares: ~${(parseInt(expectedShares) / 10 ** shareDecimals).toFixed(6)} shares`)
+    console.log(`Recipient: ${recipient}`)
+    console.log('='.repeat(80))
+
+    return receipt
+}
+
+export async function directRedeem(params: FlowParams): Promise<FlowResult> {
+    console.log('='.repeat(80))
+    console.log('Direct Vault Redemption (Hub → Hub)')
+    console.log('='.repeat(80))
+
+    const hubChainConfig = getChain(params.deployment, params.hub)
+    const vaultAddress = getContract(params.deployment, params.hub, 'vault')
+
+    const execution = createExecution(params.dryRun, params.journal, params.report)
+    noteJournaledSend(execution, params.hub, 'Vault redeem')
+    const wallet = await getSigner(params.deployment, params.hub, params.signer)
+    const walletAddress = await wallet.getAddress()
+    const recipient = params.recipient ?? walletAddress
+
+    console.log(`Hub: ${hubChainConfig.name} (EID: ${hubChainConfig.eid})`)
+    console.log(`Amount: ${params.amount} shares`)
+    console.log(`Recipient: ${recipient}`)
+    console.log('='.repeat(80))
+    console.log(`Your wallet: ${walletAddress}`)
+
+    const vault = new ethers.Contract(vaultAddress, VAULT_ABI, wallet)
+
+    // Get decimals
+    const assetAddress = await vault.asset()
+    const assetToken = new ethers.Contract(assetAddress, ERC20_ABI, wallet)
+    const assetDecimals = await assetToken.decimals()
+    const shareDecimals = await vault.decimals()
+
+    const inputAmountUnits = parseUnits(params.amount, shareDecimals)
+
+    // Check balance
+    const balance = await vault.balanceOf(walletAddress)
+    check(execution, balance.gte(inputAmountUnits), 'funds', `❌ Insufficient share balance. Required: ${params.amount}, Available: ${ethers.utils.formatUnits(balance, shareDecimals)}`)
+
+    // Preview redemption
+    let expectedAssets: string
+    try {
+        const previewedAssets = await vault.previewRedeem(inputAmountUnits)
+        expectedAssets = previewedAssets.toString()
+        noteQuote(execution, 'previewRedeem', previewedAssets)
+        console.log(`📊 Vault preview: ${params.amount} shares → ${(parseInt(expectedAssets) / 10 ** assetDecimals).toFixed(6)} assets`)
+    } catch (error) {
+        console.warn(`⚠️  Vault preview failed, proceeding with transaction...`)
+        expectedAssets = inputAmountUnits.toString()
+    }
+
+    // Calculate minAmount with slippage
+    const slippageBps = resolveSlippageBps(params.maxSlippageBps)
+    const minAmountOut = params.minAmount ? parseUnits(params.minAmount, assetDecimals) : applySlippage(expectedAssets, slippageBps)
+    console.log(`📉 Max slippage ${(slippageBps / 100).toFixed(2)}%: worst-case output ${ethers.utils.formatUnits(minAmountOut, assetDecimals)} assets`)
+
+    // Check slippage
+    if (ethers.BigNumber.from(expectedAssets).lt(minAmountOut)) {
+        throw failure('quote', `❌ Expected output ${expectedAssets} is less than minimum ${minAmountOut.toString()}`)
+    }
+
+    await preflight(execution, {
+        deployment: params.deployment,
+        hub: params.hub,
+        hops: [],
+        vault: { operation: 'redeem', amount: inputAmountUnits, account: walletAddress, symbol: 'shares', decimals: shareDecimals },
+    })
+
+    // ETH vaults: redeemed WETH is unwrapped when it lands in this wallet, unless --wrapped
+    const unwrapNative = !params.wrapped && recipient.toLowerCase() === walletAddress.toLowerCase() && (await isNativeHub(params.deployment, params.hub, wallet.provider!))
+
+    const details = { hub: params.hub, shares: inputAmountUnits, expectedAssets, minAssets: minAmountOut, recipient, unwrap: unwrapNative }
+    reportFlow(execution, { wallet: walletAddress, recipient }, details)
+
+    // Execute redeem
+    console.log(`📤 Redeeming ${params.amount} shares from vault...`)
+    const receipt = await executeTx(execution, wallet, params.hub, 'Vault redeem', await vault.populateTransaction.redeem(inputAmountUnits, recipient, walletAddress))
+    if (!receipt) {
+        printPlan(execution, 'direct-redeem', details)
+        return undefined
+    }
+    if (unwrapNative) {
+        const topic = vault.interface.getEventTopic('Withdraw')
+        const log = receipt.logs.find((log) => log.address.toLowerCase() === vaultAddress.toLowerCase() && log.topics[0] === topic)
+        const assets = log ? vault.interface.parseLog(log).args.assets : ethers.BigNumber.from(expectedAssets)
+        await unwrap(execution, wallet, params.hub, assetAddress, assets)
+    }
+
+    console.log('='.repeat(80))
+    console.log('✅ Direct Vault Redemption Successful!')
+    console.log('='.repeat(80))
+    console.log(`Transaction Hash: ${receipt.transactionHash}`)
+    console.log(`Redeemed: ${params.amount} shares`)
+    console.log(`Expected Assets: ~${(parseInt(expectedAssets) / 10 ** assetDecimals).toFixed(6)} assets`)
+    console.log(`Recipient: ${recipient}`)
+    console.log('='.repeat(80))
+
+    return receipt
+}
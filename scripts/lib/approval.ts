@@ -0,0 +1,331 @@
+/**
+ * Token Approvals
+ *
+ * Every flow grants allowances through `ensureAllowance`, so one policy decides how much an
+ * OFT adapter, Stargate pool, composer or vault may pull from the wallet:
+ *   - exact         The amount of this operation (default)
+ *   - capped        A standing allowance of --approval-cap; larger amounts are refused
+ *   - infinite      MaxUint256, approved once
+ *   - revoke-after  The amount of this operation; whatever is left is zeroed once the send is
+ *                   done, whether it went out or failed
+ *
+ * The allowance is granted with an ERC20 approve, an EIP-2612 permit signature (for tokens
+ * that implement it; the wallet submits the permit itself) or a Permit2 allowance. Permit2
+ * only serves spenders that pull through Permit2; the OFT adapters, Stargate pools, composer
+ * and vaults these flows approve all pull with transferFrom, so they need approve or permit.
+ */
+
+import { BigNumber, TypedDataDomain, TypedDataField, ethers } from 'ethers'
+import { parseUnits } from 'ethers/lib/utils'
+import { CONFIG } from '../config'
+import { Execution, executeTx } from './execution'
+import { failure } from './exitCodes'
+import { OFT } from './oft'
+
+// ============================================
+// TYPES
+// ============================================
+export const APPROVAL_POLICIES = ['exact', 'capped', 'infinite', 'revoke-after'] as const
+export type ApprovalPolicy = (typeof APPROVAL_POLICIES)[number]
+
+export const APPROVAL_METHODS = ['approve', 'permit', 'permit2'] as const
+export type ApprovalMethod = (typeof APPROVAL_METHODS)[number]
+
+export interface ApprovalConfig {
+    policy: ApprovalPolicy
+    method: ApprovalMethod
+    cap?: string                // capped: human readable allowance to keep in place
+}
+
+// Canonical Permit2 deployment (same address on every chain it is deployed to)
+export const PERMIT2_ADDRESS = '0x000000000022D473030F116dDEE9F6B43aC78BA3'
+
+const MAX_UINT160 = BigNumber.from(2).pow(160).sub(1)
+
+export const PERMIT_ABI = [
+    'function name() view returns (string)',
+    'function version() view returns (string)',
+    'function nonces(address) view returns (uint256)',
+    'function DOMAIN_SEPARATOR() view returns (bytes32)',
+    'function allowance(address,address) view returns (uint256)',
+    'function approve(address,uint256) returns (bool)',
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+]
+
+export const PERMIT2_ABI = [
+    'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+    'function permit(address owner, tuple(tuple(address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature)',
+    'function lockdown(tuple(address token, address spender)[] approvals)',
+]
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+}
+
+const PERMIT2_TYPES = {
+    PermitSingle: [
+        { name: 'details', type: 'PermitDetails' },
+        { name: 'spender', type: 'address' },
+        { name: 'sigDeadline', type: 'uint256' },
+    ],
+    PermitDetails: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint160' },
+        { name: 'expiration', type: 'uint48' },
+        { name: 'nonce', type: 'uint48' },
+    ],
+}
+
+/** What a flow needs approved: `spender` pulls `amount` of `token` on `chain` */
+export interface AllowanceRequest {
+    chain: string
+    token: string
+    spender: string
+    amount: BigNumber
+    decimals: number
+    label: string               // Spender description used in transaction labels, e.g. "OFT"
+}
+
+/** Handed back by ensureAllowance; settleAllowance applies revoke-after once the operation is sent */
+export interface AllowanceGrant {
+    request: AllowanceRequest
+    config: ApprovalConfig
+    method: ApprovalMethod      // Method actually used (permit falls back to approve)
+}
+
+// ============================================
+// CLI
+// ============================================
+
+/** parseArgs option descriptors shared by every command that approves tokens */
+export const APPROVAL_CLI_OPTIONS = {
+    approval: { type: 'string' },
+    'approval-cap': { type: 'string' },
+    'approval-method': { type: 'string' },
+} as const
+
+export const APPROVAL_USAGE = `Approval options:
+  --approval <policy>        exact | capped | infinite | revoke-after (default: CONFIG.approval.policy)
+  --approval-cap <amount>    Standing allowance for --approval capped (human readable)
+  --approval-method <method> approve | permit (EIP-2612) | permit2 (default: CONFIG.approval.method)
+                             permit2 only serves spenders that pull through Permit2; the OFTs, pools,
+                             composer and vaults of these flows pull with transferFrom`
+
+type ApprovalCliValues = { [K in keyof typeof APPROVAL_CLI_OPTIONS]?: string }
+
+/** Merge --approval / --approval-cap / --approval-method over the configured policy */
+export function resolveApprovalConfig(values: ApprovalCliValues, fallback: ApprovalConfig): ApprovalConfig {
+    const config: ApprovalConfig = {
+        policy: (values.approval ?? fallback.policy) as ApprovalPolicy,
+        method: (values['approval-method'] ?? fallback.method) as ApprovalMethod,
+        cap: values['approval-cap'] ?? fallback.cap,
+    }
+    if (!APPROVAL_POLICIES.includes(config.policy)) {
+        throw failure('config', `❌ Unknown approval policy "${config.policy}". Use one of: ${APPROVAL_POLICIES.join(', ')}`)
+    }
+    if (!APPROVAL_METHODS.includes(config.method)) {
+        throw failure('config', `❌ Unknown approval method "${config.method}". Use one of: ${APPROVAL_METHODS.join(', ')}`)
+    }
+    if (config.policy === 'capped' && !config.cap) {
+        throw failure('config', '❌ --approval capped needs --approval-cap <amount>')
+    }
+    return config
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * Whether the OFT pulls its token with transferFrom on send. OFTs that predate
+ * approvalRequired() revert on it; for those only an adapter (token() is not the OFT itself)
+ * needs an allowance. Any other error is a real failure and is thrown.
+ */
+export async function isApprovalRequired(oft: OFT, token: string): Promise<boolean> {
+    try {
+        return await oft.approvalRequired()
+    } catch (error: any) {
+        if (error.code !== ethers.errors.CALL_EXCEPTION) {
+            throw error
+        }
+        const required = token.toLowerCase() !== oft.address.toLowerCase()
+        console.log(`ℹ️  ${oft.address} has no approvalRequired(); ${required ? 'adapter, approval required' : 'OFT burns its own token, no approval required'}`)
+        return required
+    }
+}
+
+/** The allowance the policy grants for `amount` */
+function allowanceTarget(request: AllowanceRequest, config: ApprovalConfig): BigNumber {
+    switch (config.policy) {
+        case 'infinite':
+            return ethers.constants.MaxUint256
+        case 'capped': {
+            const cap = parseUnits(config.cap!, request.decimals)
+            if (request.amount.gt(cap)) {
+                throw failure('config', 
+                    `❌ ${ethers.utils.formatUnits(request.amount, request.decimals)} exceeds the approval cap of ${config.cap}. Raise --approval-cap or use another --approval policy`
+                )
+            }
+            return cap
+        }
+        default:
+            return request.amount
+    }
+}
+
+/** EIP-2612 domain of `token`, if it implements permit with a domain we can reproduce */
+async function permitDomain(token: ethers.Contract, chainId: number): Promise<TypedDataDomain | undefined> {
+    try {
+        const [name, separator] = await Promise.all([token.name(), token.DOMAIN_SEPARATOR()])
+        const version: string = await token.version().catch(() => '1')
+        const domain = { name, version, chainId, verifyingContract: token.address }
+        return ethers.utils._TypedDataEncoder.hashDomain(domain) === separator ? domain : undefined
+    } catch {
+        return undefined
+    }
+}
+
+async function signTypedData(signer: ethers.Signer, domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, unknown>): Promise<string> {
+    // Wallet and JsonRpcSigner implement ethers v5's (still underscored) typed data signing
+    const typed = signer as ethers.Signer & { _signTypedData?: ethers.Wallet['_signTypedData'] }
+    if (!typed._signTypedData) {
+        throw failure('config', '❌ This signer cannot sign typed data (EIP-712); use --approval-method approve')
+    }
+    return typed._signTypedData(domain, types, value)
+}
+
+function deadline(seconds: number): number {
+    return Math.floor(Date.now() / 1000) + seconds
+}
+
+// ============================================
+// APPROVALS
+// ============================================
+
+/**
+ * Make sure `request.spender` may pull `request.amount`, granting the allowance the policy
+ * asks for when the current one is short. Transactions go through executeTx, so dry runs
+ * and journals see them like any other step.
+ */
+export async function ensureAllowance(
+    execution: Execution,
+    signer: ethers.Signer,
+    request: AllowanceRequest,
+    config: ApprovalConfig = CONFIG.approval
+): Promise<AllowanceGrant> {
+    const owner = await signer.getAddress()
+    const target = allowanceTarget(request, config)
+    const token = new ethers.Contract(request.token, PERMIT_ABI, signer)
+    const grant: AllowanceGrant = { request, config, method: config.method }
+
+    if (config.method === 'permit2') {
+        await grantPermit2(execution, signer, owner, token, request, target)
+        return grant
+    }
+
+    console.log(`🔒 Checking ${request.label} allowance...`)
+    const current: BigNumber = await token.allowance(owner, request.spender)
+    if (current.gte(request.amount)) {
+        console.log(`✅ Allowance already covers ${ethers.utils.formatUnits(request.amount, request.decimals)}`)
+        return grant
+    }
+
+    const amountText = target.eq(ethers.constants.MaxUint256) ? 'unlimited' : ethers.utils.formatUnits(target, request.decimals)
+    if (config.method === 'permit') {
+        const domain = await permitDomain(token, await signer.getChainId())
+        if (domain) {
+            console.log(`✍️  Signing EIP-2612 permit for ${amountText} (${config.policy})...`)
+            const value = { owner, spender: request.spender, value: target, nonce: await token.nonces(owner), deadline: deadline(CONFIG.defaults.permitDeadlineMinutes * 60) }
+            const { v, r, s } = ethers.utils.splitSignature(await signTypedData(signer, domain, PERMIT_TYPES, value))
+            await executeTx(execution, signer, request.chain, `Permit ${request.label}`, await token.populateTransaction.permit(owner, request.spender, target, value.deadline, v, r, s))
+            return grant
+        }
+        console.warn(`⚠️  ${request.token} does not implement EIP-2612 permit; approving instead`)
+        grant.method = 'approve'
+    }
+
+    console.log(`🔓 Approving ${amountText} (${config.policy})...`)
+    await executeTx(execution, signer, request.chain, `Approve ${request.label}`, await token.populateTransaction.approve(request.spender, target))
+    return grant
+}
+
+/** Permit2: the token is approved to Permit2, which then grants the spender an expiring allowance */
+async function grantPermit2(execution: Execution, signer: ethers.Signer, owner: string, token: ethers.Contract, request: AllowanceRequest, target: BigNumber): Promise<void> {
+    if ((await signer.provider!.getCode(PERMIT2_ADDRESS)) === '0x') {
+        throw failure('config', `❌ Permit2 is not deployed on ${request.chain}; use --approval-method approve or permit`)
+    }
+
+    const tokenAllowance: BigNumber = await token.allowance(owner, PERMIT2_ADDRESS)
+    if (tokenAllowance.lt(request.amount)) {
+        console.log(`🔓 Approving Permit2 to spend the token...`)
+        await executeTx(execution, signer, request.chain, `Approve Permit2 for ${request.label}`, await token.populateTransaction.approve(PERMIT2_ADDRESS, target))
+    }
+
+    const permit2 = new ethers.Contract(PERMIT2_ADDRESS, PERMIT2_ABI, signer)
+    const { amount, expiration, nonce } = await permit2.allowance(owner, request.token, request.spender)
+    if (amount.gte(request.amount) && expiration > deadline(60)) {
+        console.log(`✅ Permit2 allowance already covers ${ethers.utils.formatUnits(request.amount, request.decimals)}`)
+        return
+    }
+
+    console.log(`✍️  Signing Permit2 allowance for ${target.gt(MAX_UINT160) ? 'unlimited' : ethers.utils.formatUnits(target, request.decimals)}...`)
+    const permitSingle = {
+        details: {
+            token: request.token,
+            amount: target.gt(MAX_UINT160) ? MAX_UINT160 : target,
+            expiration: deadline(CONFIG.defaults.permit2ExpirationHours * 3600),
+            nonce,
+        },
+        spender: request.spender,
+        sigDeadline: deadline(CONFIG.defaults.permitDeadlineMinutes * 60),
+    }
+    const domain = { name: 'Permit2', chainId: await signer.getChainId(), verifyingContract: PERMIT2_ADDRESS }
+    const signature = await signTypedData(signer, domain, PERMIT2_TYPES, permitSingle)
+    await executeTx(execution, signer, request.chain, `Permit2 ${request.label}`, await permit2.populateTransaction.permit(owner, permitSingle, signature))
+}
+
+/** settleAllowance for each grant the operation made; flows call it in a finally, so a failed send is settled too */
+export async function settleAllowances(execution: Execution, signer: ethers.Signer, grants: (AllowanceGrant | undefined)[]): Promise<void> {
+    for (const grant of grants) {
+        if (grant) {
+            await settleAllowance(execution, signer, grant)
+        }
+    }
+}
+
+/** revoke-after: zero whatever allowance the operation left behind (dust, partial fills, a failed send) */
+export async function settleAllowance(execution: Execution, signer: ethers.Signer, grant: AllowanceGrant): Promise<void> {
+    if (grant.config.policy !== 'revoke-after') {
+        return
+    }
+    const { request } = grant
+    const owner = await signer.getAddress()
+
+    if (grant.method === 'permit2') {
+        const permit2 = new ethers.Contract(PERMIT2_ADDRESS, PERMIT2_ABI, signer)
+        const { amount } = await permit2.allowance(owner, request.token, request.spender)
+        if (amount.isZero() && !execution.dryRun) {
+            console.log(`✅ No Permit2 allowance left for ${request.label}`)
+            return
+        }
+        console.log(`🔐 Revoking the Permit2 allowance of ${request.label}...`)
+        await executeTx(execution, signer, request.chain, `Revoke ${request.label}`, await permit2.populateTransaction.lockdown([{ token: request.token, spender: request.spender }]))
+        return
+    }
+
+    const token = new ethers.Contract(request.token, PERMIT_ABI, signer)
+    const remaining: BigNumber = await token.allowance(owner, request.spender)
+    // A dry run never spent the allowance it planned, so the revoke is always part of the plan
+    if (remaining.isZero() && !execution.dryRun) {
+        console.log(`✅ No allowance left for ${request.label}`)
+        return
+    }
+    console.log(`🔐 Revoking the remaining ${request.label} allowance...`)
+    await executeTx(execution, signer, request.chain, `Revoke ${request.label}`, await token.populateTransaction.approve(request.spender, 0))
+}
@@ -0,0 +1,312 @@
+/**
+ * Deployment Wiring Audit
+ *
+ * Reads the hub vault, composer and every asset / share OFT in a manifest and cross-checks
+ * each directed pathway of both meshes: peers, shared decimals, send / receive libraries,
+ * DVN and executor configs, and enforced options. Each OFT's owner and endpoint delegate
+ * are reported too. The result is a matrix of ok / warn / fail cells, printed as a table or
+ * written as JSON.
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { getChain, getEndpoint, getProvider } from './chains'
+import { CONFIG_TYPE_EXECUTOR, CONFIG_TYPE_ULN, ENDPOINT_V2_ABI, UlnConfig, decodeExecutorConfig, decodeUlnConfig } from './endpoint'
+import { decodeOptions } from './inspect'
+import { ChainContracts, DeploymentManifest } from './manifest'
+import { COMPOSER_WIRING_ABI, MSG_TYPE_SEND, MSG_TYPE_SEND_AND_CALL, OAPP_ABI, optionalView } from './preflight'
+
+// ============================================
+// TYPES
+// ============================================
+export const AUDIT_CHECKS = ['peer', 'decimals', 'libraries', 'dvns', 'executor', 'options'] as const
+export type AuditCheck = (typeof AUDIT_CHECKS)[number]
+
+export type AuditStatus = 'ok' | 'warn' | 'fail' | 'n/a'
+
+export interface AuditCell {
+    status: AuditStatus
+    detail: string
+}
+
+export type MeshRole = 'assetOFT' | 'shareOFT'
+
+export interface PathwayAudit {
+    mesh: MeshRole
+    from: string
+    to: string
+    cells: Record<AuditCheck, AuditCell>
+}
+
+export interface OAppAudit {
+    chain: string
+    role: MeshRole
+    address: string
+    owner?: string
+    delegate?: string
+    ownership: AuditCell
+}
+
+export interface AuditReport {
+    deployment: string
+    hub: string
+    hubChecks: { name: string; cell: AuditCell }[]
+    oapps: OAppAudit[]
+    pathways: PathwayAudit[]
+    summary: Record<AuditStatus, number>
+}
+
+const OFT_VIEWS_ABI = ['function owner() view returns (address)', 'function sharedDecimals() view returns (uint8)', 'function token() view returns (address)']
+
+// One end of a pathway: the OFT, its endpoint and its EID
+interface MeshMember {
+    chain: string
+    eid: number
+    oft: ethers.Contract
+    endpoint: ethers.Contract
+}
+
+const ok = (detail: string): AuditCell => ({ status: 'ok', detail })
+const warn = (detail: string): AuditCell => ({ status: 'warn', detail })
+const fail = (detail: string): AuditCell => ({ status: 'fail', detail })
+const na = (detail: string): AuditCell => ({ status: 'n/a', detail })
+
+function same(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+function describeUln(uln: UlnConfig): string {
+    const optional = uln.optionalDVNCount > 0 ? ` + ${uln.optionalDVNThreshold}/${uln.optionalDVNCount} optional` : ''
+    return `${uln.requiredDVNCount} required${optional}, ${uln.confirmations} conf.`
+}
+
+// ============================================
+// PATHWAY CHECKS
+// ============================================
+async function checkPeer(from: MeshMember, to: MeshMember): Promise<AuditCell> {
+    const peer: string | undefined = await optionalView(() => from.oft.peers(to.eid))
+    if (peer === undefined) {
+        const credit: BigNumber | undefined = await optionalView(() => from.oft.paths(to.eid))
+        return credit === undefined ? fail('no peers() or paths()') : ok('Stargate path')
+    }
+    if (peer === ethers.constants.HashZero) {
+        return fail(`no peer for EID ${to.eid}`)
+    }
+    return same(peer, ethers.utils.hexZeroPad(to.oft.address, 32)) ? ok('set') : fail(`peer is ${peer}, expected ${to.oft.address}`)
+}
+
+async function checkDecimals(from: MeshMember, to: MeshMember): Promise<AuditCell> {
+    const a: number | undefined = await optionalView(() => from.oft.sharedDecimals())
+    const b: number | undefined = await optionalView(() => to.oft.sharedDecimals())
+    if (a === undefined || b === undefined) {
+        return fail('sharedDecimals() not readable')
+    }
+    return a === b ? ok(`${a}`) : fail(`${a} vs ${b}: amounts would be rescaled wrongly`)
+}
+
+async function readLibraries(from: MeshMember, to: MeshMember): Promise<{ sendLib: string; receiveLib: string }> {
+    const sendLib: string = await from.endpoint.getSendLibrary(from.oft.address, to.eid)
+    const [receiveLib]: [string] = await to.endpoint.getReceiveLibrary(to.oft.address, from.eid)
+    return { sendLib, receiveLib }
+}
+
+function checkLibraries(sendLib: string, receiveLib: string): AuditCell {
+    if (sendLib === ethers.constants.AddressZero) {
+        return fail('no send library')
+    }
+    if (receiveLib === ethers.constants.AddressZero) {
+        return fail('no receive library')
+    }
+    return ok(`send ${sendLib}, receive ${receiveLib}`)
+}
+
+/** The source's send-side ULN config must be verifiable by the destination's receive-side one */
+async function checkDVNs(from: MeshMember, to: MeshMember, sendLib: string, receiveLib: string): Promise<AuditCell> {
+    const send = decodeUlnConfig(await from.endpoint.getConfig(from.oft.address, sendLib, to.eid, CONFIG_TYPE_ULN))
+    const receive = decodeUlnConfig(await to.endpoint.getConfig(to.oft.address, receiveLib, from.eid, CONFIG_TYPE_ULN))
+    for (const [side, uln] of [['send', send], ['receive', receive]] as const) {
+        if (uln.requiredDVNCount === 0 && uln.optionalDVNThreshold === 0) {
+            return fail(`no DVNs on the ${side} side`)
+        }
+    }
+    if (send.requiredDVNCount !== receive.requiredDVNCount || send.optionalDVNCount !== receive.optionalDVNCount || send.optionalDVNThreshold !== receive.optionalDVNThreshold) {
+        return fail(`send ${describeUln(send)} vs receive ${describeUln(receive)}`)
+    }
+    if (send.confirmations < receive.confirmations) {
+        return fail(`send waits ${send.confirmations} conf., receive requires ${receive.confirmations}: messages never verify`)
+    }
+    return ok(describeUln(send))
+}
+
+async function checkExecutor(from: MeshMember, to: MeshMember, sendLib: string): Promise<AuditCell> {
+    const config = decodeExecutorConfig(await from.endpoint.getConfig(from.oft.address, sendLib, to.eid, CONFIG_TYPE_EXECUTOR))
+    if (config.executor === ethers.constants.AddressZero) {
+        return fail('no executor')
+    }
+    if (config.maxMessageSize === 0) {
+        return fail('maxMessageSize is 0')
+    }
+    return ok(`${config.executor}, max ${config.maxMessageSize} bytes`)
+}
+
+/** Enforced lzReceive gas for plain sends, and for compose sends towards the hub */
+async function checkOptions(from: MeshMember, to: MeshMember, toHub: boolean): Promise<AuditCell> {
+    const msgTypes: [string, number][] = [['SEND', MSG_TYPE_SEND]]
+    if (toHub) {
+        msgTypes.push(['SEND_AND_CALL', MSG_TYPE_SEND_AND_CALL])
+    }
+    const parts: string[] = []
+    for (const [name, msgType] of msgTypes) {
+        const enforced: string | undefined = await optionalView(() => from.oft.enforcedOptions(to.eid, msgType))
+        if (enforced === undefined) {
+            return na('not OAppOptionsType3')
+        }
+        let gas = BigNumber.from(0)
+        try {
+            gas = decodeOptions(enforced).lzReceive?.gas ?? gas
+        } catch {
+            return fail(`${name}: enforced options are not type 3`)
+        }
+        if (gas.isZero()) {
+            // Compose sends carry only lzCompose gas; plain sends fall back to whatever the caller adds
+            return msgType === MSG_TYPE_SEND_AND_CALL ? fail(`${name}: no lzReceive gas enforced`) : warn(`${name}: no lzReceive gas enforced`)
+        }
+        parts.push(`${name} ${gas.toString()}`)
+    }
+    return ok(parts.join(', '))
+}
+
+async function auditPathway(mesh: MeshRole, from: MeshMember, to: MeshMember, hub: string): Promise<PathwayAudit> {
+    const peer = await checkPeer(from, to)
+    const decimals = await checkDecimals(from, to)
+    if (peer.detail === 'Stargate path') {
+        // Pools message through Stargate's TokenMessaging, not their own OApp config
+        const skipped = na('Stargate pool')
+        return { mesh, from: from.chain, to: to.chain, cells: { peer, decimals, libraries: skipped, dvns: skipped, executor: skipped, options: skipped } }
+    }
+    const { sendLib, receiveLib } = await readLibraries(from, to)
+    const libraries = checkLibraries(sendLib, receiveLib)
+    const wired = libraries.status === 'ok'
+    return {
+        mesh,
+        from: from.chain,
+        to: to.chain,
+        cells: {
+            peer,
+            decimals,
+            libraries,
+            dvns: wired ? await checkDVNs(from, to, sendLib, receiveLib) : na('no library'),
+            executor: wired ? await checkExecutor(from, to, sendLib) : na('no library'),
+            options: await checkOptions(from, to, to.chain === hub),
+        },
+    }
+}
+
+// ============================================
+// CONTRACT CHECKS
+// ============================================
+async function auditOwnership(member: MeshMember, role: MeshRole): Promise<OAppAudit> {
+    const owner: string | undefined = await optionalView(() => member.oft.owner())
+    const delegate: string = await member.endpoint.delegates(member.oft.address)
+    const audit = { chain: member.chain, role, address: member.oft.address, owner, delegate }
+    if (owner === undefined) {
+        return { ...audit, ownership: na('not Ownable') }
+    }
+    if (owner === ethers.constants.AddressZero) {
+        return { ...audit, ownership: fail('ownership renounced: the config can no longer be changed') }
+    }
+    if (delegate === ethers.constants.AddressZero) {
+        return { ...audit, ownership: warn('no endpoint delegate: only the OApp itself can change its config') }
+    }
+    return { ...audit, ownership: same(owner, delegate) ? ok('owner is the delegate') : warn(`delegate ${delegate} is not the owner`) }
+}
+
+async function auditHub(deployment: DeploymentManifest): Promise<{ name: string; cell: AuditCell }[]> {
+    const provider = getProvider(deployment, deployment.hub)
+    const contracts = getChain(deployment, deployment.hub).contracts
+    const checks: { name: string; cell: AuditCell }[] = []
+
+    if (contracts.composer) {
+        const composer = new ethers.Contract(contracts.composer, COMPOSER_WIRING_ABI, provider)
+        for (const [getter, role] of [['VAULT', 'vault'], ['ASSET_OFT', 'assetOFT'], ['SHARE_OFT', 'shareOFT']] as const) {
+            const actual: string | undefined = await optionalView(() => composer[getter]())
+            const expected = contracts[role]
+            let cell: AuditCell
+            if (actual === undefined) {
+                cell = fail(`no ${getter}(): not an OVaultComposer`)
+            } else if (!expected) {
+                cell = warn(`${actual}; no ${role} in the manifest`)
+            } else {
+                cell = same(actual, expected) ? ok(actual) : fail(`${actual}, the manifest has ${expected}`)
+            }
+            checks.push({ name: `composer.${getter}()`, cell })
+        }
+    } else {
+        checks.push({ name: 'composer', cell: na('no composer in the manifest') })
+    }
+
+    if (contracts.vault && contracts.shareOFT) {
+        const token: string = await new ethers.Contract(contracts.shareOFT, OFT_VIEWS_ABI, provider).token()
+        checks.push({ name: 'shareOFT.token()', cell: same(token, contracts.vault) ? ok('the vault') : fail(`${token}, not the vault ${contracts.vault}`) })
+    }
+    if (contracts.vault && contracts.assetOFT) {
+        const asset: string = await new ethers.Contract(contracts.vault, ['function asset() view returns (address)'], provider).asset()
+        const token: string = await new ethers.Contract(contracts.assetOFT, OFT_VIEWS_ABI, provider).token()
+        // Native pools move ETH; the vault holds WETH
+        if (token === ethers.constants.AddressZero) {
+            checks.push({ name: 'assetOFT.token()', cell: ok(`native pool, vault asset ${asset}`) })
+        } else {
+            checks.push({ name: 'assetOFT.token()', cell: same(token, asset) ? ok('the vault asset') : fail(`${token}, not the vault asset ${asset}`) })
+        }
+    }
+    return checks
+}
+
+// ============================================
+// AUDIT
+// ============================================
+function meshMembers(deployment: DeploymentManifest, role: keyof ChainContracts): MeshMember[] {
+    return Object.entries(deployment.chains)
+        .filter(([, chain]) => chain.contracts[role])
+        .map(([key, chain]) => {
+            const provider = getProvider(deployment, key)
+            return {
+                chain: key,
+                eid: chain.eid,
+                oft: new ethers.Contract(chain.contracts[role]!, [...OAPP_ABI, ...OFT_VIEWS_ABI], provider),
+                endpoint: new ethers.Contract(getEndpoint(deployment, key), ENDPOINT_V2_ABI, provider),
+            }
+        })
+}
+
+export async function auditDeployment(deployment: DeploymentManifest): Promise<AuditReport> {
+    const report: AuditReport = {
+        deployment: deployment.name,
+        hub: deployment.hub,
+        hubChecks: await auditHub(deployment),
+        oapps: [],
+        pathways: [],
+        summary: { ok: 0, warn: 0, fail: 0, 'n/a': 0 },
+    }
+
+    for (const mesh of ['assetOFT', 'shareOFT'] as const) {
+        const members = meshMembers(deployment, mesh)
+        for (const member of members) {
+            report.oapps.push(await auditOwnership(member, mesh))
+            for (const other of members) {
+                if (other !== member) {
+                    report.pathways.push(await auditPathway(mesh, member, other, deployment.hub))
+                }
+            }
+        }
+    }
+
+    const cells = [
+        ...report.hubChecks.map((check) => check.cell),
+        ...report.oapps.map((oapp) => oapp.ownership),
+        ...report.pathways.flatMap((pathway) => Object.values(pathway.cells)),
+    ]
+    for (const cell of cells) {
+        report.summary[cell.status]++
+    }
+    return report
+}
@@ -0,0 +1,197 @@
+/**
+ * Batch Rows / Results
+ *
+ * A batch is a CSV or JSON list of (dstChain, recipient, amount) rows sent from one chain.
+ * Progress is written to a results file after every broadcast, so a batch that stops
+ * half-way (RPC outage, revert, Ctrl-C) is resumed by running the same command again:
+ * rows already sent are skipped, rows broadcast but unconfirmed are reconciled on-chain.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { ethers } from 'ethers'
+import { failure } from './exitCodes'
+import { DeploymentManifest } from './manifest'
+import { StargateRide } from './stargate'
+import { HopStatus } from './tracking'
+
+// ============================================
+// TYPES
+// ============================================
+export const BATCH_RESULTS_VERSION = 1
+
+export interface BatchRow {
+    dstChain: string
+    recipient: string
+    amount: string              // Human readable amount of the sent token
+}
+
+export type BatchRowStatus =
+    | 'queued'                  // Not broadcast yet
+    | 'pending'                 // Broadcast, receipt not seen yet
+    | 'sent'                    // Mined successfully
+    | 'failed'                  // Reverted or could not be broadcast; retried on resume
+
+export interface BatchRowResult extends BatchRow {
+    index: number
+    status: BatchRowStatus
+    txHash?: string
+    nonce?: number
+    guid?: string
+    ride?: StargateRide         // Stargate pools: how the row travels
+    ticketId?: string           // Bus seat; guid is filled in once the bus has been driven
+    delivery?: HopStatus        // Bus rows: where the seat stood when last followed
+    error?: string
+}
+
+export interface BatchResults {
+    version: number
+    command: string             // bridge-assets | bridge-shares
+    deployment: string
+    src: string
+    from: string                // Sending wallet
+    input: string               // Rows file the results belong to
+    updatedAt: string
+    rows: BatchRowResult[]
+}
+
+// ============================================
+// ROWS
+// ============================================
+const COLUMN_ALIASES: Record<string, keyof BatchRow> = {
+    dstchain: 'dstChain',
+    dst: 'dstChain',
+    chain: 'dstChain',
+    recipient: 'recipient',
+    to: 'recipient',
+    amount: 'amount',
+}
+
+function parseCsv(content: string, file: string): Record<string, string>[] {
+    const lines = content
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith('#'))
+    if (lines.length === 0) {
+        throw failure('config', `❌ ${file} is empty`)
+    }
+
+    const header = lines[0].split(',').map((cell) => COLUMN_ALIASES[cell.trim().toLowerCase()])
+    for (const column of ['dstChain', 'recipient', 'amount'] as const) {
+        if (!header.includes(column)) {
+            throw failure('config', `❌ ${file}: the header row must name a ${column} column (got "${lines[0]}")`)
+        }
+    }
+
+    return lines.slice(1).map((line) => {
+        const cells = line.split(',').map((cell) => cell.trim())
+        const row: Record<string, string> = {}
+        header.forEach((column, i) => column && (row[column] = cells[i]))
+        return row
+    })
+}
+
+/**
+ * Read and validate every row of a CSV (header: dstChain,recipient,amount) or JSON
+ * (array of { dstChain, recipient, amount }) file, collecting every problem before failing.
+ */
+export function loadBatchRows(file: string, deployment: DeploymentManifest, src: string): BatchRow[] {
+    if (!fs.existsSync(file)) {
+        throw failure('config', `❌ Batch file not found: ${file}`)
+    }
+    const content = fs.readFileSync(file, 'utf8')
+
+    let raw: Record<string, unknown>[]
+    if (file.endsWith('.json')) {
+        try {
+            raw = JSON.parse(content)
+        } catch (error: any) {
+            throw failure('config', `❌ Could not parse ${file}: ${error.message}`)
+        }
+        if (!Array.isArray(raw)) {
+            throw failure('config', `❌ ${file} must contain a JSON array of { dstChain, recipient, amount }`)
+        }
+    } else {
+        raw = parseCsv(content, file)
+    }
+
+    const errors: string[] = []
+    const rows = raw.map((entry, index) => {
+        const at = `row ${index + 1}`
+        const row = { dstChain: String(entry.dstChain ?? ''), recipient: String(entry.recipient ?? ''), amount: String(entry.amount ?? '') }
+        if (!deployment.chains[row.dstChain]) {
+            errors.push(`${at}: unknown chain "${row.dstChain}" (${Object.keys(deployment.chains).join(', ')})`)
+        } else if (row.dstChain === src) {
+            errors.push(`${at}: destination must differ from --src ${src}`)
+        }
+        if (!ethers.utils.isAddress(row.recipient)) {
+            errors.push(`${at}: invalid recipient "${row.recipient}"`)
+        } else {
+            row.recipient = ethers.utils.getAddress(row.recipient)
+        }
+        if (!/^\d+(\.\d+)?$/.test(row.amount) || Number(row.amount) === 0) {
+            errors.push(`${at}: amount must be a positive decimal (got "${row.amount}")`)
+        }
+        return row
+    })
+
+    if (rows.length === 0) {
+        errors.push('no rows')
+    }
+    if (errors.length > 0) {
+        throw failure('config', `❌ Invalid batch file ${file}:\n${errors.map((e) => `   - ${e}`).join('\n')}`)
+    }
+    return rows
+}
+
+// ============================================
+// RESULTS
+// ============================================
+
+/** Default results path: rows.csv → rows.results.json next to it */
+export function defaultResultsPath(input: string): string {
+    const parsed = path.parse(input)
+    return path.join(parsed.dir, `${parsed.name}.results.json`)
+}
+
+function sameRow(a: BatchRow, b: BatchRow): boolean {
+    return a.dstChain === b.dstChain && a.recipient.toLowerCase() === b.recipient.toLowerCase() && a.amount === b.amount
+}
+
+/**
+ * Results to continue from: the existing file when it belongs to the same batch, or a fresh
+ * one with every row queued. Refuses a results file written for different rows or a different
+ * sender, since skipping its "sent" rows would skip the wrong payments.
+ */
+export function openBatchResults(file: string, init: Omit<BatchResults, 'version' | 'updatedAt' | 'rows'>, rows: BatchRow[]): BatchResults {
+    if (!fs.existsSync(file)) {
+        return {
+            version: BATCH_RESULTS_VERSION,
+            ...init,
+            updatedAt: new Date().toISOString(),
+            rows: rows.map((row, index) => ({ ...row, index, status: 'queued' })),
+        }
+    }
+
+    const results: BatchResults = JSON.parse(fs.readFileSync(file, 'utf8'))
+    const mismatch =
+        results.version !== BATCH_RESULTS_VERSION ||
+        results.command !== init.command ||
+        results.deployment !== init.deployment ||
+        results.src !== init.src ||
+        results.from.toLowerCase() !== init.from.toLowerCase() ||
+        results.rows.length !== rows.length ||
+        results.rows.some((result, i) => !sameRow(result, rows[i]))
+    if (mismatch) {
+        throw failure('config', `❌ ${file} holds results for a different batch (rows, command, deployment, --src or wallet differ). Pass --results <new file>`)
+    }
+    return results
+}
+
+/** Write atomically so an interrupted run never leaves a truncated results file */
+export function saveBatchResults(file: string, results: BatchResults): void {
+    results.updatedAt = new Date().toISOString()
+    const tmp = `${file}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(results, null, 2))
+    fs.renameSync(tmp, file)
+}
@@ -0,0 +1,51 @@
+/**
+ * Chain / contract lookup against a loaded deployment manifest
+ */
+
+import { ethers } from 'ethers'
+import { CONFIG } from '../config'
+import { failure } from './exitCodes'
+import { ChainConfig, ChainContracts, DeploymentManifest } from './manifest'
+import { endpointForEid } from './networks'
+import { RpcProvider, rpcEndpoints } from './rpc'
+import { SignerConfig, createSigner } from './signer'
+
+export function getChain(deployment: DeploymentManifest, key: string): ChainConfig {
+    const chain = deployment.chains[key]
+    if (!chain) {
+        throw failure('config', `❌ Unknown chain "${key}" in deployment ${deployment.name}. Available: ${Object.keys(deployment.chains).join(', ')}`)
+    }
+    return chain
+}
+
+export function getContract(deployment: DeploymentManifest, key: string, role: keyof ChainContracts): string {
+    const address = getChain(deployment, key).contracts[role]
+    if (!address) {
+        throw failure('config', `❌ Deployment ${deployment.name} has no ${role} on ${key} (chains.${key}.contracts.${role})`)
+    }
+    return address
+}
+
+export function getEndpoint(deployment: DeploymentManifest, key: string): string {
+    const chain = getChain(deployment, key)
+    return chain.endpoint ?? endpointForEid(chain.eid)
+}
+
+/** Chain key in the deployment for a LayerZero EID */
+export function getChainKeyByEid(deployment: DeploymentManifest, eid: number): string {
+    const key = Object.keys(deployment.chains).find((chain) => deployment.chains[chain].eid === eid)
+    if (!key) {
+        throw failure('config', `❌ EID ${eid} is not part of deployment ${deployment.name}`)
+    }
+    return key
+}
+
+/** Provider over the chain's rpcUrls: fallback, back-off and quorum reads (scripts/lib/rpc.ts) */
+export function getProvider(deployment: DeploymentManifest, key: string): ethers.providers.JsonRpcProvider {
+    const chain = getChain(deployment, key)
+    return new RpcProvider(chain.name, rpcEndpoints(chain), chain.rpcQuorum ?? 1, { ...CONFIG.rpc })
+}
+
+export function getSigner(deployment: DeploymentManifest, key: string, signer: SignerConfig): Promise<ethers.Signer> {
+    return createSigner(signer, getProvider(deployment, key))
+}
@@ -0,0 +1,19 @@
+/**
+ * CLI Flags
+ *
+ * Parsers shared by the flow and utility commands for flags that parseArgs reads as strings.
+ */
+
+import { failure } from './exitCodes'
+
+/** Whole-number flags (gas limits, blocks, indexes): parseInt would pass NaN or cut "1e6" / "1.5" short */
+export function parseWholeNumber(flag: string, value: string | undefined, min: number): number | undefined {
+    if (value === undefined) {
+        return undefined
+    }
+    const parsed = Number(value)
+    if (!Number.isSafeInteger(parsed) || parsed < min) {
+        throw failure('config', `❌ --${flag} must be a ${min > 0 ? 'positive' : 'non-negative'} integer (got "${value}")`)
+    }
+    return parsed
+}
@@ -0,0 +1,213 @@
+/**
+ * Stuck Compose Recovery
+ *
+ * A compose that ran out of gas (or was never executed) stays in EndpointV2's composeQueue
+ * under keccak256(message). The message itself only exists in the ComposeSent log of the
+ * delivery transaction, so it is recovered from there and replayed with lzCompose, which
+ * anyone may call.
+ */
+
+import { BigNumber, PopulatedTransaction, ethers } from 'ethers'
+import { CONFIG } from '../config'
+import { getChain, getChainKeyByEid, getContract, getEndpoint, getProvider } from './chains'
+import { EMPTY_PAYLOAD_HASH, ENDPOINT_V2_INTERFACE, RECEIVED_MESSAGE_HASH } from './endpoint'
+import { profileComposeGas } from './gasProfile'
+import { OFTComposePayload, decodeComposePayload } from './inspect'
+import { DeploymentManifest } from './manifest'
+import { connectOFT } from './oft'
+import { SendParam, decodeComposeMsg } from './sendParam'
+import { followMessages, scanLogs } from './tracking'
+
+// ============================================
+// TYPES
+// ============================================
+export interface QueuedCompose {
+    chain: string               // Chain whose endpoint holds the compose (the hub)
+    guid: string
+    from: string                // OFT that queued the compose
+    to: string                  // Composer
+    index: number
+    message: string             // OFTComposeMsgCodec payload handed to lzCompose
+    deliveryTx: string
+}
+
+export type ComposeQueueState = 'pending' | 'executed' | 'missing'
+
+export interface ComposeValue {
+    value: BigNumber            // msg.value to send with lzCompose
+    minMsgValue: BigNumber      // msgValue the sender encoded in the composeMsg
+    quotedFee?: BigNumber       // Current second-hop fee, when there is a second hop
+    payload: OFTComposePayload
+    secondHop: SendParam
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+function composeFromLog(chain: string, log: ethers.providers.Log): QueuedCompose {
+    const { args } = ENDPOINT_V2_INTERFACE.parseLog(log)
+    return {
+        chain,
+        guid: args.guid,
+        from: ethers.utils.getAddress(args.from),
+        to: ethers.utils.getAddress(args.to),
+        index: args.index,
+        message: args.message,
+        deliveryTx: log.transactionHash,
+    }
+}
+
+/** Every compose queued while delivering the messages `receipt` sent (and the hops after them) */
+export async function findComposesByTx(
+    deployment: DeploymentManifest,
+    chain: string,
+    receipt: ethers.providers.TransactionReceipt
+): Promise<QueuedCompose[]> {
+    const hops = await followMessages(deployment, chain, receipt, { timeoutMs: 0, pollIntervalMs: 0, progress: false })
+    const composes: QueuedCompose[] = []
+    const composeSentTopic = ENDPOINT_V2_INTERFACE.getEventTopic('ComposeSent')
+
+    for (const hop of hops) {
+        if (!hop.composer || !hop.deliveryTx) {
+            continue
+        }
+        const delivery = await getProvider(deployment, hop.dst).getTransactionReceipt(hop.deliveryTx)
+        const endpoint = getEndpoint(deployment, hop.dst).toLowerCase()
+        for (const log of delivery.logs) {
+            if (log.address.toLowerCase() !== endpoint || log.topics[0] !== composeSentTopic) {
+                continue
+            }
+            const compose = composeFromLog(hop.dst, log)
+            if (compose.guid === hop.packet.guid) {
+                composes.push(compose)
+            }
+        }
+    }
+    return composes
+}
+
+/** The compose queued for `guid` on `chain`, scanning ComposeSent logs from `fromBlock` */
+export async function findComposeByGuid(
+    deployment: DeploymentManifest,
+    chain: string,
+    guid: string,
+    index: number,
+    fromBlock: number
+): Promise<QueuedCompose | undefined> {
+    // ComposeSent has no indexed fields, so every compose on the endpoint is scanned
+    const found = await scanLogs(
+        getProvider(deployment, chain),
+        { address: getEndpoint(deployment, chain), topics: [ENDPOINT_V2_INTERFACE.getEventTopic('ComposeSent')] },
+        fromBlock,
+        (log) => {
+            const { args } = ENDPOINT_V2_INTERFACE.parseLog(log)
+            return args.guid.toLowerCase() === guid.toLowerCase() && args.index === index ? log : undefined
+        }
+    )
+    return found && composeFromLog(chain, found.log)
+}
+
+/** Whether the endpoint still holds `compose`, already executed it, or never queued this message */
+export async function getComposeQueueState(deployment: DeploymentManifest, compose: QueuedCompose): Promise<ComposeQueueState> {
+    const endpoint = new ethers.Contract(getEndpoint(deployment, compose.chain), ENDPOINT_V2_INTERFACE, getProvider(deployment, compose.chain))
+    const hash: string = await endpoint.composeQueue(compose.from, compose.to, compose.guid, compose.index)
+    if (hash === ethers.utils.keccak256(compose.message)) {
+        return 'pending'
+    }
+    if (hash === RECEIVED_MESSAGE_HASH) {
+        return 'executed'
+    }
+    if (hash !== EMPTY_PAYLOAD_HASH) {
+        console.warn(`⚠️  composeQueue holds ${hash}, which does not match the ComposeSent message`)
+    }
+    return 'missing'
+}
+
+// ============================================
+// VALUE / GAS
+// ============================================
+
+/**
+ * msg.value for the retry: the composer refunds when it gets less than the composeMsg's
+ * msgValue, and the second hop fee may have risen since the original quote, so take the
+ * higher of the encoded value and a fresh buffered quote.
+ */
+export async function getComposeValue(deployment: DeploymentManifest, compose: QueuedCompose): Promise<ComposeValue> {
+    const payload = decodeComposePayload(compose.message)
+    const { sendParam: secondHop, msgValue } = decodeComposeMsg(payload.composeMsg)
+    const result: ComposeValue = { value: msgValue, minMsgValue: msgValue, payload, secondHop }
+
+    if (secondHop.dstEid === getChain(deployment, compose.chain).eid) {
+        return result
+    }
+
+    // Assets arriving means a deposit (shares go out), shares arriving means a redeem
+    const assetOFT = getContract(deployment, compose.chain, 'assetOFT')
+    const outputRole = compose.from.toLowerCase() === assetOFT.toLowerCase() ? 'shareOFT' : 'assetOFT'
+    const outputOFT = connectOFT(getContract(deployment, compose.chain, outputRole), getProvider(deployment, compose.chain))
+    try {
+        const fee = await outputOFT.quote(secondHop)
+        result.quotedFee = fee.nativeFee
+        const buffered = fee.nativeFee.mul(10000 + CONFIG.defaults.secondHopFeeBufferBps).div(10000)
+        if (buffered.gt(result.value)) {
+            result.value = buffered
+        }
+    } catch (error: any) {
+        const dst = getChainKeyByEid(deployment, secondHop.dstEid)
+        console.warn(`⚠️  Could not quote the second hop to ${dst} (${error.reason ?? error.message}); using the encoded msgValue`)
+    }
+    return result
+}
+
+/** lzCompose transaction replaying `compose` */
+export function populateLzCompose(
+    deployment: DeploymentManifest,
+    compose: QueuedCompose,
+    signer: ethers.Signer,
+    overrides: { value: BigNumber; gasLimit?: BigNumber }
+): Promise<PopulatedTransaction> {
+    const endpoint = new ethers.Contract(getEndpoint(deployment, compose.chain), ENDPOINT_V2_INTERFACE, signer)
+    return endpoint.populateTransaction.lzCompose(compose.from, compose.to, compose.guid, compose.index, compose.message, '0x', overrides)
+}
+
+/**
+ * Gas limit for the retry. OVaultComposer catches failures and refunds instead of reverting,
+ * so eth_estimateGas can settle on the (cheaper) refund path. The success path is profiled
+ * (see gasProfile.ts) when the RPC allows it, else the estimate is never taken below the
+ * default compose gas; the buffer is applied on top either way.
+ */
+export async function estimateComposeGas(
+    deployment: DeploymentManifest,
+    compose: QueuedCompose,
+    signer: ethers.Signer,
+    value: ComposeValue
+): Promise<{ estimate: BigNumber; profiledGas?: BigNumber; gasLimit: BigNumber }> {
+    const tx = await populateLzCompose(deployment, compose, signer, { value: value.value })
+    const estimate = await signer.estimateGas(tx)
+    const bufferBps = CONFIG.defaults.retryComposeGasBufferBps
+
+    let floor: BigNumber
+    let profiledGas: BigNumber | undefined
+    try {
+        const profile = await profileComposeGas(
+            deployment,
+            {
+                hub: compose.chain,
+                inputOFT: compose.from,
+                amountLD: value.payload.amountLD,
+                composeFrom: value.payload.composeFrom,
+                composeMsg: value.payload.composeMsg,
+                msgValue: value.value,
+            },
+            0
+        )
+        profiledGas = profile.lzComposeGas
+        floor = profiledGas
+    } catch (error: any) {
+        const hasSecondHop = value.secondHop.dstEid !== getChain(deployment, compose.chain).eid
+        floor = BigNumber.from(hasSecondHop ? CONFIG.defaults.lzComposeGasCrossChain : CONFIG.defaults.lzComposeGasHub)
+        console.warn(`⚠️  lzCompose gas profiling failed, not going below ${floor.toString()}: ${error.message.replace(/^❌\s*/, '')}`)
+    }
+    const gasLimit = (estimate.gt(floor) ? estimate : floor).mul(10000 + bufferBps).div(10000)
+    return { estimate, profiledGas, gasLimit }
+}
@@ -0,0 +1,74 @@
+/**
+ * LayerZero EndpointV2
+ *
+ * The events the CLI reads to follow a message: PacketSent on the source, PacketDelivered /
+ * ComposeSent / ComposeDelivered (or the matching alerts) on the receiving chain, plus the
+ * compose queue and the permissionless lzCompose used to retry a stuck compose, the
+ * lzToken (ZRO) fees may be paid in, and the per-OApp libraries, worker configs and
+ * delegates `audit` reads.
+ */
+
+import { ethers } from 'ethers'
+
+export const ORIGIN_TYPE = 'tuple(uint32 srcEid, bytes32 sender, uint64 nonce)'
+
+export const ENDPOINT_V2_ABI = [
+    'function lzToken() view returns (address)',
+    'function getSendLibrary(address sender, uint32 dstEid) view returns (address lib)',
+    'function getReceiveLibrary(address receiver, uint32 srcEid) view returns (address lib, bool isDefault)',
+    'function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes config)',
+    'function delegates(address oapp) view returns (address)',
+    'function composeQueue(address from, address to, bytes32 guid, uint16 index) view returns (bytes32 messageHash)',
+    'function lzCompose(address from, address to, bytes32 guid, uint16 index, bytes message, bytes extraData) payable',
+    'event PacketSent(bytes encodedPayload, bytes options, address sendLibrary)',
+    `event PacketDelivered(${ORIGIN_TYPE} origin, address receiver)`,
+    'event ComposeSent(address from, address to, bytes32 guid, uint16 index, bytes message)',
+    'event ComposeDelivered(address from, address to, bytes32 guid, uint16 index)',
+    `event LzReceiveAlert(address indexed receiver, address indexed executor, ${ORIGIN_TYPE} origin, bytes32 guid, uint256 gas, uint256 value, bytes message, bytes extraData, bytes reason)`,
+    'event LzComposeAlert(address indexed from, address indexed to, address indexed executor, bytes32 guid, uint16 index, uint256 gas, uint256 value, bytes message, bytes extraData, bytes reason)',
+]
+
+export const ENDPOINT_V2_INTERFACE = new ethers.utils.Interface(ENDPOINT_V2_ABI)
+
+// composeQueue values besides keccak256(message): nothing queued, and already executed
+export const EMPTY_PAYLOAD_HASH = ethers.constants.HashZero
+export const RECEIVED_MESSAGE_HASH = ethers.utils.hexZeroPad('0x01', 32)
+
+// ULN302 config types read through getConfig, and what they decode to
+export const CONFIG_TYPE_EXECUTOR = 1
+export const CONFIG_TYPE_ULN = 2
+
+export const EXECUTOR_CONFIG_TYPE = 'tuple(uint32 maxMessageSize, address executor)'
+export const ULN_CONFIG_TYPE =
+    'tuple(uint64 confirmations, uint8 requiredDVNCount, uint8 optionalDVNCount, uint8 optionalDVNThreshold, address[] requiredDVNs, address[] optionalDVNs)'
+
+export interface ExecutorConfig {
+    maxMessageSize: number
+    executor: string
+}
+
+export interface UlnConfig {
+    confirmations: number
+    requiredDVNCount: number
+    optionalDVNCount: number
+    optionalDVNThreshold: number
+    requiredDVNs: string[]
+    optionalDVNs: string[]
+}
+
+export function decodeExecutorConfig(config: string): ExecutorConfig {
+    const [decoded] = ethers.utils.defaultAbiCoder.decode([EXECUTOR_CONFIG_TYPE], config)
+    return { maxMessageSize: decoded.maxMessageSize, executor: decoded.executor }
+}
+
+export function decodeUlnConfig(config: string): UlnConfig {
+    const [decoded] = ethers.utils.defaultAbiCoder.decode([ULN_CONFIG_TYPE], config)
+    return {
+        confirmations: decoded.confirmations.toNumber(),
+        requiredDVNCount: decoded.requiredDVNCount,
+        optionalDVNCount: decoded.optionalDVNCount,
+        optionalDVNThreshold: decoded.optionalDVNThreshold,
+        requiredDVNs: [...decoded.requiredDVNs],
+        optionalDVNs: [...decoded.optionalDVNs],
+    }
+}
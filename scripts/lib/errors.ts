@@ -0,0 +1,209 @@
+/**
+ * Revert Decoding
+ *
+ * A registry of the custom errors OFTs, Stargate pools, EndpointV2, ERC4626 vaults and the
+ * OVaultComposer revert with, each with what usually causes it and what to do. The revert
+ * data of a failed eth_call / eth_estimateGas / send is dug out of the ethers error, decoded
+ * against the registry (or as Error(string) / Panic(uint256)), and printed instead of the
+ * hex payload ethers reports.
+ */
+
+import { ethers } from 'ethers'
+import { FailureKind } from './exitCodes'
+
+// ============================================
+// TYPES
+// ============================================
+interface KnownError {
+    signature: string
+    source: string
+    kind?: FailureKind          // Exit code of a run stopped by it (default: revert)
+    hint: string
+}
+
+export interface DecodedRevert {
+    name: string                // Custom error name, or Error / Panic
+    args: string                // "eid: 30375", or the message of Error(string)
+    source?: string             // Contracts defining the error
+    kind?: FailureKind
+    hint?: string
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+const KNOWN_ERRORS: KnownError[] = [
+    // OFT / OApp (LayerZero oapp-evm)
+    { signature: 'error NoPeer(uint32 eid)', source: 'OApp', kind: 'config', hint: 'The OFT has no peer for this endpoint ID: setPeer on the sending OFT, or check --dst (run "ovault audit")' },
+    { signature: 'error OnlyPeer(uint32 eid, bytes32 sender)', source: 'OApp', kind: 'config', hint: 'The receiving OApp does not list the sender as its peer: setPeer on both sides (run "ovault audit")' },
+    { signature: 'error OnlyEndpoint(address addr)', source: 'OApp / OVaultComposer', kind: 'config', hint: 'Only the LayerZero endpoint may call lzReceive / lzCompose: replay a stuck compose with "ovault retry-compose"' },
+    { signature: 'error NotEnoughNative(uint256 msgValue)', source: 'OApp', kind: 'quote', hint: 'msg.value is below the quoted fee: quote again right before sending, fees move with destination gas prices' },
+    { signature: 'error LzTokenUnavailable()', source: 'OApp', kind: 'config', hint: 'The endpoint has no lzToken set: drop --pay-in-lz-token' },
+    { signature: 'error InvalidOptions(bytes options)', source: 'OApp', kind: 'config', hint: 'The executor options are malformed: check --lz-receive-gas / --lz-compose-gas and the enforced options (decode them with "ovault inspect")' },
+    { signature: 'error InvalidDelegate()', source: 'OApp', kind: 'config', hint: 'The delegate cannot be the zero address' },
+    { signature: 'error InvalidLocalDecimals()', source: 'OFT', kind: 'config', hint: 'The OFT has fewer local than shared decimals: the deployment is broken' },
+    { signature: 'error AmountSDOverflowed(uint256 amountSD)', source: 'OFT', kind: 'quote', hint: 'The amount does not fit in shared decimals (uint64): send it in smaller parts' },
+    { signature: 'error SlippageExceeded(uint256 amountLD, uint256 minAmountLD)', source: 'OFT / OVaultComposer', kind: 'quote', hint: 'Less than minAmountLD arrives after dust removal, fees or the vault rate: raise --max-slippage or lower --min-amount' },
+
+    // Stargate V2 pools and bus
+    { signature: 'error Stargate_InvalidAmount()', source: 'Stargate pool', kind: 'quote', hint: 'The amount is zero after dust removal, or outside the pool limits: check the quoteOFT limits with --dry-run' },
+    { signature: 'error Stargate_SlippageTooHigh()', source: 'Stargate pool', kind: 'quote', hint: 'The pool fee takes more than the slippage budget: raise --max-slippage or lower --min-amount' },
+    { signature: 'error Stargate_InsufficientFare()', source: 'Stargate pool', kind: 'quote', hint: 'msg.value does not cover the taxi fee or bus fare: quote again right before sending' },
+    { signature: 'error Stargate_InvalidPath()', source: 'Stargate pool', kind: 'config', hint: 'The pool has no path to the destination: check --dst and the pool\'s peers (run "ovault audit")' },
+    { signature: 'error Stargate_LzTokenUnavailable()', source: 'Stargate pool', kind: 'config', hint: 'Stargate only takes fees in native: drop --pay-in-lz-token' },
+    { signature: 'error Stargate_Paused()', source: 'Stargate pool', hint: 'The pool is paused: wait for Stargate to resume it' },
+    { signature: 'error Stargate_OutflowFailed()', source: 'Stargate pool', hint: 'The pool could not pay out on the destination: the tokens wait there, retry the delivery later' },
+    { signature: 'error Stargate_UnreceivedTokenNotFound()', source: 'Stargate pool', kind: 'crossChain', hint: 'No unreceived tokens are stored for this GUID: the delivery already went through (run "ovault status")' },
+    { signature: 'error Path_InsufficientCredit()', source: 'Stargate pool', kind: 'quote', hint: 'The pool has too little credit towards the destination for this amount: send less or wait for a rebalance' },
+    { signature: 'error Bus_QueueFull()', source: 'Stargate bus', hint: 'The bus queue is full: ride the taxi with --stargate-mode taxi' },
+    { signature: 'error Bus_InvalidFare(bool nativeDrop)', source: 'Stargate bus', kind: 'quote', hint: 'msg.value does not match the bus fare: quote again right before sending' },
+
+    // EndpointV2
+    { signature: 'error LZ_InsufficientFee(uint256 requiredNative, uint256 suppliedNative, uint256 requiredLzToken, uint256 suppliedLzToken)', source: 'EndpointV2', kind: 'quote', hint: 'The fee paid is below the endpoint\'s quote: quote again right before sending; with --pay-in-lz-token check the ZRO allowance' },
+    { signature: 'error LZ_LzTokenUnavailable()', source: 'EndpointV2', kind: 'config', hint: 'The endpoint has no lzToken set: drop --pay-in-lz-token' },
+    { signature: 'error LZ_ZeroLzTokenFee()', source: 'EndpointV2', kind: 'quote', hint: 'The ZRO fee was quoted as zero: quote again, or pay in native' },
+    { signature: 'error LZ_DefaultSendLibUnavailable()', source: 'EndpointV2', kind: 'config', hint: 'No send library is set for this pathway: the OApp or LayerZero has not configured it (run "ovault audit")' },
+    { signature: 'error LZ_PathNotVerifiable()', source: 'EndpointV2', kind: 'crossChain', hint: 'The message cannot be verified on this pathway: check the receiver\'s peer and receive library' },
+    { signature: 'error LZ_PayloadHashNotFound(bytes32 expected, bytes32 actual)', source: 'EndpointV2', kind: 'crossChain', hint: 'The message is not verified yet, or was already delivered: wait for the DVNs, then run "ovault status"' },
+    { signature: 'error LZ_ComposeNotFound(bytes32 expected, bytes32 actual)', source: 'EndpointV2', kind: 'crossChain', hint: 'No queued compose matches the message: it already ran, or the GUID / message is wrong (run "ovault status")' },
+    { signature: 'error LZ_ComposeExists()', source: 'EndpointV2', kind: 'crossChain', hint: 'The compose message is already queued' },
+    { signature: 'error LZ_InvalidNonce(uint64 nonce)', source: 'EndpointV2', kind: 'crossChain', hint: 'An earlier message on this ordered pathway is not delivered yet' },
+    { signature: 'error LZ_Unauthorized()', source: 'EndpointV2', kind: 'config', hint: 'Only the OApp or its delegate may change its endpoint config' },
+    { signature: 'error LZ_ULN_InvalidConfigType(uint32 configType)', source: 'EndpointV2 (ULN)', kind: 'config', hint: 'The message library does not know this config type' },
+
+    // ERC20 / ERC2612 / Pausable (OpenZeppelin 5)
+    { signature: 'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)', source: 'ERC20', kind: 'funds', hint: 'Not enough tokens: top up the wallet on the source chain, or lower --amount' },
+    { signature: 'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)', source: 'ERC20', hint: 'The allowance is too small: check --approval / --approval-cap; in a dry run the approval was not broadcast' },
+    { signature: 'error ERC2612ExpiredSignature(uint256 deadline)', source: 'ERC2612', hint: 'The permit deadline passed before the transaction landed: run again' },
+    { signature: 'error ERC2612InvalidSigner(address signer, address owner)', source: 'ERC2612', kind: 'config', hint: 'The token rejected the permit signature: use --approval-method approve' },
+    { signature: 'error EnforcedPause()', source: 'Pausable', hint: 'The contract is paused: wait for it to be unpaused' },
+    { signature: 'error SafeERC20FailedOperation(address token)', source: 'SafeERC20', hint: 'A token transfer or approval returned false: check balances and allowances' },
+
+    // ERC4626 (OpenZeppelin 5)
+    { signature: 'error ERC4626ExceededMaxDeposit(address receiver, uint256 assets, uint256 max)', source: 'ERC4626 vault', kind: 'quote', hint: 'The vault takes at most `max` assets right now (deposit cap or pause): deposit less' },
+    { signature: 'error ERC4626ExceededMaxMint(address receiver, uint256 shares, uint256 max)', source: 'ERC4626 vault', kind: 'quote', hint: 'The vault mints at most `max` shares right now (deposit cap or pause): deposit less' },
+    { signature: 'error ERC4626ExceededMaxWithdraw(address owner, uint256 assets, uint256 max)', source: 'ERC4626 vault', kind: 'quote', hint: 'The vault pays out at most `max` assets right now (liquidity or lockup): redeem less' },
+    { signature: 'error ERC4626ExceededMaxRedeem(address owner, uint256 shares, uint256 max)', source: 'ERC4626 vault', kind: 'quote', hint: 'The vault redeems at most `max` shares right now (liquidity or lockup): redeem less' },
+
+    // OVaultComposer (LayerZero ovault-evm)
+    { signature: 'error OnlySelf(address caller)', source: 'OVaultComposer', kind: 'config', hint: 'handleCompose is only callable by the composer itself' },
+    { signature: 'error OnlyValidComposeCaller(address caller)', source: 'OVaultComposer', kind: 'config', hint: 'The compose came from an OFT the composer does not accept: send through the vault\'s asset or share OFT' },
+    { signature: 'error ShareOFTNotAdapter(address shareOFT)', source: 'OVaultComposer', kind: 'config', hint: 'The hub share OFT must be an OFTAdapter over the vault: the composer is misconfigured' },
+    { signature: 'error ShareTokenNotVault(address shareERC20, address vault)', source: 'OVaultComposer', kind: 'config', hint: 'The share OFT does not wrap this vault: the composer is misconfigured' },
+    { signature: 'error AssetTokenNotVaultAsset(address assetERC20, address vaultAsset)', source: 'OVaultComposer', kind: 'config', hint: 'The asset OFT does not carry the vault\'s asset: the composer is misconfigured' },
+    { signature: 'error NoMsgValueExpected()', source: 'OVaultComposer', kind: 'config', hint: 'The output stays on the hub, so no value is needed: drop --lz-compose-value' },
+    { signature: 'error InsufficientMsgValue(uint256 expectedMsgValue, uint256 actualMsgValue)', source: 'OVaultComposer', kind: 'quote', hint: 'The lzCompose value does not cover the second hop\'s fee: raise --lz-compose-value, or omit it to have it quoted' },
+]
+
+const ERRORS_INTERFACE = new ethers.utils.Interface(KNOWN_ERRORS.map((known) => known.signature))
+const BY_NAME = new Map(KNOWN_ERRORS.map((known) => [ethers.utils.Fragment.from(known.signature).name, known]))
+
+const ERROR_STRING = '0x08c379a0'
+const PANIC = '0x4e487b71'
+const PANIC_CODES: Record<number, string> = {
+    0x01: 'assertion failed',
+    0x11: 'arithmetic overflow or underflow',
+    0x12: 'division or modulo by zero',
+    0x21: 'invalid enum value',
+    0x31: 'pop on an empty array',
+    0x32: 'array index out of bounds',
+    0x41: 'out of memory',
+}
+
+// ============================================
+// DECODING
+// ============================================
+function formatValue(value: unknown): string {
+    return ethers.BigNumber.isBigNumber(value) ? value.toString() : String(value)
+}
+
+function isRevertData(data: unknown): data is string {
+    return typeof data === 'string' && ethers.utils.isHexString(data) && ethers.utils.hexDataLength(data) % 32 === 4
+}
+
+/**
+ * The revert data inside an ethers error. It sits at a different depth for each call
+ * (CALL_EXCEPTION carries it, estimateGas and send wrap the JSON-RPC error once or twice).
+ */
+export function revertData(error: any): string | undefined {
+    for (let current = error, depth = 0; current && typeof current === 'object' && depth < 5; current = current.error, depth++) {
+        const data = current.data?.data ?? current.data
+        if (isRevertData(data)) {
+            return data
+        }
+        if (typeof current.body === 'string') {
+            try {
+                const body = JSON.parse(current.body).error?.data
+                if (isRevertData(body?.data ?? body)) {
+                    return body?.data ?? body
+                }
+            } catch {
+                // Not JSON
+            }
+        }
+    }
+    return undefined
+}
+
+/** Decode revert data: a registered custom error, Error(string) or Panic(uint256) */
+export function decodeRevertData(data: string): DecodedRevert | undefined {
+    if (!isRevertData(data)) {
+        return undefined
+    }
+    const selector = ethers.utils.hexDataSlice(data, 0, 4)
+    try {
+        if (selector === ERROR_STRING) {
+            const [message] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4))
+            return { name: 'Error', args: message }
+        }
+        if (selector === PANIC) {
+            const [code] = ethers.utils.defaultAbiCoder.decode(['uint256'], ethers.utils.hexDataSlice(data, 4))
+            return { name: 'Panic', args: `0x${code.toNumber().toString(16)}: ${PANIC_CODES[code.toNumber()] ?? 'unknown panic code'}` }
+        }
+        const parsed = ERRORS_INTERFACE.parseError(data)
+        const known = BY_NAME.get(parsed.name)!
+        const args = parsed.errorFragment.inputs.map((input, i) => `${input.name}: ${formatValue(parsed.args[i])}`).join(', ')
+        return { name: parsed.name, args, source: known.source, kind: known.kind, hint: known.hint }
+    } catch {
+        // An unknown selector, or data that does not match the registered arguments
+        return undefined
+    }
+}
+
+/** Decode the revert behind an ethers error, if it carries revert data */
+export function decodeRevert(error: any): DecodedRevert | undefined {
+    const data = revertData(error)
+    return data === undefined ? undefined : decodeRevertData(data)
+}
+
+export function formatRevert(revert: DecodedRevert): string {
+    if (revert.name === 'Error') {
+        return revert.args
+    }
+    return `${revert.name}(${revert.args})${revert.source ? ` [${revert.source}]` : ''}`
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+/** One line for a failed call: the decoded revert, else the reason ethers gives */
+export function errorSummary(error: any): string {
+    const revert = decodeRevert(error)
+    return revert ? formatRevert(revert) : (error?.reason ?? error?.error?.message ?? error?.message ?? String(error))
+}
+
+/** What the CLI prints for a failed run: the decoded revert instead of ethers' payload dump, and what to do */
+export function explainError(error: any): string[] {
+    const revert = decodeRevert(error)
+    if (revert) {
+        return [`❌ Reverted: ${formatRevert(revert)}`, ...(revert.hint ? ['', `💡 ${revert.hint}`] : [])]
+    }
+    const lines = [`❌ Error: ${error?.message ?? error}`]
+    if (error?.reason) {
+        lines.push(`Reason: ${error.reason}`)
+    }
+    if (error?.code === ethers.errors.INSUFFICIENT_FUNDS) {
+        lines.push('', '💡 Make sure you have enough native gas on the source chain')
+    }
+    return lines
+}
@@ -0,0 +1,210 @@
+/**
+ * Transaction Execution / Dry Run
+ *
+ * Flows hand every state-changing transaction to `executeTx`. Normally it is signed and
+ * broadcast; with --dry-run it is only simulated (eth_call + eth_estimateGas) and recorded,
+ * so the full plan can be reviewed before any funds move. With a journal attached, every
+ * broadcast is recorded and steps an earlier run already landed are not sent again.
+ */
+
+import { BigNumber, PopulatedTransaction, ethers } from 'ethers'
+import { decodeRevert, errorSummary } from './errors'
+import { FailureKind, failure } from './exitCodes'
+import { Journal, recordQuote, recordReceipt, recordSent, replayStep } from './journal'
+import { FlowReport, ReportTx } from './report'
+
+// ============================================
+// TYPES
+// ============================================
+export interface PlannedTx {
+    label: string
+    chain: string
+    from: string
+    to: string
+    value: string
+    data: string
+    gasEstimate?: string
+    simulation: 'ok' | 'reverted'
+    error?: string
+    hint?: string
+    note?: string
+}
+
+export interface Execution {
+    dryRun: boolean
+    transactions: PlannedTx[]
+    warnings: string[]
+    journal?: Journal
+    report?: FlowReport
+    journaledSend?: { chain: string; label: string; skipped: { kind: FailureKind; message: string }[] }  // Confirmed in the journal: checks only warn
+}
+
+export function createExecution(dryRun = false, journal?: Journal, report?: FlowReport): Execution {
+    return { dryRun, transactions: [], warnings: [], journal: dryRun ? undefined : journal, report }
+}
+
+/**
+ * Note that an earlier run of this journal already confirmed `label` on `chain`. The tokens it
+ * spent are gone, so on resume the checks before it would fail; they warn and the send is
+ * replayed. A pending send may still be dropped and sent again, so it keeps every check.
+ */
+export function noteJournaledSend(execution: Execution, chain: string, label: string): void {
+    if (execution.journal?.steps.some((step) => step.chain === chain && step.label === label && step.status === 'confirmed')) {
+        execution.journaledSend = { chain, label, skipped: [] }
+    }
+}
+
+// ============================================
+// EXECUTION
+// ============================================
+/**
+ * Broadcast `tx` and wait for it, or (dry run) simulate and record it.
+ * Returns the receipt, or undefined when nothing was broadcast. `onSent` runs once the
+ * transaction is broadcast, before waiting, so callers can persist the hash.
+ */
+export async function executeTx(
+    execution: Execution,
+    signer: ethers.Signer,
+    chain: string,
+    label: string,
+    tx: PopulatedTransaction,
+    onSent?: (sent: ethers.providers.TransactionResponse) => void
+): Promise<ethers.providers.TransactionReceipt | undefined> {
+    if (!execution.dryRun) {
+        const { journal } = execution
+        const replayed = journal && (await replayStep(journal, signer, chain, label))
+        if (replayed) {
+            execution.report?.transactions.push({ label, chain, hash: replayed.transactionHash, blockNumber: replayed.blockNumber, status: 'confirmed', replayed: true })
+            return replayed
+        }
+        rearmChecks(execution, chain, label)
+
+        const sent = await signer.sendTransaction(tx)
+        const step = journal && recordSent(journal, chain, label, tx, sent)
+        const reported: ReportTx = { label, chain, hash: sent.hash, status: 'pending' }
+        execution.report?.transactions.push(reported)
+        onSent?.(sent)
+        console.log(`⏳ ${label}: ${sent.hash}`)
+        try {
+            const receipt = await sent.wait()
+            console.log(`✅ ${label} confirmed in block ${receipt.blockNumber}`)
+            if (step) {
+                recordReceipt(journal, step, receipt)
+            }
+            Object.assign(reported, { status: 'confirmed', blockNumber: receipt.blockNumber })
+            return receipt
+        } catch (error: any) {
+            // A revert comes with its receipt; other errors leave the step pending for resume
+            if (step && error.receipt) {
+                recordReceipt(journal, step, error.receipt)
+            }
+            if (error.receipt) {
+                Object.assign(reported, { status: 'reverted', blockNumber: error.receipt.blockNumber })
+            }
+            throw error
+        }
+    }
+
+    const from = await signer.getAddress()
+    const request = { ...tx, from }
+    const planned: PlannedTx = {
+        label,
+        chain,
+        from,
+        to: tx.to ?? '',
+        value: BigNumber.from(tx.value ?? 0).toString(),
+        data: tx.data ?? '0x',
+        simulation: 'ok',
+    }
+
+    try {
+        await signer.call(request)
+        planned.gasEstimate = (await signer.estimateGas(request)).toString()
+        console.log(`🧪 ${label}: simulation ok (gas ≈ ${planned.gasEstimate})`)
+    } catch (error) {
+        planned.simulation = 'reverted'
+        planned.error = errorSummary(error)
+        planned.hint = decodeRevert(error)?.hint
+        // Earlier steps (e.g. approvals) were not broadcast, so later ones may revert only because of that
+        if (execution.transactions.length > 0) {
+            planned.note = 'Depends on earlier steps that were not broadcast; may succeed once they are'
+        }
+        console.warn(`⚠️  ${label}: simulation reverted: ${planned.error}`)
+    }
+
+    execution.transactions.push(planned)
+    execution.report?.transactions.push(planned)
+    return undefined
+}
+
+/** Record a quote a transaction was built from in the journal and the --json report, if there are */
+export function noteQuote(execution: Execution, name: string, value: ethers.BigNumberish): void {
+    if (execution.journal) {
+        recordQuote(execution.journal, name, value)
+    }
+    if (execution.report) {
+        execution.report.quotes[name] = BigNumber.from(value).toString()
+    }
+}
+
+/** The wallet, recipient and payloads (SendParams, fees, msg.value) a flow built, for the --json report */
+export function reportFlow(execution: Execution, addresses: { wallet: string; recipient: string }, details: Record<string, unknown>): void {
+    if (execution.report) {
+        Object.assign(execution.report.addresses, addresses)
+        execution.report.details = details
+    }
+}
+
+/** Throw in a real run; in a dry run, or resuming after a confirmed send, record the problem and keep going */
+export function check(execution: Execution, ok: boolean, kind: FailureKind, message: string): void {
+    if (ok) {
+        return
+    }
+    if (!execution.dryRun && !execution.journaledSend) {
+        throw failure(kind, message)
+    }
+    execution.journaledSend?.skipped.push({ kind, message })
+    execution.warnings.push(message.replace(/^❌\s*/, ''))
+    execution.report?.warnings.push(message.replace(/^❌\s*/, ''))
+    console.warn(`⚠️  ${message.replace(/^❌\s*/, '')} (${execution.dryRun ? 'dry run' : 'already sent'}, continuing)`)
+}
+
+/** The journaled send did not replay (dropped or reverted): it goes out again, so the checks it skipped apply */
+function rearmChecks(execution: Execution, chain: string, label: string): void {
+    const sent = execution.journaledSend
+    if (!sent || sent.chain !== chain || sent.label !== label) {
+        return
+    }
+    execution.journaledSend = undefined
+    if (sent.skipped.length > 0) {
+        const skipped = sent.skipped.map(({ message }) => `   - ${message.replace(/^❌\s*/, '')}`).join('\n')
+        throw failure(sent.skipped[0].kind, `❌ ${label} must be sent again, but checks skipped on resume fail:\n${skipped}`)
+    }
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+
+/** JSON replacer that prints BigNumbers as decimal strings */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+    if (value && typeof value === 'object' && (value as { type?: string }).type === 'BigNumber') {
+        return BigNumber.from((value as { hex: string }).hex).toString()
+    }
+    return value
+}
+
+/** Print the structured plan of a dry run: flow inputs, encoded payloads and simulated transactions */
+export function printPlan(execution: Execution, flow: string, details: Record<string, unknown>): void {
+    console.log('='.repeat(80))
+    console.log('🧪 DRY RUN - nothing was broadcast')
+    console.log('='.repeat(80))
+    console.log(
+        JSON.stringify(
+            { flow, ...details, transactions: execution.transactions, warnings: execution.warnings },
+            jsonReplacer,
+            2
+        )
+    )
+    console.log('='.repeat(80))
+}
@@ -0,0 +1,90 @@
+/**
+ * Exit Codes
+ *
+ * Every `ovault` run exits with a code telling automation what kind of failure stopped it,
+ * without parsing the message. Errors are classified by the custom error they revert with
+ * (scripts/lib/errors.ts), by the kind they were thrown with (failure, check) or a call site
+ * tagged them with (failsAs), or by the ethers error code. Matching the message is the last
+ * resort, for errors nothing tagged.
+ */
+
+import { ethers } from 'ethers'
+import { decodeRevert } from './errors'
+
+// ============================================
+// TYPES
+// ============================================
+export const EXIT_CODES = {
+    ok: 0,
+    error: 1,           // Anything not classified below
+    config: 2,          // Flags, manifest, signer setup, or a misconfigured deployment (pre-flight, audit)
+    funds: 3,           // Not enough tokens, native gas or ZRO
+    quote: 4,           // quoteSend / quoteOFT / vault preview failed, or the quote is outside limits or slippage
+    revert: 5,          // A transaction or its simulation reverted
+    crossChain: 6,      // Sent, but a hop failed, was refunded or was not delivered in time
+    rpc: 7,             // RPC endpoints unreachable, timing out or disagreeing
+} as const
+
+export type FailureKind = Exclude<keyof typeof EXIT_CODES, 'ok'>
+
+// Last resort for untagged errors, first match wins; see the README troubleshooting table
+const MESSAGE_KINDS: [RegExp, FailureKind][] = [
+    [/failed on every RPC of|No RPC quorum|Not enough healthy RPC endpoints|could not detect network/, 'rpc'],
+    [/Hop \d+ (timed out|failed|refunded)|Composer refunded the input|Operation not completed/, 'crossChain'],
+    [/Insufficient/, 'funds'],
+    [/is (above the maximum|below the minimum) of|is less than minimum|No Stargate bus runs/, 'quote'],
+    [
+        /Pre-flight checks failed|Audit found|Unknown (chain|command|signer|approval)|has no \w+ on|is not part of deployment|Invalid |not found|is required|needs --|must (be|differ)|does not apply to|does not take LayerZero fees|cannot be hub|is not set|Could not (decrypt|parse)|Cannot prompt|cannot sign typed data|is unfinished/,
+        'config',
+    ],
+]
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+/** An error the exit code is read from, whatever its message says */
+export function failure(kind: FailureKind, message: string): Error {
+    return Object.assign(new Error(message), { failureKind: kind })
+}
+
+/** Tag what `work` was doing when it failed (a kind set deeper down wins) */
+export async function failsAs<T>(kind: FailureKind, work: Promise<T>): Promise<T> {
+    try {
+        return await work
+    } catch (error: any) {
+        if (error && typeof error === 'object' && error.failureKind === undefined) {
+            error.failureKind = kind
+        }
+        throw error
+    }
+}
+
+export function classifyError(error: any): FailureKind {
+    const revert = decodeRevert(error)
+    if (revert?.kind) {
+        return revert.kind
+    }
+    if (error?.failureKind) {
+        return error.failureKind
+    }
+    switch (error?.code) {
+        case ethers.errors.INSUFFICIENT_FUNDS:
+            return 'funds'
+        case ethers.errors.CALL_EXCEPTION:
+        case ethers.errors.UNPREDICTABLE_GAS_LIMIT:
+            return 'revert'
+        case ethers.errors.TIMEOUT:
+        case ethers.errors.NETWORK_ERROR:
+        case ethers.errors.SERVER_ERROR:
+            return 'rpc'
+    }
+    if (typeof error?.code === 'string' && error.code.startsWith('ERR_PARSE_ARGS')) {
+        return 'config'
+    }
+    const message = String(error?.message ?? error)
+    return MESSAGE_KINDS.find(([pattern]) => pattern.test(message))?.[1] ?? 'error'
+}
+
+export function exitCodeFor(error: unknown): number {
+    return EXIT_CODES[classifyError(error)]
+}
@@ -0,0 +1,171 @@
+/**
+ * lzCompose Gas Profiling
+ *
+ * Measures the gas the composer needs on the hub instead of guessing a constant. The
+ * composer's handleCompose (vault deposit / redeem + second-hop send) is simulated with
+ * eth_call from the composer itself, with state overrides that give it the tokens and native
+ * value the delivery would have left it. handleCompose reverts on any failure (lzCompose
+ * would catch it and refund), so the smallest gas limit that succeeds is the real cost.
+ */
+
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import { CONFIG } from '../config'
+import { getContract, getProvider } from './chains'
+import { decodeRevert, formatRevert } from './errors'
+import { failure } from './exitCodes'
+import { DeploymentManifest } from './manifest'
+import { COMPOSER_ABI, connectOFT } from './oft'
+import { toBytes32 } from './sendParam'
+import { ERC20_ABI } from './tokens'
+
+// ============================================
+// TYPES
+// ============================================
+export interface ComposeProfileInput {
+    hub: string
+    inputOFT: string            // Hub OFT that delivers the input (assetOFT for deposits, shareOFT for redeems)
+    amountLD: BigNumberish      // Amount the composer receives
+    composeFrom: string         // Original sender (only used for refunds)
+    composeMsg: string          // abi.encode(SendParam, msgValue)
+    msgValue: BigNumberish      // msg.value lzCompose forwards
+}
+
+export interface ComposeGasProfile {
+    measuredGas: BigNumber      // Smallest gas limit at which handleCompose succeeds
+    lzComposeGas: BigNumber     // measuredGas + lzCompose overhead + margin
+    marginBps: number
+}
+
+type StateOverride = Record<string, { balance?: string; stateDiff?: Record<string, string> }>
+
+// Endpoint queue check + composer lzCompose decoding + the try/catch self-call, on top of handleCompose
+const LZ_COMPOSE_OVERHEAD = 50_000
+
+// Upper bound of the search; also the first probe, which must succeed
+const PROFILE_GAS_CAP = 10_000_000
+
+// Stop the binary search once the bracket is this tight
+const PROFILE_GAS_PRECISION = 1_000
+
+// OpenZeppelin v5 ERC20Upgradeable keeps balances in ERC-7201 namespaced storage
+const OZ_ERC20_NAMESPACE = '0x52c63247e1f47db19d5ce0460030c497f067ca4cebf71ba98eeadabe20bace00'
+
+// Plain mapping slots probed for balanceOf (FiatToken uses 9, most ERC20s 0-5)
+const BALANCE_SLOT_CANDIDATES = 32
+
+const COMPOSER_INTERFACE = new ethers.utils.Interface(COMPOSER_ABI)
+const ERC20_INTERFACE = new ethers.utils.Interface(ERC20_ABI)
+
+// ============================================
+// STATE OVERRIDES
+// ============================================
+const balanceSlots = new Map<string, string>()
+
+function mappingSlot(key: string, slot: BigNumberish, keyFirst = true): string {
+    const values: [string, BigNumberish] = [key, slot]
+    return ethers.utils.keccak256(
+        ethers.utils.defaultAbiCoder.encode(keyFirst ? ['address', 'uint256'] : ['uint256', 'address'], keyFirst ? values : [slot, key])
+    )
+}
+
+/**
+ * Storage slot of `holder`'s balance in `token`, found by overriding candidate slots
+ * (Solidity and Vyper mapping layouts, OZ v5 namespaced storage) until balanceOf reflects it.
+ */
+export async function findBalanceSlot(provider: ethers.providers.JsonRpcProvider, token: string, holder: string): Promise<string> {
+    const cacheKey = `${token}:${holder}`.toLowerCase()
+    const cached = balanceSlots.get(cacheKey)
+    if (cached) {
+        return cached
+    }
+
+    const candidates = [mappingSlot(holder, OZ_ERC20_NAMESPACE)]
+    for (let slot = 0; slot < BALANCE_SLOT_CANDIDATES; slot++) {
+        candidates.push(mappingSlot(holder, slot), mappingSlot(holder, slot, false))
+    }
+
+    const probe = ethers.utils.hexZeroPad('0x0badc0ffee', 32)
+    const data = ERC20_INTERFACE.encodeFunctionData('balanceOf', [holder])
+    for (const slot of candidates) {
+        const overrides: StateOverride = { [token]: { stateDiff: { [slot]: probe } } }
+        const result: string = await provider.send('eth_call', [{ to: token, data }, 'latest', overrides])
+        if (result === probe) {
+            balanceSlots.set(cacheKey, slot)
+            return slot
+        }
+    }
+    throw failure('quote', `❌ Could not locate the balance storage slot of token ${token}`)
+}
+
+// ============================================
+// PROFILING
+// ============================================
+function revertMessage(error: any): string {
+    const revert = decodeRevert(error)
+    if (revert) {
+        return formatRevert(revert)
+    }
+    return error?.error?.message ?? error?.body ?? error?.message ?? String(error)
+}
+
+/**
+ * Profile the composer's lzCompose for one compose message and size the executor option.
+ * Throws (with the revert reason) when the compose would fail at any gas limit, or when the
+ * RPC does not support eth_call state overrides.
+ */
+export async function profileComposeGas(
+    deployment: DeploymentManifest,
+    input: ComposeProfileInput,
+    marginBps: number = CONFIG.defaults.lzComposeGasMarginBps
+): Promise<ComposeGasProfile> {
+    const provider = getProvider(deployment, input.hub)
+    const composer = getContract(deployment, input.hub, 'composer')
+    const amount = BigNumber.from(input.amountLD)
+    const msgValue = BigNumber.from(input.msgValue)
+
+    // The delivery leaves the input tokens on the composer; the call's value comes from its own balance
+    const token = await connectOFT(input.inputOFT, provider).token()
+    const isNative = token === ethers.constants.AddressZero
+    const overrides: StateOverride = {
+        [composer]: { balance: ethers.utils.hexValue(msgValue.add(isNative ? amount : 0).add(ethers.constants.WeiPerEther)) },
+    }
+    if (!isNative) {
+        const slot = await findBalanceSlot(provider, token, composer)
+        overrides[token] = { stateDiff: { [slot]: ethers.utils.hexZeroPad(amount.toHexString(), 32) } }
+    }
+
+    const data = COMPOSER_INTERFACE.encodeFunctionData('handleCompose', [input.inputOFT, toBytes32(input.composeFrom), input.composeMsg, amount])
+    const simulate = async (gas: number): Promise<void> => {
+        await provider.send('eth_call', [
+            { from: composer, to: composer, data, value: ethers.utils.hexValue(msgValue), gas: ethers.utils.hexValue(gas) },
+            'latest',
+            overrides,
+        ])
+    }
+
+    const blockGasLimit = (await provider.getBlock('latest')).gasLimit
+    let high = Math.min(PROFILE_GAS_CAP, blockGasLimit.toNumber())
+    try {
+        await simulate(high)
+    } catch (error) {
+        throw failure('revert', `❌ Composer simulation reverted: ${revertMessage(error)}`)
+    }
+
+    let low = 21_000
+    while (high - low > PROFILE_GAS_PRECISION) {
+        const mid = Math.floor((low + high) / 2)
+        try {
+            await simulate(mid)
+            high = mid
+        } catch {
+            low = mid
+        }
+    }
+
+    const measuredGas = BigNumber.from(high)
+    return {
+        measuredGas,
+        lzComposeGas: measuredGas.add(LZ_COMPOSE_OVERHEAD).mul(10000 + marginBps).div(10000),
+        marginBps,
+    }
+}
@@ -0,0 +1,187 @@
+/**
+ * hardhat-deploy Importer
+ *
+ * Reads a `deployments/<network>/*.json` tree and recognises the OVault contracts
+ * (ERC4626 vault, OVaultComposer, asset OFT / adapter, ShareOFTAdapter / ShareOFT)
+ * by contract name or ABI shape, producing a deployment manifest.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { ethers } from 'ethers'
+import { failure } from './exitCodes'
+import { ChainConfig, ChainContracts, DeploymentManifest, MANIFEST_VERSION, validateManifest } from './manifest'
+import { KNOWN_NETWORKS } from './networks'
+
+// ============================================
+// TYPES
+// ============================================
+export interface DeploymentArtifact {
+    address: string
+    abi: { type: string; name?: string }[]
+    args?: unknown[]
+}
+
+export interface ImportedContract {
+    network: string
+    contractName: string
+    address: string
+    role: keyof ChainContracts | undefined
+    reason: string
+}
+
+export interface ImportOptions {
+    name: string
+    description?: string
+    hub?: string                            // Network directory of the hub (auto-detected if omitted)
+    eids?: Record<string, number>           // Per-network EID overrides
+    rpcUrls?: Record<string, string>        // Per-network RPC overrides
+}
+
+export interface ImportResult {
+    manifest: DeploymentManifest
+    contracts: ImportedContract[]
+    warnings: string[]
+}
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+function functionNames(artifact: DeploymentArtifact): Set<string> {
+    return new Set(artifact.abi.filter((f) => f.type === 'function' && f.name).map((f) => f.name as string))
+}
+
+function hasAll(names: Set<string>, required: string[]): boolean {
+    return required.every((name) => names.has(name))
+}
+
+/**
+ * Decide which OVault role a deployed contract plays. `vaultAddress` is the vault on the
+ * same network (if already known) so a ShareOFTAdapter can be matched by its constructor args.
+ */
+export function classifyArtifact(
+    contractName: string,
+    artifact: DeploymentArtifact,
+    vaultAddress?: string
+): { role: keyof ChainContracts | undefined; reason: string } {
+    const names = functionNames(artifact)
+    const isOFTShaped = hasAll(names, ['quoteSend', 'send']) && (names.has('sharedDecimals') || names.has('token'))
+
+    if (/composer/i.test(contractName) || names.has('depositAndSend') || hasAll(names, ['VAULT', 'SHARE_OFT'])) {
+        return { role: 'composer', reason: /composer/i.test(contractName) ? 'name' : 'ABI: depositAndSend / VAULT()' }
+    }
+    if (hasAll(names, ['asset', 'previewDeposit', 'previewRedeem', 'convertToShares']) && !isOFTShaped) {
+        return { role: 'vault', reason: 'ABI: ERC4626' }
+    }
+    if (!isOFTShaped) {
+        return { role: undefined, reason: 'not an OVault contract' }
+    }
+
+    const firstArg = typeof artifact.args?.[0] === 'string' ? (artifact.args[0] as string) : undefined
+    if (vaultAddress && firstArg && firstArg.toLowerCase() === vaultAddress.toLowerCase()) {
+        return { role: 'shareOFT', reason: 'ABI: OFT adapter wrapping the vault' }
+    }
+    if (/share/i.test(contractName)) {
+        return { role: 'shareOFT', reason: 'name' }
+    }
+    if (/asset|stargate|pool/i.test(contractName)) {
+        return { role: 'assetOFT', reason: 'name' }
+    }
+    return { role: undefined, reason: 'OFT-shaped but cannot tell asset from share (rename or add it manually)' }
+}
+
+// ============================================
+// READING
+// ============================================
+function readArtifacts(networkDir: string): { contractName: string; artifact: DeploymentArtifact }[] {
+    return fs
+        .readdirSync(networkDir)
+        .filter((file) => file.endsWith('.json') && !file.startsWith('.'))
+        .map((file) => ({
+            contractName: file.replace(/\.json$/, ''),
+            artifact: JSON.parse(fs.readFileSync(path.join(networkDir, file), 'utf8')) as DeploymentArtifact,
+        }))
+        .filter(({ artifact }) => typeof artifact.address === 'string' && Array.isArray(artifact.abi))
+}
+
+function readChainId(networkDir: string): number | undefined {
+    const file = path.join(networkDir, '.chainId')
+    return fs.existsSync(file) ? parseInt(fs.readFileSync(file, 'utf8').trim()) : undefined
+}
+
+// ============================================
+// IMPORT
+// ============================================
+export function importHardhatDeployments(deploymentsDir: string, options: ImportOptions): ImportResult {
+    if (!fs.existsSync(deploymentsDir)) {
+        throw failure('config', `❌ Deployments directory not found: ${deploymentsDir}`)
+    }
+
+    const networks = fs
+        .readdirSync(deploymentsDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+
+    const chains: Record<string, ChainConfig> = {}
+    const contracts: ImportedContract[] = []
+    const warnings: string[] = []
+
+    for (const network of networks) {
+        const networkDir = path.join(deploymentsDir, network)
+        const artifacts = readArtifacts(networkDir)
+
+        // Vaults first so adapters can be matched against them
+        const vault = artifacts.find(({ contractName, artifact }) => classifyArtifact(contractName, artifact).role === 'vault')
+        const chainContracts: ChainContracts = {}
+
+        for (const { contractName, artifact } of artifacts) {
+            const { role, reason } = classifyArtifact(contractName, artifact, vault?.artifact.address)
+            const address = ethers.utils.getAddress(artifact.address)
+            contracts.push({ network, contractName, address, role, reason })
+
+            if (!role) {
+                if (reason !== 'not an OVault contract') {
+                    warnings.push(`${network}/${contractName}: ${reason}`)
+                }
+                continue
+            }
+            if (chainContracts[role]) {
+                throw failure('config', `❌ ${network} has two ${role} candidates: ${chainContracts[role]} and ${contractName} (${address}). Remove one from the directory`)
+            }
+            chainContracts[role] = address
+        }
+
+        if (Object.keys(chainContracts).length === 0) {
+            warnings.push(`${network}: no OVault contracts found, skipped`)
+            continue
+        }
+
+        const chainId = readChainId(networkDir)
+        const known = chainId !== undefined ? KNOWN_NETWORKS[chainId] : undefined
+        const eid = options.eids?.[network] ?? known?.eid
+        const rpcUrl = options.rpcUrls?.[network] ?? known?.rpcUrl
+        if (eid === undefined || rpcUrl === undefined) {
+            throw failure('config', `❌ Unknown network ${network} (chainId ${chainId ?? 'missing'}). Pass --eid ${network}=<eid> and --rpc ${network}=<url>`)
+        }
+
+        chains[network] = { eid, rpcUrl, name: known?.name ?? network, contracts: chainContracts }
+    }
+
+    const hub = options.hub ?? Object.keys(chains).find((network) => chains[network].contracts.vault && chains[network].contracts.composer)
+    if (!hub) {
+        throw failure('config', '❌ Could not find a hub (network with both vault and composer). Pass --hub <network>')
+    }
+
+    const manifest = validateManifest(
+        {
+            version: MANIFEST_VERSION,
+            name: options.name,
+            ...(options.description ? { description: options.description } : {}),
+            hub,
+            chains,
+        },
+        `import of ${deploymentsDir}`
+    )
+
+    return { manifest, contracts, warnings }
+}
@@ -0,0 +1,159 @@
+/**
+ * Payload Decoders
+ *
+ * Reverses everything the flows encode: executor options, the OVaultComposer composeMsg,
+ * the OFTComposeMsgCodec payload the endpoint delivers to lzCompose, and send() /
+ * depositAndSend() / redeemAndSend() calldata.
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { Options } from '@layerzerolabs/lz-v2-utilities'
+import { failure } from './exitCodes'
+import { COMPOSER_ABI, OFT_ABI } from './oft'
+import { MessagingFee, SendParam, decodeComposeMsg, decodeMessagingFee, decodeSendParam } from './sendParam'
+
+// ============================================
+// TYPES
+// ============================================
+export interface DecodedOptions {
+    lzReceive?: { gas: BigNumber; value: BigNumber }
+    compose: { index: number; gas: BigNumber; value: BigNumber }[]
+    nativeDrop: { amount: BigNumber; receiver: string }[]
+    ordered: boolean
+}
+
+/** OFTComposeMsgCodec: the payload EndpointV2 hands to the composer's lzCompose */
+export interface OFTComposePayload {
+    nonce: BigNumber
+    srcEid: number
+    amountLD: BigNumber
+    composeFrom: string
+    composeMsg: string
+}
+
+export interface DecodedCall {
+    method: 'send' | 'depositAndSend' | 'redeemAndSend'
+    sendParam: SendParam
+    fee?: MessagingFee               // send() only
+    amount?: BigNumber               // depositAndSend / redeemAndSend input amount
+    refundAddress: string
+}
+
+export type PayloadKind = 'calldata' | 'options' | 'composeMsg' | 'composePayload'
+export const PAYLOAD_KINDS: PayloadKind[] = ['calldata', 'options', 'composeMsg', 'composePayload']
+
+export type DecodedPayload =
+    | { kind: 'calldata'; call: DecodedCall }
+    | { kind: 'options'; options: DecodedOptions }
+    | { kind: 'composeMsg'; sendParam: SendParam; msgValue: BigNumber }
+    | { kind: 'composePayload'; payload: OFTComposePayload }
+
+// ============================================
+// DECODERS
+// ============================================
+const CALL_INTERFACE = new ethers.utils.Interface([...OFT_ABI, ...COMPOSER_ABI])
+
+// nonce (8) + srcEid (4) + amountLD (32) + composeFrom (32)
+const COMPOSE_HEADER_BYTES = 76
+
+export function decodeOptions(hex: string): DecodedOptions {
+    if (hex === '0x') {
+        return { compose: [], nativeDrop: [], ordered: false }
+    }
+    const options = Options.fromOptions(hex)
+    // The parser is lenient, so require the bytes to round-trip
+    if (!hex.toLowerCase().startsWith('0x0003') || options.toHex().toLowerCase() !== hex.toLowerCase()) {
+        throw failure('config', '❌ Not type-3 executor options')
+    }
+    const lzReceive = options.decodeExecutorLzReceiveOption()
+    return {
+        lzReceive: lzReceive ? { gas: BigNumber.from(lzReceive.gas), value: BigNumber.from(lzReceive.value) } : undefined,
+        compose: (options.decodeExecutorComposeOption() ?? []).map((option) => ({
+            index: option.index,
+            gas: BigNumber.from(option.gas),
+            value: BigNumber.from(option.value),
+        })),
+        nativeDrop: (options.decodeExecutorNativeDropOption() ?? []).map((drop) => ({
+            amount: BigNumber.from(drop.amount),
+            receiver: drop.receiver,
+        })),
+        ordered: options.decodeExecutorOrderedExecutionOption() ?? false,
+    }
+}
+
+export function decodeComposePayload(hex: string): OFTComposePayload {
+    const bytes = ethers.utils.arrayify(hex)
+    if (bytes.length < COMPOSE_HEADER_BYTES) {
+        throw failure('config', `❌ Compose payload is ${bytes.length} bytes, expected at least ${COMPOSE_HEADER_BYTES}`)
+    }
+    return {
+        nonce: BigNumber.from(bytes.slice(0, 8)),
+        srcEid: BigNumber.from(bytes.slice(8, 12)).toNumber(),
+        amountLD: BigNumber.from(bytes.slice(12, 44)),
+        composeFrom: ethers.utils.hexlify(bytes.slice(44, 76)),
+        composeMsg: ethers.utils.hexlify(bytes.slice(76)),
+    }
+}
+
+export function decodeCalldata(data: string): DecodedCall {
+    const parsed = CALL_INTERFACE.parseTransaction({ data })
+    switch (parsed.name) {
+        case 'send':
+            return {
+                method: 'send',
+                sendParam: decodeSendParam(parsed.args.sendParam),
+                fee: decodeMessagingFee(parsed.args.fee),
+                refundAddress: parsed.args.refundAddress,
+            }
+        case 'depositAndSend':
+        case 'redeemAndSend':
+            return {
+                method: parsed.name,
+                sendParam: decodeSendParam(parsed.args.sendParam),
+                amount: BigNumber.from(parsed.args[0]),
+                refundAddress: parsed.args.refundAddress,
+            }
+        default:
+            throw failure('config', `❌ ${parsed.name}() is not a send call`)
+    }
+}
+
+function decodeAs(kind: PayloadKind, hex: string): DecodedPayload {
+    switch (kind) {
+        case 'calldata':
+            return { kind, call: decodeCalldata(hex) }
+        case 'options':
+            return { kind, options: decodeOptions(hex) }
+        case 'composeMsg':
+            return { kind, ...decodeComposeMsg(hex) }
+        case 'composePayload':
+            return { kind, payload: decodeComposePayload(hex) }
+    }
+}
+
+/**
+ * Decode `hex` as `kind`, or try each payload kind in turn when no kind is given.
+ * Options start with type 3; calldata with a known selector; the compose payload is a
+ * composeMsg behind a 76-byte header.
+ */
+export function decodePayload(hex: string, kind?: PayloadKind): DecodedPayload {
+    if (!ethers.utils.isHexString(hex)) {
+        throw failure('config', `❌ Not a hex string: ${hex.slice(0, 20)}...`)
+    }
+    if (kind) {
+        return decodeAs(kind, hex)
+    }
+    for (const candidate of PAYLOAD_KINDS) {
+        try {
+            const decoded = decodeAs(candidate, hex)
+            // Any 76+ byte blob splits into a header, so only accept it when the body is a composeMsg
+            if (decoded.kind === 'composePayload') {
+                decodeComposeMsg(decoded.payload.composeMsg)
+            }
+            return decoded
+        } catch {
+            continue
+        }
+    }
+    throw failure('config', `❌ Could not decode payload as ${PAYLOAD_KINDS.join(', ')}. Pass --as to see the decoder error`)
+}
@@ -0,0 +1,249 @@
+/**
+ * Execution Journal
+ *
+ * Every broadcasting flow run writes a journal (journals/<id>.json) of the transactions it
+ * sent: label, chain, hash, nonce, calldata and value, plus the quotes they were built from.
+ * `ovault resume` re-runs the flow from the journal in replay mode: executeTx hands back the
+ * recorded receipt for steps that already landed instead of broadcasting them again, so a
+ * half-finished operation never re-approves or double-sends.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { BigNumber, PopulatedTransaction, ethers } from 'ethers'
+import { ApprovalConfig } from './approval'
+import { failure } from './exitCodes'
+import { FlowName } from './route'
+import { SignerConfig } from './signer'
+import { StargateMode } from './stargate'
+
+// ============================================
+// TYPES
+// ============================================
+export const JOURNAL_VERSION = 1
+
+export const JOURNALS_DIR_ENV = 'OVAULT_JOURNALS_DIR'
+
+/** journals/ at the repo root, or $OVAULT_JOURNALS_DIR */
+export function journalsDir(): string {
+    return path.resolve(process.env[JOURNALS_DIR_ENV] ?? path.join(__dirname, '../../journals'))
+}
+
+export type JournalStatus =
+    | 'running'                 // Flow in progress (or the process died)
+    | 'sent'                    // Every transaction confirmed; delivery not confirmed yet
+    | 'complete'                // Delivered end to end
+    | 'failed'                  // Stopped with an error; see `error`
+
+export type JournalStepStatus = 'pending' | 'confirmed' | 'reverted'
+
+export interface JournalStep {
+    label: string
+    chain: string
+    status: JournalStepStatus
+    txHash: string
+    nonce: number
+    from: string
+    to: string
+    value: string
+    data: string
+    blockNumber?: number
+    sentAt: string
+}
+
+/** The flow inputs needed to rebuild FlowParams on resume (no secrets) */
+export interface JournalParams {
+    src: string
+    dst: string
+    hub: string
+    amount: string
+    recipient?: string
+    minAmount?: string
+    maxSlippageBps?: number
+    lzReceiveGas?: number
+    lzComposeGas?: number
+    lzComposeGasMarginBps?: number
+    lzComposeValue?: string
+    approval?: ApprovalConfig
+    wrapped?: boolean
+    stargateMode?: StargateMode
+    payInLzToken?: boolean
+    signer: SignerConfig
+}
+
+export interface Journal {
+    version: number
+    id: string
+    command: string
+    flow: FlowName
+    deployment: string          // Manifest path, so resume works from any directory
+    params: JournalParams
+    status: JournalStatus
+    createdAt: string
+    updatedAt: string
+    steps: JournalStep[]
+    quotes: { name: string; value: string; at: string }[]
+    error?: string
+    file: string
+    replayed?: Set<number>      // Steps already handed back during this run (not persisted)
+}
+
+// ============================================
+// FILES
+// ============================================
+export function createJournal(init: Pick<Journal, 'command' | 'flow' | 'deployment' | 'params'>): Journal {
+    const now = new Date()
+    const id = `${now.toISOString().replace(/[-:]/g, '').replace(/\..*$/, '')}-${init.command}-${init.params.src}-${init.params.dst}`
+    const journal: Journal = {
+        version: JOURNAL_VERSION,
+        id,
+        ...init,
+        status: 'running',
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        steps: [],
+        quotes: [],
+        file: path.join(journalsDir(), `${id}.json`),
+    }
+    saveJournal(journal)
+    return journal
+}
+
+export function saveJournal(journal: Journal): void {
+    journal.updatedAt = new Date().toISOString()
+    const { file, replayed, ...persisted } = journal
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    const tmp = `${file}.tmp`
+    fs.writeFileSync(tmp, JSON.stringify(persisted, null, 2))
+    fs.renameSync(tmp, file)
+}
+
+/** Load a journal by id or path */
+export function loadJournal(idOrPath: string): Journal {
+    const file = idOrPath.endsWith('.json') ? path.resolve(idOrPath) : path.join(journalsDir(), `${idOrPath}.json`)
+    if (!fs.existsSync(file)) {
+        throw failure('config', `❌ Journal "${idOrPath}" not found at ${file}. Run "ovault resume --list"`)
+    }
+    const journal: Journal = JSON.parse(fs.readFileSync(file, 'utf8'))
+    if (journal.version !== JOURNAL_VERSION) {
+        throw failure('config', `❌ ${file} has journal version ${journal.version}, expected ${JOURNAL_VERSION}`)
+    }
+    return { ...journal, file }
+}
+
+/** Every journal, newest first */
+export function listJournals(): Journal[] {
+    const dir = journalsDir()
+    if (!fs.existsSync(dir)) {
+        return []
+    }
+    return fs
+        .readdirSync(dir)
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => loadJournal(path.join(dir, file)))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/** Unfinished and has broadcast something: running the same command again could double-send */
+export function isResumable(journal: Journal): boolean {
+    return journal.status !== 'complete' && journal.steps.some((step) => step.status !== 'reverted')
+}
+
+// Flow inputs without the signer, which may legitimately change between runs
+function inputsKey({ signer, ...inputs }: JournalParams): string {
+    return JSON.stringify(inputs)
+}
+
+/** A resumable journal for the same command and inputs, if any */
+export function findUnfinishedRun(command: string, deployment: string, params: JournalParams): Journal | undefined {
+    const key = inputsKey(params)
+    return listJournals().find(
+        (journal) => journal.command === command && journal.deployment === deployment && inputsKey(journal.params) === key && isResumable(journal)
+    )
+}
+
+// ============================================
+// RECORDING
+// ============================================
+export function recordQuote(journal: Journal, name: string, value: ethers.BigNumberish): void {
+    journal.quotes.push({ name, value: BigNumber.from(value).toString(), at: new Date().toISOString() })
+    saveJournal(journal)
+}
+
+export function recordSent(journal: Journal, chain: string, label: string, tx: PopulatedTransaction, sent: ethers.providers.TransactionResponse): JournalStep {
+    const step: JournalStep = {
+        label,
+        chain,
+        status: 'pending',
+        txHash: sent.hash,
+        nonce: sent.nonce,
+        from: sent.from,
+        to: tx.to ?? '',
+        value: BigNumber.from(tx.value ?? 0).toString(),
+        data: tx.data ?? '0x',
+        sentAt: new Date().toISOString(),
+    }
+    journal.steps.push(step)
+    journal.replayed?.add(journal.steps.length - 1)
+    saveJournal(journal)
+    return step
+}
+
+export function recordReceipt(journal: Journal, step: JournalStep, receipt: ethers.providers.TransactionReceipt): void {
+    step.status = receipt.status === 1 ? 'confirmed' : 'reverted'
+    step.blockNumber = receipt.blockNumber
+    saveJournal(journal)
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+/**
+ * Receipt of an earlier run's step with this label on this chain, if it was broadcast and
+ * landed (waiting for it if it is still in the mempool). Returns undefined when the step has
+ * to be sent now: never recorded, reverted, or dropped before it was mined.
+ */
+export async function replayStep(journal: Journal, signer: ethers.Signer, chain: string, label: string): Promise<ethers.providers.TransactionReceipt | undefined> {
+    journal.replayed = journal.replayed ?? new Set()
+    const index = journal.steps.findIndex(
+        (step, i) => !journal.replayed!.has(i) && step.label === label && step.chain === chain && step.status !== 'reverted'
+    )
+    if (index === -1) {
+        return undefined
+    }
+    journal.replayed.add(index)
+    const step = journal.steps[index]
+    const provider = signer.provider!
+
+    let receipt = await provider.getTransactionReceipt(step.txHash)
+    if (!receipt && (await provider.getTransaction(step.txHash))) {
+        console.log(`⏳ ${label}: waiting for ${step.txHash} from the earlier run...`)
+        receipt = await provider.waitForTransaction(step.txHash)
+    }
+    if (!receipt) {
+        const nonce = await provider.getTransactionCount(step.from)
+        if (nonce > step.nonce) {
+            throw failure('error', 
+                `❌ ${label}: ${step.txHash} is unknown but nonce ${step.nonce} of ${step.from} was used by another transaction. Check the account on an explorer before sending again`
+            )
+        }
+        console.warn(`⚠️  ${label}: ${step.txHash} was dropped; sending again`)
+        step.status = 'reverted'
+        saveJournal(journal)
+        return undefined
+    }
+
+    recordReceipt(journal, step, receipt)
+    if (receipt.status !== 1) {
+        return undefined
+    }
+    console.log(`⏭️  ${label}: already confirmed in ${step.txHash} (block ${receipt.blockNumber})`)
+    return receipt
+}
+
+export function finishJournal(journal: Journal, status: JournalStatus, error?: string): void {
+    journal.status = status
+    journal.error = error
+    saveJournal(journal)
+}
@@ -0,0 +1,117 @@
+/**
+ * LayerZero Fees in lzToken
+ *
+ * EndpointV2 can take the protocol (treasury) share of a message fee in its lzToken (ZRO)
+ * instead of native gas; DVN and executor fees stay native. With --pay-in-lz-token the send
+ * is quoted with payInLzToken = true and carries MessagingFee.lzTokenFee. OAppSender pulls the
+ * ZRO from the caller into the endpoint with itself as spender, so the allowance goes to the
+ * OFT the wallet calls. Both fee options are printed either way.
+ */
+
+import { ethers } from 'ethers'
+import { AllowanceGrant, ApprovalConfig, ensureAllowance } from './approval'
+import { getChain, getEndpoint } from './chains'
+import { ENDPOINT_V2_ABI } from './endpoint'
+import { Execution, check, noteQuote } from './execution'
+import { DeploymentManifest } from './manifest'
+import { OFT, SignerOrProvider } from './oft'
+import { MessagingFee, SendParam } from './sendParam'
+import { ERC20_ABI } from './tokens'
+
+export interface LzToken {
+    address: string
+    symbol: string
+    decimals: number
+}
+
+export interface FeeChoice {
+    fee: MessagingFee           // What the send pays
+    native: MessagingFee
+    lzToken?: MessagingFee      // Undefined when the path does not take lzToken
+    grant?: AllowanceGrant      // lzToken allowance, settled once the send is out
+}
+
+export interface FeeRequest {
+    deployment: DeploymentManifest
+    chain: string
+    oft: OFT
+    sendParam: SendParam
+    native?: MessagingFee       // Already quoted native fee (quoted here when undefined)
+    payInLzToken?: boolean
+    approval?: ApprovalConfig
+}
+
+/** The endpoint's lzToken, or undefined when none is set on `chain` */
+export async function getLzToken(deployment: DeploymentManifest, chain: string, signerOrProvider: SignerOrProvider): Promise<LzToken | undefined> {
+    const endpoint = new ethers.Contract(getEndpoint(deployment, chain), ENDPOINT_V2_ABI, signerOrProvider)
+    const address: string = await endpoint.lzToken()
+    if (address === ethers.constants.AddressZero) {
+        return undefined
+    }
+    const token = new ethers.Contract(address, ERC20_ABI, signerOrProvider)
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()])
+    return { address, symbol, decimals }
+}
+
+/** quoteSend with payInLzToken = true; undefined when the endpoint has no lzToken */
+export async function quoteInLzToken(oft: OFT, sendParam: SendParam): Promise<MessagingFee | undefined> {
+    try {
+        return await oft.quote(sendParam, true)
+    } catch (error: any) {
+        if (error.code === ethers.errors.CALL_EXCEPTION) {
+            return undefined
+        }
+        throw error
+    }
+}
+
+export function logFeeOptions(native: MessagingFee, lzToken: MessagingFee | undefined, token: LzToken | undefined, payInLzToken: boolean): void {
+    const paying = '   ← paying'
+    console.log('💰 LayerZero fee:')
+    console.log(`   native:  ${ethers.utils.formatEther(native.nativeFee)} native${payInLzToken ? '' : paying}`)
+    if (lzToken && token) {
+        const zro = `${ethers.utils.formatUnits(lzToken.lzTokenFee, token.decimals)} ${token.symbol}`
+        console.log(`   lzToken: ${ethers.utils.formatEther(lzToken.nativeFee)} native + ${zro}${payInLzToken ? paying : ''}`)
+    } else {
+        console.log('   lzToken: not available (no lzToken set on the endpoint)')
+    }
+}
+
+/**
+ * Quote the send both ways, print the options side by side and return the fee to send with.
+ * Paying in lzToken checks the wallet's lzToken balance and grants the OFT the lzTokenFee.
+ */
+export async function chooseMessagingFee(execution: Execution, signer: ethers.Signer, request: FeeRequest): Promise<FeeChoice> {
+    const { oft, sendParam } = request
+    const payInLzToken = request.payInLzToken ?? false
+    const native = request.native ?? (await oft.quote(sendParam))
+    const token = await getLzToken(request.deployment, request.chain, signer)
+    const lzToken = token ? await quoteInLzToken(oft, sendParam) : undefined
+    logFeeOptions(native, lzToken, token, payInLzToken)
+
+    if (!payInLzToken) {
+        noteQuote(execution, 'nativeFee', native.nativeFee)
+        return { fee: native, native, lzToken }
+    }
+    if (!token || !lzToken) {
+        check(execution, false, 'config', `❌ ${getChain(request.deployment, request.chain).name} does not take LayerZero fees in lzToken. Drop --pay-in-lz-token`)
+        return { fee: native, native, lzToken }
+    }
+
+    const owner = await signer.getAddress()
+    const balance = await new ethers.Contract(token.address, ERC20_ABI, signer).balanceOf(owner)
+    const required = ethers.utils.formatUnits(lzToken.lzTokenFee, token.decimals)
+    check(execution, balance.gte(lzToken.lzTokenFee), 'funds', `❌ Insufficient ${token.symbol} for the LayerZero fee. Required: ${required}, Available: ${ethers.utils.formatUnits(balance, token.decimals)}`)
+    noteQuote(execution, 'nativeFee', lzToken.nativeFee)
+    noteQuote(execution, 'lzTokenFee', lzToken.lzTokenFee)
+
+    // The OApp pulls with transferFrom, so Permit2 cannot grant this allowance
+    const approval = request.approval && { ...request.approval, method: request.approval.method === 'permit2' ? 'approve' : request.approval.method }
+    const grant = await ensureAllowance(
+        execution,
+        signer,
+        { chain: request.chain, token: token.address, spender: oft.address, amount: lzToken.lzTokenFee, decimals: token.decimals, label: `${token.symbol} fee` },
+        approval
+    )
+    return { fee: lzToken, native, lzToken, grant }
+}
@@ -0,0 +1,224 @@
+/**
+ * Deployment Manifest
+ *
+ * One JSON file per vault deployment (manifests/<name>.json) describing the hub,
+ * every chain's EID / RPC and the OVault contracts on each chain. All flows load it
+ * by name via --deployment.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { ethers } from 'ethers'
+import { failure } from './exitCodes'
+
+// ============================================
+// TYPES
+// ============================================
+export const MANIFEST_VERSION = 1
+
+export const MANIFESTS_DIR = path.resolve(__dirname, '../../manifests')
+
+export interface ChainContracts {
+    vault?: string      // ERC4626 vault (hub only)
+    composer?: string   // OVaultComposer (hub only)
+    assetOFT?: string   // Asset OFT / adapter / Stargate pool on this chain
+    shareOFT?: string   // Share OFT on spokes, ShareOFTAdapter on hub
+}
+
+export interface RpcEndpointConfig {
+    url: string
+    weight?: number                      // Preference and quorum vote (default: 1)
+}
+
+export interface ChainConfig {
+    eid: number
+    rpcUrl?: string                      // Single RPC; use rpcUrls for several
+    rpcUrls?: (string | RpcEndpointConfig)[]
+    rpcQuorum?: number                   // Weight that must agree on state reads (default: 1, first answer wins)
+    name: string
+    endpoint?: string                    // EndpointV2 (default: the canonical address for the EID)
+    contracts: ChainContracts
+}
+
+export interface DeploymentManifest {
+    version: number
+    name: string
+    description?: string
+    hub: string                          // Key into `chains`
+    chains: Record<string, ChainConfig>
+}
+
+const CONTRACT_ROLES: (keyof ChainContracts)[] = ['vault', 'composer', 'assetOFT', 'shareOFT']
+const HUB_ONLY_ROLES: (keyof ChainContracts)[] = ['vault', 'composer']
+const HUB_REQUIRED_ROLES: (keyof ChainContracts)[] = ['vault', 'composer']
+
+// ============================================
+// VALIDATION
+// ============================================
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Providers are HTTP JSON-RPC (scripts/lib/rpc.ts): a WebSocket URL would only fail on first use
+function isRpcUrl(value: unknown): value is string {
+    return typeof value === 'string' && /^https?:\/\//.test(value)
+}
+
+function validateRpc(chain: Record<string, unknown>, at: string, errors: string[]): void {
+    if (chain.rpcUrls === undefined) {
+        if (!isRpcUrl(chain.rpcUrl)) {
+            errors.push(`${at}.rpcUrl must be an http(s) URL`)
+        }
+    } else if (chain.rpcUrl !== undefined) {
+        errors.push(`${at} sets both rpcUrl and rpcUrls; list every RPC in rpcUrls`)
+    }
+
+    let totalWeight = 1
+    if (chain.rpcUrls !== undefined) {
+        if (!Array.isArray(chain.rpcUrls) || chain.rpcUrls.length === 0) {
+            errors.push(`${at}.rpcUrls must be a non-empty array`)
+            return
+        }
+        totalWeight = 0
+        chain.rpcUrls.forEach((entry: unknown, i) => {
+            const url = isObject(entry) ? entry.url : entry
+            const weight = isObject(entry) ? entry.weight ?? 1 : 1
+            if (!isRpcUrl(url)) {
+                errors.push(`${at}.rpcUrls[${i}] must be an http(s) URL or { "url", "weight" }`)
+            }
+            if (typeof weight !== 'number' || !Number.isInteger(weight) || weight <= 0) {
+                errors.push(`${at}.rpcUrls[${i}].weight must be a positive integer`)
+            } else {
+                totalWeight += weight
+            }
+        })
+    }
+    if (chain.rpcQuorum !== undefined) {
+        const quorum = chain.rpcQuorum
+        if (typeof quorum !== 'number' || !Number.isInteger(quorum) || quorum <= 0 || quorum > totalWeight) {
+            errors.push(`${at}.rpcQuorum must be a positive integer no larger than the total RPC weight (${totalWeight})`)
+        }
+    }
+}
+
+/** Check a parsed manifest against the schema, collecting every problem before failing */
+export function validateManifest(raw: unknown, source = 'manifest'): DeploymentManifest {
+    const errors: string[] = []
+
+    if (!isObject(raw)) {
+        throw failure('config', `❌ Invalid ${source}: expected a JSON object`)
+    }
+
+    if (raw.version !== MANIFEST_VERSION) {
+        errors.push(`version must be ${MANIFEST_VERSION} (got ${JSON.stringify(raw.version)})`)
+    }
+    if (typeof raw.name !== 'string' || raw.name.length === 0) {
+        errors.push('name must be a non-empty string')
+    }
+    if (raw.description !== undefined && typeof raw.description !== 'string') {
+        errors.push('description must be a string')
+    }
+
+    const chains = raw.chains
+    if (!isObject(chains) || Object.keys(chains).length === 0) {
+        errors.push('chains must be a non-empty object')
+    } else {
+        const eids = new Map<number, string>()
+
+        for (const [key, chain] of Object.entries(chains)) {
+            const at = `chains.${key}`
+            if (!isObject(chain)) {
+                errors.push(`${at} must be an object`)
+                continue
+            }
+            if (typeof chain.eid !== 'number' || !Number.isInteger(chain.eid) || chain.eid <= 0) {
+                errors.push(`${at}.eid must be a positive integer`)
+            } else if (eids.has(chain.eid)) {
+                errors.push(`${at}.eid ${chain.eid} duplicates chains.${eids.get(chain.eid)}`)
+            } else {
+                eids.set(chain.eid, key)
+            }
+            validateRpc(chain, at, errors)
+            if (typeof chain.name !== 'string' || chain.name.length === 0) {
+                errors.push(`${at}.name must be a non-empty string`)
+            }
+            if (chain.endpoint !== undefined && (typeof chain.endpoint !== 'string' || !ethers.utils.isAddress(chain.endpoint))) {
+                errors.push(`${at}.endpoint must be a valid address`)
+            }
+
+            const contracts = chain.contracts ?? {}
+            if (!isObject(contracts)) {
+                errors.push(`${at}.contracts must be an object`)
+                continue
+            }
+            for (const [role, address] of Object.entries(contracts)) {
+                if (!CONTRACT_ROLES.includes(role as keyof ChainContracts)) {
+                    errors.push(`${at}.contracts.${role} is not a known role (${CONTRACT_ROLES.join(', ')})`)
+                } else if (typeof address !== 'string' || !ethers.utils.isAddress(address)) {
+                    errors.push(`${at}.contracts.${role} must be a valid address`)
+                } else if (key !== raw.hub && HUB_ONLY_ROLES.includes(role as keyof ChainContracts)) {
+                    errors.push(`${at}.contracts.${role} is only valid on the hub chain`)
+                }
+            }
+        }
+
+        if (typeof raw.hub !== 'string' || !(raw.hub in chains)) {
+            errors.push(`hub must name one of the chains (${Object.keys(chains).join(', ')})`)
+        } else {
+            const hubContracts = (chains[raw.hub] as Record<string, unknown>).contracts
+            for (const role of HUB_REQUIRED_ROLES) {
+                if (!isObject(hubContracts) || !hubContracts[role]) {
+                    errors.push(`chains.${raw.hub}.contracts.${role} is required on the hub`)
+                }
+            }
+        }
+    }
+
+    if (errors.length > 0) {
+        throw failure('config', `❌ Invalid ${source}:\n${errors.map((e) => `   - ${e}`).join('\n')}`)
+    }
+
+    const manifest = raw as unknown as DeploymentManifest
+    for (const chain of Object.values(manifest.chains)) {
+        chain.contracts = chain.contracts ?? {}
+    }
+    return manifest
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/** Resolve a deployment name (manifests/<name>.json) or an explicit path to a manifest file */
+export function resolveManifestPath(nameOrPath: string): string {
+    if (nameOrPath.endsWith('.json') || nameOrPath.includes(path.sep)) {
+        return path.resolve(nameOrPath)
+    }
+    return path.join(MANIFESTS_DIR, `${nameOrPath}.json`)
+}
+
+export function listManifests(): string[] {
+    if (!fs.existsSync(MANIFESTS_DIR)) {
+        return []
+    }
+    return fs
+        .readdirSync(MANIFESTS_DIR)
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => file.replace(/\.json$/, ''))
+}
+
+export function loadManifest(nameOrPath: string): DeploymentManifest {
+    const file = resolveManifestPath(nameOrPath)
+    if (!fs.existsSync(file)) {
+        const available = listManifests()
+        throw failure('config', `❌ Deployment "${nameOrPath}" not found at ${file}. Available: ${available.join(', ') || 'none'}`)
+    }
+
+    let raw: unknown
+    try {
+        raw = JSON.parse(fs.readFileSync(file, 'utf8'))
+    } catch (error: any) {
+        throw failure('config', `❌ Could not parse ${file}: ${error.message}`)
+    }
+    return validateManifest(raw, file)
+}
@@ -0,0 +1,101 @@
+/**
+ * Native-Asset Vaults
+ *
+ * ETH OVaults hold WETH in the vault, move ETH itself through native OFTs / Stargate native
+ * pools, and expose depositNativeAndSend on the composer. Helpers here detect that setup,
+ * wrap / unwrap on the hub, and split msg.value into the amount it carries and the fee.
+ */
+
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import { getChain } from './chains'
+import { Execution, check, executeTx } from './execution'
+import { DeploymentManifest } from './manifest'
+import { connectOFT } from './oft'
+import { ERC20_ABI } from './tokens'
+
+export const WETH_ABI = [...ERC20_ABI, 'function deposit() payable', 'function withdraw(uint256)']
+
+/** What msg.value pays for: the native amount sent (0 for ERC20 input) and the LayerZero fee */
+export interface MsgValue {
+    amount: BigNumber
+    fee: BigNumber
+    total: BigNumber
+}
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * True when the hub's asset OFT is a native pool, i.e. the vault asset is wrapped native.
+ * A hub that lists no asset OFT only takes the asset directly, so it is not native.
+ */
+export async function isNativeHub(deployment: DeploymentManifest, hub: string, provider: ethers.providers.Provider): Promise<boolean> {
+    const assetOFT = getChain(deployment, hub).contracts.assetOFT
+    if (!assetOFT) {
+        return false
+    }
+    const token = await connectOFT(assetOFT, provider).token()
+    return token === ethers.constants.AddressZero
+}
+
+// ============================================
+// MSG.VALUE
+// ============================================
+export function msgValue(amount: BigNumberish, fee: BigNumberish): MsgValue {
+    const value = { amount: BigNumber.from(amount), fee: BigNumber.from(fee) }
+    return { ...value, total: value.amount.add(value.fee) }
+}
+
+export function logMsgValue(value: MsgValue): void {
+    const eth = (amount: BigNumber) => ethers.utils.formatEther(amount)
+    if (value.amount.isZero()) {
+        console.log(`💸 msg.value: ${eth(value.total)} ETH (LayerZero fee)`)
+        return
+    }
+    console.log(`💸 msg.value: ${eth(value.total)} ETH = ${eth(value.amount)} ETH amount + ${eth(value.fee)} ETH LayerZero fee`)
+}
+
+/** Fail (or warn on a dry run) unless the wallet's native balance covers msg.value */
+export async function checkNativeBalance(execution: Execution, signer: ethers.Signer, value: MsgValue): Promise<void> {
+    const balance = await signer.getBalance()
+    check(
+        execution,
+        balance.gte(value.total),
+        'funds',
+        `❌ Insufficient ETH. Need ${ethers.utils.formatEther(value.total)} (amount + fee), have ${ethers.utils.formatEther(balance)}`
+    )
+}
+
+// ============================================
+// WRAP / UNWRAP
+// ============================================
+
+/** Wrap whatever part of `amount` the wallet does not already hold as WETH */
+export async function wrapShortfall(
+    execution: Execution,
+    signer: ethers.Signer,
+    chain: string,
+    weth: string,
+    amount: BigNumber
+): Promise<BigNumber> {
+    const token = new ethers.Contract(weth, WETH_ABI, signer)
+    const owner = await signer.getAddress()
+    const held: BigNumber = await token.balanceOf(owner)
+    if (held.gte(amount)) {
+        return BigNumber.from(0)
+    }
+
+    const shortfall = amount.sub(held)
+    const balance = await signer.getBalance()
+    check(execution, balance.gte(shortfall), 'funds', `❌ Insufficient ETH to wrap. Need ${ethers.utils.formatEther(shortfall)}, have ${ethers.utils.formatEther(balance)}`)
+    console.log(`🎁 Wrapping ${ethers.utils.formatEther(shortfall)} ETH (holding ${ethers.utils.formatEther(held)} WETH)`)
+    await executeTx(execution, signer, chain, 'Wrap ETH', await token.populateTransaction.deposit({ value: shortfall }))
+    return shortfall
+}
+
+export async function unwrap(execution: Execution, signer: ethers.Signer, chain: string, weth: string, amount: BigNumber): Promise<void> {
+    const token = new ethers.Contract(weth, WETH_ABI, signer)
+    console.log(`🎁 Unwrapping ${ethers.utils.formatEther(amount)} WETH`)
+    await executeTx(execution, signer, chain, 'Unwrap WETH', await token.populateTransaction.withdraw(amount))
+}
@@ -0,0 +1,42 @@
+/**
+ * Known LayerZero V2 networks keyed by EVM chain ID.
+ * Used to fill in EIDs / RPCs when importing deployments that only carry a chain ID.
+ */
+
+export interface KnownNetwork {
+    eid: number
+    name: string
+    rpcUrl: string
+    endpoint?: string   // EndpointV2, when it is not the canonical mainnet / testnet address
+}
+
+export const ENDPOINT_V2_MAINNET = '0x1a44076050125825900e736c501f859c50fE728c'
+export const ENDPOINT_V2_TESTNET = '0x6EDCE65403992e310A62460808c4b910D972f10f'
+
+export const KNOWN_NETWORKS: Record<number, KnownNetwork> = {
+    // Mainnets
+    1: { eid: 30101, name: 'Ethereum', rpcUrl: 'https://ethereum-rpc.publicnode.com' },
+    10: { eid: 30111, name: 'Optimism', rpcUrl: 'https://mainnet.optimism.io' },
+    56: { eid: 30102, name: 'BSC', rpcUrl: 'https://bsc-rpc.publicnode.com' },
+    137: { eid: 30109, name: 'Polygon', rpcUrl: 'https://polygon-rpc.com' },
+    8453: { eid: 30184, name: 'Base', rpcUrl: 'https://mainnet.base.org' },
+    42161: { eid: 30110, name: 'Arbitrum', rpcUrl: 'https://arb1.arbitrum.io/rpc' },
+    43114: { eid: 30106, name: 'Avalanche', rpcUrl: 'https://api.avax.network/ext/bc/C/rpc' },
+    747474: { eid: 30375, name: 'Katana', rpcUrl: 'https://rpc.katana.network', endpoint: '0x6F475642a6e85809B1c36Fa62763669b1b48DD5B' },
+
+    // Testnets
+    84532: { eid: 40245, name: 'Base Sepolia', rpcUrl: 'https://base-sepolia.gateway.tenderly.co' },
+    421614: { eid: 40231, name: 'Arbitrum Sepolia', rpcUrl: 'https://arbitrum-sepolia.gateway.tenderly.co' },
+    11155111: { eid: 40161, name: 'Sepolia', rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com' },
+    11155420: { eid: 40232, name: 'Optimism Sepolia', rpcUrl: 'https://optimism-sepolia.gateway.tenderly.co' },
+}
+
+/** Reverse lookup for display: the known network behind a LayerZero EID */
+export function networkByEid(eid: number): KnownNetwork | undefined {
+    return Object.values(KNOWN_NETWORKS).find((network) => network.eid === eid)
+}
+
+/** EndpointV2 address for an EID: known override, else the canonical mainnet (30xxx) or testnet (40xxx) address */
+export function endpointForEid(eid: number): string {
+    return networkByEid(eid)?.endpoint ?? (eid >= 40000 ? ENDPOINT_V2_TESTNET : ENDPOINT_V2_MAINNET)
+}
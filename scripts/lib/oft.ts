@@ -0,0 +1,162 @@
+/**
+ * Typed OFT / Stargate / OVaultComposer wrappers
+ *
+ * Every contract call that takes a SendParam or MessagingFee goes through here,
+ * so flows never hand-flatten structs into positional arrays.
+ */
+
+import { BigNumber, BigNumberish, ContractTransaction, PayableOverrides, PopulatedTransaction, ethers } from 'ethers'
+import { failsAs } from './exitCodes'
+import {
+    MESSAGING_FEE_TYPE,
+    MESSAGING_RECEIPT_TYPE,
+    MessagingFee,
+    OFTQuote,
+    OFT_FEE_DETAIL_TYPE,
+    OFT_LIMIT_TYPE,
+    OFT_RECEIPT_TYPE,
+    SEND_PARAM_TYPE,
+    SendParam,
+    decodeMessagingFee,
+    decodeOFTQuote,
+    encodeMessagingFee,
+    encodeSendParam,
+} from './sendParam'
+import { ERC20_ABI } from './tokens'
+
+// ============================================
+// ABIS
+// ============================================
+export const OFT_ABI = [
+    'function token() view returns (address)',
+    'function approvalRequired() view returns (bool)',
+    'function sharedDecimals() view returns (uint8)',
+    `function quoteOFT(${SEND_PARAM_TYPE} sendParam) view returns (${OFT_LIMIT_TYPE} limit, ${OFT_FEE_DETAIL_TYPE}[] feeDetails, ${OFT_RECEIPT_TYPE} receipt)`,
+    `function quoteSend(${SEND_PARAM_TYPE} sendParam, bool payInLzToken) view returns (${MESSAGING_FEE_TYPE} fee)`,
+    `function send(${SEND_PARAM_TYPE} sendParam, ${MESSAGING_FEE_TYPE} fee, address refundAddress) payable returns (${MESSAGING_RECEIPT_TYPE} receipt, tuple(uint256 amountSentLD, uint256 amountReceivedLD) oftReceipt)`,
+    'event OFTSent(bytes32 indexed guid, uint32 dstEid, address indexed fromAddress, uint256 amountSentLD, uint256 amountReceivedLD)',
+    'event OFTReceived(bytes32 indexed guid, uint32 srcEid, address indexed toAddress, uint256 amountReceivedLD)',
+]
+
+// Stargate pools implement IOFT, so the same fragments apply, plus per-path credit and the
+// bus events (emitted by TokenMessaging on mainnet deployments, matched here by topic)
+export const STARGATE_POOL_ABI = [
+    ...OFT_ABI,
+    'function paths(uint32 eid) view returns (uint64 credit)',
+    'event BusRode(uint32 dstEid, uint72 ticketId, bytes passenger)',
+    'event BusDriven(uint32 dstEid, uint72 startTicketId, uint8 numPassengers, bytes32 guid)',
+]
+
+export const COMPOSER_ABI = [
+    `function depositAndSend(uint256 assetAmount, ${SEND_PARAM_TYPE} sendParam, address refundAddress) payable`,
+    `function redeemAndSend(uint256 shareAmount, ${SEND_PARAM_TYPE} sendParam, address refundAddress) payable`,
+    // Native composers only: msg.value carries the assets (wrapped on the hub) plus the fee
+    `function depositNativeAndSend(uint256 assetAmount, ${SEND_PARAM_TYPE} sendParam, address refundAddress) payable`,
+    // Self-call made by lzCompose; only reachable from the composer itself (used for gas profiling)
+    'function handleCompose(address oftIn, bytes32 composeFrom, bytes composeMsg, uint256 amount) payable',
+    'event Sent(bytes32 indexed guid)',
+    'event Refunded(bytes32 indexed guid)',
+]
+
+// ============================================
+// WRAPPERS
+// ============================================
+export type SignerOrProvider = ethers.Signer | ethers.providers.Provider
+
+export interface OFT {
+    address: string
+    contract: ethers.Contract
+    token(): Promise<string>
+    approvalRequired(): Promise<boolean>
+    sharedDecimals(): Promise<number>
+    quoteOFT(sendParam: SendParam): Promise<OFTQuote>
+    quote(sendParam: SendParam, payInLzToken?: boolean): Promise<MessagingFee>
+    send(sendParam: SendParam, fee: MessagingFee, refundAddress: string, overrides?: PayableOverrides): Promise<ContractTransaction>
+    populateSend(sendParam: SendParam, fee: MessagingFee, refundAddress: string, overrides?: PayableOverrides): Promise<PopulatedTransaction>
+}
+
+export type StargatePool = OFT
+
+export interface Composer {
+    address: string
+    contract: ethers.Contract
+    depositAndSend(assetAmount: BigNumberish, sendParam: SendParam, refundAddress: string, overrides?: PayableOverrides): Promise<ContractTransaction>
+    redeemAndSend(shareAmount: BigNumberish, sendParam: SendParam, refundAddress: string, overrides?: PayableOverrides): Promise<ContractTransaction>
+    populateDepositAndSend(assetAmount: BigNumberish, sendParam: SendParam, refundAddress: string, overrides?: PayableOverrides): Promise<PopulatedTransaction>
+    populateRedeemAndSend(shareAmount: BigNumberish, sendParam: SendParam, refundAddress: string, overrides?: PayableOverrides): Promise<PopulatedTransaction>
+    populateDepositNativeAndSend(assetAmount: BigNumberish, sendParam: SendParam, refundAddress: string, overrides?: PayableOverrides): Promise<PopulatedTransaction>
+}
+
+function wrapOFT(contract: ethers.Contract): OFT {
+    return {
+        address: contract.address,
+        contract,
+        token: () => contract.token(),
+        approvalRequired: () => contract.approvalRequired(),
+        sharedDecimals: () => contract.sharedDecimals(),
+        quoteOFT: async (sendParam) => decodeOFTQuote(await failsAs('quote', contract.quoteOFT(encodeSendParam(sendParam)))),
+        quote: async (sendParam, payInLzToken = false) => {
+            const fee = await failsAs<ethers.utils.Result>('quote', contract.quoteSend(encodeSendParam(sendParam), payInLzToken))
+            return decodeMessagingFee(fee)
+        },
+        send: (sendParam, fee, refundAddress, overrides = {}) =>
+            contract.send(encodeSendParam(sendParam), encodeMessagingFee(fee), refundAddress, {
+                value: fee.nativeFee,
+                ...overrides,
+            }),
+        populateSend: (sendParam, fee, refundAddress, overrides = {}) =>
+            contract.populateTransaction.send(encodeSendParam(sendParam), encodeMessagingFee(fee), refundAddress, {
+                value: fee.nativeFee,
+                ...overrides,
+            }),
+    }
+}
+
+export function connectOFT(address: string, signerOrProvider: SignerOrProvider): OFT {
+    return wrapOFT(new ethers.Contract(address, OFT_ABI, signerOrProvider))
+}
+
+export function connectStargatePool(address: string, signerOrProvider: SignerOrProvider): StargatePool {
+    return wrapOFT(new ethers.Contract(address, STARGATE_POOL_ABI, signerOrProvider))
+}
+
+export function connectComposer(address: string, signerOrProvider: SignerOrProvider): Composer {
+    const contract = new ethers.Contract(address, COMPOSER_ABI, signerOrProvider)
+    return {
+        address,
+        contract,
+        depositAndSend: (assetAmount, sendParam, refundAddress, overrides = {}) =>
+            contract.depositAndSend(BigNumber.from(assetAmount), encodeSendParam(sendParam), refundAddress, overrides),
+        redeemAndSend: (shareAmount, sendParam, refundAddress, overrides = {}) =>
+            contract.redeemAndSend(BigNumber.from(shareAmount), encodeSendParam(sendParam), refundAddress, overrides),
+        populateDepositAndSend: (assetAmount, sendParam, refundAddress, overrides = {}) =>
+            contract.populateTransaction.depositAndSend(BigNumber.from(assetAmount), encodeSendParam(sendParam), refundAddress, overrides),
+        populateRedeemAndSend: (shareAmount, sendParam, refundAddress, overrides = {}) =>
+            contract.populateTransaction.redeemAndSend(BigNumber.from(shareAmount), encodeSendParam(sendParam), refundAddress, overrides),
+        populateDepositNativeAndSend: (assetAmount, sendParam, refundAddress, overrides = {}) =>
+            contract.populateTransaction.depositNativeAndSend(BigNumber.from(assetAmount), encodeSendParam(sendParam), refundAddress, overrides),
+    }
+}
+
+/**
+ * Credit a Stargate pool holds towards `dstEid`, in local decimals. A send larger than the credit
+ * reverts. Undefined for OFTs and adapters, which have no paths.
+ */
+export async function getPathCredit(pool: OFT, dstEid: number, localDecimals: number): Promise<BigNumber | undefined> {
+    const contract = new ethers.Contract(pool.address, STARGATE_POOL_ABI, pool.contract.signer ?? pool.contract.provider)
+    try {
+        const creditSD: BigNumber = await contract.paths(dstEid)
+        return creditSD.mul(BigNumber.from(10).pow(localDecimals - (await pool.sharedDecimals())))
+    } catch (error: any) {
+        if (error.code === 'CALL_EXCEPTION') {
+            return undefined
+        }
+        throw error
+    }
+}
+
+/** Decimals of the token an OFT moves (18 for native-asset OFTs such as Stargate ETH pools) */
+export async function getOFTDecimals(address: string, provider: ethers.providers.Provider): Promise<number> {
+    const token = await connectOFT(address, provider).token()
+    return token === ethers.constants.AddressZero ? 18 : new ethers.Contract(token, ERC20_ABI, provider).decimals()
+}
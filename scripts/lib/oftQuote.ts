@@ -0,0 +1,61 @@
+/**
+ * quoteOFT Checks
+ *
+ * Shows what an OFT / Stargate send will really do before it is broadcast: the pool's
+ * OFTLimit, every OFTFeeDetail and the amountReceivedLD on the destination. Sends outside
+ * the limits, or larger than the credit a Stargate pool holds towards the destination, are
+ * refused (recorded as warnings on a dry run) instead of reverting or being refunded on-chain.
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { Execution, check } from './execution'
+import { OFT, getPathCredit } from './oft'
+import { SendParam } from './sendParam'
+import { HopEstimate } from './slippage'
+
+function format(amount: BigNumber, hop: HopEstimate): string {
+    return `${ethers.utils.formatUnits(amount, hop.decimals)} ${hop.symbol}`
+}
+
+export function logOFTQuote(hop: HopEstimate): void {
+    if (!hop.quote) {
+        return
+    }
+    const { limit, feeDetails, receipt } = hop.quote
+    console.log(`🔎 ${hop.label}: sends ${format(receipt.amountSentLD, hop)}, destination receives ${format(receipt.amountReceivedLD, hop)}`)
+    for (const fee of feeDetails) {
+        const kind = fee.feeAmountLD.isNegative() ? 'reward' : 'fee'
+        console.log(`   ${kind}: ${format(fee.feeAmountLD.abs(), hop)} (${fee.description})`)
+    }
+    const max = limit.maxAmountLD.eq(ethers.constants.MaxUint256) ? 'no maximum' : `max ${format(limit.maxAmountLD, hop)}`
+    console.log(`   limits: min ${format(limit.minAmountLD, hop)}, ${max}`)
+}
+
+/** Log the quote, then refuse amounts the OFT would reject or a pool could not carry */
+export async function checkOFTQuote(execution: Execution, oft: OFT, sendParam: SendParam, hop: HopEstimate): Promise<void> {
+    logOFTQuote(hop)
+    if (!hop.quote) {
+        return
+    }
+    const { limit, receipt } = hop.quote
+    const amount = sendParam.amountLD
+
+    // Stargate's maximum is the path credit; say so rather than reporting a bare limit
+    const credit = await getPathCredit(oft, sendParam.dstEid, hop.decimals)
+    if (credit !== undefined && credit.lt(receipt.amountSentLD)) {
+        check(
+            execution,
+            false,
+            'quote',
+            `❌ ${hop.label}: the pool only has ${format(credit, hop)} of credit towards EID ${sendParam.dstEid}, ${format(receipt.amountSentLD, hop)} would revert. Send less or wait for the path to be rebalanced`
+        )
+    } else {
+        check(execution, amount.lte(limit.maxAmountLD), 'quote', `❌ ${hop.label}: ${format(amount, hop)} is above the maximum of ${format(limit.maxAmountLD, hop)}`)
+    }
+    check(execution, amount.gte(limit.minAmountLD), 'quote', `❌ ${hop.label}: ${format(amount, hop)} is below the minimum of ${format(limit.minAmountLD, hop)}`)
+
+    const fees = receipt.amountSentLD.sub(receipt.amountReceivedLD)
+    if (fees.gt(0)) {
+        console.warn(`⚠️  ${hop.label}: ${format(fees, hop)} is kept as fees`)
+    }
+}
@@ -0,0 +1,236 @@
+/**
+ * Pre-flight Checks
+ *
+ * Read-only checks every flow runs before it approves or sends anything: each OFT on the
+ * route has the manifest's peer for the next hop, the options it enforces combine with ours
+ * into something the executor can deliver, the vault takes the amount and is not paused, and
+ * the composer is wired to the vault and OFTs in the manifest. Every problem found is listed
+ * at once and aborts the flow (a warning on a dry run).
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { getChain, getContract, getProvider } from './chains'
+import { Execution, check } from './execution'
+import { failure } from './exitCodes'
+import { DecodedOptions, decodeOptions } from './inspect'
+import { DeploymentManifest } from './manifest'
+import { SendParam } from './sendParam'
+
+// ============================================
+// TYPES
+// ============================================
+// OFT message types, as OAppOptionsType3 keys enforced options
+export const MSG_TYPE_SEND = 1
+export const MSG_TYPE_SEND_AND_CALL = 2
+
+export const OAPP_ABI = [
+    'function peers(uint32 eid) view returns (bytes32)',
+    'function enforcedOptions(uint32 eid, uint16 msgType) view returns (bytes)',
+    'function paths(uint32 eid) view returns (uint64 credit)',
+    'function paused() view returns (bool)',
+]
+
+export const COMPOSER_WIRING_ABI = [
+    'function VAULT() view returns (address)',
+    'function ASSET_OFT() view returns (address)',
+    'function SHARE_OFT() view returns (address)',
+]
+
+const VAULT_LIMITS_ABI = [
+    'function maxDeposit(address receiver) view returns (uint256)',
+    'function maxRedeem(address owner) view returns (uint256)',
+    'function paused() view returns (bool)',
+]
+
+export interface PreflightHop {
+    label: string
+    src: string                     // Chain the OFT sends from
+    dst: string                     // Chain its peer must be on
+    role: 'assetOFT' | 'shareOFT'
+    sendParam: SendParam
+}
+
+export interface PreflightVault {
+    operation: 'deposit' | 'redeem'
+    amount: BigNumber
+    account?: string                // maxDeposit receiver / maxRedeem owner; limits are skipped without one
+    symbol: string
+    decimals: number
+}
+
+export interface PreflightPlan {
+    deployment: DeploymentManifest
+    hub: string
+    hops: PreflightHop[]
+    vault?: PreflightVault
+    composer?: boolean              // Check the hub composer's VAULT() / ASSET_OFT() / SHARE_OFT()
+}
+
+// ============================================
+// CHECKS
+// ============================================
+/** A view that reverts means the contract does not implement it */
+export async function optionalView<T>(read: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await read()
+    } catch (error: any) {
+        if (error.code === ethers.errors.CALL_EXCEPTION) {
+            return undefined
+        }
+        throw error
+    }
+}
+
+function same(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+}
+
+/** OAppOptionsType3.combineOptions: enforced options first, then ours without the type-3 header */
+export function combineOptions(enforced: string, extraOptions: string): string {
+    if (enforced === '0x') {
+        return extraOptions
+    }
+    if (extraOptions === '0x') {
+        return enforced
+    }
+    if (ethers.utils.hexDataLength(extraOptions) < 2 || ethers.utils.hexDataSlice(extraOptions, 0, 2) !== '0x0003') {
+        throw failure('config', `❌ Options ${extraOptions} are not type 3 and cannot be combined with enforced options`)
+    }
+    return ethers.utils.hexConcat([enforced, ethers.utils.hexDataSlice(extraOptions, 2)])
+}
+
+function describeOptions(options: DecodedOptions): string {
+    const parts = [`lzReceive ${options.lzReceive?.gas.toString() ?? 0} gas`]
+    for (const compose of options.compose) {
+        parts.push(`lzCompose[${compose.index}] ${compose.gas.toString()} gas + ${ethers.utils.formatEther(compose.value)} native`)
+    }
+    return parts.join(', ')
+}
+
+async function checkPeer(plan: PreflightPlan, hop: PreflightHop, oft: ethers.Contract, issues: string[]): Promise<void> {
+    const dstEid = hop.sendParam.dstEid
+    const peer: string | undefined = await optionalView(() => oft.peers(dstEid))
+    if (peer === undefined) {
+        // Stargate pools route through their path credit instead of OApp peers
+        const credit = await optionalView(() => oft.paths(dstEid))
+        if (credit === undefined) {
+            issues.push(`${hop.label}: ${oft.address} has neither peers() nor paths(); not an OFT or Stargate pool`)
+        } else {
+            console.log(`   ✅ ${hop.label}: Stargate path to EID ${dstEid}`)
+        }
+        return
+    }
+    if (peer === ethers.constants.HashZero) {
+        issues.push(`${hop.label}: ${oft.address} has no peer for EID ${dstEid} (the send reverts with NoPeer)`)
+        return
+    }
+    const expected = getChain(plan.deployment, hop.dst).contracts[hop.role]
+    if (expected && !same(peer, ethers.utils.hexZeroPad(expected, 32))) {
+        issues.push(`${hop.label}: peer for EID ${dstEid} is ${peer}, the manifest has ${hop.role} ${expected}`)
+        return
+    }
+    console.log(`   ✅ ${hop.label}: peer set for EID ${dstEid}`)
+}
+
+async function checkOptions(hop: PreflightHop, oft: ethers.Contract, issues: string[]): Promise<void> {
+    const { dstEid, extraOptions, composeMsg } = hop.sendParam
+    const isCompose = composeMsg !== '0x'
+    const msgType = isCompose ? MSG_TYPE_SEND_AND_CALL : MSG_TYPE_SEND
+    const enforced: string | undefined = await optionalView(() => oft.enforcedOptions(dstEid, msgType))
+    if (enforced === undefined) {
+        console.log(`   ℹ️  ${hop.label}: no enforced options to combine with (not OAppOptionsType3)`)
+        return
+    }
+
+    let combined: DecodedOptions
+    try {
+        combined = decodeOptions(combineOptions(enforced, extraOptions))
+    } catch (error: any) {
+        issues.push(`${hop.label}: ${error.message.replace(/^❌\s*/, '')}`)
+        return
+    }
+    const source = enforced === '0x' ? 'ours only' : extraOptions === '0x' ? 'enforced only' : 'enforced + ours'
+    console.log(`   ✅ ${hop.label}: executor gets ${describeOptions(combined)} (${source})`)
+
+    if (!combined.lzReceive || combined.lzReceive.gas.isZero()) {
+        issues.push(`${hop.label}: no lzReceive gas towards EID ${dstEid} in the enforced options or ours; the executor would not deliver it`)
+    }
+    if (isCompose && !combined.compose.some((compose) => compose.index === 0 && compose.gas.gt(0))) {
+        issues.push(`${hop.label}: no lzCompose gas towards EID ${dstEid}; the compose would never run`)
+    }
+}
+
+async function checkNotPaused(label: string, contract: ethers.Contract, issues: string[]): Promise<void> {
+    if ((await optionalView(() => contract.paused())) === true) {
+        issues.push(`${label}: ${contract.address} is paused`)
+    }
+}
+
+async function checkVault(plan: PreflightPlan, vault: PreflightVault, issues: string[]): Promise<void> {
+    const contract = new ethers.Contract(getContract(plan.deployment, plan.hub, 'vault'), VAULT_LIMITS_ABI, getProvider(plan.deployment, plan.hub))
+    const before = issues.length
+    await checkNotPaused('Vault', contract, issues)
+    if (vault.account) {
+        const method = vault.operation === 'deposit' ? 'maxDeposit' : 'maxRedeem'
+        const max: BigNumber | undefined = await optionalView(() => contract[method](vault.account))
+        if (max !== undefined && max.lt(vault.amount)) {
+            const format = (amount: BigNumber) => `${ethers.utils.formatUnits(amount, vault.decimals)} ${vault.symbol}`
+            issues.push(`Vault: ${method}(${vault.account}) is ${format(max)}, ${format(vault.amount)} would revert`)
+        }
+    }
+    if (issues.length === before) {
+        console.log(`   ✅ Vault: not paused${vault.account ? `, takes the ${vault.operation}` : ''}`)
+    }
+}
+
+/** Compare the composer's wiring with the roles the manifest lists on the hub; unlisted ones are left alone */
+async function checkComposer(plan: PreflightPlan, issues: string[]): Promise<void> {
+    const composer = new ethers.Contract(getContract(plan.deployment, plan.hub, 'composer'), COMPOSER_WIRING_ABI, getProvider(plan.deployment, plan.hub))
+    const contracts = getChain(plan.deployment, plan.hub).contracts
+    const wiring = [
+        ['VAULT', 'vault', 'vault'],
+        ['ASSET_OFT', 'assetOFT', 'asset OFT'],
+        ['SHARE_OFT', 'shareOFT', 'share OFT'],
+    ] as const
+    const before = issues.length
+    const checked: string[] = []
+    for (const [getter, role, name] of wiring) {
+        const expected = contracts[role]
+        if (!expected) {
+            continue
+        }
+        const actual: string | undefined = await optionalView(() => composer[getter]())
+        if (actual === undefined) {
+            issues.push(`Composer: ${composer.address} has no ${getter}(); not an OVaultComposer`)
+            return
+        }
+        if (!same(actual, expected)) {
+            issues.push(`Composer: ${getter}() is ${actual}, the manifest has ${role} ${expected}`)
+        }
+        checked.push(name)
+    }
+    if (issues.length === before) {
+        console.log(`   ✅ Composer: wired to the ${checked.join(', ')}`)
+    }
+}
+
+/** Run every check the plan calls for; any misconfiguration aborts the flow (dry run: warns) */
+export async function preflight(execution: Execution, plan: PreflightPlan): Promise<void> {
+    console.log('🛫 Pre-flight checks:')
+    const issues: string[] = []
+
+    for (const hop of plan.hops) {
+        const oft = new ethers.Contract(getContract(plan.deployment, hop.src, hop.role), OAPP_ABI, getProvider(plan.deployment, hop.src))
+        await checkPeer(plan, hop, oft, issues)
+        await checkOptions(hop, oft, issues)
+        await checkNotPaused(hop.label, oft, issues)
+    }
+    if (plan.vault) {
+        await checkVault(plan, plan.vault, issues)
+    }
+    if (plan.composer) {
+        await checkComposer(plan, issues)
+    }
+
+    check(execution, issues.length === 0, 'config', `❌ Pre-flight checks failed:\n${issues.map((issue) => `   - ${issue}`).join('\n')}`)
+}
@@ -0,0 +1,143 @@
+/**
+ * JSON Report
+ *
+ * With --json a flow prints one result object on stdout and nothing else; the usual progress
+ * lines move to stderr. The object holds the inputs, the resolved addresses, every quote and
+ * the SendParams / fees the flow built, each transaction with its hash and block, the GUIDs
+ * of the messages sent and the status of every hop, and on failure the error with its exit
+ * code (scripts/lib/exitCodes.ts).
+ */
+
+import { getChain, getEndpoint } from './chains'
+import { jsonReplacer } from './execution'
+import { DecodedRevert, decodeRevert } from './errors'
+import { EXIT_CODES, FailureKind, classifyError } from './exitCodes'
+import { JournalParams } from './journal'
+import { ChainContracts, DeploymentManifest } from './manifest'
+import { HopResult, HopStatus } from './tracking'
+
+// ============================================
+// TYPES
+// ============================================
+export interface ReportTx {
+    label: string
+    chain: string
+    hash: string
+    blockNumber?: number
+    status: 'confirmed' | 'reverted' | 'pending'
+    replayed?: boolean                  // Landed in an earlier run of the journal
+}
+
+export interface ReportHop {
+    src: string
+    dst: string
+    guid: string
+    nonce: string
+    status: HopStatus
+    refund?: boolean
+    deliveryTx?: string
+    composeTx?: string
+    recipient?: string
+    amountReceivedLD?: string
+    error?: string
+}
+
+export interface FlowReport {
+    status: 'ok' | 'failed'
+    exitCode: number
+    command: string
+    flow: string
+    deployment: string
+    dryRun: boolean
+    inputs: JournalParams
+    addresses: {
+        wallet?: string
+        recipient?: string
+        chains: Record<string, ChainContracts & { endpoint: string }>
+    }
+    quotes: Record<string, string>
+    details: Record<string, unknown>    // SendParams, fees, msg.value and slippage, as the flow built them
+    transactions: unknown[]             // ReportTx, or the simulated PlannedTx of a dry run
+    tracking?: {
+        status: 'complete' | 'failed' | 'untracked'
+        guids: string[]
+        hops: ReportHop[]
+    }
+    warnings: string[]
+    journal?: string
+    error?: { kind: FailureKind; message: string; reason?: string; revert?: DecodedRevert }
+}
+
+// ============================================
+// BUILDING
+// ============================================
+export function createReport(request: {
+    command: string
+    flow: string
+    deployment: DeploymentManifest
+    dryRun?: boolean
+    inputs: JournalParams
+}): FlowReport {
+    const chains: FlowReport['addresses']['chains'] = {}
+    for (const key of new Set([request.inputs.src, request.inputs.hub, request.inputs.dst])) {
+        chains[key] = { ...getChain(request.deployment, key).contracts, endpoint: getEndpoint(request.deployment, key) }
+    }
+    return {
+        status: 'ok',
+        exitCode: EXIT_CODES.ok,
+        command: request.command,
+        flow: request.flow,
+        deployment: request.deployment.name,
+        dryRun: request.dryRun ?? false,
+        inputs: request.inputs,
+        addresses: { chains },
+        quotes: {},
+        details: {},
+        transactions: [],
+        warnings: [],
+    }
+}
+
+function reportHop(hop: HopResult): ReportHop {
+    return {
+        src: hop.src,
+        dst: hop.dst,
+        guid: hop.packet.guid,
+        nonce: hop.packet.nonce.toString(),
+        status: hop.status,
+        refund: hop.refund,
+        deliveryTx: hop.deliveryTx,
+        composeTx: hop.composeTx,
+        recipient: hop.recipient,
+        amountReceivedLD: hop.amountReceivedLD?.toString(),
+        error: hop.error,
+    }
+}
+
+export function reportHops(report: FlowReport, hops: HopResult[], complete: boolean): void {
+    const guids = report.tracking?.guids ?? hops.map((hop) => hop.packet.guid)
+    report.tracking = { status: complete ? 'complete' : 'failed', guids, hops: hops.map(reportHop) }
+}
+
+/** The failed status, exit code and error of a report */
+export function failureOf(error: any): Pick<FlowReport, 'status' | 'exitCode' | 'error'> {
+    const kind = classifyError(error)
+    return {
+        status: 'failed',
+        exitCode: EXIT_CODES[kind],
+        error: { kind, message: String(error?.message ?? error).replace(/^❌\s*/, ''), reason: error?.reason, revert: decodeRevert(error) },
+    }
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+/** Send console.log to stderr so stdout carries the report alone */
+export function redirectLogs(): void {
+    console.log = console.error
+    console.info = console.error
+}
+
+export function printReport(report: Partial<FlowReport>): void {
+    process.stdout.write(JSON.stringify(report, jsonReplacer, 2) + '\n')
+}
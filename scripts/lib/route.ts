@@ -0,0 +1,79 @@
+/**
+ * Flow Routing
+ *
+ * Encodes the "which script do I need?" decision tree: given a subcommand and the
+ * source / destination / hub chains, pick the flow that performs it.
+ *
+ *   Need vault interaction?
+ *   - No                                     → bridge-assets / bridge-shares (hub↔spoke or spoke↔spoke)
+ *   - Yes, source is hub, destination is hub → direct-deposit / direct-redeem
+ *   - Yes, source is hub, destination spoke  → deposit-and-send / redeem-and-send (composer)
+ *   - Yes, source is spoke                   → compose-deposit / compose-redeem (spoke→hub or spoke→spoke)
+ */
+
+import { failure } from './exitCodes'
+
+export type Command = 'deposit' | 'redeem' | 'bridge-assets' | 'bridge-shares' | 'deposit-and-send'
+
+export const COMMANDS: Command[] = ['deposit', 'redeem', 'bridge-assets', 'bridge-shares', 'deposit-and-send']
+
+export type FlowName =
+    | 'direct-deposit'
+    | 'direct-redeem'
+    | 'deposit-and-send'
+    | 'redeem-and-send'
+    | 'compose-deposit'
+    | 'compose-redeem'
+    | 'bridge-assets'
+    | 'bridge-shares'
+
+export interface Route {
+    flow: FlowName
+    description: string
+}
+
+export interface RouteChains {
+    src: string
+    dst: string
+    hub: string
+}
+
+export function resolveRoute(command: Command, { src, dst, hub }: RouteChains): Route {
+    const where = src === hub ? (dst === hub ? 'hub → hub' : 'hub → spoke') : dst === hub ? 'spoke → hub' : 'spoke → spoke'
+
+    switch (command) {
+        case 'deposit':
+            if (src === hub && dst === hub) {
+                return { flow: 'direct-deposit', description: `Direct vault deposit (${where})` }
+            }
+            if (src === hub) {
+                return { flow: 'deposit-and-send', description: `Composer depositAndSend (${where})` }
+            }
+            return { flow: 'compose-deposit', description: `Asset send + compose deposit (${where})` }
+
+        case 'redeem':
+            if (src === hub && dst === hub) {
+                return { flow: 'direct-redeem', description: `Direct vault redemption (${where})` }
+            }
+            if (src === hub) {
+                return { flow: 'redeem-and-send', description: `Composer redeemAndSend (${where})` }
+            }
+            return { flow: 'compose-redeem', description: `Share send + compose redeem (${where})` }
+
+        case 'deposit-and-send':
+            if (src !== hub) {
+                throw failure('config', `❌ deposit-and-send runs on the hub: --src must be "${hub}"`)
+            }
+            if (dst === hub) {
+                throw failure('config', '❌ deposit-and-send needs a spoke destination. Use "deposit" for hub → hub')
+            }
+            return { flow: 'deposit-and-send', description: `Composer depositAndSend (${where})` }
+
+        case 'bridge-assets':
+        case 'bridge-shares':
+            if (src === dst) {
+                throw failure('config', '❌ Source and destination must differ for a bridge')
+            }
+            return { flow: command, description: `OFT transfer, no vault interaction (${where})` }
+    }
+}
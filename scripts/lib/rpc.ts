@@ -0,0 +1,301 @@
+/**
+ * RPC Provider
+ *
+ * A chain can list several RPC endpoints with weights (chains.<key>.rpcUrls). Requests go to
+ * the heaviest endpoint that is not backing off; a timeout, connection error, 429 or 5xx backs
+ * that endpoint off exponentially and the request moves on to the next one. With
+ * chains.<key>.rpcQuorum, state reads are asked of every endpoint and only answered once
+ * endpoints carrying that much weight agree. Back-off is shared by every provider in the
+ * process, so a flaky RPC found on one hop is skipped on the next.
+ */
+
+import { ethers } from 'ethers'
+import { failure } from './exitCodes'
+import { ChainConfig } from './manifest'
+
+// ============================================
+// TYPES
+// ============================================
+export interface RpcEndpoint {
+    url: string
+    weight: number
+}
+
+export interface RpcOptions {
+    timeoutSeconds: number      // Per request and endpoint
+    maxAttempts: number         // Attempts per request across all endpoints (quorum reads: rounds)
+    backoffMs: number           // First back-off of a failing endpoint, doubled on each failure in a row
+    maxBackoffMs: number
+}
+
+export interface EndpointHealth {
+    url: string
+    weight: number
+    ok: boolean
+    chainId?: number
+    blockNumber?: number
+    latencyMs?: number          // Median eth_blockNumber round trip
+    skew?: number               // Blocks behind the highest endpoint of the chain
+    error?: string
+}
+
+// Reads a lagging or lying endpoint could answer differently; everything else takes the first answer
+const QUORUM_METHODS = new Set(['eth_chainId', 'eth_call', 'eth_getBalance', 'eth_getCode', 'eth_getStorageAt'])
+
+interface EndpointState {
+    failures: number            // Retryable failures in a row
+    retryAt: number             // Skipped until then (ms since epoch)
+}
+
+const endpointStates = new Map<string, EndpointState>()
+
+let nextId = 1
+
+// ============================================
+// ENDPOINTS
+// ============================================
+/** A chain's RPC endpoints, heaviest first (manifest order breaks ties) */
+export function rpcEndpoints(chain: ChainConfig): RpcEndpoint[] {
+    const entries = chain.rpcUrls ?? [chain.rpcUrl!]
+    return entries
+        .map((entry) => (typeof entry === 'string' ? { url: entry, weight: 1 } : { url: entry.url, weight: entry.weight ?? 1 }))
+        .sort((a, b) => b.weight - a.weight)
+}
+
+/** Origin and path of an RPC URL with API keys (long path segments, query) masked */
+export function redactUrl(url: string): string {
+    try {
+        const parsed = new URL(url)
+        const path = parsed.pathname
+            .split('/')
+            .map((segment) => (segment.length >= 16 ? '***' : segment))
+            .join('/')
+        return `${parsed.origin}${path === '/' ? '' : path}${parsed.search ? '?***' : ''}`
+    } catch {
+        return url
+    }
+}
+
+function stateOf(url: string): EndpointState {
+    let state = endpointStates.get(url)
+    if (!state) {
+        state = { failures: 0, retryAt: 0 }
+        endpointStates.set(url, state)
+    }
+    return state
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// Same as ethers' JsonRpcProvider, so reverts keep their data and error codes
+function getResult(payload: { error?: { code: number; message: string; data?: unknown }; result?: unknown }): unknown {
+    if (payload.error) {
+        const error: any = new Error(payload.error.message)
+        error.code = payload.error.code
+        error.data = payload.error.data
+        throw error
+    }
+    return payload.result
+}
+
+/** One JSON-RPC request to one endpoint: no retries, a 429 is returned instead of ethers' own throttling */
+function rpcRequest(url: string, method: string, params: unknown[], timeoutMs: number): Promise<any> {
+    const request = { method, params, id: nextId++, jsonrpc: '2.0' }
+    return ethers.utils.fetchJson({ url, timeout: timeoutMs, throttleCallback: async () => false }, JSON.stringify(request), getResult)
+}
+
+/** Timeouts, dropped connections, 429 / 5xx and rate-limit JSON-RPC errors are worth another endpoint */
+function isRetryable(error: any): boolean {
+    if (error.code === ethers.errors.TIMEOUT) {
+        return true
+    }
+    if (error.code !== ethers.errors.SERVER_ERROR) {
+        return false
+    }
+    if (typeof error.status === 'number') {
+        return error.status === 429 || error.status >= 500
+    }
+    if (error.serverError) {
+        return true
+    }
+    const rpcError = error.error
+    return rpcError !== undefined && (rpcError.code === -32005 || rpcError.code === 429 || /rate limit|too many requests/i.test(rpcError.message ?? ''))
+}
+
+function describeFailure(error: any): string {
+    if (error.code === ethers.errors.TIMEOUT) {
+        return `timed out after ${error.timeout} ms`
+    }
+    if (typeof error.status === 'number') {
+        return `HTTP ${error.status}`
+    }
+    if (error.serverError) {
+        return error.serverError.code ?? error.serverError.message
+    }
+    return error.error?.message ?? error.message
+}
+
+function backOff(endpoint: RpcEndpoint, error: any, options: RpcOptions): void {
+    const state = stateOf(endpoint.url)
+    state.failures++
+    const delay = Math.min(options.backoffMs * 2 ** (state.failures - 1), options.maxBackoffMs)
+    const retryAfter = Number(error.headers?.['retry-after']) * 1000
+    state.retryAt = Date.now() + (Number.isFinite(retryAfter) ? Math.min(Math.max(delay, retryAfter), options.maxBackoffMs) : delay)
+}
+
+/** The heaviest endpoint not backing off; waits for the first to come back when all are */
+async function nextEndpoint(endpoints: RpcEndpoint[]): Promise<RpcEndpoint> {
+    const now = Date.now()
+    const ready = endpoints.find((endpoint) => stateOf(endpoint.url).retryAt <= now)
+    if (ready) {
+        return ready
+    }
+    const soonest = endpoints.reduce((a, b) => (stateOf(b.url).retryAt < stateOf(a.url).retryAt ? b : a))
+    await sleep(stateOf(soonest.url).retryAt - now)
+    return soonest
+}
+
+// ============================================
+// REQUESTS
+// ============================================
+async function sendWithFallback(label: string, endpoints: RpcEndpoint[], method: string, params: unknown[], options: RpcOptions): Promise<any> {
+    const failures: string[] = []
+    for (let attempt = 0; attempt < options.maxAttempts; attempt++) {
+        const endpoint = await nextEndpoint(endpoints)
+        try {
+            const result = await rpcRequest(endpoint.url, method, params, options.timeoutSeconds * 1000)
+            stateOf(endpoint.url).failures = 0
+            return result
+        } catch (error: any) {
+            // A broadcast that timed out may still have reached the mempool
+            if (method === 'eth_sendRawTransaction' && attempt > 0 && /already known|known transaction/i.test(error.error?.message ?? '')) {
+                return ethers.utils.keccak256(params[0] as string)
+            }
+            if (!isRetryable(error)) {
+                throw error
+            }
+            backOff(endpoint, error, options)
+            failures.push(`${redactUrl(endpoint.url)}: ${describeFailure(error)}`)
+        }
+    }
+    throw failure('rpc', `❌ ${method} failed on every RPC of ${label} after ${options.maxAttempts} attempts:\n${failures.map((failure) => `   - ${failure}`).join('\n')}`)
+}
+
+/** Ask every endpoint; answers (results or reverts) count once endpoints worth `quorum` weight agree */
+async function sendWithQuorum(label: string, endpoints: RpcEndpoint[], quorum: number, method: string, params: unknown[], options: RpcOptions): Promise<any> {
+    let answers: string[] = []
+    for (let round = 0; round < options.maxAttempts; round++) {
+        if (round > 0) {
+            // Lagging endpoints usually catch up within a block or two
+            await sleep(Math.min(options.backoffMs * 2 ** (round - 1), options.maxBackoffMs))
+        }
+        const outcomes = await Promise.all(
+            endpoints.map(async (endpoint) => {
+                try {
+                    const result = await rpcRequest(endpoint.url, method, params, options.timeoutSeconds * 1000)
+                    stateOf(endpoint.url).failures = 0
+                    return { endpoint, key: `result ${JSON.stringify(result)}`, result }
+                } catch (error: any) {
+                    if (isRetryable(error)) {
+                        backOff(endpoint, error, options)
+                        return { endpoint, failure: describeFailure(error) }
+                    }
+                    const { code, message, data } = error.error ?? error
+                    return { endpoint, key: `error ${JSON.stringify({ code, message, data })}`, error }
+                }
+            })
+        )
+
+        const weights = new Map<string, number>()
+        for (const outcome of outcomes) {
+            if (outcome.key === undefined) {
+                continue
+            }
+            const weight = (weights.get(outcome.key) ?? 0) + outcome.endpoint.weight
+            weights.set(outcome.key, weight)
+            if (weight >= quorum) {
+                if (outcome.error) {
+                    throw outcome.error
+                }
+                return outcome.result
+            }
+        }
+        answers = outcomes.map((outcome) => `${redactUrl(outcome.endpoint.url)}: ${outcome.failure ?? outcome.key}`)
+    }
+    throw failure('rpc', `❌ No RPC quorum (${quorum}) for ${method} on ${label} after ${options.maxAttempts} rounds:\n${answers.map((answer) => `   - ${answer}`).join('\n')}`)
+}
+
+/**
+ * JsonRpcProvider over a chain's weighted endpoints. Everything that takes a JsonRpcProvider
+ * (signers, contracts, raw `send` with state overrides) works unchanged.
+ */
+export class RpcProvider extends ethers.providers.JsonRpcProvider {
+    constructor(
+        readonly label: string,
+        readonly endpoints: RpcEndpoint[],
+        readonly quorum: number,
+        private readonly options: RpcOptions
+    ) {
+        super(endpoints[0].url)
+    }
+
+    send(method: string, params: unknown[]): Promise<any> {
+        if (this.quorum > 1 && QUORUM_METHODS.has(method)) {
+            return sendWithQuorum(this.label, this.endpoints, this.quorum, method, params, this.options)
+        }
+        return sendWithFallback(this.label, this.endpoints, method, params, this.options)
+    }
+}
+
+// ============================================
+// HEALTH
+// ============================================
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b)
+    return sorted[Math.floor(sorted.length / 2)]
+}
+
+async function probe(endpoint: RpcEndpoint, samples: number, timeoutMs: number): Promise<EndpointHealth> {
+    try {
+        const chainId = ethers.BigNumber.from(await rpcRequest(endpoint.url, 'eth_chainId', [], timeoutMs)).toNumber()
+        const latencies: number[] = []
+        let blockNumber = 0
+        for (let i = 0; i < samples; i++) {
+            const started = Date.now()
+            blockNumber = ethers.BigNumber.from(await rpcRequest(endpoint.url, 'eth_blockNumber', [], timeoutMs)).toNumber()
+            latencies.push(Date.now() - started)
+        }
+        return { ...endpoint, ok: true, chainId, blockNumber, latencyMs: median(latencies) }
+    } catch (error: any) {
+        return { ...endpoint, ok: false, error: describeFailure(error) }
+    }
+}
+
+/**
+ * Probe every endpoint of a chain directly (no retries or fallback): chain ID, median
+ * eth_blockNumber latency over `samples` requests, and how many blocks it trails the highest
+ * endpoint. An endpoint on a different chain ID than the others is marked down.
+ */
+export async function checkRpcHealth(chain: ChainConfig, samples: number, timeoutMs: number): Promise<EndpointHealth[]> {
+    const results = await Promise.all(rpcEndpoints(chain).map((endpoint) => probe(endpoint, samples, timeoutMs)))
+
+    const votes = new Map<number, number>()
+    for (const result of results.filter((result) => result.ok)) {
+        votes.set(result.chainId!, (votes.get(result.chainId!) ?? 0) + result.weight)
+    }
+    const expected = [...votes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
+    for (const result of results) {
+        if (result.ok && result.chainId !== expected) {
+            result.ok = false
+            result.error = `chain ID ${result.chainId}, the other endpoints report ${expected}`
+        }
+    }
+
+    const highest = Math.max(...results.filter((result) => result.ok).map((result) => result.blockNumber!))
+    for (const result of results.filter((result) => result.ok)) {
+        result.skew = highest - result.blockNumber!
+    }
+    return results
+}
@@ -0,0 +1,178 @@
+/**
+ * SendParam / MessagingFee
+ *
+ * Typed mirrors of the IOFT structs plus the encode/decode helpers every flow uses,
+ * so the `(uint32,bytes32,uint256,uint256,bytes,bytes,bytes)` field order lives in one place.
+ */
+
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import { addressToBytes32 } from '@layerzerolabs/lz-v2-utilities'
+import { failure } from './exitCodes'
+
+// ============================================
+// TYPES
+// ============================================
+export interface SendParam {
+    dstEid: number          // Destination endpoint ID
+    to: string              // Recipient as bytes32 hex
+    amountLD: BigNumber     // Amount in local decimals
+    minAmountLD: BigNumber  // Minimum amount in local decimals after dust removal / fees
+    extraOptions: string    // Executor options (hex)
+    composeMsg: string      // Compose payload for the receiver (hex, '0x' for none)
+    oftCmd: string          // OFT command (hex, '0x' for default / Stargate taxi)
+}
+
+export interface MessagingFee {
+    nativeFee: BigNumber
+    lzTokenFee: BigNumber
+}
+
+export interface MessagingReceipt {
+    guid: string
+    nonce: BigNumber
+    fee: MessagingFee
+}
+
+/** quoteOFT: what the OFT accepts, what it charges and what the destination credits */
+export interface OFTLimit {
+    minAmountLD: BigNumber
+    maxAmountLD: BigNumber
+}
+
+export interface OFTFeeDetail {
+    feeAmountLD: BigNumber  // Positive for a fee, negative for a reward
+    description: string
+}
+
+export interface OFTReceipt {
+    amountSentLD: BigNumber
+    amountReceivedLD: BigNumber
+}
+
+export interface OFTQuote {
+    limit: OFTLimit
+    feeDetails: OFTFeeDetail[]
+    receipt: OFTReceipt
+}
+
+/** Positional form of SendParam, in the exact order the ABI expects */
+export type SendParamTuple = [number, string, BigNumber, BigNumber, string, string, string]
+
+export interface SendParamInput {
+    dstEid: number
+    to: string                // 20-byte address or 32-byte hex
+    amountLD: BigNumberish
+    minAmountLD: BigNumberish
+    extraOptions?: string
+    composeMsg?: string
+    oftCmd?: string
+}
+
+// ============================================
+// ABI TYPES
+// ============================================
+export const SEND_PARAM_TYPE =
+    'tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd)'
+export const MESSAGING_FEE_TYPE = 'tuple(uint256 nativeFee, uint256 lzTokenFee)'
+export const MESSAGING_RECEIPT_TYPE = `tuple(bytes32 guid, uint64 nonce, ${MESSAGING_FEE_TYPE} fee)`
+export const OFT_LIMIT_TYPE = 'tuple(uint256 minAmountLD, uint256 maxAmountLD)'
+export const OFT_FEE_DETAIL_TYPE = 'tuple(int256 feeAmountLD, string description)'
+export const OFT_RECEIPT_TYPE = 'tuple(uint256 amountSentLD, uint256 amountReceivedLD)'
+
+// ============================================
+// BUILDERS
+// ============================================
+
+/** Normalise an address or bytes32 into the bytes32 `to` field */
+export function toBytes32(to: string): string {
+    if (ethers.utils.isHexString(to, 32)) {
+        return to.toLowerCase()
+    }
+    if (!ethers.utils.isAddress(to)) {
+        throw failure('config', `❌ Invalid recipient: ${to}`)
+    }
+    return ethers.utils.hexlify(addressToBytes32(to))
+}
+
+export function buildSendParam(input: SendParamInput): SendParam {
+    return {
+        dstEid: input.dstEid,
+        to: toBytes32(input.to),
+        amountLD: BigNumber.from(input.amountLD),
+        minAmountLD: BigNumber.from(input.minAmountLD),
+        extraOptions: input.extraOptions ?? '0x',
+        composeMsg: input.composeMsg ?? '0x',
+        oftCmd: input.oftCmd ?? '0x',
+    }
+}
+
+export function buildMessagingFee(nativeFee: BigNumberish, lzTokenFee: BigNumberish = 0): MessagingFee {
+    return { nativeFee: BigNumber.from(nativeFee), lzTokenFee: BigNumber.from(lzTokenFee) }
+}
+
+// ============================================
+// ENCODE / DECODE
+// ============================================
+export function encodeSendParam(sendParam: SendParam): SendParamTuple {
+    return [
+        sendParam.dstEid,
+        sendParam.to,
+        sendParam.amountLD,
+        sendParam.minAmountLD,
+        sendParam.extraOptions,
+        sendParam.composeMsg,
+        sendParam.oftCmd,
+    ]
+}
+
+/** Accepts an ethers Result (named or positional) for the SendParam struct */
+export function decodeSendParam(value: ethers.utils.Result | SendParamTuple): SendParam {
+    return {
+        dstEid: Number(value[0]),
+        to: ethers.utils.hexlify(value[1]),
+        amountLD: BigNumber.from(value[2]),
+        minAmountLD: BigNumber.from(value[3]),
+        extraOptions: ethers.utils.hexlify(value[4]),
+        composeMsg: ethers.utils.hexlify(value[5]),
+        oftCmd: ethers.utils.hexlify(value[6]),
+    }
+}
+
+export function encodeMessagingFee(fee: MessagingFee): [BigNumber, BigNumber] {
+    return [fee.nativeFee, fee.lzTokenFee]
+}
+
+export function decodeMessagingFee(value: ethers.utils.Result): MessagingFee {
+    return buildMessagingFee(value[0], value[1])
+}
+
+export function decodeMessagingReceipt(value: ethers.utils.Result): MessagingReceipt {
+    return {
+        guid: value[0],
+        nonce: BigNumber.from(value[1]),
+        fee: decodeMessagingFee(value[2]),
+    }
+}
+
+/** Decodes the (OFTLimit, OFTFeeDetail[], OFTReceipt) returned by quoteOFT */
+export function decodeOFTQuote(value: ethers.utils.Result): OFTQuote {
+    const [limit, feeDetails, receipt] = value
+    return {
+        limit: { minAmountLD: BigNumber.from(limit[0]), maxAmountLD: BigNumber.from(limit[1]) },
+        feeDetails: feeDetails.map((detail: ethers.utils.Result) => ({ feeAmountLD: BigNumber.from(detail[0]), description: detail[1] })),
+        receipt: { amountSentLD: BigNumber.from(receipt[0]), amountReceivedLD: BigNumber.from(receipt[1]) },
+    }
+}
+
+/**
+ * OVaultComposer compose payload: abi.encode(SendParam secondHop, uint256 minMsgValue).
+ * The msgValue is the native fee the composer forwards to the second-hop send.
+ */
+export function encodeComposeMsg(secondHop: SendParam, msgValue: BigNumberish): string {
+    return ethers.utils.defaultAbiCoder.encode([SEND_PARAM_TYPE, 'uint256'], [encodeSendParam(secondHop), msgValue])
+}
+
+export function decodeComposeMsg(composeMsg: string): { sendParam: SendParam; msgValue: BigNumber } {
+    const [sendParam, msgValue] = ethers.utils.defaultAbiCoder.decode([SEND_PARAM_TYPE, 'uint256'], composeMsg)
+    return { sendParam: decodeSendParam(sendParam), msgValue: BigNumber.from(msgValue) }
+}
@@ -0,0 +1,211 @@
+/**
+ * Signer Layer
+ *
+ * Resolves the account that signs OVault transactions without keeping secrets in source.
+ * Supported sources:
+ *   - env       Private key in $OVAULT_PRIVATE_KEY
+ *   - keystore  Encrypted JSON keystore; passphrase from $OVAULT_KEYSTORE_PASSWORD or a hidden prompt
+ *   - mnemonic  Mnemonic in $OVAULT_MNEMONIC with a derivation path
+ *   - rpc       Remote JSON-RPC signer (eth_signTransaction), e.g. Frame, Clef or a custody proxy
+ */
+
+import fs from 'fs'
+import readline from 'readline'
+import { ethers } from 'ethers'
+import { failure } from './exitCodes'
+
+// ============================================
+// TYPES
+// ============================================
+export const SIGNER_TYPES = ['env', 'keystore', 'mnemonic', 'rpc'] as const
+export type SignerType = (typeof SIGNER_TYPES)[number]
+
+export const PRIVATE_KEY_ENV = 'OVAULT_PRIVATE_KEY'
+export const KEYSTORE_PASSWORD_ENV = 'OVAULT_KEYSTORE_PASSWORD'
+export const MNEMONIC_ENV = 'OVAULT_MNEMONIC'
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0"
+
+export interface SignerConfig {
+    type: SignerType
+    keystore?: string           // keystore: path to the encrypted JSON file
+    derivationPath?: string     // mnemonic: HD path (default m/44'/60'/0'/0/0)
+    url?: string                // rpc: JSON-RPC endpoint exposing eth_signTransaction
+    address?: string            // rpc: account to sign with (default: first of eth_accounts)
+}
+
+// ============================================
+// CLI
+// ============================================
+
+/** parseArgs option descriptors shared by every command that signs */
+export const SIGNER_CLI_OPTIONS = {
+    signer: { type: 'string' },
+    keystore: { type: 'string' },
+    'derivation-path': { type: 'string' },
+    'signer-url': { type: 'string' },
+    'signer-address': { type: 'string' },
+} as const
+
+export const SIGNER_USAGE = `Signer options:
+  --signer <type>            env | keystore | mnemonic | rpc (default: CONFIG.signer.type)
+  --keystore <path>          Encrypted JSON keystore (passphrase: $${KEYSTORE_PASSWORD_ENV} or prompt)
+  --derivation-path <path>   HD path for --signer mnemonic (default: ${DEFAULT_DERIVATION_PATH})
+  --signer-url <url>         Remote signer endpoint for --signer rpc
+  --signer-address <addr>    Account on the remote signer (default: first account)`
+
+type SignerCliValues = { [K in keyof typeof SIGNER_CLI_OPTIONS]?: string }
+
+/** Merge --signer / --keystore / ... flags over the configured signer */
+export function resolveSignerConfig(values: SignerCliValues, fallback: SignerConfig): SignerConfig {
+    const type = (values.signer ?? fallback.type) as SignerType
+    if (!SIGNER_TYPES.includes(type)) {
+        throw failure('config', `❌ Unknown signer "${type}". Use one of: ${SIGNER_TYPES.join(', ')}`)
+    }
+    const base = type === fallback.type ? fallback : { type }
+    return {
+        ...base,
+        type,
+        keystore: values.keystore ?? base.keystore,
+        derivationPath: values['derivation-path'] ?? base.derivationPath,
+        url: values['signer-url'] ?? base.url,
+        address: values['signer-address'] ?? base.address,
+    }
+}
+
+// ============================================
+// REMOTE SIGNER
+// ============================================
+
+/**
+ * Signs through a remote JSON-RPC endpoint with eth_signTransaction and broadcasts the
+ * raw transaction through the chain's own provider, so the remote signer never needs
+ * access to the target network.
+ */
+export class RemoteRpcSigner extends ethers.Signer {
+    private readonly remote: ethers.providers.JsonRpcProvider
+    private addressPromise?: Promise<string>
+
+    constructor(readonly url: string, address?: string, provider?: ethers.providers.Provider) {
+        super()
+        ethers.utils.defineReadOnly(this, 'provider', provider)
+        this.remote = new ethers.providers.StaticJsonRpcProvider(url, 'any')
+        if (address) {
+            this.addressPromise = Promise.resolve(ethers.utils.getAddress(address))
+        }
+    }
+
+    getAddress(): Promise<string> {
+        if (!this.addressPromise) {
+            this.addressPromise = this.remote.send('eth_accounts', []).then((accounts: string[]) => {
+                if (accounts.length === 0) {
+                    throw failure('config', `❌ Remote signer at ${this.url} exposes no accounts`)
+                }
+                return ethers.utils.getAddress(accounts[0])
+            })
+        }
+        return this.addressPromise
+    }
+
+    async signMessage(message: ethers.utils.Bytes | string): Promise<string> {
+        const data = typeof message === 'string' ? ethers.utils.toUtf8Bytes(message) : message
+        return this.remote.send('personal_sign', [ethers.utils.hexlify(data), (await this.getAddress()).toLowerCase()])
+    }
+
+    /** EIP-712 signing (permits) through eth_signTypedData_v4 */
+    async _signTypedData(domain: ethers.TypedDataDomain, types: Record<string, ethers.TypedDataField[]>, value: Record<string, unknown>): Promise<string> {
+        const payload = ethers.utils._TypedDataEncoder.getPayload(domain, types, value)
+        return this.remote.send('eth_signTypedData_v4', [(await this.getAddress()).toLowerCase(), JSON.stringify(payload)])
+    }
+
+    async signTransaction(transaction: ethers.providers.TransactionRequest): Promise<string> {
+        const tx = await ethers.utils.resolveProperties(transaction)
+        const request = ethers.providers.JsonRpcProvider.hexlifyTransaction(tx, { from: true })
+        request.from = await this.getAddress()
+        const signed = await this.remote.send('eth_signTransaction', [request])
+        // Some signers return { raw, tx } (geth/clef), others the raw hex
+        return typeof signed === 'string' ? signed : signed.raw
+    }
+
+    connect(provider: ethers.providers.Provider): RemoteRpcSigner {
+        const signer = new RemoteRpcSigner(this.url, undefined, provider)
+        signer.addressPromise = this.addressPromise
+        return signer
+    }
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+/** Read a line from the terminal without echoing it */
+export function promptHidden(question: string): Promise<string> {
+    if (!process.stdin.isTTY) {
+        throw failure('config', `❌ Cannot prompt for a passphrase without a terminal. Set $${KEYSTORE_PASSWORD_ENV}`)
+    }
+    return new Promise((resolve) => {
+        const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true })
+        const output = rl as unknown as { _writeToOutput: (text: string) => void }
+        process.stdout.write(question)
+        output._writeToOutput = () => undefined
+        rl.question('', (answer) => {
+            rl.close()
+            process.stdout.write('\n')
+            resolve(answer)
+        })
+    })
+}
+
+function requireEnv(name: string, hint: string): string {
+    const value = process.env[name]
+    if (!value) {
+        throw failure('config', `❌ $${name} is not set. ${hint}`)
+    }
+    return value
+}
+
+async function loadSigner(config: SignerConfig): Promise<ethers.Signer> {
+    switch (config.type) {
+        case 'env': {
+            const privateKey = requireEnv(PRIVATE_KEY_ENV, `Export your key or pick another --signer`)
+            return new ethers.Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`)
+        }
+        case 'keystore': {
+            if (!config.keystore) {
+                throw failure('config', '❌ --signer keystore needs --keystore <path> (or CONFIG.signer.keystore)')
+            }
+            if (!fs.existsSync(config.keystore)) {
+                throw failure('config', `❌ Keystore not found: ${config.keystore}`)
+            }
+            const json = fs.readFileSync(config.keystore, 'utf8')
+            const password = process.env[KEYSTORE_PASSWORD_ENV] ?? (await promptHidden(`🔑 Passphrase for ${config.keystore}: `))
+            try {
+                return await ethers.Wallet.fromEncryptedJson(json, password)
+            } catch {
+                throw failure('config', `❌ Could not decrypt ${config.keystore}: wrong passphrase or not a keystore file`)
+            }
+        }
+        case 'mnemonic': {
+            const mnemonic = requireEnv(MNEMONIC_ENV, 'Export your mnemonic or pick another --signer')
+            return ethers.Wallet.fromMnemonic(mnemonic.trim(), config.derivationPath ?? DEFAULT_DERIVATION_PATH)
+        }
+        case 'rpc': {
+            if (!config.url) {
+                throw failure('config', '❌ --signer rpc needs --signer-url <url> (or CONFIG.signer.url)')
+            }
+            return new RemoteRpcSigner(config.url, config.address)
+        }
+    }
+}
+
+// Decrypting a keystore is slow and may prompt, so each config is resolved once per run
+const cache = new Map<string, Promise<ethers.Signer>>()
+
+/** Resolve the configured signer and connect it to `provider` */
+export async function createSigner(config: SignerConfig, provider: ethers.providers.Provider): Promise<ethers.Signer> {
+    const key = JSON.stringify(config)
+    if (!cache.has(key)) {
+        cache.set(key, loadSigner(config))
+    }
+    const signer = await cache.get(key)!
+    return signer.connect(provider)
+}
@@ -0,0 +1,102 @@
+/**
+ * Slippage
+ *
+ * Turns one --max-slippage budget into the minAmountLD of every hop. A hop's expected output
+ * is what the contracts report: quoteOFT's amountReceivedLD for an OFT / Stargate send (dust
+ * and fees already taken off), previewDeposit / previewRedeem for the vault. The budget comes
+ * off that, and OFT minimums are rounded down to whole shared-decimal units, so dust removal
+ * alone can never trip them. The last hop's minimum is the worst case the user can receive.
+ */
+
+import { BigNumber, BigNumberish, ethers } from 'ethers'
+import { CONFIG } from '../config'
+import { failure } from './exitCodes'
+import { OFT } from './oft'
+import { OFTQuote, SendParam } from './sendParam'
+
+export interface HopEstimate {
+    label: string
+    symbol: string
+    decimals: number
+    expected: BigNumber     // Output if nothing moves between quote and execution
+    min: BigNumber          // The minAmountLD the hop is sent with
+    quote?: OFTQuote        // OFT hops only
+}
+
+export const MAX_BPS = 10000
+
+// ============================================
+// CLI
+// ============================================
+export function parseSlippageBps(value: string | undefined): number | undefined {
+    if (value === undefined) {
+        return undefined
+    }
+    const bps = Number(value)
+    if (!Number.isInteger(bps) || bps < 0 || bps >= MAX_BPS) {
+        throw failure('config', `❌ --max-slippage must be whole basis points between 0 and ${MAX_BPS - 1} (got "${value}")`)
+    }
+    return bps
+}
+
+export function resolveSlippageBps(bps: number | undefined): number {
+    return bps ?? CONFIG.defaults.maxSlippageBps
+}
+
+// ============================================
+// ROUNDING
+// ============================================
+
+/** 10^(localDecimals - sharedDecimals): the OFT drops anything below this on send */
+export async function decimalConversionRate(oft: OFT, localDecimals: number): Promise<BigNumber> {
+    const sharedDecimals = await oft.sharedDecimals()
+    return BigNumber.from(10).pow(localDecimals - sharedDecimals)
+}
+
+export function removeDust(amountLD: BigNumberish, conversionRate: BigNumberish): BigNumber {
+    const amount = BigNumber.from(amountLD)
+    return amount.sub(amount.mod(conversionRate))
+}
+
+/** `expected` less `bps`, rounded down to a multiple of `conversionRate` */
+export function applySlippage(expected: BigNumberish, bps: number, conversionRate: BigNumberish = 1): BigNumber {
+    return removeDust(BigNumber.from(expected).mul(MAX_BPS - bps).div(MAX_BPS), conversionRate)
+}
+
+// ============================================
+// HOPS
+// ============================================
+
+/** Quote an OFT send of sendParam.amountLD and derive its minimum from what the destination credits */
+export async function estimateOFTHop(
+    oft: OFT,
+    sendParam: SendParam,
+    bps: number,
+    hop: { label: string; symbol: string; decimals: number }
+): Promise<HopEstimate> {
+    // quoteOFT reverts when the credit is below minAmountLD, so ask without one
+    const quote = await oft.quoteOFT({ ...sendParam, minAmountLD: BigNumber.from(0) })
+    const conversionRate = await decimalConversionRate(oft, hop.decimals)
+    const expected = quote.receipt.amountReceivedLD
+    return { ...hop, expected, min: applySlippage(expected, bps, conversionRate), quote }
+}
+
+/** Vault deposit / redeem on the hub: previewed output, no dust */
+export function estimateVaultStep(previewed: BigNumber, bps: number, step: { label: string; symbol: string; decimals: number }): HopEstimate {
+    return { ...step, expected: previewed, min: applySlippage(previewed, bps) }
+}
+
+/** The last hop's minimum, or --min-amount when the user set one */
+export function worstCase(hops: HopEstimate[], override?: BigNumber): BigNumber {
+    return override ?? hops[hops.length - 1].min
+}
+
+export function logSlippage(hops: HopEstimate[], bps: number, override?: BigNumber): void {
+    const last = hops[hops.length - 1]
+    const format = (amount: BigNumber, hop: HopEstimate) => `${ethers.utils.formatUnits(amount, hop.decimals)} ${hop.symbol}`
+    console.log(`📉 Max slippage ${(bps / 100).toFixed(2)}%:`)
+    for (const hop of hops) {
+        console.log(`   ${hop.label.padEnd(28)} expected ${format(hop.expected, hop)}, min ${format(hop.min, hop)}`)
+    }
+    console.log(`   Worst-case output: ${format(worstCase(hops, override), last)}${override ? ' (--min-amount)' : ''}`)
+}
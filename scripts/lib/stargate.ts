@@ -0,0 +1,85 @@
+/**
+ * Stargate Bus / Taxi
+ *
+ * A Stargate pool reads the ride from SendParam.oftCmd: '0x' is a taxi (its own LayerZero
+ * message, sent immediately), '0x00' books a seat on the bus (passengers towards the same
+ * destination share one message, sent once the bus is driven). The bus is much cheaper but
+ * carries no compose message and no executor options, so it is only offered for plain
+ * transfers. Both rides are quoted and the chosen one (or the cheaper, in auto mode) is sent.
+ */
+
+import { ethers } from 'ethers'
+import { Execution, check } from './execution'
+import { failure } from './exitCodes'
+import { OFT, getPathCredit } from './oft'
+import { MessagingFee, SendParam } from './sendParam'
+
+export const OFT_CMD_TAXI = '0x'
+export const OFT_CMD_BUS = '0x00'
+
+export const STARGATE_MODES = ['taxi', 'bus', 'auto'] as const
+export type StargateMode = (typeof STARGATE_MODES)[number]
+export type StargateRide = Exclude<StargateMode, 'auto'>
+
+export interface RideQuote {
+    ride: StargateRide
+    sendParam: SendParam
+    fee: MessagingFee
+    taxiFee: MessagingFee
+    busFee?: MessagingFee       // Undefined when the pool has no bus to the destination
+}
+
+export function parseStargateMode(value: string | undefined): StargateMode | undefined {
+    if (value === undefined) {
+        return undefined
+    }
+    if (!STARGATE_MODES.includes(value as StargateMode)) {
+        throw failure('config', `❌ --stargate-mode must be one of ${STARGATE_MODES.join(', ')} (got "${value}")`)
+    }
+    return value as StargateMode
+}
+
+/** The bus carries no compose message and takes no executor options */
+export function busSendParam(sendParam: SendParam): SendParam {
+    return { ...sendParam, extraOptions: '0x', oftCmd: OFT_CMD_BUS }
+}
+
+/** Bus fare towards sendParam.dstEid, or undefined for OFTs, compose sends and pools without a bus there */
+async function quoteBus(oft: OFT, sendParam: SendParam, decimals: number): Promise<MessagingFee | undefined> {
+    if (sendParam.composeMsg !== '0x' || (await getPathCredit(oft, sendParam.dstEid, decimals)) === undefined) {
+        return undefined
+    }
+    try {
+        return await oft.quote(busSendParam(sendParam))
+    } catch (error: any) {
+        if (error.code === 'CALL_EXCEPTION') {
+            return undefined
+        }
+        throw error
+    }
+}
+
+/**
+ * Quote the taxi and (on Stargate pools) the bus, log them side by side and pick the ride:
+ * the one asked for, or the cheaper in auto mode. Asking for a bus that does not run is
+ * refused (a dry-run warning, falling back to the taxi).
+ */
+export async function selectRide(execution: Execution, oft: OFT, sendParam: SendParam, decimals: number, mode: StargateMode): Promise<RideQuote> {
+    const taxiFee = await oft.quote(sendParam)
+    const busFee = mode === 'taxi' ? undefined : await quoteBus(oft, sendParam, decimals)
+
+    console.log(`🚕 Taxi: ${ethers.utils.formatEther(taxiFee.nativeFee)} native, delivered on its own message`)
+    if (busFee) {
+        console.log(`🚌 Bus:  ${ethers.utils.formatEther(busFee.nativeFee)} native, delivered when the bus is driven`)
+    } else if (mode !== 'taxi') {
+        check(execution, mode !== 'bus', 'quote', `❌ No Stargate bus runs to EID ${sendParam.dstEid} from ${oft.address} (OFT, compose send or no bus route). Use --stargate-mode taxi`)
+    }
+
+    const ride: StargateRide = busFee && (mode === 'bus' || busFee.nativeFee.lt(taxiFee.nativeFee)) ? 'bus' : 'taxi'
+    if (mode === 'auto' && busFee) {
+        console.log(`   Auto: riding the ${ride}`)
+    }
+    return ride === 'bus'
+        ? { ride, sendParam: busSendParam(sendParam), fee: busFee!, taxiFee, busFee }
+        : { ride, sendParam: { ...sendParam, oftCmd: OFT_CMD_TAXI }, fee: taxiFee, taxiFee, busFee }
+}
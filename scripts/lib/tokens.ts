@@ -0,0 +1,21 @@
+/**
+ * ERC20 / ERC4626 ABI fragments shared by the flows
+ */
+
+export const ERC20_ABI = [
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address) view returns (uint256)',
+    'function allowance(address,address) view returns (uint256)',
+    'function approve(address,uint256) returns (bool)',
+]
+
+export const VAULT_ABI = [
+    ...ERC20_ABI,
+    'function asset() view returns (address)',
+    'function previewDeposit(uint256) view returns (uint256)',
+    'function previewRedeem(uint256) view returns (uint256)',
+    'function deposit(uint256,address) returns (uint256)',
+    'function redeem(uint256,address,address) returns (uint256)',
+    'event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)',
+]
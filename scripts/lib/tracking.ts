@@ -0,0 +1,478 @@
+/**
+ * Cross-Chain Message Tracking
+ *
+ * Follows every LayerZero packet a transaction emitted until it lands:
+ *   PacketSent (source) → PacketDelivered + OFTReceived (destination)
+ *   → ComposeDelivered + composer Sent / Refunded (hub) → next hop, recursively.
+ * Each stage is polled with eth_getLogs on the receiving chain. A Stargate bus ticket (BusRode)
+ * is first followed to the BusDriven that carried it, whose packet is then tracked as above. `followMessages` reports
+ * where every hop stands (a zero timeout gives a one-shot status check, composer refunds are
+ * followed back to the sender); `trackMessages` waits and fails on anything but success.
+ */
+
+import { BigNumber, ethers } from 'ethers'
+import { PacketV1Codec } from '@layerzerolabs/lz-v2-utilities'
+import { CONFIG } from '../config'
+import { getChain, getChainKeyByEid, getEndpoint, getProvider } from './chains'
+import { ENDPOINT_V2_INTERFACE } from './endpoint'
+import { decodeRevertData, formatRevert } from './errors'
+import { failure } from './exitCodes'
+import { DeploymentManifest } from './manifest'
+import { COMPOSER_ABI, OFT_ABI, STARGATE_POOL_ABI } from './oft'
+
+// ============================================
+// TYPES
+// ============================================
+export interface SentPacket {
+    guid: string
+    nonce: BigNumber
+    srcEid: number
+    sender: string          // bytes32
+    dstEid: number
+    receiver: string        // 20-byte address of the receiving OApp
+    amountSentLD?: BigNumber
+    ticketId?: BigNumber    // Stargate bus: the seat this transfer rode in
+    passenger?: string      // Stargate bus: the seat's recipient (the packet carries every passenger)
+}
+
+/** A Stargate bus seat booked by a send with oftCmd 0x00 */
+export interface BusRide {
+    pool: string            // Contract that emitted BusRode and will emit BusDriven
+    dstEid: number
+    ticketId: BigNumber
+    receiver: string
+    amountSentLD?: BigNumber
+}
+
+export type HopStatus =
+    | 'waiting-for-bus'     // Stargate bus ticket booked, the bus has not been driven yet
+    | 'inflight'            // Not delivered yet
+    | 'delivered'           // lzReceive done, nothing composed
+    | 'compose-pending'     // Delivered, lzCompose not executed yet
+    | 'composed'            // Composer ran and sent the output on
+    | 'refunded'            // Composer failed and sent the input back to the sender
+    | 'failed'              // lzReceive / lzCompose reverted (alert emitted)
+
+export interface HopResult {
+    src: string
+    dst: string
+    packet: SentPacket
+    status: HopStatus
+    refund?: boolean                // This hop carries a composer refund back to the sender
+    deliveryTx?: string
+    composeTx?: string
+    composer?: string
+    recipient?: string              // OFTReceived toAddress
+    amountReceivedLD?: BigNumber
+    error?: string
+}
+
+export interface TrackOptions {
+    timeoutMs: number
+    pollIntervalMs: number
+    progress: boolean               // Print per-hop progress while waiting
+}
+
+export function defaultTrackOptions(): TrackOptions {
+    return {
+        timeoutMs: CONFIG.defaults.trackTimeoutMinutes * 60_000,
+        pollIntervalMs: CONFIG.defaults.trackPollSeconds * 1000,
+        progress: true,
+    }
+}
+
+/** Minutes from --track-timeout (or track --timeout) in ms; a NaN deadline would poll forever */
+export function parseTrackTimeout(value: string | undefined, flag = 'track-timeout'): number | undefined {
+    if (value === undefined) {
+        return undefined
+    }
+    const minutes = Number(value)
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+        throw failure('config', `❌ --${flag} must be a positive number of minutes (got "${value}")`)
+    }
+    return minutes * 60_000
+}
+
+const SUCCESS_STATUSES: HopStatus[] = ['delivered', 'composed']
+
+const OFT_INTERFACE = new ethers.utils.Interface(OFT_ABI)
+const COMPOSER_INTERFACE = new ethers.utils.Interface(COMPOSER_ABI)
+const STARGATE_INTERFACE = new ethers.utils.Interface(STARGATE_POOL_ABI)
+
+// eth_getLogs range per request; public RPCs commonly cap at 1k-10k blocks
+const LOG_CHUNK_BLOCKS = 2000
+
+// ============================================
+// RECEIPT PARSING
+// ============================================
+
+/** Every packet the receipt sent through `endpoint`, with OFTSent amounts when present */
+export function parseSentPackets(receipt: ethers.providers.TransactionReceipt, endpoint: string): SentPacket[] {
+    const packets: SentPacket[] = []
+    const sentAmounts = new Map<string, BigNumber>()
+
+    for (const log of receipt.logs) {
+        if (log.topics[0] === OFT_INTERFACE.getEventTopic('OFTSent')) {
+            const parsed = OFT_INTERFACE.parseLog(log)
+            sentAmounts.set(parsed.args.guid, parsed.args.amountSentLD)
+        }
+    }
+
+    for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== endpoint.toLowerCase() || log.topics[0] !== ENDPOINT_V2_INTERFACE.getEventTopic('PacketSent')) {
+            continue
+        }
+        const codec = PacketV1Codec.from(ENDPOINT_V2_INTERFACE.parseLog(log).args.encodedPayload)
+        const guid = codec.guid()
+        packets.push({
+            guid,
+            nonce: BigNumber.from(codec.nonce()),
+            srcEid: codec.srcEid(),
+            sender: codec.sender(),
+            dstEid: codec.dstEid(),
+            receiver: ethers.utils.getAddress(codec.receiverAddressB20()),
+            amountSentLD: sentAmounts.get(guid),
+        })
+    }
+    return packets
+}
+
+/**
+ * Every bus seat the receipt booked. A bus send's OFTSent has no GUID yet (the packet leaves
+ * with the bus), so amounts are paired with the BusRode events in order.
+ */
+export function parseBusRides(receipt: ethers.providers.TransactionReceipt): BusRide[] {
+    const sent = receipt.logs
+        .filter((log) => log.topics[0] === OFT_INTERFACE.getEventTopic('OFTSent'))
+        .map((log) => OFT_INTERFACE.parseLog(log).args)
+        .filter((args) => args.guid === ethers.constants.HashZero)
+
+    return receipt.logs
+        .filter((log) => log.topics[0] === STARGATE_INTERFACE.getEventTopic('BusRode'))
+        .map((log, i) => {
+            const { dstEid, ticketId, passenger } = STARGATE_INTERFACE.parseLog(log).args
+            // Passenger: assetId (uint16) | receiver (bytes32) | amountSD (uint64) | nativeDrop (bool)
+            const receiver = ethers.utils.getAddress(ethers.utils.hexDataSlice(passenger, 14, 34))
+            return { pool: log.address, dstEid, ticketId, receiver, amountSentLD: sent[i]?.amountSentLD }
+        })
+}
+
+function findLog(receipt: ethers.providers.TransactionReceipt, iface: ethers.utils.Interface, event: string, guid: string) {
+    return receipt.logs
+        .filter((log) => log.topics[0] === iface.getEventTopic(event))
+        .map((log) => ({ log, parsed: iface.parseLog(log) }))
+        .find(({ parsed }) => parsed.args.guid === guid)
+}
+
+// ============================================
+// POLLING
+// ============================================
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+/**
+ * First block worth scanning for events caused by a transaction mined at `timestamp`,
+ * estimated from the chain's recent block time (with a minute of slack).
+ */
+export async function estimateBlockAt(provider: ethers.providers.Provider, timestamp: number): Promise<number> {
+    const latest = await provider.getBlock('latest')
+    const sample = await provider.getBlock(Math.max(0, latest.number - 10_000))
+    const blockTime = latest.number > sample.number ? (latest.timestamp - sample.timestamp) / (latest.number - sample.number) : 1
+    const blocksAgo = Math.max(0, Math.ceil((latest.timestamp - timestamp + 60) / Math.max(blockTime, 0.05)))
+    return Math.max(0, latest.number - blocksAgo)
+}
+
+/**
+ * Scan `filter` forward from `fromBlock` until `match` returns a value or the deadline passes.
+ * The range is always scanned at least once, so a past deadline gives a one-shot lookup.
+ */
+async function waitForLog<T>(
+    provider: ethers.providers.Provider,
+    filter: { address: string; topics: (string | string[] | null)[] },
+    fromBlock: number,
+    match: (log: ethers.providers.Log) => T | undefined,
+    deadline: number,
+    options: TrackOptions
+): Promise<{ log: ethers.providers.Log; value: T } | undefined> {
+    let next = fromBlock
+    for (;;) {
+        const latest = await provider.getBlockNumber()
+        for (let start = next; start <= latest; start += LOG_CHUNK_BLOCKS) {
+            const end = Math.min(start + LOG_CHUNK_BLOCKS - 1, latest)
+            const logs = await provider.getLogs({ ...filter, fromBlock: start, toBlock: end })
+            for (const log of logs) {
+                const value = match(log)
+                if (value !== undefined) {
+                    return { log, value }
+                }
+            }
+        }
+        next = latest + 1
+        if (Date.now() + options.pollIntervalMs >= deadline) {
+            return undefined
+        }
+        await sleep(options.pollIntervalMs)
+    }
+}
+
+/** One-shot scan of `filter` from `fromBlock` to the latest block for the first log `match` accepts */
+export function scanLogs<T>(
+    provider: ethers.providers.Provider,
+    filter: { address: string; topics: (string | string[] | null)[] },
+    fromBlock: number,
+    match: (log: ethers.providers.Log) => T | undefined
+): Promise<{ log: ethers.providers.Log; value: T } | undefined> {
+    return waitForLog(provider, filter, fromBlock, match, 0, { timeoutMs: 0, pollIntervalMs: 0, progress: false })
+}
+
+export function alertReason(reason: string): string {
+    if (reason === '0x') {
+        return 'empty revert (likely out of gas)'
+    }
+    const revert = decodeRevertData(reason)
+    return revert ? formatRevert(revert) : reason
+}
+
+// ============================================
+// TRACKING
+// ============================================
+
+/** Wait for the BusDriven carrying `ride` and return its packet, or undefined if the bus has not left */
+async function waitForBus(
+    deployment: DeploymentManifest,
+    src: string,
+    ride: BusRide,
+    fromBlock: number,
+    deadline: number,
+    options: TrackOptions
+): Promise<SentPacket | undefined> {
+    const provider = getProvider(deployment, src)
+    const driven = await waitForLog(
+        provider,
+        { address: ride.pool, topics: [STARGATE_INTERFACE.getEventTopic('BusDriven')] },
+        fromBlock,
+        (log) => {
+            const { dstEid, startTicketId, numPassengers, guid } = STARGATE_INTERFACE.parseLog(log).args
+            const seated = ride.ticketId.gte(startTicketId) && ride.ticketId.lt(BigNumber.from(startTicketId).add(numPassengers))
+            return dstEid === ride.dstEid && seated ? (guid as string) : undefined
+        },
+        deadline,
+        options
+    )
+    if (!driven) {
+        return undefined
+    }
+    const receipt = await provider.getTransactionReceipt(driven.log.transactionHash)
+    const packet = parseSentPackets(receipt, getEndpoint(deployment, src)).find((sent) => sent.guid === driven.value)
+    return packet && { ...packet, amountSentLD: ride.amountSentLD, ticketId: ride.ticketId, passenger: ride.receiver }
+}
+
+/** Stand-in for a seat whose bus has not left: there is no packet (GUID, nonce, receiver) yet */
+function waitingForBus(deployment: DeploymentManifest, src: string, ride: BusRide): HopResult {
+    const packet: SentPacket = {
+        guid: ethers.constants.HashZero,
+        nonce: BigNumber.from(0),
+        srcEid: getChain(deployment, src).eid,
+        sender: ethers.utils.hexZeroPad(ride.pool, 32),
+        dstEid: ride.dstEid,
+        receiver: ethers.constants.AddressZero,
+        amountSentLD: ride.amountSentLD,
+        ticketId: ride.ticketId,
+        passenger: ride.receiver,
+    }
+    const dst = getChainKeyByEid(deployment, ride.dstEid)
+    return { src, dst, packet, status: 'waiting-for-bus', error: `bus ticket ${ride.ticketId.toString()} to ${getChain(deployment, dst).name} has not been driven yet` }
+}
+
+/** Follow one packet through delivery (and compose, if it carries one) */
+async function trackHop(
+    deployment: DeploymentManifest,
+    src: string,
+    packet: SentPacket,
+    sentAt: number,
+    deadline: number,
+    options: TrackOptions
+): Promise<{ hop: HopResult; next?: ethers.providers.TransactionReceipt }> {
+    const dst = getChainKeyByEid(deployment, packet.dstEid)
+    const dstName = getChain(deployment, dst).name
+    const provider = getProvider(deployment, dst)
+    const endpoint = getEndpoint(deployment, dst)
+    const hop: HopResult = { src, dst, packet, status: 'inflight' }
+    const fromBlock = await estimateBlockAt(provider, sentAt)
+    const progress = (message: string) => options.progress && console.log(message)
+
+    // 1. Delivery (lzReceive) or an lzReceive alert
+    progress(`   ⏳ Waiting for delivery on ${dstName}...`)
+    const deliveredTopic = ENDPOINT_V2_INTERFACE.getEventTopic('PacketDelivered')
+    const receiveAlertTopic = ENDPOINT_V2_INTERFACE.getEventTopic('LzReceiveAlert')
+    const delivery = await waitForLog(
+        provider,
+        { address: endpoint, topics: [[deliveredTopic, receiveAlertTopic]] },
+        fromBlock,
+        (log) => {
+            const parsed = ENDPOINT_V2_INTERFACE.parseLog(log)
+            const origin = parsed.args.origin
+            const matches =
+                origin.srcEid === packet.srcEid && origin.sender.toLowerCase() === packet.sender.toLowerCase() && packet.nonce.eq(origin.nonce)
+            return matches ? parsed : undefined
+        },
+        deadline,
+        options
+    )
+    if (!delivery) {
+        hop.error = `not delivered on ${dstName} yet`
+        return { hop }
+    }
+    hop.deliveryTx = delivery.log.transactionHash
+    if (delivery.value.name === 'LzReceiveAlert') {
+        hop.status = 'failed'
+        hop.error = `lzReceive reverted on ${dstName}: ${alertReason(delivery.value.args.reason)}`
+        return { hop }
+    }
+
+    const deliveryReceipt = await provider.getTransactionReceipt(delivery.log.transactionHash)
+    // A bus packet credits every passenger under the same GUID; pick this seat's recipient
+    const received = packet.passenger
+        ? deliveryReceipt.logs
+              .filter((log) => log.topics[0] === OFT_INTERFACE.getEventTopic('OFTReceived'))
+              .map((log) => ({ log, parsed: OFT_INTERFACE.parseLog(log) }))
+              .find(({ parsed }) => parsed.args.guid === packet.guid && parsed.args.toAddress === packet.passenger)
+        : findLog(deliveryReceipt, OFT_INTERFACE, 'OFTReceived', packet.guid)
+    hop.amountReceivedLD = received?.parsed.args.amountReceivedLD
+    hop.recipient = received?.parsed.args.toAddress
+    hop.status = 'delivered'
+    progress(`   ✅ Delivered on ${dstName} in ${delivery.log.transactionHash}`)
+
+    // 2. Compose, when the OFT queued one for this guid
+    const composeSent = findLog(deliveryReceipt, ENDPOINT_V2_INTERFACE, 'ComposeSent', packet.guid)
+    if (!composeSent) {
+        return { hop }
+    }
+
+    hop.status = 'compose-pending'
+    hop.composer = composeSent.parsed.args.to
+    progress(`   ⏳ Waiting for lzCompose on ${hop.composer}...`)
+    const composedTopic = ENDPOINT_V2_INTERFACE.getEventTopic('ComposeDelivered')
+    const composeAlertTopic = ENDPOINT_V2_INTERFACE.getEventTopic('LzComposeAlert')
+    const compose = await waitForLog(
+        provider,
+        { address: endpoint, topics: [[composedTopic, composeAlertTopic]] },
+        delivery.log.blockNumber,
+        (log) => {
+            const parsed = ENDPOINT_V2_INTERFACE.parseLog(log)
+            return parsed.args.guid === packet.guid ? parsed : undefined
+        },
+        deadline,
+        options
+    )
+    if (!compose) {
+        hop.error = `lzCompose not executed on ${dstName} yet`
+        return { hop }
+    }
+    hop.composeTx = compose.log.transactionHash
+    if (compose.value.name === 'LzComposeAlert') {
+        hop.status = 'failed'
+        hop.error = `lzCompose reverted on ${dstName}: ${alertReason(compose.value.args.reason)}`
+        return { hop }
+    }
+
+    const composeReceipt = await provider.getTransactionReceipt(compose.log.transactionHash)
+    if (findLog(composeReceipt, COMPOSER_INTERFACE, 'Refunded', packet.guid)) {
+        hop.status = 'refunded'
+        hop.error = `composer refunded the input on ${dstName} (tx ${compose.log.transactionHash})`
+        progress(`   ↩️  Refunded on ${dstName} in ${compose.log.transactionHash}`)
+        return { hop, next: composeReceipt }
+    }
+    hop.status = 'composed'
+    progress(`   ✅ Composed on ${dstName} in ${compose.log.transactionHash}`)
+    return { hop, next: composeReceipt }
+}
+
+/**
+ * Follow every packet sent by `receipt` on chain `src` for up to `options.timeoutMs`,
+ * including later hops sent by a compose and refunds sent back by the composer.
+ * Never throws for a failed hop: the returned results say where each one stands.
+ */
+export async function followMessages(
+    deployment: DeploymentManifest,
+    src: string,
+    receipt: ethers.providers.TransactionReceipt,
+    options: TrackOptions = defaultTrackOptions()
+): Promise<HopResult[]> {
+    const deadline = Date.now() + options.timeoutMs
+    const results: HopResult[] = []
+    const queue: { chain: string; receipt: ethers.providers.TransactionReceipt; refund: boolean }[] = [{ chain: src, receipt, refund: false }]
+
+    while (queue.length > 0) {
+        const { chain, receipt: current, refund } = queue.shift()!
+        const packets = parseSentPackets(current, getEndpoint(deployment, chain))
+        const sentAt = (await getProvider(deployment, chain).getBlock(current.blockNumber)).timestamp
+
+        for (const ride of parseBusRides(current)) {
+            if (options.progress) {
+                console.log(`\n🚌 Bus ticket ${ride.ticketId.toString()}: waiting for the bus to ${getChain(deployment, getChainKeyByEid(deployment, ride.dstEid)).name}...`)
+            }
+            const packet = await waitForBus(deployment, chain, ride, current.blockNumber, deadline, options)
+            if (packet) {
+                packets.push(packet)
+            } else {
+                results.push(waitingForBus(deployment, chain, ride))
+            }
+        }
+
+        for (const packet of packets) {
+            const dst = getChainKeyByEid(deployment, packet.dstEid)
+            if (options.progress) {
+                console.log(`\n🛰️  ${refund ? 'Refund' : `Hop ${results.length + 1}`}: ${getChain(deployment, chain).name} → ${getChain(deployment, dst).name}`)
+                console.log(`   GUID: ${packet.guid}  Nonce: ${packet.nonce.toString()}`)
+            }
+
+            const { hop, next } = await trackHop(deployment, chain, packet, sentAt, deadline, options)
+            hop.refund = refund || undefined
+            results.push(hop)
+
+            if (next) {
+                queue.push({ chain: dst, receipt: next, refund: hop.status === 'refunded' })
+            }
+        }
+    }
+    return results
+}
+
+/** True when every hop landed and no composer refunded */
+export function isComplete(hops: HopResult[]): boolean {
+    return hops.every((hop) => SUCCESS_STATUSES.includes(hop.status) && !hop.refund)
+}
+
+/** Throw when a hop failed, was refunded or is still pending; otherwise report completion */
+export function checkDelivered(hops: HopResult[]): void {
+    const failed = hops.findIndex((hop) => !SUCCESS_STATUSES.includes(hop.status))
+    if (failed !== -1) {
+        const hop = hops[failed]
+        const pending = hop.status === 'waiting-for-bus' || hop.status === 'inflight' || hop.status === 'compose-pending'
+        throw failure('crossChain', `❌ Hop ${failed + 1} ${pending ? 'timed out' : hop.status}: ${hop.error}`)
+    }
+    if (hops.some((hop) => hop.refund)) {
+        throw failure('crossChain', '❌ Composer refunded the input; the refund was delivered back to the sender')
+    }
+
+    if (hops.length > 0) {
+        console.log(`\n✅ All ${hops.length} hop(s) complete`)
+    }
+}
+
+/**
+ * Track every packet sent by `receipt` until it lands.
+ * Resolves with every hop's result; throws when a hop fails, is refunded or times out.
+ */
+export async function trackMessages(
+    deployment: DeploymentManifest,
+    src: string,
+    receipt: ethers.providers.TransactionReceipt,
+    options: TrackOptions = defaultTrackOptions()
+): Promise<HopResult[]> {
+    const hops = await followMessages(deployment, src, receipt, options)
+    checkDelivered(hops)
+    return hops
+}
@@ -0,0 +1,226 @@
+#!/usr/bin/env ts-node
+/**
+ * OVault CLI
+ *
+ * One entry point for every OVault operation. The subcommand plus --src / --dst / --hub
+ * resolve to the right flow (see scripts/lib/route.ts).
+ *
+ * Run: npm run ovault -- <command> --src <chain> --amount <amount> [options]
+ * Or:  npx ts-node scripts/ovault.ts <command> ...
+ */
+
+import { parseArgs } from 'util'
+import { UTILITY_COMMANDS } from './commands'
+import { journalParams, runJournaled } from './commands/resume'
+import { CONFIG } from './config'
+import { FLOWS, FlowParams } from './flows'
+import { explainError } from './lib/errors'
+import { exitCodeFor, failure } from './lib/exitCodes'
+import { APPROVAL_CLI_OPTIONS, APPROVAL_USAGE, resolveApprovalConfig } from './lib/approval'
+import { parseWholeNumber } from './lib/cli'
+import { createJournal, findUnfinishedRun } from './lib/journal'
+import { listManifests, loadManifest, resolveManifestPath } from './lib/manifest'
+import { COMMANDS, Command, resolveRoute } from './lib/route'
+import { SIGNER_CLI_OPTIONS, SIGNER_USAGE, resolveSignerConfig } from './lib/signer'
+import { FlowReport, createReport, failureOf, printReport, redirectLogs } from './lib/report'
+import { parseSlippageBps } from './lib/slippage'
+import { parseStargateMode } from './lib/stargate'
+import { TrackOptions, defaultTrackOptions, parseTrackTimeout } from './lib/tracking'
+
+const USAGE = `
+Usage: ovault <command> [options]
+
+Commands:
+  deposit            Deposit assets into the vault, receive shares on --dst
+  redeem             Redeem shares from the vault, receive assets on --dst
+  bridge-assets      Send assets from --src to --dst (no vault)
+  bridge-shares      Send shares from --src to --dst (no vault)
+  deposit-and-send   Deposit on the hub and send shares to a spoke via the composer
+${Object.entries(UTILITY_COMMANDS).map(([name, { summary }]) => `  ${name.padEnd(19)}${summary}`).join('\n')}
+
+Flow options (utility commands: ovault <command> --help):
+  --src <chain>              Chain holding the input tokens (required)
+  --dst <chain>              Chain receiving the output (default: --src)
+  --hub <chain>              Hub chain where the vault lives (default: the deployment's hub)
+  --deployment <name|path>   Deployment manifest (default: ${CONFIG.deployment})
+  --amount <amount>          Human readable input amount (required)
+  --recipient <address>      Receiver of the output (default: your wallet)
+  --min-amount <amount>      Custom minimum output amount (replaces the worst case from --max-slippage)
+  --max-slippage <bps>       Slippage budget off the quoted output of each hop (default: ${CONFIG.defaults.maxSlippageBps})
+  --lz-receive-gas <gas>     Gas for lzReceive on the destination
+  --lz-compose-gas <gas>     Gas for lzCompose on the hub (profiled against hub state if omitted)
+  --lz-compose-gas-margin <bps> Margin on the profiled lzCompose gas (default: ${CONFIG.defaults.lzComposeGasMarginBps})
+  --lz-compose-value <wei>   Value forwarded to the second hop (auto-quoted if omitted)
+  --dry-run                  Quote and simulate every transaction, print the plan, broadcast nothing
+  --no-track                 Exit after the source transaction instead of following every hop
+  --track-timeout <minutes>  Fail if the message is not delivered in time (default: ${CONFIG.defaults.trackTimeoutMinutes})
+  --force-new                Start a new run even if the same one is unfinished in journals/
+  --wrapped                  ETH vaults: spend / receive WETH on the hub instead of wrapping / unwrapping ETH
+  --stargate-mode <mode>     bridge-* through a Stargate pool: taxi, bus or auto (cheaper; default: ${CONFIG.defaults.stargateMode})
+  --pay-in-lz-token          Pay the LayerZero protocol fee in ZRO (the endpoint's lzToken) instead of native
+  --json                     Print one JSON result object on stdout (progress goes to stderr)
+  -h, --help                 Show this help
+
+${APPROVAL_USAGE}
+
+${SIGNER_USAGE}
+
+Deployments: ${listManifests().join(', ')}
+
+Exit codes: 0 ok, 1 other error, 2 configuration, 3 insufficient funds, 4 quote,
+            5 revert, 6 cross-chain delivery, 7 RPC
+`
+
+function parseCli(argv: string[]): { command: Command; params: FlowParams; deploymentPath: string; forceNew?: boolean; track?: TrackOptions } {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            src: { type: 'string' },
+            dst: { type: 'string' },
+            hub: { type: 'string' },
+            deployment: { type: 'string' },
+            amount: { type: 'string' },
+            recipient: { type: 'string' },
+            'min-amount': { type: 'string' },
+            'max-slippage': { type: 'string' },
+            'lz-receive-gas': { type: 'string' },
+            'lz-compose-gas': { type: 'string' },
+            'lz-compose-gas-margin': { type: 'string' },
+            'lz-compose-value': { type: 'string' },
+            'dry-run': { type: 'boolean' },
+            'no-track': { type: 'boolean' },
+            'track-timeout': { type: 'string' },
+            'force-new': { type: 'boolean' },
+            wrapped: { type: 'boolean' },
+            'stargate-mode': { type: 'string' },
+            'pay-in-lz-token': { type: 'boolean' },
+            json: { type: 'boolean' },
+            ...APPROVAL_CLI_OPTIONS,
+            ...SIGNER_CLI_OPTIONS,
+            help: { type: 'boolean', short: 'h' },
+        },
+    })
+
+    const command = positionals[0] as Command
+    if (values.help || !command) {
+        console.log(USAGE)
+        process.exit(0)
+    }
+    if (!COMMANDS.includes(command)) {
+        throw failure('config', `❌ Unknown command "${command}". Run "ovault --help"`)
+    }
+    if (!values.src) {
+        throw failure('config', '❌ --src is required')
+    }
+    if (!values.amount) {
+        throw failure('config', '❌ --amount is required')
+    }
+
+    if (values['pay-in-lz-token'] && values['stargate-mode'] && values['stargate-mode'] !== 'taxi') {
+        throw failure('config', '❌ --pay-in-lz-token rides the taxi: Stargate bus fares are paid in native only')
+    }
+
+    const deploymentPath = resolveManifestPath(values.deployment ?? CONFIG.deployment)
+    const deployment = loadManifest(deploymentPath)
+    const timeoutMs = parseTrackTimeout(values['track-timeout'])
+    const track = values['no-track'] ? undefined : defaultTrackOptions()
+    if (track && timeoutMs) {
+        track.timeoutMs = timeoutMs
+    }
+
+    return {
+        command,
+        track,
+        deploymentPath,
+        forceNew: values['force-new'],
+        params: {
+            deployment,
+            signer: resolveSignerConfig(values, CONFIG.signer),
+            src: values.src,
+            dst: values.dst ?? values.src,
+            hub: values.hub ?? deployment.hub,
+            amount: values.amount,
+            recipient: values.recipient,
+            minAmount: values['min-amount'],
+            maxSlippageBps: parseSlippageBps(values['max-slippage']),
+            lzReceiveGas: parseWholeNumber('lz-receive-gas', values['lz-receive-gas'], 1),
+            lzComposeGas: parseWholeNumber('lz-compose-gas', values['lz-compose-gas'], 1),
+            lzComposeGasMarginBps: parseWholeNumber('lz-compose-gas-margin', values['lz-compose-gas-margin'], 0),
+            lzComposeValue: values['lz-compose-value'],
+            approval: resolveApprovalConfig(values, CONFIG.approval),
+            wrapped: values.wrapped,
+            stargateMode: parseStargateMode(values['stargate-mode']),
+            payInLzToken: values['pay-in-lz-token'],
+            dryRun: values['dry-run'],
+        },
+    }
+}
+
+// Built once the route resolves; printed on stdout with --json, even when the run fails
+let report: FlowReport | undefined
+const json = process.argv.slice(2).includes('--json') && !UTILITY_COMMANDS[process.argv[2]]
+
+async function main() {
+    const argv = process.argv.slice(2)
+    const utility = UTILITY_COMMANDS[argv[0]]
+    if (utility) {
+        return utility.run(argv.slice(1))
+    }
+
+    if (json) {
+        redirectLogs()
+    }
+    let cli: ReturnType<typeof parseCli>
+    let route: ReturnType<typeof resolveRoute>
+    try {
+        cli = parseCli(argv)
+        route = resolveRoute(cli.command, cli.params)
+    } catch (error: any) {
+        error.failureKind ??= 'config'
+        throw error
+    }
+    const { command, params, deploymentPath, forceNew, track } = cli
+    const inputs = journalParams(params)
+    if (json) {
+        params.report = report = createReport({ command, flow: route.flow, deployment: params.deployment, dryRun: params.dryRun, inputs })
+    }
+
+    console.log(`📦 Deployment: ${params.deployment.name}${params.dryRun ? ' (dry run)' : ''}`)
+    console.log(`🧭 ${command}: ${route.description} → ${route.flow}`)
+    if (params.dryRun) {
+        await FLOWS[route.flow](params)
+        return
+    }
+
+    // Running the same operation again after a crash must not approve or send twice
+    const unfinished = forceNew ? undefined : findUnfinishedRun(command, deploymentPath, inputs)
+    if (unfinished) {
+        throw failure('config', 
+            `❌ The same ${command} is unfinished (${unfinished.status}) in ${unfinished.file}. Run "ovault resume ${unfinished.id}", or pass --force-new to start another one`
+        )
+    }
+    const journal = createJournal({ command, flow: route.flow, deployment: deploymentPath, params: inputs })
+    console.log(`📒 Journal: ${journal.file}`)
+    if (report) {
+        report.journal = journal.file
+    }
+    await runJournaled(journal, params, track)
+}
+
+main()
+    .then(() => {
+        if (json && report) {
+            printReport(report)
+        }
+        process.exit(0)
+    })
+    .catch((error) => {
+        for (const line of explainError(error)) {
+            console.error(line)
+        }
+        if (json) {
+            printReport({ ...report, ...failureOf(error) })
+        }
+        process.exit(exitCodeFor(error))
+    })
@@ -0,0 +1,100 @@
+/**
+ * Approval policies, EIP-2612 permits and Permit2, and the revoke command.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { run as revoke } from '../scripts/commands/revoke'
+import { ApprovalConfig } from '../scripts/lib/approval'
+import { decodeRevert } from '../scripts/lib/errors'
+import { EXIT_CODES, exitCodeFor } from '../scripts/lib/exitCodes'
+import { quietly, runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+describe('approvals', () => {
+    let network: LocalNetwork
+    let wallet: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        wallet = network.wallet.address
+    })
+
+    afterEach(() => network.close())
+
+    const bridgeFromBase = (approval: ApprovalConfig, amount = '100') =>
+        runFlow(network, 'bridge-assets', { src: 'base', dst: 'ethereum', amount }, { approval })
+    const poolAllowance = () => network.spokes.base.usdc!.allowance(null, wallet, network.spokes.base.assetOFT.address)
+    const baseCalls = (method: string) =>
+        [...network.chains.base.txs.values()].filter((tx) => tx.data.startsWith(network.spokes.base.usdc!.iface.getSighash(method))).length
+
+    it('capped keeps a standing allowance and refuses amounts above the cap', async () => {
+        await bridgeFromBase({ policy: 'capped', method: 'approve', cap: '500' })
+        assert.equal(poolAllowance(), usdc('400'))
+
+        // The standing allowance covers the next send without another approval
+        await bridgeFromBase({ policy: 'capped', method: 'approve', cap: '500' })
+        assert.equal(poolAllowance(), usdc('300'))
+        assert.equal(baseCalls('approve'), 1)
+
+        await assert.rejects(bridgeFromBase({ policy: 'capped', method: 'approve', cap: '500' }, '600'), /exceeds the approval cap of 500/)
+    })
+
+    it('infinite approves once; revoke-after zeroes what is left', async () => {
+        await bridgeFromBase({ policy: 'infinite', method: 'approve' })
+        assert.equal(poolAllowance(), ethers.constants.MaxUint256.toBigInt())
+
+        await bridgeFromBase({ policy: 'revoke-after', method: 'approve' })
+        assert.equal(poolAllowance(), 0n)
+        assert.equal(baseCalls('approve'), 2)
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC - usdc('200'))
+    })
+
+    it('revoke-after zeroes the allowance when the send fails', async () => {
+        // Unwire the pool once the approval is mined, so the send reverts after it
+        const hubEid = network.manifest.chains.ethereum.eid
+        network.chains.base.onMined.push(() => {
+            if (baseCalls('approve') === 1) {
+                network.spokes.base.assetOFT.setPeer(hubEid, ethers.constants.AddressZero)
+            }
+        })
+        await assert.rejects(bridgeFromBase({ policy: 'revoke-after', method: 'approve' }), (error) => decodeRevert(error)?.name === 'NoPeer')
+
+        assert.equal(poolAllowance(), 0n)
+        assert.equal(baseCalls('approve'), 2)
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC)
+    })
+
+    it('grants the allowance with an EIP-2612 permit, falling back to approve without one', async () => {
+        await bridgeFromBase({ policy: 'exact', method: 'permit' })
+        assert.equal(baseCalls('permit'), 1)
+        assert.equal(baseCalls('approve'), 0)
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC - usdc('100'))
+
+        // Hub USDC has no permit
+        await runFlow(network, 'deposit', { src: 'ethereum', dst: 'ethereum', amount: '100' }, { approval: { policy: 'exact', method: 'permit' } })
+        assert.equal(network.hub.usdc.allowance(null, wallet, network.hub.vault.address), 0n)
+    })
+
+    it('grants through Permit2 only where it is deployed', async () => {
+        // No Permit2 on the local chains: refused before anything is approved
+        await assert.rejects(bridgeFromBase({ policy: 'exact', method: 'permit2' }), (error: any) => {
+            assert.match(error.message, /Permit2 is not deployed on base; use --approval-method approve or permit/)
+            assert.equal(exitCodeFor(error), EXIT_CODES.config)
+            return true
+        })
+        assert.equal(network.chains.base.txs.size, 0)
+    })
+
+    it('revoke lists and zeroes allowances granted to the deployment', async () => {
+        await bridgeFromBase({ policy: 'infinite', method: 'approve' })
+        const revokeBase = (...args: string[]) => quietly(() => revoke(['--chain', 'base', '--deployment', network.manifestPath, ...args]))
+
+        await revokeBase('--list')
+        assert.equal(poolAllowance(), ethers.constants.MaxUint256.toBigInt())
+
+        await revokeBase()
+        assert.equal(poolAllowance(), 0n)
+    })
+})
@@ -0,0 +1,84 @@
+/**
+ * audit: the wiring matrix of a healthy mesh, and the pathways a misconfiguration breaks.
+ */
+
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { run as audit } from '../scripts/commands/audit'
+import { AuditReport } from '../scripts/lib/audit'
+import { CONFIG_TYPE_ULN, SEND, SEND_AND_CALL, ULN_CONFIG } from './harness/contracts'
+import { quietly } from './harness/flows'
+import { LocalNetwork, startNetwork } from './harness/network'
+
+const DVNS = ['0x000000000000000000000000000000000000d0d0', '0x000000000000000000000000000000000000d0d1']
+const STRANGER = ethers.utils.getAddress('0x000000000000000000000000000000000000bad0')
+
+describe('audit', () => {
+    let network: LocalNetwork
+    let dir: string
+    let out: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ovault-audit-'))
+        out = path.join(dir, 'audit.json')
+    })
+
+    afterEach(async () => {
+        fs.rmSync(dir, { recursive: true, force: true })
+        await network.close()
+    })
+
+    const eid = (chain: string) => network.manifest.chains[chain].eid
+    const runAudit = () => quietly(() => audit(['--deployment', network.manifestPath, '--out', out]))
+    const report = (): AuditReport => JSON.parse(fs.readFileSync(out, 'utf8'))
+    const cell = (mesh: string, from: string, to: string, check: string) => {
+        const pathway = report().pathways.find((p) => p.mesh === mesh && p.from === from && p.to === to)!
+        return (pathway.cells as Record<string, { status: string; detail: string }>)[check]
+    }
+
+    it('passes a healthy mesh: every pathway of both meshes, both directions', async () => {
+        await runAudit()
+
+        const { pathways, oapps, hubChecks, summary } = report()
+        assert.equal(pathways.length, 12)
+        assert.equal(oapps.length, 6)
+        assert.deepEqual(hubChecks.map((check) => check.name), ['composer.VAULT()', 'composer.ASSET_OFT()', 'composer.SHARE_OFT()', 'shareOFT.token()', 'assetOFT.token()'])
+        assert.deepEqual(summary, { ok: 83, warn: 0, fail: 0, 'n/a': 0 })
+        assert.equal(cell('assetOFT', 'base', 'ethereum', 'options').detail, 'SEND 80000, SEND_AND_CALL 80000')
+    })
+
+    it('fails a missing peer and mismatched DVN configs, and warns on a foreign delegate', async () => {
+        const { katana } = network.spokes
+        katana.shareOFT.setPeer(eid('base'), ethers.constants.AddressZero)
+        // Two required DVNs on the hub's send side, the spoke still expects one
+        const hubEndpoint = network.hub.endpoint
+        const sendLib = hubEndpoint.getSendLibrary(null, network.hub.shareOFT.address, eid('katana'))
+        const uln = ethers.utils.defaultAbiCoder.encode([ULN_CONFIG], [[15, 2, 0, 0, DVNS, []]])
+        hubEndpoint.setConfig(network.hub.shareOFT.address, sendLib, eid('katana'), CONFIG_TYPE_ULN, uln)
+        katana.endpoint.setDelegate(katana.assetOFT.address, STRANGER)
+
+        await assert.rejects(runAudit(), /Audit found 2 failing check\(s\)/)
+        assert.deepEqual(cell('shareOFT', 'katana', 'base', 'peer'), { status: 'fail', detail: `no peer for EID ${eid('base')}` })
+        assert.equal(cell('shareOFT', 'base', 'katana', 'peer').status, 'ok')
+        assert.equal(cell('shareOFT', 'ethereum', 'katana', 'dvns').status, 'fail')
+        assert.match(cell('shareOFT', 'ethereum', 'katana', 'dvns').detail, /send 2 required, 15 conf\. vs receive 1 required/)
+        assert.equal(cell('shareOFT', 'katana', 'ethereum', 'dvns').status, 'ok')
+        const ownership = report().oapps.find((oapp) => oapp.chain === 'katana' && oapp.role === 'assetOFT')!.ownership
+        assert.deepEqual(ownership, { status: 'warn', detail: `delegate ${STRANGER} is not the owner` })
+    })
+
+    it('requires enforced lzReceive gas for compose sends to the hub, warns for plain sends', async () => {
+        const { base } = network.spokes
+        base.assetOFT.setEnforcedOptions(eid('ethereum'), SEND_AND_CALL, '0x')
+        base.assetOFT.setEnforcedOptions(eid('katana'), SEND, '0x')
+
+        await assert.rejects(runAudit(), /Audit found 1 failing check\(s\)/)
+        assert.deepEqual(cell('assetOFT', 'base', 'ethereum', 'options'), { status: 'fail', detail: 'SEND_AND_CALL: no lzReceive gas enforced' })
+        assert.deepEqual(cell('assetOFT', 'base', 'katana', 'options'), { status: 'warn', detail: 'SEND: no lzReceive gas enforced' })
+    })
+})
@@ -0,0 +1,128 @@
+/**
+ * Batch sends: one approval, one results row per recipient, and resuming after a failure.
+ */
+
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { run as batch } from '../scripts/commands/batch'
+import { BatchResults } from '../scripts/lib/batch'
+import { PRIVATE_KEY_ENV } from '../scripts/lib/signer'
+import { quietly } from './harness/flows'
+import { LocalNetwork, WALLET_PRIVATE_KEY, WALLET_SHARES, startNetwork, usdc } from './harness/network'
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+
+describe('batch', () => {
+    let network: LocalNetwork
+    let dir: string
+    let rowsFile: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        process.env[PRIVATE_KEY_ENV] = WALLET_PRIVATE_KEY
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ovault-batch-'))
+        rowsFile = path.join(dir, 'payouts.csv')
+        fs.writeFileSync(rowsFile, ['dstChain,recipient,amount', `base,${ALICE},10`, `katana,${BOB},5`, `base,${BOB},2.5`].join('\n'))
+    })
+
+    afterEach(async () => {
+        await network.close()
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    const runBatch = () => quietly(() => batch(['bridge-shares', '--src', 'ethereum', '--file', rowsFile, '--deployment', network.manifestPath]))
+    const readResults = (): BatchResults => JSON.parse(fs.readFileSync(path.join(dir, 'payouts.results.json'), 'utf8'))
+    const approvals = () =>
+        [...network.chains.ethereum.txs.values()].filter((tx) => tx.data.startsWith(network.hub.vault.iface.getSighash('approve'))).length
+
+    it('sends every row after a single approval and records hash and GUID', async () => {
+        await runBatch()
+
+        const { base, katana } = network.spokes
+        assert.equal(base.shareOFT.balanceOf(null, ALICE), usdc('10'))
+        assert.equal(base.shareOFT.balanceOf(null, BOB), usdc('2.5'))
+        assert.equal(katana.shareOFT.balanceOf(null, BOB), usdc('5'))
+        assert.equal(network.hub.vault.balanceOf(null, network.wallet.address), WALLET_SHARES - usdc('17.5'))
+        assert.equal(approvals(), 1)
+
+        const results = readResults()
+        assert.deepEqual(results.rows.map((row) => row.status), ['sent', 'sent', 'sent'])
+        assert.deepEqual(results.rows.map((row) => row.nonce), [1, 2, 3])
+        for (const row of results.rows) {
+            assert.match(row.txHash!, /^0x[0-9a-f]{64}$/)
+            assert.match(row.guid!, /^0x[0-9a-f]{64}$/)
+        }
+
+        // Re-running a finished batch sends nothing
+        await runBatch()
+        assert.equal(base.shareOFT.balanceOf(null, ALICE), usdc('10'))
+        assert.equal(network.chains.ethereum.txs.size, 4)
+    })
+
+    it('resumes after a failed row without resending the rows already sent', async () => {
+        const { shareOFT } = network.hub
+        const katanaEid = network.manifest.chains.katana.eid
+        const katanaPeer = network.spokes.katana.shareOFT.address
+
+        // Unwire katana once the first row is out, so row 2 fails and row 3 still goes through
+        network.chains.ethereum.onMined.push(() => {
+            if (network.chains.ethereum.txs.size === 2) {
+                shareOFT.setPeer(katanaEid, ethers.constants.AddressZero)
+            }
+        })
+        await assert.rejects(runBatch(), (error: any) => /1 of 3 row\(s\) not sent/.test(error.message) && error.failureKind === 'revert')
+        assert.deepEqual(readResults().rows.map((row) => row.status), ['sent', 'failed', 'sent'])
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, BOB), 0n)
+
+        shareOFT.setPeer(katanaEid, katanaPeer)
+        await runBatch()
+
+        assert.deepEqual(readResults().rows.map((row) => row.status), ['sent', 'sent', 'sent'])
+        assert.equal(network.spokes.base.shareOFT.balanceOf(null, ALICE), usdc('10'))
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, BOB), usdc('5'))
+        assert.equal(approvals(), 1)
+    })
+
+    it('leaves a row pending, never resent, while its tx from an earlier run is unconfirmed', async () => {
+        await runBatch()
+        const resultsFile = path.join(dir, 'payouts.results.json')
+        const results = readResults()
+        const stuck = results.rows[1].txHash!
+        results.rows[1] = { ...results.rows[1], status: 'pending', guid: undefined }
+        fs.writeFileSync(resultsFile, JSON.stringify(results))
+        network.chains.ethereum.unconfirmed.add(stuck)
+
+        const sent = network.chains.ethereum.txs.size
+        const rerun = () => quietly(() => batch(['bridge-shares', '--src', 'ethereum', '--file', rowsFile, '--deployment', network.manifestPath, '--track-timeout', '0.02']))
+        await assert.rejects(rerun(), (error: any) => /1 of 3 row\(s\) broadcast but not confirmed yet/.test(error.message) && error.failureKind === 'rpc')
+        assert.deepEqual(readResults().rows.map((row) => row.status), ['sent', 'pending', 'sent'])
+        assert.equal(readResults().rows[1].txHash, stuck)
+        assert.equal(network.chains.ethereum.txs.size, sent)
+
+        network.chains.ethereum.unconfirmed.delete(stuck)
+        await rerun()
+        assert.deepEqual(readResults().rows.map((row) => row.status), ['sent', 'sent', 'sent'])
+        assert.equal(network.chains.ethereum.txs.size, sent)
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, BOB), usdc('5'))
+    })
+
+    it('refuses a results file from another deployment or a malformed --lz-receive-gas', async () => {
+        await runBatch()
+        const resultsFile = path.join(dir, 'payouts.results.json')
+        fs.writeFileSync(resultsFile, JSON.stringify({ ...readResults(), deployment: 'other' }))
+        await assert.rejects(runBatch(), (error: any) => /holds results for a different batch/.test(error.message) && error.failureKind === 'config')
+
+        fs.rmSync(resultsFile)
+        const sent = network.chains.ethereum.txs.size
+        await assert.rejects(
+            quietly(() => batch(['bridge-shares', '--src', 'ethereum', '--file', rowsFile, '--deployment', network.manifestPath, '--lz-receive-gas', '1.5'])),
+            (error: any) => /--lz-receive-gas must be a positive integer \(got "1.5"\)/.test(error.message) && error.failureKind === 'config'
+        )
+        assert.equal(network.chains.ethereum.txs.size, sent)
+    })
+})
@@ -0,0 +1,113 @@
+/**
+ * Revert decoding: registered custom errors, Error(string) and Panic from raw revert data,
+ * and the reverts of real quote / estimateGas failures against the local chains.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { journalParams } from '../scripts/commands/resume'
+import { getProvider } from '../scripts/lib/chains'
+import { decodeRevert, decodeRevertData, explainError, formatRevert } from '../scripts/lib/errors'
+import { PlannedTx } from '../scripts/lib/execution'
+import { EXIT_CODES, exitCodeFor } from '../scripts/lib/exitCodes'
+import { connectOFT } from '../scripts/lib/oft'
+import { createReport } from '../scripts/lib/report'
+import { buildSendParam } from '../scripts/lib/sendParam'
+import { alertReason } from '../scripts/lib/tracking'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+const errors = new ethers.utils.Interface([
+    'error SlippageExceeded(uint256 amountLD, uint256 minAmountLD)',
+    'error ERC4626ExceededMaxDeposit(address receiver, uint256 assets, uint256 max)',
+    'error InsufficientMsgValue(uint256 expectedMsgValue, uint256 actualMsgValue)',
+    'error Unregistered(uint256 value)',
+])
+const encode = (name: string, args: unknown[]) => errors.encodeErrorResult(name, args)
+
+describe('revert decoding', () => {
+    let network: LocalNetwork
+
+    beforeEach(async () => {
+        network = await startNetwork()
+    })
+
+    afterEach(() => network.close())
+
+    it('decodes registered custom errors, Error(string) and Panic', () => {
+        const slippage = decodeRevertData(encode('SlippageExceeded', [99, 100]))!
+        assert.equal(formatRevert(slippage), 'SlippageExceeded(amountLD: 99, minAmountLD: 100) [OFT / OVaultComposer]')
+        assert.equal(slippage.kind, 'quote')
+        assert.match(slippage.hint!, /--max-slippage/)
+
+        const receiver = network.wallet.address
+        const maxDeposit = decodeRevertData(encode('ERC4626ExceededMaxDeposit', [receiver, 500, 0]))!
+        assert.equal(formatRevert(maxDeposit), `ERC4626ExceededMaxDeposit(receiver: ${receiver}, assets: 500, max: 0) [ERC4626 vault]`)
+
+        // The reason of an LzComposeAlert
+        assert.equal(alertReason(encode('InsufficientMsgValue', [10, 5])), 'InsufficientMsgValue(expectedMsgValue: 10, actualMsgValue: 5) [OVaultComposer]')
+        assert.equal(alertReason('0x'), 'empty revert (likely out of gas)')
+
+        const errorString = ethers.utils.hexConcat(['0x08c379a0', ethers.utils.defaultAbiCoder.encode(['string'], ['not allowed'])])
+        assert.deepEqual(decodeRevertData(errorString), { name: 'Error', args: 'not allowed' })
+        const panic = ethers.utils.hexConcat(['0x4e487b71', ethers.utils.defaultAbiCoder.encode(['uint256'], [0x11])])
+        assert.equal(formatRevert(decodeRevertData(panic)!), 'Panic(0x11: arithmetic overflow or underflow)')
+        assert.equal(decodeRevertData(encode('Unregistered', [1])), undefined)
+    })
+
+    it('decodes the revert of a failed quote and classifies it by the error', async () => {
+        const { base } = network.spokes
+        const katanaEid = network.manifest.chains.katana.eid
+        base.shareOFT.setPeer(katanaEid, ethers.constants.AddressZero)
+
+        const oft = connectOFT(base.shareOFT.address, getProvider(network.manifest, 'base'))
+        const sendParam = buildSendParam({ dstEid: katanaEid, to: network.wallet.address, amountLD: usdc('1'), minAmountLD: 0 })
+        const error = await oft.quote(sendParam).catch((error) => error)
+
+        // The node returns the custom error as data only; the name comes from decoding it
+        assert.doesNotMatch(error.message, /NoPeer/)
+        const revert = decodeRevert(error)!
+        assert.equal(formatRevert(revert), `NoPeer(eid: ${katanaEid}) [OApp]`)
+        // A missing peer is a configuration problem, even though the quote is what failed
+        assert.equal(exitCodeFor(error), EXIT_CODES.config)
+        assert.deepEqual(explainError(error), [`❌ Reverted: NoPeer(eid: ${katanaEid}) [OApp]`, '', `💡 ${revert.hint}`])
+    })
+
+    it('decodes the custom error of a send the OFT refuses, with its hint', async () => {
+        const { base } = network.spokes
+        const wallet = new ethers.Wallet(network.wallet.privateKey, getProvider(network.manifest, 'base'))
+        const oft = connectOFT(base.shareOFT.address, wallet)
+        const amount = usdc('1')
+        const sendParam = buildSendParam({ dstEid: network.manifest.chains.katana.eid, to: wallet.address, amountLD: amount, minAmountLD: amount + 1n })
+        const tx = await oft.populateSend(sendParam, await oft.quote(sendParam), wallet.address)
+        const error = await wallet.estimateGas(tx).catch((error) => error)
+
+        const revert = decodeRevert(error)!
+        assert.deepEqual(
+            { name: revert.name, args: revert.args, source: revert.source, kind: revert.kind },
+            { name: 'SlippageExceeded', args: `amountLD: ${amount}, minAmountLD: ${amount + 1n}`, source: 'OFT / OVaultComposer', kind: 'quote' }
+        )
+        assert.match(revert.hint!, /raise --max-slippage or lower --min-amount/)
+        assert.equal(exitCodeFor(error), EXIT_CODES.quote)
+    })
+
+    it('decodes a simulation in a dry run, and a send whose gas estimate reverts', async () => {
+        // Nothing is approved in a dry run, so the send reverts on the allowance
+        const route = { src: 'base', dst: 'katana', amount: '100' }
+        const params = { deployment: network.manifest, signer: { type: 'env' as const }, hub: network.manifest.hub, ...route }
+        const report = createReport({ command: 'deposit', flow: 'compose-deposit', deployment: network.manifest, dryRun: true, inputs: journalParams(params) })
+        await runFlow(network, 'deposit', route, { dryRun: true, report })
+        const send = report.transactions.at(-1) as PlannedTx
+        assert.equal(send.simulation, 'reverted')
+        assert.match(send.error!, /^ERC20InsufficientAllowance\(spender: 0x[0-9a-fA-F]{40}, allowance: 0, needed: 100000000\) \[ERC20\]$/)
+        assert.match(send.hint!, /in a dry run the approval was not broadcast/)
+
+        const amount = ethers.utils.formatUnits(WALLET_USDC + usdc('1'), 6)
+        const error = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount }).catch((error) => error)
+        assert.equal(error.code, ethers.errors.UNPREDICTABLE_GAS_LIMIT)
+        assert.equal(decodeRevert(error)?.name, 'ERC20InsufficientBalance')
+        assert.equal(exitCodeFor(error), EXIT_CODES.funds)
+        assert.match(explainError(error).join('\n'), /^❌ Reverted: ERC20InsufficientBalance\(sender: 0x[0-9a-fA-F]{40}, balance: \d+, needed: \d+\) \[ERC20\]\n\n💡 Not enough tokens/)
+    })
+})
@@ -0,0 +1,164 @@
+/**
+ * End-to-end flows against the local three-chain network: every route the CLI resolves,
+ * with final balances checked on each chain the value passes through.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_SHARES, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+describe('flows', () => {
+    let network: LocalNetwork
+    let wallet: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        wallet = network.wallet.address
+    })
+
+    afterEach(() => network.close())
+
+    const previewDeposit = (assets: bigint) => network.hub.vault.previewDeposit(null, ethers.BigNumber.from(assets))
+    const previewRedeem = (shares: bigint) => network.hub.vault.previewRedeem(null, ethers.BigNumber.from(shares))
+    const hubShares = () => network.hub.vault.balanceOf(null, wallet)
+    const hubUsdc = () => network.hub.usdc.balanceOf(null, wallet)
+
+    // ============================================
+    // HUB
+    // ============================================
+    it('direct-deposit: hub assets → hub shares', async () => {
+        const expected = previewDeposit(usdc('100'))
+        const { flow, hops } = await runFlow(network, 'deposit', { src: 'ethereum', dst: 'ethereum', amount: '100' })
+
+        assert.equal(flow, 'direct-deposit')
+        assert.equal(hops.length, 0)
+        assert.equal(hubUsdc(), WALLET_USDC - usdc('100'))
+        assert.equal(hubShares(), WALLET_SHARES + expected)
+    })
+
+    it('direct-redeem: hub shares → hub assets', async () => {
+        const expected = previewRedeem(usdc('100'))
+        const { flow } = await runFlow(network, 'redeem', { src: 'ethereum', dst: 'ethereum', amount: '100' })
+
+        assert.equal(flow, 'direct-redeem')
+        assert.equal(hubShares(), WALLET_SHARES - usdc('100'))
+        assert.equal(hubUsdc(), WALLET_USDC + expected)
+    })
+
+    it('direct flows run on a hub that lists no assetOFT', async () => {
+        delete network.manifest.chains.ethereum.contracts.assetOFT
+        const expected = previewDeposit(usdc('100'))
+        await runFlow(network, 'deposit', { src: 'ethereum', dst: 'ethereum', amount: '100' })
+        assert.equal(hubShares(), WALLET_SHARES + expected)
+
+        await runFlow(network, 'redeem', { src: 'ethereum', dst: 'ethereum', amount: '100' })
+        assert.equal(hubShares(), WALLET_SHARES + expected - usdc('100'))
+    })
+
+    it('deposit-and-send: hub assets → shares on base', async () => {
+        const expected = previewDeposit(usdc('100'))
+        const { flow, hops } = await runFlow(network, 'deposit', { src: 'ethereum', dst: 'base', amount: '100' })
+
+        assert.equal(flow, 'deposit-and-send')
+        assert.deepEqual(hops.map((hop) => hop.status), ['delivered'])
+        assert.equal(hubUsdc(), WALLET_USDC - usdc('100'))
+        assert.equal(hubShares(), WALLET_SHARES)
+        assert.equal(network.spokes.base.shareOFT.balanceOf(null, wallet), WALLET_SHARES + expected)
+        assert.equal(network.hub.vault.balanceOf(null, network.hub.shareOFT.address), WALLET_SHARES * 2n + expected)
+    })
+
+    it('redeem-and-send: hub shares → assets on katana', async () => {
+        const expected = previewRedeem(usdc('100'))
+        const { flow, hops } = await runFlow(network, 'redeem', { src: 'ethereum', dst: 'katana', amount: '100' })
+
+        assert.equal(flow, 'redeem-and-send')
+        assert.deepEqual(hops.map((hop) => hop.status), ['delivered'])
+        assert.equal(hubShares(), WALLET_SHARES - usdc('100'))
+        assert.equal(network.spokes.katana.assetOFT.balanceOf(null, wallet), WALLET_USDC + expected)
+    })
+
+    // ============================================
+    // SPOKE → HUB
+    // ============================================
+    it('compose-deposit: USDC through the base Stargate-style pool → hub shares', async () => {
+        const expected = previewDeposit(usdc('100'))
+        const poolBefore = network.hub.usdc.balanceOf(null, network.hub.assetOFT.address)
+        const { flow, hops } = await runFlow(network, 'deposit', { src: 'base', dst: 'ethereum', amount: '100' })
+
+        assert.equal(flow, 'compose-deposit')
+        assert.deepEqual(hops.map((hop) => hop.status), ['composed'])
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC - usdc('100'))
+        assert.equal(network.hub.usdc.balanceOf(null, network.hub.assetOFT.address), poolBefore - usdc('100'))
+        assert.equal(hubShares(), WALLET_SHARES + expected)
+        assert.equal(network.hub.usdc.balanceOf(null, network.hub.composer.address), 0n)
+    })
+
+    it('compose-redeem: base shares → hub assets', async () => {
+        const expected = previewRedeem(usdc('100'))
+        const { flow, hops } = await runFlow(network, 'redeem', { src: 'base', dst: 'ethereum', amount: '100' })
+
+        assert.equal(flow, 'compose-redeem')
+        assert.deepEqual(hops.map((hop) => hop.status), ['composed'])
+        assert.equal(network.spokes.base.shareOFT.balanceOf(null, wallet), WALLET_SHARES - usdc('100'))
+        assert.equal(hubUsdc(), WALLET_USDC + expected)
+        assert.equal(network.hub.vault.balanceOf(null, network.hub.composer.address), 0n)
+    })
+
+    // ============================================
+    // SPOKE → SPOKE
+    // ============================================
+    it('compose-deposit: base USDC → vault on the hub → shares on katana', async () => {
+        const expected = previewDeposit(usdc('250'))
+        const { flow, hops } = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '250' })
+
+        assert.equal(flow, 'compose-deposit')
+        assert.deepEqual(hops.map((hop) => hop.status), ['composed', 'delivered'])
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC - usdc('250'))
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES + expected)
+        assert.equal(hubShares(), WALLET_SHARES)
+    })
+
+    it('compose-redeem: katana shares → vault on the hub → USDC on base', async () => {
+        const expected = previewRedeem(usdc('250'))
+        const { flow, hops } = await runFlow(network, 'redeem', { src: 'katana', dst: 'base', amount: '250' })
+
+        assert.equal(flow, 'compose-redeem')
+        assert.deepEqual(hops.map((hop) => hop.status), ['composed', 'delivered'])
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES - usdc('250'))
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC + expected)
+    })
+
+    // ============================================
+    // BRIDGE
+    // ============================================
+    it('bridge-assets: base USDC → hub USDC', async () => {
+        const { flow, hops } = await runFlow(network, 'bridge-assets', { src: 'base', dst: 'ethereum', amount: '40' })
+
+        assert.equal(flow, 'bridge-assets')
+        assert.deepEqual(hops.map((hop) => hop.status), ['delivered'])
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC - usdc('40'))
+        assert.equal(hubUsdc(), WALLET_USDC + usdc('40'))
+    })
+
+    it('bridge-shares: hub → base and base → katana', async () => {
+        await runFlow(network, 'bridge-shares', { src: 'ethereum', dst: 'base', amount: '30' })
+        await runFlow(network, 'bridge-shares', { src: 'base', dst: 'katana', amount: '10' })
+
+        assert.equal(hubShares(), WALLET_SHARES - usdc('30'))
+        assert.equal(network.spokes.base.shareOFT.balanceOf(null, wallet), WALLET_SHARES + usdc('20'))
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES + usdc('10'))
+    })
+
+    // ============================================
+    // DRY RUN
+    // ============================================
+    it('--dry-run simulates every transaction and moves nothing', async () => {
+        const { dryRun } = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '100' }, { dryRun: true })
+
+        assert.equal(dryRun, true)
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC)
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES)
+    })
+})
@@ -0,0 +1,52 @@
+/**
+ * lzCompose gas profiling: the balance slot probe, and the smallest gas limit at which the
+ * composer's handleCompose succeeds, measured against the hub instead of a fixed default.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { getProvider } from '../scripts/lib/chains'
+import { findBalanceSlot } from '../scripts/lib/gasProfile'
+import { balanceSlot } from './harness/contracts'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, startNetwork } from './harness/network'
+
+describe('lzCompose gas profiling', () => {
+    let network: LocalNetwork
+
+    beforeEach(async () => {
+        network = await startNetwork()
+    })
+
+    afterEach(() => network.close())
+
+    const deposit = (lzComposeGas?: number) => runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '100' }, { lzComposeGas })
+
+    it('finds the balance slot of the token the composer receives', async () => {
+        const { usdc, vault, composer } = network.hub
+        const provider = getProvider(network.manifest, 'ethereum')
+
+        assert.equal(await findBalanceSlot(provider, usdc.address, composer.address), balanceSlot(composer.address))
+        assert.equal(await findBalanceSlot(provider, vault.address, composer.address), balanceSlot(composer.address))
+    })
+
+    it('sizes lzCompose from the measured gas, not the default', async () => {
+        const { hops, output } = await deposit()
+
+        assert.deepEqual(hops.map((hop) => hop.status), ['composed', 'delivered'])
+        assert.ok(output.some((line) => /^⛽ Profiled lzCompose: \d+ gas → \d+ with overhead and 20% margin$/.test(line)))
+        assert.ok(!output.some((line) => /profiling failed/.test(line)), 'the fallback gas was not used')
+    })
+
+    it('measures the smallest gas limit the compose runs with', async () => {
+        const { output } = await deposit()
+        const measured = Number(/⛽ Profiled lzCompose: (\d+) gas/.exec(output.join('\n'))![1])
+
+        // The endpoint's own overhead on top of handleCompose fits in the allowance for it
+        const enough = await deposit(measured + 50_000)
+        assert.deepEqual(enough.hops.map((hop) => hop.status), ['composed', 'delivered'])
+
+        // Just under the measured gas, the compose runs out of gas on the hub
+        await assert.rejects(deposit(measured - 2_000), /lzCompose reverted on Ethereum: empty revert \(likely out of gas\)/)
+    })
+})
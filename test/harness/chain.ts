@@ -0,0 +1,567 @@
+/**
+ * Local Chain
+ *
+ * A minimal in-process chain served over JSON-RPC, enough for the CLI's ethers providers:
+ * signed transactions are executed against TypeScript models of the contracts, mined one
+ * per block, and their logs are queryable with eth_getLogs. Gas costs nothing, so native
+ * balances only move by transferred value. A call given a gas limit (eth_call with `gas`, compose
+ * deliveries) is metered at a flat cost per message call and storage write, and runs out of gas
+ * past it.
+ */
+
+import http from 'http'
+import { AddressInfo } from 'net'
+import { ethers } from 'ethers'
+
+// ============================================
+// TYPES
+// ============================================
+export interface CallContext {
+    sender: string
+    value: bigint
+    origin: string
+}
+
+export interface LogEntry {
+    address: string
+    topics: string[]
+    data: string
+}
+
+interface MinedLog extends LogEntry {
+    blockNumber: number
+    blockHash: string
+    transactionHash: string
+    transactionIndex: number
+    logIndex: number
+}
+
+interface Block {
+    number: number
+    hash: string
+    parentHash: string
+    timestamp: number
+    transactions: string[]
+}
+
+interface MinedTx {
+    hash: string
+    from: string
+    to: string
+    nonce: number
+    value: bigint
+    data: string
+    blockNumber: number
+    status: 0 | 1
+    logs: MinedLog[]
+    raw?: ethers.Transaction
+}
+
+export interface TxResult {
+    hash: string
+    status: 0 | 1
+    logs: LogEntry[]
+    error?: Revert
+}
+
+/** eth_call state overrides: a native balance, or storage slots the contract model maps (see writeSlot) */
+export type StateOverrides = Record<string, { balance?: string; stateDiff?: Record<string, string>; state?: unknown }>
+
+interface Snapshot {
+    storage: Map<string, unknown>
+    balances: Map<string, bigint>
+    logs: number
+}
+
+// Gas reported by eth_estimateGas for any call that does not revert
+const ESTIMATED_GAS = 200_000
+
+// Metered costs of a message call and of a storage write, under a gas limit
+export const CALL_GAS = 5_000
+export const STORE_GAS = 2_900
+
+/**
+ * A revert inside a contract model. `data` is what the node returns: a custom error (see
+ * customError) or, for failures of the chain itself, `reason` ABI-encoded as Error(string).
+ */
+export class Revert extends Error {
+    readonly data: string
+
+    constructor(readonly reason: string, data?: string) {
+        super(reason)
+        this.data = data ?? ethers.utils.hexConcat(['0x08c379a0', ethers.utils.defaultAbiCoder.encode(['string'], [reason])])
+    }
+
+    /** Error(string) reverts carry their reason in the node's message; custom errors only in the data */
+    get isErrorString(): boolean {
+        return this.data.startsWith('0x08c379a0')
+    }
+}
+
+/** Running out of gas: empty revert data, and the 1/64 left to the caller cannot catch it */
+export class OutOfGas extends Revert {
+    constructor() {
+        super('out of gas', '0x')
+    }
+}
+
+/** Revert with a Solidity custom error the way the real contract does: customError('NoPeer(uint32)', eid) */
+export function customError(signature: string, ...args: unknown[]): Revert {
+    const name = signature.slice(0, signature.indexOf('('))
+    const data = new ethers.utils.Interface([`error ${signature}`]).encodeErrorResult(name, args)
+    return new Revert(`${name}(${args.join(', ')})`, data)
+}
+
+// ============================================
+// CONTRACT BASE
+// ============================================
+
+/**
+ * Base class of every contract model. External calls are dispatched by the ABI: the decoded
+ * arguments are passed after the call context to the method of the same name.
+ */
+export abstract class MockContract {
+    readonly iface: ethers.utils.Interface
+
+    constructor(readonly chain: LocalChain, readonly address: string, abi: string[]) {
+        this.iface = new ethers.utils.Interface(abi)
+    }
+
+    protected load<T>(key: string, fallback: T): T {
+        return (this.chain.storage.get(`${this.address}:${key}`) as T) ?? fallback
+    }
+
+    protected store(key: string, value: unknown): void {
+        this.chain.chargeGas(STORE_GAS)
+        this.chain.storage.set(`${this.address}:${key}`, value)
+    }
+
+    /** A raw storage write from a stateDiff override; slots the model does not map have no effect */
+    writeSlot(_slot: string, _value: string): void {}
+
+    protected emit(event: string, args: unknown[]): void {
+        const log = this.iface.encodeEventLog(this.iface.getEvent(event), args)
+        this.chain.pushLog({ address: this.address, topics: log.topics, data: log.data })
+    }
+
+    /** Call another contract (or this one) with this contract as msg.sender */
+    protected call(ctx: CallContext, to: string, method: string, args: unknown[], value = 0n): ethers.utils.Result {
+        return this.chain.invoke({ sender: this.address, value, origin: ctx.origin }, to, method, args)
+    }
+}
+
+// ============================================
+// CHAIN
+// ============================================
+export class LocalChain {
+    readonly storage = new Map<string, unknown>()
+    readonly balances = new Map<string, bigint>()
+    readonly contracts = new Map<string, MockContract>()
+    readonly blocks: Block[] = []
+    readonly txs = new Map<string, MinedTx>()
+    readonly minedLogs: MinedLog[] = []
+    readonly onMined: ((tx: TxResult) => void)[] = []
+    /** Hashes reported as still in the mempool: the tx is returned unmined and has no receipt */
+    readonly unconfirmed = new Set<string>()
+    private readonly nonces = new Map<string, number>()
+    private pendingLogs: LogEntry[] = []
+    private meter?: { limit: number; used: number }
+    private server?: http.Server
+    private syntheticTxs = 0
+    rpcUrl = ''
+
+    constructor(readonly name: string, readonly chainId: number) {
+        this.mineBlock([])
+    }
+
+    // --------------------------------------------
+    // State
+    // --------------------------------------------
+    deploy<T extends MockContract>(create: (chain: LocalChain, address: string) => T): T {
+        const address = ethers.utils.getContractAddress({ from: ethers.utils.hexZeroPad(ethers.utils.hexlify(this.chainId), 20), nonce: this.contracts.size })
+        const contract = create(this, address)
+        this.contracts.set(address.toLowerCase(), contract)
+        return contract
+    }
+
+    balanceOf(address: string): bigint {
+        return this.balances.get(address.toLowerCase()) ?? 0n
+    }
+
+    setBalance(address: string, amount: bigint): void {
+        this.balances.set(address.toLowerCase(), amount)
+    }
+
+    transfer(from: string, to: string, amount: bigint): void {
+        if (amount === 0n) {
+            return
+        }
+        const balance = this.balanceOf(from)
+        if (balance < amount) {
+            throw new Revert(`insufficient native balance: ${from} has ${balance}, needs ${amount}`)
+        }
+        this.setBalance(from, balance - amount)
+        this.setBalance(to, this.balanceOf(to) + amount)
+    }
+
+    /** Every externally owned account and contract the chain has seen */
+    addresses(): string[] {
+        return [...new Set([...this.contracts.keys(), ...this.balances.keys(), ...this.nonces.keys()])]
+    }
+
+    /** Charge the metered call, if any; past its limit it runs out of gas */
+    chargeGas(amount: number): void {
+        if (!this.meter) {
+            return
+        }
+        this.meter.used += amount
+        if (this.meter.used > this.meter.limit) {
+            throw new OutOfGas()
+        }
+    }
+
+    private metered<T>(gasLimit: number | undefined, run: () => T): T {
+        const outer = this.meter
+        this.meter = gasLimit === undefined ? undefined : { limit: gasLimit, used: 0 }
+        try {
+            return run()
+        } finally {
+            this.meter = outer
+        }
+    }
+
+    pushLog(log: LogEntry): void {
+        this.pendingLogs.push(log)
+    }
+
+    snapshot(): Snapshot {
+        return { storage: new Map(this.storage), balances: new Map(this.balances), logs: this.pendingLogs.length }
+    }
+
+    restore(snapshot: Snapshot): void {
+        this.storage.clear()
+        snapshot.storage.forEach((value, key) => this.storage.set(key, value))
+        this.balances.clear()
+        snapshot.balances.forEach((value, key) => this.balances.set(key, value))
+        this.pendingLogs.length = snapshot.logs
+    }
+
+    // --------------------------------------------
+    // Execution
+    // --------------------------------------------
+
+    /** Message call with value transfer; reverts roll back with the enclosing snapshot */
+    invoke(ctx: CallContext, to: string, method: string, args: unknown[]): ethers.utils.Result {
+        const contract = this.contracts.get(to.toLowerCase())
+        if (!contract) {
+            throw new Revert(`call to non-contract ${to}`)
+        }
+        const data = contract.iface.encodeFunctionData(method, args)
+        return contract.iface.decodeFunctionResult(method, this.execute(ctx, to, data))
+    }
+
+    /** Raw call: transfer value, then dispatch calldata to the contract model (if any) */
+    execute(ctx: CallContext, to: string, data: string): string {
+        this.transfer(ctx.sender, to, ctx.value)
+        const contract = this.contracts.get(to.toLowerCase())
+        if (!contract || data === '0x') {
+            return '0x'
+        }
+        this.chargeGas(CALL_GAS)
+
+        let parsed: ethers.utils.TransactionDescription
+        try {
+            parsed = contract.iface.parseTransaction({ data, value: ctx.value })
+        } catch {
+            throw new Revert(`unknown selector ${data.slice(0, 10)} on ${to}`)
+        }
+        const method = (contract as unknown as Record<string, (...args: unknown[]) => unknown>)[parsed.name]
+        if (typeof method !== 'function') {
+            throw new Revert(`${parsed.name} not implemented by the model at ${to}`)
+        }
+        if (ctx.value > 0n && !parsed.functionFragment.payable) {
+            throw new Revert(`${parsed.name} is not payable`)
+        }
+
+        const result = method.call(contract, ctx, ...parsed.args)
+        const outputs = parsed.functionFragment.outputs ?? []
+        const values = outputs.length === 0 ? [] : outputs.length === 1 ? [result] : (result as unknown[])
+        return contract.iface.encodeFunctionResult(parsed.functionFragment, values)
+    }
+
+    /** eth_call semantics: apply the overrides, run and always roll back */
+    simulate(ctx: CallContext, to: string, data: string, gasLimit?: number, overrides: StateOverrides = {}): string {
+        const snapshot = this.snapshot()
+        try {
+            for (const [address, override] of Object.entries(overrides)) {
+                if (override.state) {
+                    throw new Error('full state overrides are not supported by the local chain')
+                }
+                if (override.balance !== undefined) {
+                    this.setBalance(address, BigInt(override.balance))
+                }
+                for (const [slot, value] of Object.entries(override.stateDiff ?? {})) {
+                    this.contracts.get(address.toLowerCase())?.writeSlot(slot, value)
+                }
+            }
+            return this.metered(gasLimit, () => this.execute(ctx, to, data))
+        } finally {
+            this.restore(snapshot)
+        }
+    }
+
+    /** Execute and mine a transaction; a revert is mined with status 0 and no state change */
+    mine(from: string, to: string, data: string, value: bigint, raw?: ethers.Transaction, gasLimit?: number): TxResult {
+        const nonce = this.nonces.get(from.toLowerCase()) ?? 0
+        this.nonces.set(from.toLowerCase(), nonce + 1)
+
+        const snapshot = this.snapshot()
+        this.pendingLogs = []
+        let status: 0 | 1 = 1
+        let error: Revert | undefined
+        try {
+            this.metered(gasLimit, () => this.execute({ sender: from, value, origin: from }, to, data))
+        } catch (e) {
+            this.restore(snapshot)
+            this.pendingLogs = []
+            status = 0
+            error = e instanceof Revert ? e : new Revert(String(e))
+        }
+
+        const hash = raw?.hash ?? ethers.utils.keccak256(ethers.utils.toUtf8Bytes(`${this.name}:synthetic:${++this.syntheticTxs}`))
+        const block = this.mineBlock([hash])
+        const logs = this.pendingLogs.map((log, logIndex) => ({
+            ...log,
+            blockNumber: block.number,
+            blockHash: block.hash,
+            transactionHash: hash,
+            transactionIndex: 0,
+            logIndex,
+        }))
+        this.pendingLogs = []
+        this.minedLogs.push(...logs)
+        this.txs.set(hash, { hash, from, to, nonce, value, data, blockNumber: block.number, status, logs, raw })
+
+        const result: TxResult = { hash, status, logs, error }
+        for (const listener of this.onMined) {
+            listener(result)
+        }
+        return result
+    }
+
+    private mineBlock(transactions: string[]): Block {
+        const parent = this.blocks[this.blocks.length - 1]
+        const number = this.blocks.length
+        const timestamp = Math.max(parent ? parent.timestamp + 1 : 0, Math.floor(Date.now() / 1000))
+        const block = {
+            number,
+            hash: ethers.utils.keccak256(ethers.utils.toUtf8Bytes(`${this.name}:block:${number}`)),
+            parentHash: parent?.hash ?? ethers.constants.HashZero,
+            timestamp,
+            transactions,
+        }
+        this.blocks.push(block)
+        return block
+    }
+
+    // --------------------------------------------
+    // JSON-RPC
+    // --------------------------------------------
+    private blockByTag(tag: string): Block | undefined {
+        if (tag === 'latest' || tag === 'pending' || tag === 'safe' || tag === 'finalized') {
+            return this.blocks[this.blocks.length - 1]
+        }
+        return tag === 'earliest' ? this.blocks[0] : this.blocks[parseInt(tag, 16)]
+    }
+
+    private formatBlock(block: Block) {
+        return {
+            number: ethers.utils.hexValue(block.number),
+            hash: block.hash,
+            parentHash: block.parentHash,
+            timestamp: ethers.utils.hexValue(block.timestamp),
+            nonce: '0x0000000000000000',
+            difficulty: '0x0',
+            gasLimit: ethers.utils.hexValue(30_000_000),
+            gasUsed: '0x0',
+            miner: ethers.constants.AddressZero,
+            extraData: '0x',
+            transactions: block.transactions,
+        }
+    }
+
+    private formatLog(log: MinedLog) {
+        return {
+            address: log.address,
+            topics: log.topics,
+            data: log.data,
+            blockNumber: ethers.utils.hexValue(log.blockNumber),
+            blockHash: log.blockHash,
+            transactionHash: log.transactionHash,
+            transactionIndex: ethers.utils.hexValue(log.transactionIndex),
+            logIndex: ethers.utils.hexValue(log.logIndex),
+            removed: false,
+        }
+    }
+
+    private formatTx(tx: MinedTx) {
+        const block = this.blocks[tx.blockNumber]
+        return {
+            hash: tx.hash,
+            type: '0x0',
+            from: tx.from,
+            to: tx.to,
+            nonce: ethers.utils.hexValue(tx.nonce),
+            value: ethers.utils.hexValue(tx.value),
+            input: tx.data,
+            gas: ethers.utils.hexValue(ESTIMATED_GAS),
+            gasPrice: '0x0',
+            blockNumber: ethers.utils.hexValue(tx.blockNumber),
+            blockHash: block.hash,
+            transactionIndex: '0x0',
+            chainId: ethers.utils.hexValue(this.chainId),
+            v: ethers.utils.hexValue(tx.raw?.v ?? 0),
+            r: tx.raw?.r ?? ethers.constants.HashZero,
+            s: tx.raw?.s ?? ethers.constants.HashZero,
+        }
+    }
+
+    private formatReceipt(tx: MinedTx) {
+        const block = this.blocks[tx.blockNumber]
+        return {
+            transactionHash: tx.hash,
+            transactionIndex: '0x0',
+            blockNumber: ethers.utils.hexValue(tx.blockNumber),
+            blockHash: block.hash,
+            from: tx.from,
+            to: tx.to,
+            contractAddress: null,
+            cumulativeGasUsed: ethers.utils.hexValue(ESTIMATED_GAS),
+            gasUsed: ethers.utils.hexValue(ESTIMATED_GAS),
+            effectiveGasPrice: '0x0',
+            logs: tx.logs.map((log) => this.formatLog(log)),
+            logsBloom: '0x' + '00'.repeat(256),
+            status: ethers.utils.hexValue(tx.status),
+            type: '0x0',
+        }
+    }
+
+    private matchesTopics(log: MinedLog, topics: (string | string[] | null)[] = []): boolean {
+        return topics.every((topic, index) => {
+            if (topic === null || topic === undefined) {
+                return true
+            }
+            const options = (Array.isArray(topic) ? topic : [topic]).map((t) => t.toLowerCase())
+            return log.topics[index] !== undefined && options.includes(log.topics[index].toLowerCase())
+        })
+    }
+
+    private callContext(request: { from?: string; value?: string }): CallContext {
+        const from = request.from ?? ethers.constants.AddressZero
+        return { sender: from, value: BigInt(request.value ?? 0), origin: from }
+    }
+
+    /** Handle one JSON-RPC request; throws a Revert or Error for the error response */
+    handle(method: string, params: any[]): unknown {
+        switch (method) {
+            case 'eth_chainId':
+                return ethers.utils.hexValue(this.chainId)
+            case 'net_version':
+                return String(this.chainId)
+            case 'eth_blockNumber':
+                return ethers.utils.hexValue(this.blocks.length - 1)
+            case 'eth_getBlockByNumber': {
+                const block = this.blockByTag(params[0])
+                return block ? this.formatBlock(block) : null
+            }
+            case 'eth_getBlockByHash': {
+                const block = this.blocks.find((b) => b.hash === params[0])
+                return block ? this.formatBlock(block) : null
+            }
+            case 'eth_getBalance':
+                return ethers.utils.hexValue(this.balanceOf(params[0]))
+            case 'eth_getTransactionCount':
+                return ethers.utils.hexValue(this.nonces.get(params[0].toLowerCase()) ?? 0)
+            case 'eth_getCode':
+                return this.contracts.has(params[0].toLowerCase()) ? '0xfe' : '0x'
+            case 'eth_gasPrice':
+            case 'eth_maxPriorityFeePerGas':
+                return '0x0'
+            case 'eth_call': {
+                const gasLimit = params[0].gas === undefined ? undefined : Number(params[0].gas)
+                return this.simulate(this.callContext(params[0]), params[0].to, params[0].data ?? params[0].input ?? '0x', gasLimit, params[2])
+            }
+            case 'eth_estimateGas':
+                this.simulate(this.callContext(params[0]), params[0].to, params[0].data ?? params[0].input ?? '0x')
+                return ethers.utils.hexValue(ESTIMATED_GAS)
+            case 'eth_sendRawTransaction': {
+                const tx = ethers.utils.parseTransaction(params[0])
+                if (tx.chainId !== this.chainId) {
+                    throw new Error(`chain id ${tx.chainId} does not match ${this.chainId}`)
+                }
+                const expected = this.nonces.get(tx.from!.toLowerCase()) ?? 0
+                if (tx.nonce !== expected) {
+                    throw new Error(`nonce too ${tx.nonce < expected ? 'low' : 'high'}: expected ${expected}, got ${tx.nonce}`)
+                }
+                if (this.balanceOf(tx.from!) < tx.value.toBigInt()) {
+                    throw new Error('insufficient funds for gas * price + value')
+                }
+                return this.mine(tx.from!, tx.to!, tx.data, tx.value.toBigInt(), tx).hash
+            }
+            case 'eth_getTransactionByHash': {
+                const tx = this.txs.get(params[0])
+                if (tx && this.unconfirmed.has(tx.hash)) {
+                    return { ...this.formatTx(tx), blockNumber: null, blockHash: null, transactionIndex: null }
+                }
+                return tx ? this.formatTx(tx) : null
+            }
+            case 'eth_getTransactionReceipt': {
+                const tx = this.txs.get(params[0])
+                return tx && !this.unconfirmed.has(tx.hash) ? this.formatReceipt(tx) : null
+            }
+            case 'eth_getLogs': {
+                const filter = params[0]
+                const latest = this.blocks.length - 1
+                const from = filter.fromBlock ? this.blockByTag(filter.fromBlock)?.number ?? latest + 1 : latest
+                const to = filter.toBlock ? this.blockByTag(filter.toBlock)?.number ?? latest : latest
+                const addresses = filter.address ? (Array.isArray(filter.address) ? filter.address : [filter.address]).map((a: string) => a.toLowerCase()) : undefined
+                return this.minedLogs
+                    .filter((log) => log.blockNumber >= from && log.blockNumber <= to)
+                    .filter((log) => !addresses || addresses.includes(log.address.toLowerCase()))
+                    .filter((log) => this.matchesTopics(log, filter.topics))
+                    .map((log) => this.formatLog(log))
+            }
+            default:
+                throw new Error(`method ${method} not supported by the local chain`)
+        }
+    }
+
+    async listen(): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            let body = ''
+            req.on('data', (chunk) => (body += chunk))
+            req.on('end', () => {
+                const parsed = JSON.parse(body)
+                const requests = Array.isArray(parsed) ? parsed : [parsed]
+                const responses = requests.map((request: { id: number; method: string; params?: any[] }) => {
+                    try {
+                        return { jsonrpc: '2.0', id: request.id, result: this.handle(request.method, request.params ?? []) }
+                    } catch (error) {
+                        const revert = error instanceof Revert
+                        const message = revert ? `execution reverted${error.isErrorString ? `: ${error.reason}` : ''}` : (error as Error).message
+                        return { jsonrpc: '2.0', id: request.id, error: { code: revert ? 3 : -32000, message, data: revert ? error.data : undefined } }
+                    }
+                })
+                res.setHeader('Content-Type', 'application/json')
+                res.end(JSON.stringify(Array.isArray(parsed) ? responses : responses[0]))
+            })
+        })
+        await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve))
+        this.rpcUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+        return this.rpcUrl
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()))
+    }
+}
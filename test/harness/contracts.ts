@@ -0,0 +1,1124 @@
+/**
+ * Contract Models
+ *
+ * TypeScript stand-ins for the contracts an OVault deployment talks to: ERC20, ERC4626
+ * vault, EndpointV2, mint/burn OFT, lockbox OFTAdapter, Stargate-style pool and the
+ * OVaultComposer. They follow the Solidity reference behaviour the CLI relies on (dust
+ * removal, compose queue, composer refunds) but skip access control and fee accounting.
+ */
+
+import { ethers } from 'ethers'
+import { Options, PacketV1Codec, addressToBytes32, bytes32ToEthAddress, calculateGuid } from '@layerzerolabs/lz-v2-utilities'
+import { CallContext, LocalChain, MockContract, OutOfGas, Revert, customError } from './chain'
+
+const ORIGIN = 'tuple(uint32 srcEid, bytes32 sender, uint64 nonce)'
+const SEND_PARAM = 'tuple(uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd)'
+const FEE = 'tuple(uint256 nativeFee, uint256 lzTokenFee)'
+const MESSAGING_PARAMS = 'tuple(uint32 dstEid, bytes32 receiver, bytes message, bytes options, bool payInLzToken)'
+const MESSAGING_RECEIPT = `tuple(bytes32 guid, uint64 nonce, ${FEE} fee)`
+
+const MAX_UINT = ethers.constants.MaxUint256.toBigInt()
+const RECEIVED_MESSAGE_HASH = ethers.utils.hexZeroPad('0x01', 32)
+
+// Flat executor + DVN fee charged per message on top of any native value requested in the options
+export const BASE_MESSAGING_FEE = ethers.utils.parseEther('0.0001').toBigInt()
+
+const big = (value: ethers.BigNumberish): bigint => BigInt(value.toString())
+const same = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase()
+
+// ============================================
+// ERC20 / ERC4626
+// ============================================
+const ERC20_ABI = [
+    'function name() view returns (string)',
+    'function symbol() view returns (string)',
+    'function decimals() view returns (uint8)',
+    'function totalSupply() view returns (uint256)',
+    'function balanceOf(address) view returns (uint256)',
+    'function allowance(address,address) view returns (uint256)',
+    'function approve(address,uint256) returns (bool)',
+    'function transfer(address,uint256) returns (bool)',
+    'function transferFrom(address,address,uint256) returns (bool)',
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+]
+
+// Storage slot of the balances mapping, as in FiatToken (USDC): probed by the lzCompose gas profiler
+export const ERC20_BALANCE_SLOT = 9
+
+export function balanceSlot(holder: string): string {
+    return ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [holder, ERC20_BALANCE_SLOT]))
+}
+
+export class MockERC20 extends MockContract {
+    constructor(chain: LocalChain, address: string, readonly tokenName: string, readonly tokenDecimals: number, abi: string[] = ERC20_ABI) {
+        super(chain, address, abi)
+    }
+
+    name(): string {
+        return this.tokenName
+    }
+
+    symbol(): string {
+        return this.tokenName
+    }
+
+    decimals(): number {
+        return this.tokenDecimals
+    }
+
+    totalSupply(): bigint {
+        return this.load('supply', 0n)
+    }
+
+    balanceOf(_ctx: CallContext | null, holder: string): bigint {
+        return this.load(`balance:${holder.toLowerCase()}`, 0n)
+    }
+
+    writeSlot(slot: string, value: string): void {
+        const holder = this.chain.addresses().find((address) => balanceSlot(address) === slot)
+        if (holder) {
+            this.store(`balance:${holder}`, BigInt(value))
+        }
+    }
+
+    allowance(_ctx: CallContext | null, owner: string, spender: string): bigint {
+        return this.load(`allowance:${owner.toLowerCase()}:${spender.toLowerCase()}`, 0n)
+    }
+
+    approve(ctx: CallContext, spender: string, amount: ethers.BigNumber): boolean {
+        this.store(`allowance:${ctx.sender.toLowerCase()}:${spender.toLowerCase()}`, big(amount))
+        this.emit('Approval', [ctx.sender, spender, amount])
+        return true
+    }
+
+    transfer(ctx: CallContext, to: string, amount: ethers.BigNumber): boolean {
+        this.move(ctx.sender, to, big(amount))
+        return true
+    }
+
+    transferFrom(ctx: CallContext, from: string, to: string, amount: ethers.BigNumber): boolean {
+        const allowed = this.allowance(null, from, ctx.sender)
+        if (allowed < big(amount)) {
+            throw customError('ERC20InsufficientAllowance(address,uint256,uint256)', ctx.sender, allowed, amount)
+        }
+        if (allowed !== MAX_UINT) {
+            this.store(`allowance:${from.toLowerCase()}:${ctx.sender.toLowerCase()}`, allowed - big(amount))
+        }
+        this.move(from, to, big(amount))
+        return true
+    }
+
+    mint(to: string, amount: bigint): void {
+        this.store('supply', this.totalSupply() + amount)
+        this.store(`balance:${to.toLowerCase()}`, this.balanceOf(null, to) + amount)
+        this.emit('Transfer', [ethers.constants.AddressZero, to, amount])
+    }
+
+    burn(from: string, amount: bigint): void {
+        const balance = this.balanceOf(null, from)
+        if (balance < amount) {
+            throw customError('ERC20InsufficientBalance(address,uint256,uint256)', from, balance, amount)
+        }
+        this.store('supply', this.totalSupply() - amount)
+        this.store(`balance:${from.toLowerCase()}`, balance - amount)
+        this.emit('Transfer', [from, ethers.constants.AddressZero, amount])
+    }
+
+    protected move(from: string, to: string, amount: bigint): void {
+        const balance = this.balanceOf(null, from)
+        if (balance < amount) {
+            throw customError('ERC20InsufficientBalance(address,uint256,uint256)', from, balance, amount)
+        }
+        this.store(`balance:${from.toLowerCase()}`, balance - amount)
+        this.store(`balance:${to.toLowerCase()}`, this.balanceOf(null, to) + amount)
+        this.emit('Transfer', [from, to, amount])
+    }
+}
+
+const PERMIT_ABI = [
+    ...ERC20_ABI,
+    'function version() view returns (string)',
+    'function nonces(address) view returns (uint256)',
+    'function DOMAIN_SEPARATOR() view returns (bytes32)',
+    'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+]
+
+/** ERC20 with EIP-2612 permit (USDC-style: domain version "2") */
+export class MockPermitERC20 extends MockERC20 {
+    constructor(chain: LocalChain, address: string, tokenName: string, tokenDecimals: number) {
+        super(chain, address, tokenName, tokenDecimals, PERMIT_ABI)
+    }
+
+    version(): string {
+        return '2'
+    }
+
+    nonces(_ctx: CallContext | null, owner: string): bigint {
+        return this.load(`nonce:${owner.toLowerCase()}`, 0n)
+    }
+
+    DOMAIN_SEPARATOR(): string {
+        return ethers.utils._TypedDataEncoder.hashDomain(this.domain())
+    }
+
+    permit(ctx: CallContext, owner: string, spender: string, value: ethers.BigNumber, deadline: ethers.BigNumber, v: number, r: string, s: string): void {
+        if (deadline.toNumber() < Math.floor(Date.now() / 1000)) {
+            throw customError('ERC2612ExpiredSignature(uint256)', deadline)
+        }
+        const nonce = this.nonces(null, owner)
+        const message = { owner, spender, value, nonce, deadline }
+        const signer = ethers.utils.verifyTypedData(this.domain(), PERMIT_TYPES, message, { v, r, s })
+        if (!same(signer, owner)) {
+            throw customError('ERC2612InvalidSigner(address,address)', signer, owner)
+        }
+        this.store(`nonce:${owner.toLowerCase()}`, nonce + 1n)
+        this.approve({ ...ctx, sender: owner }, spender, value)
+    }
+
+    private domain(): ethers.TypedDataDomain {
+        return { name: this.tokenName, version: this.version(), chainId: this.chain.chainId, verifyingContract: this.address }
+    }
+}
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+    ],
+}
+
+const WETH_ABI = [...ERC20_ABI, 'function deposit() payable', 'function withdraw(uint256)']
+
+/** WETH9: wraps msg.value 1:1 and unwraps back to native */
+export class MockWETH extends MockERC20 {
+    constructor(chain: LocalChain, address: string) {
+        super(chain, address, 'WETH', 18, WETH_ABI)
+    }
+
+    deposit(ctx: CallContext): void {
+        // execute() already moved msg.value to this contract
+        super.mint(ctx.sender, ctx.value)
+    }
+
+    withdraw(ctx: CallContext, amount: ethers.BigNumber): void {
+        this.burn(ctx.sender, big(amount))
+        this.chain.transfer(this.address, ctx.sender, big(amount))
+    }
+
+    /** Test funding: mint with the native backing withdraw() pays out */
+    mint(to: string, amount: bigint): void {
+        super.mint(to, amount)
+        this.chain.setBalance(this.address, this.chain.balanceOf(this.address) + amount)
+    }
+}
+
+const VAULT_ABI = [
+    ...ERC20_ABI,
+    'function asset() view returns (address)',
+    'function totalAssets() view returns (uint256)',
+    'function convertToShares(uint256) view returns (uint256)',
+    'function convertToAssets(uint256) view returns (uint256)',
+    'function previewDeposit(uint256) view returns (uint256)',
+    'function previewRedeem(uint256) view returns (uint256)',
+    'function maxDeposit(address) view returns (uint256)',
+    'function maxRedeem(address) view returns (uint256)',
+    'function paused() view returns (bool)',
+    'function deposit(uint256,address) returns (uint256)',
+    'function redeem(uint256,address,address) returns (uint256)',
+    'event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)',
+    'event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)',
+]
+
+/** OpenZeppelin-style ERC4626 (no decimals offset) that can be paused by the test */
+export class MockVault extends MockERC20 {
+    constructor(chain: LocalChain, address: string, name: string, readonly assetToken: MockERC20) {
+        super(chain, address, name, assetToken.tokenDecimals, VAULT_ABI)
+    }
+
+    asset(): string {
+        return this.assetToken.address
+    }
+
+    totalAssets(): bigint {
+        return this.assetToken.balanceOf(null, this.address)
+    }
+
+    convertToShares(_ctx: CallContext | null, assets: ethers.BigNumber): bigint {
+        return (big(assets) * (this.totalSupply() + 1n)) / (this.totalAssets() + 1n)
+    }
+
+    convertToAssets(_ctx: CallContext | null, shares: ethers.BigNumber): bigint {
+        return (big(shares) * (this.totalAssets() + 1n)) / (this.totalSupply() + 1n)
+    }
+
+    previewDeposit(ctx: CallContext | null, assets: ethers.BigNumber): bigint {
+        return this.convertToShares(ctx, assets)
+    }
+
+    previewRedeem(ctx: CallContext | null, shares: ethers.BigNumber): bigint {
+        return this.convertToAssets(ctx, shares)
+    }
+
+    maxDeposit(): bigint {
+        return this.paused() ? 0n : MAX_UINT
+    }
+
+    maxRedeem(_ctx: CallContext | null, owner: string): bigint {
+        return this.paused() ? 0n : this.balanceOf(null, owner)
+    }
+
+    paused(): boolean {
+        return this.load('paused', false)
+    }
+
+    setPaused(paused: boolean): void {
+        this.store('paused', paused)
+    }
+
+    deposit(ctx: CallContext, assets: ethers.BigNumber, receiver: string): bigint {
+        if (this.paused()) {
+            throw customError('EnforcedPause()')
+        }
+        const shares = this.previewDeposit(ctx, assets)
+        this.call(ctx, this.assetToken.address, 'transferFrom', [ctx.sender, this.address, assets])
+        this.mint(receiver, shares)
+        this.emit('Deposit', [ctx.sender, receiver, assets, shares])
+        return shares
+    }
+
+    redeem(ctx: CallContext, shares: ethers.BigNumber, receiver: string, owner: string): bigint {
+        if (this.paused()) {
+            throw customError('EnforcedPause()')
+        }
+        if (!same(ctx.sender, owner)) {
+            const allowed = this.allowance(null, owner, ctx.sender)
+            if (allowed < big(shares)) {
+                throw customError('ERC20InsufficientAllowance(address,uint256,uint256)', ctx.sender, allowed, shares)
+            }
+            this.store(`allowance:${owner.toLowerCase()}:${ctx.sender.toLowerCase()}`, allowed - big(shares))
+        }
+        const assets = this.previewRedeem(ctx, shares)
+        this.burn(owner, big(shares))
+        this.call(ctx, this.assetToken.address, 'transfer', [receiver, assets])
+        this.emit('Withdraw', [ctx.sender, receiver, owner, assets, shares])
+        return assets
+    }
+}
+
+// ============================================
+// ENDPOINT
+// ============================================
+const ENDPOINT_ABI = [
+    'function eid() view returns (uint32)',
+    'function lzToken() view returns (address)',
+    'function getSendLibrary(address sender, uint32 dstEid) view returns (address)',
+    'function getReceiveLibrary(address receiver, uint32 srcEid) view returns (address lib, bool isDefault)',
+    'function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes)',
+    'function delegates(address oapp) view returns (address)',
+    `function quote(${MESSAGING_PARAMS} params, address sender) view returns (${FEE})`,
+    `function send(${MESSAGING_PARAMS} params, address refundAddress) payable returns (${MESSAGING_RECEIPT})`,
+    `function lzReceive(${ORIGIN} origin, address receiver, bytes32 guid, bytes message, bytes extraData) payable`,
+    `function lzReceiveAlert(${ORIGIN} origin, address receiver, bytes32 guid, uint256 gas, uint256 value, bytes message, bytes extraData, bytes reason)`,
+    'function sendCompose(address to, bytes32 guid, uint16 index, bytes message)',
+    'function composeQueue(address from, address to, bytes32 guid, uint16 index) view returns (bytes32)',
+    'function lzCompose(address from, address to, bytes32 guid, uint16 index, bytes message, bytes extraData) payable',
+    'function lzComposeAlert(address from, address to, bytes32 guid, uint16 index, uint256 gas, uint256 value, bytes message, bytes extraData, bytes reason)',
+    'event PacketSent(bytes encodedPayload, bytes options, address sendLibrary)',
+    `event PacketDelivered(${ORIGIN} origin, address receiver)`,
+    'event ComposeSent(address from, address to, bytes32 guid, uint16 index, bytes message)',
+    'event ComposeDelivered(address from, address to, bytes32 guid, uint16 index)',
+    `event LzReceiveAlert(address indexed receiver, address indexed executor, ${ORIGIN} origin, bytes32 guid, uint256 gas, uint256 value, bytes message, bytes extraData, bytes reason)`,
+    'event LzComposeAlert(address indexed from, address indexed to, address indexed executor, bytes32 guid, uint16 index, uint256 gas, uint256 value, bytes message, bytes extraData, bytes reason)',
+]
+
+// Stand in for the default send (also in PacketSent) and receive libraries
+const SEND_LIBRARY = '0x000000000000000000000000000000000000dEaD'
+const RECEIVE_LIBRARY = '0x000000000000000000000000000000000000bEEF'
+
+// Default workers every pathway is configured with: one required DVN and the executor
+export const CONFIG_TYPE_EXECUTOR = 1
+export const CONFIG_TYPE_ULN = 2
+const DVN = '0x000000000000000000000000000000000000d0d0'
+const EXECUTOR_WORKER = '0x00000000000000000000000000000000000e8ec0'
+export const ULN_CONFIG = 'tuple(uint64 confirmations, uint8 requiredDVNCount, uint8 optionalDVNCount, uint8 optionalDVNThreshold, address[] requiredDVNs, address[] optionalDVNs)'
+const EXECUTOR_CONFIG = 'tuple(uint32 maxMessageSize, address executor)'
+
+// Receives the protocol fee paid in lzToken
+const TREASURY = '0x0000000000000000000000000000000000007ea5'
+
+// Paying in lzToken moves the treasury share of BASE_MESSAGING_FEE to a flat ZRO fee
+export const LZ_TOKEN_FEE = ethers.utils.parseEther('0.5').toBigInt()
+const WORKER_FEE = (BASE_MESSAGING_FEE * 3n) / 4n
+
+/** EndpointV2 without verification: the executor delivers whatever PacketSent emitted */
+export class MockEndpoint extends MockContract {
+    constructor(chain: LocalChain, address: string, readonly localEid: number) {
+        super(chain, address, ENDPOINT_ABI)
+    }
+
+    eid(): number {
+        return this.localEid
+    }
+
+    lzToken(): string {
+        return this.load('lzToken', ethers.constants.AddressZero)
+    }
+
+    setLzToken(token: string): void {
+        this.store('lzToken', token)
+    }
+
+    getSendLibrary(_ctx: CallContext | null, sender: string, dstEid: number): string {
+        return this.load(`sendLibrary:${sender.toLowerCase()}:${dstEid}`, SEND_LIBRARY)
+    }
+
+    getReceiveLibrary(_ctx: CallContext | null, receiver: string, srcEid: number): [string, boolean] {
+        const lib = this.load(`receiveLibrary:${receiver.toLowerCase()}:${srcEid}`, RECEIVE_LIBRARY)
+        return [lib, lib === RECEIVE_LIBRARY]
+    }
+
+    setSendLibrary(oapp: string, dstEid: number, lib: string): void {
+        this.store(`sendLibrary:${oapp.toLowerCase()}:${dstEid}`, lib)
+    }
+
+    /** ULN302 getConfig: the OApp's ExecutorConfig / UlnConfig, or the defaults */
+    getConfig(_ctx: CallContext | null, oapp: string, lib: string, eid: number, configType: number): string {
+        const stored = this.load<string | undefined>(`config:${oapp.toLowerCase()}:${lib.toLowerCase()}:${eid}:${configType}`, undefined)
+        if (stored !== undefined) {
+            return stored
+        }
+        const coder = ethers.utils.defaultAbiCoder
+        switch (configType) {
+            case CONFIG_TYPE_EXECUTOR:
+                return coder.encode([EXECUTOR_CONFIG], [[10000, EXECUTOR_WORKER]])
+            case CONFIG_TYPE_ULN:
+                return coder.encode([ULN_CONFIG], [[15, 1, 0, 0, [DVN], []]])
+            default:
+                throw customError('LZ_ULN_InvalidConfigType(uint32)', configType)
+        }
+    }
+
+    setConfig(oapp: string, lib: string, eid: number, configType: number, config: string): void {
+        this.store(`config:${oapp.toLowerCase()}:${lib.toLowerCase()}:${eid}:${configType}`, config)
+    }
+
+    delegates(_ctx: CallContext | null, oapp: string): string {
+        return this.load(`delegate:${oapp.toLowerCase()}`, ethers.constants.AddressZero)
+    }
+
+    setDelegate(oapp: string, delegate: string): void {
+        this.store(`delegate:${oapp.toLowerCase()}`, delegate)
+    }
+
+    quote(_ctx: CallContext | null, params: ethers.utils.Result): [bigint, bigint] {
+        if (!params.payInLzToken) {
+            return [BASE_MESSAGING_FEE + optionsValue(params.options), 0n]
+        }
+        if (this.lzToken() === ethers.constants.AddressZero) {
+            throw customError('LZ_LzTokenUnavailable()')
+        }
+        return [WORKER_FEE + optionsValue(params.options), LZ_TOKEN_FEE]
+    }
+
+    send(ctx: CallContext, params: ethers.utils.Result, refundAddress: string): unknown[] {
+        const [nativeFee, lzTokenFee] = this.quote(ctx, params)
+        if (ctx.value < nativeFee) {
+            throw customError('LZ_InsufficientFee(uint256,uint256,uint256,uint256)', nativeFee, ctx.value, lzTokenFee, 0)
+        }
+        if (ctx.value > nativeFee) {
+            this.chain.transfer(this.address, refundAddress, ctx.value - nativeFee)
+        }
+        if (params.payInLzToken) {
+            // The OApp transferred the lzToken in before calling send
+            const [supplied] = this.call(ctx, this.lzToken(), 'balanceOf', [this.address])
+            if (big(supplied) < lzTokenFee) {
+                throw customError('LZ_InsufficientFee(uint256,uint256,uint256,uint256)', nativeFee, ctx.value, lzTokenFee, supplied)
+            }
+            this.call(ctx, this.lzToken(), 'transfer', [TREASURY, supplied])
+        }
+
+        const pathKey = `nonce:${ctx.sender.toLowerCase()}:${params.dstEid}:${params.receiver.toLowerCase()}`
+        const nonce = this.load(pathKey, 0n) + 1n
+        this.store(pathKey, nonce)
+
+        const packet = {
+            version: 1,
+            nonce: nonce.toString(),
+            srcEid: this.localEid,
+            sender: ethers.utils.hexlify(addressToBytes32(ctx.sender)),
+            dstEid: params.dstEid,
+            receiver: params.receiver,
+            message: params.message,
+            guid: '',
+            payload: '',
+        }
+        packet.guid = calculateGuid(packet)
+        this.emit('PacketSent', [PacketV1Codec.encode(packet), params.options, SEND_LIBRARY])
+        return [packet.guid, nonce, [nativeFee, lzTokenFee]]
+    }
+
+    lzReceive(ctx: CallContext, origin: ethers.utils.Result, receiver: string, guid: string, message: string, extraData: string): void {
+        const key = `delivered:${guid}`
+        if (this.load(key, false)) {
+            throw customError('LZ_PayloadHashNotFound(bytes32,bytes32)', ethers.constants.HashZero, ethers.utils.keccak256(ethers.utils.hexConcat([guid, message])))
+        }
+        this.store(key, true)
+        this.call(ctx, receiver, 'lzReceive', [origin, guid, message, ctx.sender, extraData], ctx.value)
+        this.emit('PacketDelivered', [origin, receiver])
+    }
+
+    lzReceiveAlert(ctx: CallContext, origin: ethers.utils.Result, receiver: string, guid: string, gas: ethers.BigNumber, value: ethers.BigNumber, message: string, extraData: string, reason: string): void {
+        this.emit('LzReceiveAlert', [receiver, ctx.sender, origin, guid, gas, value, message, extraData, reason])
+    }
+
+    sendCompose(ctx: CallContext, to: string, guid: string, index: number, message: string): void {
+        const key = `compose:${ctx.sender.toLowerCase()}:${to.toLowerCase()}:${guid}:${index}`
+        if (this.load(key, ethers.constants.HashZero) !== ethers.constants.HashZero) {
+            throw customError('LZ_ComposeExists()')
+        }
+        this.store(key, ethers.utils.keccak256(message))
+        this.emit('ComposeSent', [ctx.sender, to, guid, index, message])
+    }
+
+    composeQueue(_ctx: CallContext | null, from: string, to: string, guid: string, index: number): string {
+        return this.load(`compose:${from.toLowerCase()}:${to.toLowerCase()}:${guid}:${index}`, ethers.constants.HashZero)
+    }
+
+    lzCompose(ctx: CallContext, from: string, to: string, guid: string, index: number, message: string, extraData: string): void {
+        const key = `compose:${from.toLowerCase()}:${to.toLowerCase()}:${guid}:${index}`
+        const expected = this.load(key, ethers.constants.HashZero)
+        if (expected !== ethers.utils.keccak256(message)) {
+            throw customError('LZ_ComposeNotFound(bytes32,bytes32)', expected, ethers.utils.keccak256(message))
+        }
+        this.store(key, RECEIVED_MESSAGE_HASH)
+        this.call(ctx, to, 'lzCompose', [from, guid, message, ctx.sender, extraData], ctx.value)
+        this.emit('ComposeDelivered', [from, to, guid, index])
+    }
+
+    lzComposeAlert(ctx: CallContext, from: string, to: string, guid: string, index: number, gas: ethers.BigNumber, value: ethers.BigNumber, message: string, extraData: string, reason: string): void {
+        this.emit('LzComposeAlert', [from, to, ctx.sender, guid, index, gas, value, message, extraData, reason])
+    }
+}
+
+/** Native value requested by type-3 executor options (lzReceive / lzCompose value, native drops) */
+export function optionsValue(options: string): bigint {
+    if (options === '0x') {
+        return 0n
+    }
+    const decoded = Options.fromOptions(options)
+    let total = big(decoded.decodeExecutorLzReceiveOption()?.value ?? 0)
+    for (const compose of decoded.decodeExecutorComposeOption() ?? []) {
+        total += big(compose.value)
+    }
+    for (const drop of decoded.decodeExecutorNativeDropOption() ?? []) {
+        total += big(drop.amount)
+    }
+    return total
+}
+
+// ============================================
+// OFT
+// ============================================
+const OFT_ABI = [
+    'function token() view returns (address)',
+    'function approvalRequired() view returns (bool)',
+    'function sharedDecimals() view returns (uint8)',
+    'function endpoint() view returns (address)',
+    'function owner() view returns (address)',
+    'function peers(uint32 eid) view returns (bytes32)',
+    'function enforcedOptions(uint32 eid, uint16 msgType) view returns (bytes)',
+    `function quoteSend(${SEND_PARAM} sendParam, bool payInLzToken) view returns (${FEE})`,
+    `function quoteOFT(${SEND_PARAM} sendParam) view returns (tuple(uint256 minAmountLD, uint256 maxAmountLD), tuple(int256 feeAmountLD, string description)[], tuple(uint256 amountSentLD, uint256 amountReceivedLD))`,
+    `function send(${SEND_PARAM} sendParam, ${FEE} fee, address refundAddress) payable returns (${MESSAGING_RECEIPT}, tuple(uint256 amountSentLD, uint256 amountReceivedLD))`,
+    `function lzReceive(${ORIGIN} origin, bytes32 guid, bytes message, address executor, bytes extraData) payable`,
+    'event OFTSent(bytes32 indexed guid, uint32 dstEid, address indexed fromAddress, uint256 amountSentLD, uint256 amountReceivedLD)',
+    'event OFTReceived(bytes32 indexed guid, uint32 srcEid, address indexed toAddress, uint256 amountReceivedLD)',
+]
+
+const SHARED_DECIMALS = 6
+
+// OFT message types enforced options are set per
+export const SEND = 1
+export const SEND_AND_CALL = 2
+
+/**
+ * OFTCore: dust removal to shared decimals, OFTMsgCodec messages, compose forwarding.
+ * Subclasses decide where the tokens go on debit / credit.
+ */
+export abstract class MockOFTCore extends MockERC20 {
+    readonly decimalConversionRate: bigint
+
+    constructor(chain: LocalChain, address: string, name: string, decimals: number, readonly endpointAddress: string, abi: string[]) {
+        super(chain, address, name, decimals, abi)
+        this.decimalConversionRate = 10n ** BigInt(decimals - SHARED_DECIMALS)
+    }
+
+    abstract token(): string
+    abstract approvalRequired(): boolean
+    protected abstract debit(ctx: CallContext, amountLD: bigint, nativeFee: bigint): void
+    protected abstract credit(ctx: CallContext, to: string, amountLD: bigint): void
+
+    sharedDecimals(): number {
+        return SHARED_DECIMALS
+    }
+
+    endpoint(): string {
+        return this.endpointAddress
+    }
+
+    owner(): string {
+        return this.load('owner', ethers.constants.AddressZero)
+    }
+
+    setOwner(owner: string): void {
+        this.store('owner', owner)
+    }
+
+    peers(_ctx: CallContext | null, eid: number): string {
+        return this.load(`peer:${eid}`, ethers.constants.HashZero)
+    }
+
+    setPeer(eid: number, peer: string): void {
+        this.store(`peer:${eid}`, ethers.utils.hexlify(addressToBytes32(peer)))
+    }
+
+    enforcedOptions(_ctx: CallContext | null, eid: number, msgType: number): string {
+        return this.load(`enforced:${eid}:${msgType}`, '0x')
+    }
+
+    setEnforcedOptions(eid: number, msgType: number, options: string): void {
+        this.store(`enforced:${eid}:${msgType}`, options)
+    }
+
+    /** OAppOptionsType3.combineOptions: the enforced options, then the caller's type-3 options without their header */
+    protected combineOptions(eid: number, msgType: number, extraOptions: string): string {
+        const enforced = this.enforcedOptions(null, eid, msgType)
+        if (enforced === '0x') {
+            return extraOptions
+        }
+        if (extraOptions === '0x') {
+            return enforced
+        }
+        if (ethers.utils.hexDataLength(extraOptions) < 2 || ethers.utils.hexDataSlice(extraOptions, 0, 2) !== '0x0003') {
+            throw customError('InvalidOptions(bytes)', extraOptions)
+        }
+        return ethers.utils.hexConcat([enforced, ethers.utils.hexDataSlice(extraOptions, 2)])
+    }
+
+    removeDust(amountLD: bigint): bigint {
+        return (amountLD / this.decimalConversionRate) * this.decimalConversionRate
+    }
+
+    private buildMessage(ctx: CallContext, sendParam: ethers.utils.Result, amountLD: bigint): string {
+        const amountSD = amountLD / this.decimalConversionRate
+        const base = ethers.utils.solidityPack(['bytes32', 'uint64'], [sendParam.to, amountSD])
+        if (sendParam.composeMsg === '0x') {
+            return base
+        }
+        return ethers.utils.hexConcat([base, addressToBytes32(ctx.sender), sendParam.composeMsg])
+    }
+
+    protected messagingParams(ctx: CallContext, sendParam: ethers.utils.Result, amountLD: bigint, payInLzToken = false): unknown[] {
+        const peer = this.peers(ctx, sendParam.dstEid)
+        if (peer === ethers.constants.HashZero) {
+            throw customError('NoPeer(uint32)', sendParam.dstEid)
+        }
+        const msgType = sendParam.composeMsg === '0x' ? SEND : SEND_AND_CALL
+        const options = this.combineOptions(sendParam.dstEid, msgType, sendParam.extraOptions)
+        return [sendParam.dstEid, peer, this.buildMessage(ctx, sendParam, amountLD), options, payInLzToken]
+    }
+
+    /** _debitView: what leaves the sender and what the destination is credited */
+    protected debitView(_dstEid: number, amountLD: bigint): [bigint, bigint] {
+        const amountSentLD = this.removeDust(amountLD)
+        return [amountSentLD, amountSentLD]
+    }
+
+    /** No limits or fees: what is sent is the amount without dust */
+    quoteOFT(_ctx: CallContext, sendParam: ethers.utils.Result): unknown[] {
+        return [[0n, MAX_UINT], [], this.debitView(sendParam.dstEid, big(sendParam.amountLD))]
+    }
+
+    quoteSend(ctx: CallContext, sendParam: ethers.utils.Result, payInLzToken: boolean): unknown {
+        const [, amountReceivedLD] = this.debitView(sendParam.dstEid, big(sendParam.amountLD))
+        const params = this.messagingParams(ctx, sendParam, amountReceivedLD, payInLzToken)
+        return this.call(ctx, this.endpointAddress, 'quote', [params, this.address])[0]
+    }
+
+    send(ctx: CallContext, sendParam: ethers.utils.Result, fee: ethers.utils.Result, refundAddress: string): unknown[] {
+        const [amountSentLD, amountReceivedLD] = this.debitView(sendParam.dstEid, big(sendParam.amountLD))
+        if (amountReceivedLD < big(sendParam.minAmountLD)) {
+            throw customError('SlippageExceeded(uint256,uint256)', amountReceivedLD, sendParam.minAmountLD)
+        }
+        this.debit(ctx, amountSentLD, big(fee.nativeFee))
+
+        // OAppSender._payLzToken: pulled from the caller straight into the endpoint, this OApp as spender
+        const payInLzToken = big(fee.lzTokenFee) > 0n
+        if (payInLzToken) {
+            const [lzToken] = this.call(ctx, this.endpointAddress, 'lzToken', [])
+            this.call(ctx, lzToken, 'transferFrom', [ctx.sender, this.endpointAddress, fee.lzTokenFee])
+        }
+
+        const params = this.messagingParams(ctx, sendParam, amountReceivedLD, payInLzToken)
+        const [receipt] = this.call(ctx, this.endpointAddress, 'send', [params, refundAddress], big(fee.nativeFee))
+        this.emit('OFTSent', [receipt.guid, sendParam.dstEid, ctx.sender, amountSentLD, amountReceivedLD])
+        return [receipt, [amountSentLD, amountReceivedLD]]
+    }
+
+    protected checkOrigin(ctx: CallContext, origin: ethers.utils.Result): void {
+        if (!same(ctx.sender, this.endpointAddress)) {
+            throw customError('OnlyEndpoint(address)', ctx.sender)
+        }
+        if (this.peers(ctx, origin.srcEid).toLowerCase() !== origin.sender.toLowerCase()) {
+            throw customError('OnlyPeer(uint32,bytes32)', origin.srcEid, origin.sender)
+        }
+    }
+
+    lzReceive(ctx: CallContext, origin: ethers.utils.Result, guid: string, message: string): void {
+        this.checkOrigin(ctx, origin)
+
+        const to = bytes32ToEthAddress(ethers.utils.hexDataSlice(message, 0, 32))
+        const amountLD = big(ethers.utils.hexDataSlice(message, 32, 40)) * this.decimalConversionRate
+        this.credit(ctx, to, amountLD)
+
+        if (ethers.utils.hexDataLength(message) > 40) {
+            // OFTComposeMsgCodec: nonce | srcEid | amountLD | composeFrom + composeMsg
+            const composeMsg = ethers.utils.solidityPack(
+                ['uint64', 'uint32', 'uint256', 'bytes'],
+                [origin.nonce, origin.srcEid, amountLD, ethers.utils.hexDataSlice(message, 40)]
+            )
+            this.call(ctx, this.endpointAddress, 'sendCompose', [to, guid, 0, composeMsg])
+        }
+        this.emit('OFTReceived', [guid, origin.srcEid, to, amountLD])
+    }
+
+    protected requireFee(ctx: CallContext, expected: bigint): void {
+        if (ctx.value !== expected) {
+            throw customError('NotEnoughNative(uint256)', ctx.value)
+        }
+    }
+}
+
+/** Mint/burn OFT: the OFT is the token */
+export class MockOFT extends MockOFTCore {
+    constructor(chain: LocalChain, address: string, name: string, decimals: number, endpoint: string) {
+        super(chain, address, name, decimals, endpoint, [...ERC20_ABI, ...OFT_ABI])
+    }
+
+    token(): string {
+        return this.address
+    }
+
+    approvalRequired(): boolean {
+        return false
+    }
+
+    protected debit(ctx: CallContext, amountLD: bigint, nativeFee: bigint): void {
+        this.requireFee(ctx, nativeFee)
+        this.burn(ctx.sender, amountLD)
+    }
+
+    protected credit(_ctx: CallContext, to: string, amountLD: bigint): void {
+        this.mint(to, amountLD)
+    }
+}
+
+/**
+ * Lockbox over an existing token: OFTAdapter, ShareOFTAdapter and Stargate-style pools.
+ * With no token (`underlying` undefined) it is a native pool: msg.value carries the amount.
+ */
+export class MockOFTAdapter extends MockOFTCore {
+    constructor(chain: LocalChain, address: string, readonly underlying: MockERC20 | undefined, endpoint: string, abi: string[] = OFT_ABI) {
+        super(chain, address, underlying?.tokenName ?? 'ETH', underlying?.tokenDecimals ?? 18, endpoint, abi)
+    }
+
+    token(): string {
+        return this.underlying?.address ?? ethers.constants.AddressZero
+    }
+
+    approvalRequired(): boolean {
+        return this.underlying !== undefined
+    }
+
+    protected debit(ctx: CallContext, amountLD: bigint, nativeFee: bigint): void {
+        if (!this.underlying) {
+            this.requireFee(ctx, nativeFee + amountLD)
+            return
+        }
+        this.requireFee(ctx, nativeFee)
+        this.call(ctx, this.underlying.address, 'transferFrom', [ctx.sender, this.address, amountLD])
+    }
+
+    protected credit(ctx: CallContext, to: string, amountLD: bigint): void {
+        if (!this.underlying) {
+            this.chain.transfer(this.address, to, amountLD)
+            return
+        }
+        this.call(ctx, this.underlying.address, 'transfer', [to, amountLD])
+    }
+}
+
+const STARGATE_POOL_ABI = [
+    ...OFT_ABI,
+    'function paths(uint32 eid) view returns (uint64 credit)',
+    'function driveBus(uint32 dstEid) payable',
+    'event BusRode(uint32 dstEid, uint72 ticketId, bytes passenger)',
+    'event BusDriven(uint32 dstEid, uint72 startTicketId, uint8 numPassengers, bytes32 guid)',
+]
+
+// Paths start with more credit than any test moves
+const DEFAULT_CREDIT = 2n ** 63n
+
+const OFT_CMD_BUS = '0x00'
+// First byte of a bus message; a taxi (OFTMsgCodec) message starts with a zero-padded address
+const BUS_MESSAGE = '0x01'
+const ASSET_ID = 1
+
+interface Passenger {
+    to: string          // bytes32
+    amountSD: bigint
+}
+
+/**
+ * Stargate V2 pool: a protocol fee taken off the amount (setFeeBps), and per-path credit in
+ * shared decimals that a send consumes and cannot exceed (setCredit).
+ *
+ * oftCmd 0x00 rides the bus on routes opened with openBus: the seat costs the driving fee split
+ * over the bus capacity, and the bus leaves as one message when it is full or when anyone pays
+ * the rest of the fee with driveBus (TokenMessaging's role, folded into the pool here).
+ */
+export class MockStargatePool extends MockOFTAdapter {
+    feeBps = 0n
+
+    constructor(chain: LocalChain, address: string, underlying: MockERC20 | undefined, endpoint: string) {
+        super(chain, address, underlying, endpoint, STARGATE_POOL_ABI)
+    }
+
+    paths(_ctx: CallContext | null, eid: number): bigint {
+        return this.load(`credit:${eid}`, DEFAULT_CREDIT)
+    }
+
+    setCredit(eid: number, creditSD: bigint): void {
+        this.store(`credit:${eid}`, creditSD)
+    }
+
+    setFeeBps(bps: bigint): void {
+        this.feeBps = bps
+    }
+
+    protected debitView(_dstEid: number, amountLD: bigint): [bigint, bigint] {
+        const amountSentLD = this.removeDust(amountLD)
+        return [amountSentLD, amountSentLD - this.removeDust((amountSentLD * this.feeBps) / 10000n)]
+    }
+
+    openBus(eid: number, capacity: bigint): void {
+        this.store(`bus:${eid}:capacity`, capacity)
+    }
+
+    passengers(eid: number): Passenger[] {
+        return this.load(`bus:${eid}:passengers`, [])
+    }
+
+    private busFare(sendParam: ethers.utils.Result): bigint {
+        const capacity = this.load(`bus:${sendParam.dstEid}:capacity`, 0n)
+        if (capacity === 0n) {
+            throw customError('Bus_NoRoute(uint32)', sendParam.dstEid)
+        }
+        if (sendParam.composeMsg !== '0x' || sendParam.extraOptions !== '0x') {
+            throw customError('Stargate_UnsupportedOptionType()')
+        }
+        return BASE_MESSAGING_FEE / capacity
+    }
+
+    quoteSend(ctx: CallContext, sendParam: ethers.utils.Result, payInLzToken: boolean): unknown {
+        return sendParam.oftCmd === OFT_CMD_BUS ? [this.busFare(sendParam), 0n] : super.quoteSend(ctx, sendParam, payInLzToken)
+    }
+
+    quoteOFT(ctx: CallContext, sendParam: ethers.utils.Result): unknown[] {
+        const [amountSentLD, amountReceivedLD] = this.debitView(sendParam.dstEid, big(sendParam.amountLD))
+        const limit = [this.decimalConversionRate, this.paths(ctx, sendParam.dstEid) * this.decimalConversionRate]
+        const fees = amountSentLD > amountReceivedLD ? [[amountSentLD - amountReceivedLD, 'protocol fee']] : []
+        return [limit, fees, [amountSentLD, amountReceivedLD]]
+    }
+
+    send(ctx: CallContext, sendParam: ethers.utils.Result, fee: ethers.utils.Result, refundAddress: string): unknown[] {
+        const credit = this.paths(ctx, sendParam.dstEid)
+        const [amountSentLD] = this.debitView(sendParam.dstEid, big(sendParam.amountLD))
+        const amountSD = amountSentLD / this.decimalConversionRate
+        if (amountSD > credit) {
+            throw customError('Path_InsufficientCredit()')
+        }
+        const result = sendParam.oftCmd === OFT_CMD_BUS ? this.rideBus(ctx, sendParam, fee) : super.send(ctx, sendParam, fee, refundAddress)
+        this.setCredit(sendParam.dstEid, credit - amountSD)
+        return result
+    }
+
+    private rideBus(ctx: CallContext, sendParam: ethers.utils.Result, fee: ethers.utils.Result): unknown[] {
+        const fare = this.busFare(sendParam)
+        const [amountSentLD, amountReceivedLD] = this.debitView(sendParam.dstEid, big(sendParam.amountLD))
+        if (amountReceivedLD < big(sendParam.minAmountLD)) {
+            throw customError('SlippageExceeded(uint256,uint256)', amountReceivedLD, sendParam.minAmountLD)
+        }
+        if (big(fee.nativeFee) < fare) {
+            throw customError('Stargate_InsufficientFare()')
+        }
+        this.debit(ctx, amountSentLD, big(fee.nativeFee))
+
+        const eid = sendParam.dstEid
+        const ticketId = this.load(`bus:${eid}:nextTicket`, 0n)
+        const passenger = { to: sendParam.to, amountSD: amountReceivedLD / this.decimalConversionRate }
+        const passengers = [...this.passengers(eid), passenger]
+        this.store(`bus:${eid}:nextTicket`, ticketId + 1n)
+        this.store(`bus:${eid}:passengers`, passengers)
+        this.store(`bus:${eid}:fares`, this.load(`bus:${eid}:fares`, 0n) + big(fee.nativeFee))
+        this.emit('BusRode', [eid, ticketId, ethers.utils.solidityPack(['uint16', 'bytes32', 'uint64', 'bool'], [ASSET_ID, passenger.to, passenger.amountSD, false])])
+        this.emit('OFTSent', [ethers.constants.HashZero, eid, ctx.sender, amountSentLD, amountReceivedLD])
+
+        if (BigInt(passengers.length) === this.load(`bus:${eid}:capacity`, 0n)) {
+            this.drive(ctx, eid, 0n)
+        }
+        return [[ethers.constants.HashZero, 0n, [fee.nativeFee, 0n]], [amountSentLD, amountReceivedLD]]
+    }
+
+    /** Anyone may send a partly filled bus by paying what the fares do not cover */
+    driveBus(ctx: CallContext, dstEid: number): void {
+        if (this.passengers(dstEid).length === 0) {
+            throw customError('Bus_Empty(uint32)', dstEid)
+        }
+        this.drive(ctx, dstEid, ctx.value)
+    }
+
+    private drive(ctx: CallContext, eid: number, payment: bigint): void {
+        const passengers = this.passengers(eid)
+        const message = ethers.utils.hexConcat([
+            BUS_MESSAGE,
+            ...passengers.map((passenger) => ethers.utils.solidityPack(['bytes32', 'uint64'], [passenger.to, passenger.amountSD])),
+        ])
+        const params = [eid, this.peers(ctx, eid), message, '0x', false]
+        const [nativeFee] = this.call(ctx, this.endpointAddress, 'quote', [params, this.address])[0]
+        const funds = this.load(`bus:${eid}:fares`, 0n) + payment
+        if (funds < big(nativeFee)) {
+            throw customError('Stargate_InsufficientFare()')
+        }
+        const [receipt] = this.call(ctx, this.endpointAddress, 'send', [params, this.address], big(nativeFee))
+
+        const startTicketId = this.load(`bus:${eid}:nextTicket`, 0n) - BigInt(passengers.length)
+        this.store(`bus:${eid}:passengers`, [])
+        this.store(`bus:${eid}:fares`, funds - big(nativeFee))
+        this.emit('BusDriven', [eid, startTicketId, passengers.length, receipt.guid])
+    }
+
+    lzReceive(ctx: CallContext, origin: ethers.utils.Result, guid: string, message: string): void {
+        if (ethers.utils.hexDataSlice(message, 0, 1) !== BUS_MESSAGE) {
+            return super.lzReceive(ctx, origin, guid, message)
+        }
+        this.checkOrigin(ctx, origin)
+        for (let offset = 1; offset < ethers.utils.hexDataLength(message); offset += 40) {
+            const to = bytes32ToEthAddress(ethers.utils.hexDataSlice(message, offset, offset + 32))
+            const amountLD = big(ethers.utils.hexDataSlice(message, offset + 32, offset + 40)) * this.decimalConversionRate
+            this.credit(ctx, to, amountLD)
+            this.emit('OFTReceived', [guid, origin.srcEid, to, amountLD])
+        }
+    }
+}
+
+// ============================================
+// COMPOSER
+// ============================================
+const COMPOSER_ABI = [
+    'function VAULT() view returns (address)',
+    'function ASSET_OFT() view returns (address)',
+    'function SHARE_OFT() view returns (address)',
+    'function ENDPOINT() view returns (address)',
+    'function VAULT_EID() view returns (uint32)',
+    `function depositAndSend(uint256 assetAmount, ${SEND_PARAM} sendParam, address refundAddress) payable`,
+    `function redeemAndSend(uint256 shareAmount, ${SEND_PARAM} sendParam, address refundAddress) payable`,
+    'function lzCompose(address from, bytes32 guid, bytes message, address executor, bytes extraData) payable',
+    'function handleCompose(address oftIn, bytes32 composeFrom, bytes composeMsg, uint256 amount) payable',
+    'event Sent(bytes32 indexed guid)',
+    'event Refunded(bytes32 indexed guid)',
+]
+
+const NATIVE_COMPOSER_ABI = [...COMPOSER_ABI, `function depositNativeAndSend(uint256 assetAmount, ${SEND_PARAM} sendParam, address refundAddress) payable`]
+
+/** VaultComposerSync: deposit / redeem on the hub and send the output on, refunding on failure */
+export class MockComposer extends MockContract {
+    constructor(
+        chain: LocalChain,
+        address: string,
+        readonly endpoint: MockEndpoint,
+        readonly vault: MockVault,
+        readonly assetOFT: MockOFTAdapter | MockOFT,
+        readonly shareOFT: MockOFTAdapter,
+        abi: string[] = COMPOSER_ABI
+    ) {
+        super(chain, address, abi)
+    }
+
+    VAULT(): string {
+        return this.vault.address
+    }
+
+    ASSET_OFT(): string {
+        return this.assetOFT.address
+    }
+
+    SHARE_OFT(): string {
+        return this.shareOFT.address
+    }
+
+    ENDPOINT(): string {
+        return this.endpoint.address
+    }
+
+    VAULT_EID(): number {
+        return this.endpoint.localEid
+    }
+
+    /** Constructor approvals: the vault pulls assets, the OFTs pull what they send */
+    initialize(): void {
+        const ctx = { sender: this.address, value: 0n, origin: this.address }
+        this.call(ctx, this.vault.assetToken.address, 'approve', [this.vault.address, MAX_UINT])
+        this.call(ctx, this.vault.assetToken.address, 'approve', [this.assetOFT.address, MAX_UINT])
+        this.call(ctx, this.vault.address, 'approve', [this.shareOFT.address, MAX_UINT])
+    }
+
+    depositAndSend(ctx: CallContext, assetAmount: ethers.BigNumber, sendParam: ethers.utils.Result, refundAddress: string): void {
+        this.call(ctx, this.vault.assetToken.address, 'transferFrom', [ctx.sender, this.address, assetAmount])
+        this.depositAndSendInternal(ctx, big(assetAmount), sendParam, refundAddress)
+    }
+
+    redeemAndSend(ctx: CallContext, shareAmount: ethers.BigNumber, sendParam: ethers.utils.Result, refundAddress: string): void {
+        this.call(ctx, this.vault.address, 'transferFrom', [ctx.sender, this.address, shareAmount])
+        this.redeemAndSendInternal(ctx, big(shareAmount), sendParam, refundAddress)
+    }
+
+    lzCompose(ctx: CallContext, from: string, guid: string, message: string): void {
+        if (!same(ctx.sender, this.endpoint.address)) {
+            throw customError('OnlyEndpoint(address)', ctx.sender)
+        }
+        if (!same(from, this.assetOFT.address) && !same(from, this.shareOFT.address)) {
+            throw customError('OnlyValidComposeCaller(address)', from)
+        }
+
+        const srcEid = Number(big(ethers.utils.hexDataSlice(message, 8, 12)))
+        const amount = big(ethers.utils.hexDataSlice(message, 12, 44))
+        const composeFrom = ethers.utils.hexDataSlice(message, 44, 76)
+        const composeMsg = ethers.utils.hexDataSlice(message, 76)
+
+        const snapshot = this.chain.snapshot()
+        try {
+            this.call(ctx, this.address, 'handleCompose', [from, composeFrom, composeMsg, amount], ctx.value)
+        } catch (error) {
+            this.chain.restore(snapshot)
+            if (error instanceof OutOfGas || (error instanceof Revert && error.reason.startsWith('InsufficientMsgValue'))) {
+                throw error
+            }
+            // Send the input back to the sender on the source chain, paid with msg.value
+            const refund = [srcEid, composeFrom, amount, 0, '0x', '0x', '0x']
+            this.call(ctx, from, 'send', [refund, [ctx.value, 0], ctx.origin], ctx.value + this.nativeInput(from, amount))
+            this.emit('Refunded', [guid])
+            return
+        }
+        this.emit('Sent', [guid])
+    }
+
+    handleCompose(ctx: CallContext, oftIn: string, composeFrom: string, composeMsg: string, amount: ethers.BigNumber): void {
+        if (!same(ctx.sender, this.address)) {
+            throw customError('OnlySelf(address)', ctx.sender)
+        }
+        const [sendParam, minMsgValue] = ethers.utils.defaultAbiCoder.decode([SEND_PARAM, 'uint256'], composeMsg)
+        if (ctx.value < big(minMsgValue)) {
+            throw customError('InsufficientMsgValue(uint256,uint256)', minMsgValue, ctx.value)
+        }
+        if (same(oftIn, this.assetOFT.address)) {
+            this.depositAndSendInternal(ctx, big(amount), sendParam, ctx.origin)
+        } else {
+            this.redeemAndSendInternal(ctx, big(amount), sendParam, ctx.origin)
+        }
+    }
+
+    /** Native value an OFT send of `amount` through `oft` carries on top of the fee */
+    protected nativeInput(_oft: string, _amount: bigint): bigint {
+        return 0n
+    }
+
+    protected depositAndSendInternal(ctx: CallContext, assets: bigint, sendParam: ethers.utils.Result, refundAddress: string): void {
+        const [shares] = this.call(ctx, this.vault.address, 'deposit', [assets, this.address])
+        this.assertSlippage(big(shares), sendParam)
+        this.send(ctx, this.shareOFT, this.vault.address, big(shares), sendParam, refundAddress)
+    }
+
+    protected redeemAndSendInternal(ctx: CallContext, shares: bigint, sendParam: ethers.utils.Result, refundAddress: string): void {
+        const [assets] = this.call(ctx, this.vault.address, 'redeem', [shares, this.address, this.address])
+        this.assertSlippage(big(assets), sendParam)
+        this.send(ctx, this.assetOFT, this.vault.assetToken.address, big(assets), sendParam, refundAddress)
+    }
+
+    private assertSlippage(amount: bigint, sendParam: ethers.utils.Result): void {
+        if (amount < big(sendParam.minAmountLD)) {
+            throw customError('SlippageExceeded(uint256,uint256)', amount, sendParam.minAmountLD)
+        }
+    }
+
+    protected send(ctx: CallContext, oft: MockOFTCore, token: string, amount: bigint, sendParam: ethers.utils.Result, refundAddress: string): void {
+        if (sendParam.dstEid === this.endpoint.localEid) {
+            if (ctx.value > 0n) {
+                throw customError('NoMsgValueExpected()')
+            }
+            this.call(ctx, token, 'transfer', [bytes32ToEthAddress(sendParam.to), amount])
+            return
+        }
+        const param = [sendParam.dstEid, sendParam.to, amount, 0, sendParam.extraOptions, sendParam.composeMsg, sendParam.oftCmd]
+        this.call(ctx, oft.address, 'send', [param, [ctx.value, 0], refundAddress], ctx.value)
+    }
+}
+
+/**
+ * VaultComposerSyncNative: the vault's asset is WETH and the asset OFT is a native pool.
+ * Native input is wrapped before the deposit; redeemed WETH is unwrapped before it is sent.
+ */
+export class MockNativeComposer extends MockComposer {
+    constructor(chain: LocalChain, address: string, endpoint: MockEndpoint, vault: MockVault, assetOFT: MockOFTAdapter, shareOFT: MockOFTAdapter) {
+        super(chain, address, endpoint, vault, assetOFT, shareOFT, NATIVE_COMPOSER_ABI)
+    }
+
+    depositNativeAndSend(ctx: CallContext, assetAmount: ethers.BigNumber, sendParam: ethers.utils.Result, refundAddress: string): void {
+        if (ctx.value < big(assetAmount)) {
+            throw customError('AmountExceedsMsgValue(uint256,uint256)', assetAmount, ctx.value)
+        }
+        this.call(ctx, this.vault.assetToken.address, 'deposit', [], big(assetAmount))
+        this.depositAndSendInternal({ ...ctx, value: ctx.value - big(assetAmount) }, big(assetAmount), sendParam, refundAddress)
+    }
+
+    handleCompose(ctx: CallContext, oftIn: string, composeFrom: string, composeMsg: string, amount: ethers.BigNumber): void {
+        if (same(oftIn, this.assetOFT.address) && same(ctx.sender, this.address)) {
+            this.call(ctx, this.vault.assetToken.address, 'deposit', [], big(amount))
+        }
+        super.handleCompose(ctx, oftIn, composeFrom, composeMsg, amount)
+    }
+
+    protected nativeInput(oft: string, amount: bigint): bigint {
+        return same(oft, this.assetOFT.address) ? amount : 0n
+    }
+
+    protected send(ctx: CallContext, oft: MockOFTCore, token: string, amount: bigint, sendParam: ethers.utils.Result, refundAddress: string): void {
+        if (!same(oft.address, this.assetOFT.address)) {
+            super.send(ctx, oft, token, amount, sendParam, refundAddress)
+            return
+        }
+        this.call(ctx, token, 'withdraw', [amount])
+        if (sendParam.dstEid === this.endpoint.localEid) {
+            this.chain.transfer(this.address, bytes32ToEthAddress(sendParam.to), amount)
+            return
+        }
+        // The pool takes the dust-free amount; the dust stays with the composer
+        const amountLD = oft.removeDust(amount)
+        const param = [sendParam.dstEid, sendParam.to, amountLD, 0, sendParam.extraOptions, sendParam.composeMsg, sendParam.oftCmd]
+        this.call(ctx, oft.address, 'send', [param, [ctx.value, 0], refundAddress], ctx.value + amountLD)
+    }
+}
@@ -0,0 +1,69 @@
+/**
+ * Flow Runner
+ *
+ * Runs a CLI command against a LocalNetwork the same way `ovault <command>` does: resolve
+ * the route, run the flow, then track every hop. Console output is buffered and only
+ * printed when the flow throws.
+ */
+
+import { FLOWS, FlowParams } from '../../scripts/flows'
+import { PRIVATE_KEY_ENV } from '../../scripts/lib/signer'
+import { Command, resolveRoute } from '../../scripts/lib/route'
+import { HopResult, TrackOptions, trackMessages } from '../../scripts/lib/tracking'
+import { LocalNetwork, WALLET_PRIVATE_KEY } from './network'
+
+// The executor relays synchronously, so every hop has landed by the time tracking starts
+export const TRACK_OPTIONS: TrackOptions = { timeoutMs: 5_000, pollIntervalMs: 50, progress: false }
+
+export interface FlowRun {
+    flow: string
+    hops: HopResult[]
+    dryRun: boolean
+    output: string[]            // What the flow printed
+}
+
+/** Run `fn` with console.log / console.warn buffered; the buffer is replayed if it throws */
+export async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+    return (await captured(fn)).result
+}
+
+/** Like quietly, and hand back what `fn` printed */
+export async function captured<T>(fn: () => Promise<T>): Promise<{ result: T; lines: string[] }> {
+    const lines: string[] = []
+    const { log, warn } = console
+    console.log = (...args: unknown[]) => lines.push(args.join(' '))
+    console.warn = (...args: unknown[]) => lines.push(args.join(' '))
+    try {
+        return { result: await fn(), lines }
+    } catch (error) {
+        log(lines.join('\n'))
+        throw error
+    } finally {
+        console.log = log
+        console.warn = warn
+    }
+}
+
+export async function runFlow(
+    network: LocalNetwork,
+    command: Command,
+    route: { src: string; dst: string; amount: string },
+    options: Partial<FlowParams> = {}
+): Promise<FlowRun> {
+    process.env[PRIVATE_KEY_ENV] = WALLET_PRIVATE_KEY
+    const params: FlowParams = {
+        deployment: network.manifest,
+        signer: { type: 'env' },
+        hub: network.manifest.hub,
+        ...route,
+        ...options,
+    }
+    const { flow } = resolveRoute(command, params)
+
+    const { result, lines } = await captured(async () => {
+        const receipt = await FLOWS[flow](params)
+        const hops = receipt ? await trackMessages(params.deployment, params.src, receipt, TRACK_OPTIONS) : []
+        return { flow, hops, dryRun: !receipt }
+    })
+    return { ...result, output: lines }
+}
@@ -0,0 +1,340 @@
+/**
+ * Local OVault Network
+ *
+ * A hub (ethereum) and two spokes (base, katana) served as local JSON-RPC chains, with a
+ * full OVault deployment wired between them and a simulated executor that relays every
+ * PacketSent to its destination (lzReceive, then lzCompose) as soon as it is mined.
+ *
+ *   ethereum (hub)  USDC, Stargate-style USDC pool, ERC4626 vault, ShareOFTAdapter, composer
+ *   base            USDC (with EIP-2612 permit), Stargate-style USDC pool, share OFT
+ *   katana          asset OFT (mint/burn), share OFT
+ *
+ * The hub and base endpoints take fees in ZRO as well (lzToken); katana's has none set.
+ * Every OFT enforces lzReceive gas towards its peers, combined with the options sent.
+ *
+ * startNetwork({ native: true }) deploys the ETH flavour instead: WETH and a native pool on
+ * the hub, an ovETH vault over WETH with a native composer, and a native pool on base.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ethers } from 'ethers'
+import { Options, PacketV1Codec } from '@layerzerolabs/lz-v2-utilities'
+import { DeploymentManifest } from '../../scripts/lib/manifest'
+import { LocalChain, TxResult } from './chain'
+import { MockComposer, MockERC20, MockEndpoint, MockNativeComposer, MockOFT, MockOFTAdapter, MockOFTCore, MockPermitERC20, MockStargatePool, MockVault, MockWETH, SEND, SEND_AND_CALL } from './contracts'
+
+// ============================================
+// TYPES
+// ============================================
+export interface HubContracts {
+    endpoint: MockEndpoint
+    usdc: MockERC20                 // the vault asset: WETH on a native network
+    assetOFT: MockStargatePool
+    vault: MockVault
+    shareOFT: MockOFTAdapter
+    composer: MockComposer
+    zro: MockERC20
+}
+
+export interface SpokeContracts {
+    endpoint: MockEndpoint
+    usdc?: MockERC20
+    assetOFT: MockOFTCore
+    shareOFT: MockOFT
+    zro?: MockERC20
+}
+
+export interface LocalNetwork {
+    chains: Record<string, LocalChain>
+    hub: HubContracts
+    spokes: Record<'base' | 'katana', SpokeContracts>
+    manifest: DeploymentManifest
+    manifestPath: string
+    wallet: ethers.Wallet
+    /** Compose gas below which the executor's lzCompose runs out of gas (0: never) */
+    composeGasRequired: number
+    /** Parse a human amount of the vault asset (USDC or ETH) */
+    units(amount: string): bigint
+    close(): Promise<void>
+}
+
+// Hardhat / anvil account #0
+export const WALLET_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80'
+
+const EXECUTOR = '0x00000000000000000000000000000000000e8ec0'
+
+// Owner and endpoint delegate of every OFT and pool
+export const OWNER = '0x0000000000000000000000000000000000000a11'
+
+// Owner of the vault's pre-existing supply
+const SEED_HOLDER = '0x0000000000000000000000000000000000005eed'
+
+const USDC_DECIMALS = 6
+export const usdc = (amount: string): bigint => ethers.utils.parseUnits(amount, USDC_DECIMALS).toBigInt()
+export const ether = (amount: string): bigint => ethers.utils.parseEther(amount).toBigInt()
+
+const CHAINS = {
+    ethereum: { name: 'Ethereum', eid: 30101, chainId: 31101 },
+    base: { name: 'Base', eid: 30184, chainId: 31184 },
+    katana: { name: 'Katana', eid: 30375, chainId: 31375 },
+}
+
+// Starting balances
+export const WALLET_ETH = ether('100')
+export const WALLET_USDC = usdc('10000')
+export const WALLET_SHARES = usdc('1000')
+export const WALLET_ZRO = ether('100')
+
+// Enforced on every OFT and pool for both message types, as an OVault deployment configures them
+export const ENFORCED_LZ_RECEIVE_GAS = 80000
+
+const POOL_LIQUIDITY = usdc('1000000')
+const BUS_CAPACITY = 2n
+const VAULT_SEED_SHARES = usdc('1000000')
+const VAULT_SEED_ASSETS = usdc('1050000')     // 1 share = 1.05 USDC
+
+export interface NetworkOptions {
+    /** Deploy the ETH vault: native pools, WETH as the vault asset, the native composer */
+    native?: boolean
+}
+
+// ============================================
+// EXECUTOR
+// ============================================
+function eidOwner(chains: Record<string, LocalChain>, endpoints: Record<string, MockEndpoint>, eid: number): string {
+    const key = Object.keys(endpoints).find((chain) => endpoints[chain].localEid === eid)
+    if (!key || !chains[key]) {
+        throw new Error(`no local chain for EID ${eid}`)
+    }
+    return key
+}
+
+/** Relay the packets `tx` sent: lzReceive on the destination, then any compose it queued */
+function relay(network: LocalNetwork, endpoints: Record<string, MockEndpoint>, source: MockEndpoint, tx: TxResult): void {
+    const packetSent = source.iface.getEvent('PacketSent')
+    const topic = source.iface.getEventTopic(packetSent)
+
+    for (const log of tx.logs) {
+        if (log.address !== source.address || log.topics[0] !== topic) {
+            continue
+        }
+        const { encodedPayload, options } = source.iface.decodeEventLog(packetSent, log.data, log.topics)
+        const packet = PacketV1Codec.from(encodedPayload)
+        const dstKey = eidOwner(network.chains, endpoints, packet.dstEid())
+        const chain = network.chains[dstKey]
+        const endpoint = endpoints[dstKey]
+        // Composer refunds are sent without options
+        const decoded = options === '0x' ? Options.newOptions() : Options.fromOptions(options)
+
+        const origin = [packet.srcEid(), packet.sender(), packet.nonce()]
+        const receiver = packet.receiverAddressB20()
+        const receiveValue = decoded.decodeExecutorLzReceiveOption()?.value ?? 0n
+        const delivery = chain.mine(
+            EXECUTOR,
+            endpoint.address,
+            endpoint.iface.encodeFunctionData('lzReceive', [origin, receiver, packet.guid(), packet.message(), '0x']),
+            receiveValue
+        )
+        if (delivery.status === 0) {
+            const args = [origin, receiver, packet.guid(), 0, receiveValue, packet.message(), '0x', delivery.error!.data]
+            chain.mine(EXECUTOR, endpoint.address, endpoint.iface.encodeFunctionData('lzReceiveAlert', args), 0n)
+            continue
+        }
+
+        const composeSent = endpoint.iface.getEvent('ComposeSent')
+        for (const composeLog of delivery.logs) {
+            if (composeLog.address !== endpoint.address || composeLog.topics[0] !== endpoint.iface.getEventTopic(composeSent)) {
+                continue
+            }
+            const { from, to, guid, index, message } = endpoint.iface.decodeEventLog(composeSent, composeLog.data, composeLog.topics)
+            const option = (decoded.decodeExecutorComposeOption() ?? []).find((compose) => compose.index === index)
+            const gas = option?.gas ?? 0n
+            const value = option?.value ?? 0n
+
+            let reason: string | undefined
+            if (gas < BigInt(network.composeGasRequired)) {
+                reason = '0x'
+            } else {
+                const data = endpoint.iface.encodeFunctionData('lzCompose', [from, to, guid, index, message, '0x'])
+                const compose = chain.mine(EXECUTOR, endpoint.address, data, value, undefined, Number(gas))
+                reason = compose.error?.data
+            }
+            if (reason !== undefined) {
+                const args = [from, to, guid, index, gas, value, message, '0x', reason]
+                chain.mine(EXECUTOR, endpoint.address, endpoint.iface.encodeFunctionData('lzComposeAlert', args), 0n)
+            }
+        }
+    }
+}
+
+// ============================================
+// DEPLOYMENT
+// ============================================
+function chainFor(key: keyof typeof CHAINS): LocalChain {
+    const chain = new LocalChain(key, CHAINS[key].chainId)
+    chain.setBalance(EXECUTOR, ether('1000'))
+    return chain
+}
+
+/** Peer `a` and `b`, and enforce the lzReceive gas both message types need on each */
+function wire(a: MockOFTCore, aEid: number, b: MockOFTCore, bEid: number): void {
+    const enforced = Options.newOptions().addExecutorLzReceiveOption(ENFORCED_LZ_RECEIVE_GAS, 0).toHex()
+    for (const [oft, eid, peer] of [[a, bEid, b], [b, aEid, a]] as const) {
+        oft.setPeer(eid, peer.address)
+        oft.setEnforcedOptions(eid, SEND, enforced)
+        oft.setEnforcedOptions(eid, SEND_AND_CALL, enforced)
+    }
+}
+
+/** Deploy, fund and serve the three chains; call close() when done */
+export async function startNetwork(options: NetworkOptions = {}): Promise<LocalNetwork> {
+    const wallet = new ethers.Wallet(WALLET_PRIVATE_KEY)
+    const chains = { ethereum: chainFor('ethereum'), base: chainFor('base'), katana: chainFor('katana') }
+    const native = options.native === true
+    // Same headline numbers in either asset: 1 USDC ↔ 1 ETH
+    const units = native ? ether : usdc
+    const scale = (amount: bigint): bigint => (native ? amount * 10n ** 12n : amount)
+    const decimals = native ? 18 : USDC_DECIMALS
+    const assetName = native ? 'ETH' : 'USDC'
+
+    // Hub
+    const hubChain = chains.ethereum
+    const hubEndpoint = hubChain.deploy((c, a) => new MockEndpoint(c, a, CHAINS.ethereum.eid))
+    const hubUsdc = native
+        ? hubChain.deploy((c, a) => new MockWETH(c, a))
+        : hubChain.deploy((c, a) => new MockERC20(c, a, 'USDC', USDC_DECIMALS))
+    const hubPool = hubChain.deploy((c, a) => new MockStargatePool(c, a, native ? undefined : hubUsdc, hubEndpoint.address))
+    const vault = hubChain.deploy((c, a) => new MockVault(c, a, `ov${assetName}`, hubUsdc))
+    const shareAdapter = hubChain.deploy((c, a) => new MockOFTAdapter(c, a, vault, hubEndpoint.address))
+    const composer = native
+        ? hubChain.deploy((c, a) => new MockNativeComposer(c, a, hubEndpoint, vault, hubPool, shareAdapter))
+        : hubChain.deploy((c, a) => new MockComposer(c, a, hubEndpoint, vault, hubPool, shareAdapter))
+    composer.initialize()
+
+    // Base
+    const baseEndpoint = chains.base.deploy((c, a) => new MockEndpoint(c, a, CHAINS.base.eid))
+    const baseUsdc = native ? undefined : chains.base.deploy((c, a) => new MockPermitERC20(c, a, 'USDC', USDC_DECIMALS))
+    const basePool = chains.base.deploy((c, a) => new MockStargatePool(c, a, baseUsdc, baseEndpoint.address))
+    const baseShares = chains.base.deploy((c, a) => new MockOFT(c, a, `ov${assetName}`, decimals, baseEndpoint.address))
+
+    // Katana
+    const katanaEndpoint = chains.katana.deploy((c, a) => new MockEndpoint(c, a, CHAINS.katana.eid))
+    const katanaAssets = chains.katana.deploy((c, a) => new MockOFT(c, a, `vb${assetName}`, decimals, katanaEndpoint.address))
+    const katanaShares = chains.katana.deploy((c, a) => new MockOFT(c, a, `ov${assetName}`, decimals, katanaEndpoint.address))
+
+    // LayerZero token: deployed last so the other addresses stay put
+    const hubZro = hubChain.deploy((c, a) => new MockERC20(c, a, 'ZRO', 18))
+    const baseZro = chains.base.deploy((c, a) => new MockERC20(c, a, 'ZRO', 18))
+    hubEndpoint.setLzToken(hubZro.address)
+    baseEndpoint.setLzToken(baseZro.address)
+
+    const { ethereum, base, katana } = CHAINS
+    const assetMesh: [MockOFTCore, number][] = [[hubPool, ethereum.eid], [basePool, base.eid], [katanaAssets, katana.eid]]
+    const shareMesh: [MockOFTCore, number][] = [[shareAdapter, ethereum.eid], [baseShares, base.eid], [katanaShares, katana.eid]]
+    for (const mesh of [assetMesh, shareMesh]) {
+        for (let i = 0; i < mesh.length; i++) {
+            for (let j = i + 1; j < mesh.length; j++) {
+                wire(mesh[i][0], mesh[i][1], mesh[j][0], mesh[j][1])
+            }
+        }
+    }
+
+    const oapps: [MockEndpoint, MockOFTCore[]][] = [
+        [hubEndpoint, [hubPool, shareAdapter]],
+        [baseEndpoint, [basePool, baseShares]],
+        [katanaEndpoint, [katanaAssets, katanaShares]],
+    ]
+    for (const [endpoint, ofts] of oapps) {
+        for (const oft of ofts) {
+            oft.setOwner(OWNER)
+            endpoint.setDelegate(oft.address, OWNER)
+        }
+    }
+
+    // The two Stargate pools run a bus to each other, driven when two seats are taken
+    hubPool.openBus(base.eid, BUS_CAPACITY)
+    basePool.openBus(ethereum.eid, BUS_CAPACITY)
+
+    // Pools hold their token, or ETH for native pools
+    const fundPool = (chain: LocalChain, pool: MockOFTAdapter, amount: bigint): void => {
+        if (pool.underlying) {
+            pool.underlying.mint(pool.address, amount)
+        } else {
+            chain.setBalance(pool.address, chain.balanceOf(pool.address) + amount)
+        }
+    }
+
+    // Liquidity: pools hold the asset, the vault has accrued yield, spoke supply is locked on the hub
+    fundPool(hubChain, hubPool, scale(POOL_LIQUIDITY))
+    fundPool(chains.base, basePool, scale(POOL_LIQUIDITY))
+    hubUsdc.mint(vault.address, scale(VAULT_SEED_ASSETS))
+    vault.mint(SEED_HOLDER, scale(VAULT_SEED_SHARES))
+
+    // Wallet: ETH everywhere, USDC (or the asset OFT) everywhere, shares everywhere
+    for (const chain of Object.values(chains)) {
+        chain.setBalance(wallet.address, WALLET_ETH)
+    }
+    if (!native) {
+        hubUsdc.mint(wallet.address, WALLET_USDC)
+        baseUsdc!.mint(wallet.address, WALLET_USDC)
+    }
+    katanaAssets.mint(wallet.address, scale(WALLET_USDC))
+    fundPool(hubChain, hubPool, scale(WALLET_USDC))          // backs the katana asset supply
+    const walletShares = scale(WALLET_SHARES)
+    const shareBacking = (walletShares * 3n * VAULT_SEED_ASSETS) / VAULT_SEED_SHARES
+    hubUsdc.mint(vault.address, shareBacking)
+    vault.mint(wallet.address, walletShares)
+    vault.mint(shareAdapter.address, walletShares * 2n)  // backs the spoke share supply
+    baseShares.mint(wallet.address, walletShares)
+    katanaShares.mint(wallet.address, walletShares)
+    hubZro.mint(wallet.address, WALLET_ZRO)
+    baseZro.mint(wallet.address, WALLET_ZRO)
+
+    const endpoints: Record<string, MockEndpoint> = { ethereum: hubEndpoint, base: baseEndpoint, katana: katanaEndpoint }
+    const manifest: DeploymentManifest = {
+        version: 1,
+        name: 'local-test',
+        description: 'In-process test network',
+        hub: 'ethereum',
+        chains: {},
+    }
+
+    const network: LocalNetwork = {
+        chains,
+        hub: { endpoint: hubEndpoint, usdc: hubUsdc, assetOFT: hubPool, vault, shareOFT: shareAdapter, composer, zro: hubZro },
+        spokes: {
+            base: { endpoint: baseEndpoint, usdc: baseUsdc, assetOFT: basePool, shareOFT: baseShares, zro: baseZro },
+            katana: { endpoint: katanaEndpoint, assetOFT: katanaAssets, shareOFT: katanaShares },
+        },
+        manifest,
+        manifestPath: '',
+        wallet,
+        composeGasRequired: 0,
+        units,
+        close: async () => {
+            await Promise.all(Object.values(chains).map((chain) => chain.close()))
+            fs.rmSync(path.dirname(network.manifestPath), { recursive: true, force: true })
+        },
+    }
+
+    for (const [key, chain] of Object.entries(chains)) {
+        const endpoint = endpoints[key]
+        chain.onMined.push((tx) => relay(network, endpoints, endpoint, tx))
+        const spoke = key === 'ethereum' ? undefined : network.spokes[key as 'base' | 'katana']
+        manifest.chains[key] = {
+            eid: CHAINS[key as keyof typeof CHAINS].eid,
+            rpcUrl: await chain.listen(),
+            name: CHAINS[key as keyof typeof CHAINS].name,
+            endpoint: endpoint.address,
+            contracts: spoke
+                ? { assetOFT: spoke.assetOFT.address, shareOFT: spoke.shareOFT.address }
+                : { vault: vault.address, composer: composer.address, assetOFT: hubPool.address, shareOFT: shareAdapter.address },
+        }
+    }
+
+    network.manifestPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ovault-')), 'local-test.json')
+    fs.writeFileSync(network.manifestPath, JSON.stringify(manifest, null, 2))
+    return network
+}
@@ -0,0 +1,181 @@
+/**
+ * Execution journal: resuming a half-finished flow never re-approves or sends twice.
+ */
+
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { journalParams, run as resume, runJournaled } from '../scripts/commands/resume'
+import { FlowParams } from '../scripts/flows'
+import { getProvider } from '../scripts/lib/chains'
+import { JOURNALS_DIR_ENV, createJournal, findUnfinishedRun, loadJournal, saveJournal } from '../scripts/lib/journal'
+import { PRIVATE_KEY_ENV } from '../scripts/lib/signer'
+import { quietly } from './harness/flows'
+import { LocalNetwork, WALLET_PRIVATE_KEY, WALLET_SHARES, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+describe('journal', () => {
+    let network: LocalNetwork
+    let dir: string
+    let params: FlowParams
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        process.env[PRIVATE_KEY_ENV] = WALLET_PRIVATE_KEY
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ovault-journal-'))
+        process.env[JOURNALS_DIR_ENV] = dir
+        params = { deployment: network.manifest, signer: { type: 'env' }, src: 'base', dst: 'katana', hub: 'ethereum', amount: '100' }
+    })
+
+    afterEach(async () => {
+        await network.close()
+        delete process.env[JOURNALS_DIR_ENV]
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    // Journaled compose-deposit from base to katana, as `ovault deposit` starts it
+    const start = (track?: { timeoutMs: number; pollIntervalMs: number; progress: boolean }) => {
+        const journal = createJournal({ command: 'deposit', flow: 'compose-deposit', deployment: network.manifestPath, params: journalParams(params) })
+        return { journal, done: quietly(() => runJournaled(journal, params, track)) }
+    }
+    // resume --json: the report alone on stdout, progress silenced
+    const resumeJson = async (argv: string[]) => {
+        const { error, warn } = console
+        const write = process.stdout.write
+        let stdout = ''
+        console.error = console.warn = () => {}
+        process.stdout.write = ((chunk: string) => {
+            stdout += chunk
+            return true
+        }) as typeof process.stdout.write
+        try {
+            const failure = await quietly(() => resume([...argv, '--json'])).then(() => undefined, (failure) => failure)
+            return { report: JSON.parse(stdout), failure }
+        } finally {
+            Object.assign(console, { error, warn })
+            process.stdout.write = write
+        }
+    }
+    const baseTxs = () => network.chains.base.txs.size
+    const katanaShares = () => network.spokes.katana.shareOFT.balanceOf(null, network.wallet.address)
+
+    it('records every step and resumes tracking without sending again', async () => {
+        const { journal, done } = start()
+        await done
+
+        const saved = loadJournal(journal.file)
+        assert.equal(saved.status, 'sent')
+        assert.deepEqual(saved.steps.map((step) => [step.label, step.status]), [
+            ['Approve OFT', 'confirmed'],
+            ['OFT send to composer', 'confirmed'],
+        ])
+        assert.ok(saved.quotes.some((quote) => quote.name === 'nativeFee'))
+        assert.equal(findUnfinishedRun('deposit', network.manifestPath, journalParams(params))?.id, journal.id)
+
+        const sent = baseTxs()
+        const shares = katanaShares()
+        assert.ok(shares > WALLET_SHARES)
+        await assert.rejects(resume([journal.id, '--track-timeout', 'soon']), /--track-timeout must be a positive number of minutes \(got "soon"\)/)
+        await quietly(() => resume([journal.id]))
+
+        assert.equal(baseTxs(), sent)
+        assert.equal(katanaShares(), shares)
+        assert.equal(loadJournal(journal.file).status, 'complete')
+        assert.equal(findUnfinishedRun('deposit', network.manifestPath, journalParams(params)), undefined)
+    })
+
+    it('resumes after the approval without approving again', async () => {
+        const { base } = network.spokes
+
+        // Unwire the pool once the approval is mined, so the run stops before the send
+        const pool = base.assetOFT
+        const hubEid = network.manifest.chains.ethereum.eid
+        const peer = network.hub.assetOFT.address
+        network.chains.base.onMined.push(() => {
+            if (baseTxs() === 1) {
+                pool.setPeer(hubEid, ethers.constants.AddressZero)
+            }
+        })
+        const { journal, done } = start()
+        await assert.rejects(done)
+        assert.equal(loadJournal(journal.file).status, 'failed')
+        assert.equal(baseTxs(), 1)
+
+        pool.setPeer(hubEid, peer)
+        await quietly(() => resume(['--track-timeout', '0.1']))
+
+        const saved = loadJournal(journal.file)
+        assert.equal(saved.status, 'complete')
+        assert.equal(saved.steps.length, 2)
+        assert.equal(baseTxs(), 2)
+        assert.equal(base.usdc!.balanceOf(null, network.wallet.address), WALLET_USDC - usdc('100'))
+        assert.ok(katanaShares() > WALLET_SHARES)
+    })
+
+    it('resumes a hub flow after its send, though the wallet no longer holds what it spent', async () => {
+        params = { ...params, src: 'ethereum', dst: 'katana', amount: ethers.utils.formatUnits(WALLET_SHARES, 6) }
+        const journal = createJournal({ command: 'redeem', flow: 'redeem-and-send', deployment: network.manifestPath, params: journalParams(params) })
+        await quietly(() => runJournaled(journal, params))
+        assert.equal(loadJournal(journal.file).status, 'sent')
+        assert.equal(network.hub.vault.balanceOf(null, network.wallet.address), 0n)
+
+        // The balance and maxRedeem checks would fail now that the shares are redeemed
+        const sent = network.chains.ethereum.txs.size
+        await quietly(() => resume([journal.id]))
+
+        assert.equal(network.chains.ethereum.txs.size, sent)
+        assert.equal(loadJournal(journal.file).status, 'complete')
+    })
+
+    it('keeps every check when the journaled send was pending and is dropped', async () => {
+        // More shares than the wallet holds: the balance check must stop the new send
+        params = { ...params, src: 'ethereum', dst: 'katana', amount: ethers.utils.formatUnits(WALLET_SHARES * 2n, 6) }
+        const journal = createJournal({ command: 'redeem', flow: 'redeem-and-send', deployment: network.manifestPath, params: journalParams(params) })
+        const nonce = await getProvider(network.manifest, 'ethereum').getTransactionCount(network.wallet.address)
+        journal.steps.push({
+            label: 'redeemAndSend',
+            chain: 'ethereum',
+            status: 'pending',
+            txHash: ethers.utils.hexZeroPad('0x01', 32),
+            nonce,
+            from: network.wallet.address,
+            to: network.hub.composer.address,
+            value: '0',
+            data: '0x',
+            sentAt: new Date().toISOString(),
+        })
+        saveJournal(journal)
+
+        const sent = network.chains.ethereum.txs.size
+        await assert.rejects(quietly(() => resume([journal.id])), (error: any) => /Insufficient balance/.test(error.message) && error.failureKind === 'funds')
+        assert.equal(network.chains.ethereum.txs.size, sent)
+        assert.equal(loadJournal(journal.file).status, 'failed')
+    })
+    it('prints the resumed run as a --json report, failed or not', async () => {
+        const { journal, done } = start()
+        await done
+
+        const { report, failure } = await resumeJson([journal.id])
+        assert.equal(failure, undefined)
+        assert.equal(report.status, 'ok')
+        assert.equal(report.exitCode, 0)
+        assert.equal(report.command, 'deposit')
+        assert.equal(report.flow, 'compose-deposit')
+        assert.equal(report.journal, journal.file)
+        assert.deepEqual(
+            report.transactions.map((tx: any) => [tx.label, tx.replayed]),
+            [
+                ['Approve OFT', true],
+                ['OFT send to composer', true],
+            ]
+        )
+        assert.equal(report.tracking.status, 'complete')
+        assert.equal(loadJournal(journal.file).status, 'complete')
+
+        const missing = await resumeJson(['nowhere'])
+        assert.match(missing.failure.message, /Journal "nowhere" not found/)
+        assert.deepEqual([missing.report.status, missing.report.exitCode, missing.report.error.kind], ['failed', 2, 'config'])
+    })
+})
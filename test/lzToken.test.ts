@@ -0,0 +1,50 @@
+/**
+ * --pay-in-lz-token: the protocol fee paid in ZRO through the OApp, native fees for the rest.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { BASE_MESSAGING_FEE, LZ_TOKEN_FEE } from './harness/contracts'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_ETH, WALLET_SHARES, WALLET_USDC, WALLET_ZRO, startNetwork, usdc } from './harness/network'
+
+describe('paying fees in lzToken', () => {
+    let network: LocalNetwork
+    let wallet: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        wallet = network.wallet.address
+    })
+
+    afterEach(() => network.close())
+
+    it('bridge: ZRO covers the protocol fee, the OFT pulls it and no allowance is left', async () => {
+        const { base } = network.spokes
+        const { hops } = await runFlow(network, 'bridge-assets', { src: 'base', dst: 'ethereum', amount: '100' }, { payInLzToken: true })
+
+        assert.deepEqual(hops.map((hop) => hop.status), ['delivered'])
+        assert.equal(network.hub.usdc.balanceOf(null, wallet), WALLET_USDC + usdc('100'))
+        assert.equal(base.zro!.balanceOf(null, wallet), WALLET_ZRO - LZ_TOKEN_FEE)
+        assert.equal(base.zro!.allowance(null, wallet, base.assetOFT.address), 0n)
+        const nativeSpent = WALLET_ETH - network.chains.base.balanceOf(wallet)
+        assert.ok(nativeSpent > 0n && nativeSpent < BASE_MESSAGING_FEE, 'only the worker fees are paid in native')
+    })
+
+    it('compose: the first hop is paid in ZRO, the composer still pays the second in native', async () => {
+        const { flow, hops } = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '100' }, { payInLzToken: true })
+
+        assert.equal(flow, 'compose-deposit')
+        assert.deepEqual(hops.map((hop) => hop.status), ['composed', 'delivered'])
+        assert.equal(network.spokes.base.zro!.balanceOf(null, wallet), WALLET_ZRO - LZ_TOKEN_FEE)
+        assert.equal(network.hub.zro.balanceOf(null, wallet), WALLET_ZRO)
+    })
+
+    it('refuses when the source endpoint has no lzToken', async () => {
+        await assert.rejects(
+            runFlow(network, 'bridge-shares', { src: 'katana', dst: 'base', amount: '1' }, { payInLzToken: true }),
+            /Katana does not take LayerZero fees in lzToken/
+        )
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES)
+    })
+})
@@ -0,0 +1,84 @@
+/**
+ * ETH vaults: native pools on the hub and base, WETH as the vault asset and the native
+ * composer. ETH goes in and comes out; WETH only ever sits in the vault.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_ETH, ether, startNetwork } from './harness/network'
+
+// The wallet's share balance on every chain, in 18-decimal ovETH
+const WALLET_SHARES = ether('1000')
+
+describe('native-asset vault', () => {
+    let network: LocalNetwork
+    let wallet: string
+
+    beforeEach(async () => {
+        network = await startNetwork({ native: true })
+        wallet = network.wallet.address
+    })
+
+    afterEach(() => network.close())
+
+    const previewDeposit = (assets: bigint) => network.hub.vault.previewDeposit(null, ethers.BigNumber.from(assets))
+    const previewRedeem = (shares: bigint) => network.hub.vault.previewRedeem(null, ethers.BigNumber.from(shares))
+    // 18-decimal shares lose their dust when they cross chains
+    const sentShares = (shares: bigint) => network.hub.shareOFT.removeDust(shares)
+    const eth = (chain: string) => network.chains[chain].balanceOf(wallet)
+    const weth = () => network.hub.usdc.balanceOf(null, wallet)
+    const composerHoldings = () => network.hub.usdc.balanceOf(null, network.hub.composer.address) + network.chains.ethereum.balanceOf(network.hub.composer.address)
+
+    it('direct-deposit wraps ETH before depositing', async () => {
+        const expected = previewDeposit(ether('1'))
+        await runFlow(network, 'deposit', { src: 'ethereum', dst: 'ethereum', amount: '1' })
+
+        assert.equal(eth('ethereum'), WALLET_ETH - ether('1'))
+        assert.equal(weth(), 0n)
+        assert.equal(network.hub.vault.balanceOf(null, wallet), WALLET_SHARES + expected)
+    })
+
+    it('direct-redeem unwraps the assets unless --wrapped', async () => {
+        const expected = previewRedeem(ether('1'))
+        await runFlow(network, 'redeem', { src: 'ethereum', dst: 'ethereum', amount: '1' })
+
+        assert.equal(eth('ethereum'), WALLET_ETH + expected)
+        assert.equal(weth(), 0n)
+
+        await runFlow(network, 'redeem', { src: 'ethereum', dst: 'ethereum', amount: '1' }, { wrapped: true })
+        assert.equal(weth(), previewRedeem(ether('1')))
+    })
+
+    it('deposit-and-send: depositNativeAndSend carries amount + fee in msg.value', async () => {
+        const expected = previewDeposit(ether('1'))
+        const { hops } = await runFlow(network, 'deposit', { src: 'ethereum', dst: 'base', amount: '1' })
+
+        assert.deepEqual(hops.map((hop) => hop.status), ['delivered'])
+        const spent = WALLET_ETH - eth('ethereum')
+        assert.ok(spent > ether('1'), 'the fee is paid on top of the deposit')
+        assert.equal(network.spokes.base.shareOFT.balanceOf(null, wallet), WALLET_SHARES + sentShares(expected))
+        assert.equal(composerHoldings(), 0n)
+    })
+
+    it('compose-deposit: ETH from the base pool → shares on katana', async () => {
+        const expected = previewDeposit(ether('1'))
+        const { flow, hops } = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '1' })
+
+        assert.equal(flow, 'compose-deposit')
+        assert.deepEqual(hops.map((hop) => hop.status), ['composed', 'delivered'])
+        assert.ok(eth('base') < WALLET_ETH - ether('1'))
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES + sentShares(expected))
+        assert.equal(composerHoldings(), 0n)
+    })
+
+    it('compose-redeem: shares on katana → ETH on base', async () => {
+        const expected = network.hub.assetOFT.removeDust(previewRedeem(ether('1')))
+        const { flow } = await runFlow(network, 'redeem', { src: 'katana', dst: 'base', amount: '1' })
+
+        assert.equal(flow, 'compose-redeem')
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES - ether('1'))
+        assert.equal(eth('base'), WALLET_ETH + expected)
+    })
+})
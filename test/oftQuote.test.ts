@@ -0,0 +1,53 @@
+/**
+ * quoteOFT checks against Stargate-style pools with a protocol fee and per-path credit.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { MockStargatePool } from './harness/contracts'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_SHARES, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+describe('quoteOFT checks', () => {
+    let network: LocalNetwork
+    let wallet: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        wallet = network.wallet.address
+    })
+
+    afterEach(() => network.close())
+
+    const eid = (chain: string) => network.manifest.chains[chain].eid
+
+    it('sets the minimum from amountReceivedLD, so a pool fee does not trip it', async () => {
+        const basePool = network.spokes.base.assetOFT as MockStargatePool
+        basePool.setFeeBps(10n)
+
+        await runFlow(network, 'bridge-assets', { src: 'base', dst: 'ethereum', amount: '100' }, { maxSlippageBps: 0 })
+
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC - usdc('100'))
+        assert.equal(network.hub.usdc.balanceOf(null, wallet), WALLET_USDC + usdc('99.9'))
+    })
+
+    it('refuses a send larger than the credit on the path before approving it', async () => {
+        network.hub.assetOFT.setCredit(eid('base'), usdc('50'))
+
+        await assert.rejects(
+            runFlow(network, 'bridge-assets', { src: 'ethereum', dst: 'base', amount: '100' }),
+            /only has 50\.0 assets of credit towards EID 30184/
+        )
+        assert.equal(network.hub.usdc.balanceOf(null, wallet), WALLET_USDC)
+        // Refused before the approval: no gas spent, no allowance left behind
+        assert.equal(network.chains.ethereum.txs.size, 0)
+        assert.equal(network.hub.usdc.allowance(null, wallet, network.hub.assetOFT.address), 0n)
+    })
+
+    it('refuses a compose whose second hop the hub pool cannot carry, before the first hop is sent', async () => {
+        network.hub.assetOFT.setCredit(eid('base'), usdc('10'))
+
+        await assert.rejects(runFlow(network, 'redeem', { src: 'katana', dst: 'base', amount: '100' }), /Ethereum → Base: the pool only has 10\.0 assets of credit/)
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES)
+    })
+})
@@ -0,0 +1,71 @@
+/**
+ * Pre-flight: peers, enforced options, vault limits and composer wiring are read before
+ * anything is approved or sent, and any misconfiguration aborts the flow.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { SEND_AND_CALL } from './harness/contracts'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_SHARES, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+describe('pre-flight checks', () => {
+    let network: LocalNetwork
+    let wallet: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        wallet = network.wallet.address
+    })
+
+    afterEach(() => network.close())
+
+    const eid = (chain: string) => network.manifest.chains[chain].eid
+
+    it('refuses a bridge whose OFT has no peer for the destination', async () => {
+        const { base } = network.spokes
+        base.shareOFT.setPeer(eid('katana'), ethers.constants.AddressZero)
+
+        await assert.rejects(
+            runFlow(network, 'bridge-shares', { src: 'base', dst: 'katana', amount: '1' }),
+            /Base → Katana: 0x[0-9a-fA-F]{40} has no peer for EID 30375/
+        )
+        assert.equal(base.shareOFT.balanceOf(null, wallet), WALLET_SHARES)
+    })
+
+    it('lists every problem on the route: a paused vault and a second hop without a peer', async () => {
+        network.hub.vault.setPaused(true)
+        network.hub.shareOFT.setPeer(eid('katana'), ethers.constants.AddressZero)
+
+        await assert.rejects(runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '100' }), (error: Error) => {
+            assert.match(error.message, /Pre-flight checks failed/)
+            assert.match(error.message, /Ethereum → Katana: 0x[0-9a-fA-F]{40} has no peer for EID 30375/)
+            assert.match(error.message, /Vault: 0x[0-9a-fA-F]{40} is paused/)
+            return true
+        })
+        const { usdc, assetOFT } = network.spokes.base
+        assert.equal(usdc!.balanceOf(null, wallet), WALLET_USDC)
+        assert.equal(usdc!.allowance(null, wallet, assetOFT.address), 0n)
+    })
+
+    it('refuses a compose whose enforced options leave no lzReceive gas', async () => {
+        // The compose options only carry lzCompose gas: delivery relies on the enforced lzReceive
+        network.spokes.base.assetOFT.setEnforcedOptions(eid('ethereum'), SEND_AND_CALL, '0x')
+
+        await assert.rejects(
+            runFlow(network, 'deposit', { src: 'base', dst: 'ethereum', amount: '100' }),
+            /Base → Ethereum: no lzReceive gas towards EID 30101/
+        )
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC)
+    })
+
+    it('checks the composer wiring of a hub that lists only its vault and composer', async () => {
+        const hub = network.manifest.chains.ethereum.contracts
+        delete hub.assetOFT
+        delete hub.shareOFT
+        const expected = network.hub.vault.previewDeposit(null, ethers.BigNumber.from(usdc('100')))
+        await runFlow(network, 'deposit', { src: 'base', dst: 'ethereum', amount: '100' })
+        assert.equal(network.hub.vault.balanceOf(null, wallet), WALLET_SHARES + expected)
+    })
+})
@@ -0,0 +1,101 @@
+/**
+ * Failure paths: a composer refund when the vault rejects the deposit, and a compose that
+ * runs out of gas and is replayed with retry-compose (which refuses malformed numeric flags).
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { run as retryCompose } from '../scripts/commands/retryCompose'
+import { FLOWS } from '../scripts/flows'
+import { RECEIVED_MESSAGE_HASH } from '../scripts/lib/endpoint'
+import { PRIVATE_KEY_ENV } from '../scripts/lib/signer'
+import { followMessages, isComplete } from '../scripts/lib/tracking'
+import { TRACK_OPTIONS, quietly, runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_PRIVATE_KEY, WALLET_SHARES, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+describe('recovery', () => {
+    let network: LocalNetwork
+    let wallet: string
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        wallet = network.wallet.address
+        process.env[PRIVATE_KEY_ENV] = WALLET_PRIVATE_KEY
+    })
+
+    afterEach(() => network.close())
+
+    /** Send a compose-deposit from base without tracking (tracking throws on refunds and failures) */
+    const sendComposeDeposit = (dst: string, amount: string) =>
+        quietly(() =>
+            FLOWS['compose-deposit']({
+                deployment: network.manifest,
+                signer: { type: 'env' },
+                src: 'base',
+                dst,
+                hub: 'ethereum',
+                amount,
+            })
+        )
+
+    /** Pause the vault while the message is in flight: pre-flight refuses a vault that is already paused */
+    const pauseInFlight = () => network.chains.base.onMined.unshift(() => network.hub.vault.setPaused(true))
+
+    it('refunds the assets to the source chain when the vault rejects the deposit', async () => {
+        pauseInFlight()
+        const receipt = await sendComposeDeposit('katana', '100')
+        assert.ok(receipt)
+
+        const hops = await quietly(() => followMessages(network.manifest, 'base', receipt, TRACK_OPTIONS))
+        assert.deepEqual(
+            hops.map((hop) => [hop.dst, hop.status, hop.refund ?? false]),
+            [
+                ['ethereum', 'refunded', false],
+                ['base', 'delivered', true],
+            ]
+        )
+        assert.equal(isComplete(hops), false)
+        assert.equal(hops[1].amountReceivedLD?.toBigInt(), usdc('100'))
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC)
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES)
+    })
+
+    it('rejects a tracked flow whose compose was refunded', async () => {
+        pauseInFlight()
+        await assert.rejects(runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '100' }), /refunded/)
+    })
+
+    it('replays a compose that ran out of gas with retry-compose', async () => {
+        network.composeGasRequired = 1_000_000
+        const expected = network.hub.vault.previewDeposit(null, ethers.BigNumber.from(usdc('100')))
+        const receipt = await sendComposeDeposit('katana', '100')
+        assert.ok(receipt)
+
+        const stuck = await quietly(() => followMessages(network.manifest, 'base', receipt, TRACK_OPTIONS))
+        assert.deepEqual(stuck.map((hop) => hop.status), ['failed'])
+        assert.match(stuck[0].error ?? '', /out of gas/)
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES)
+
+        await quietly(() => retryCompose(['--deployment', network.manifestPath, '--tx', receipt.transactionHash, '--chain', 'base', '--no-track']))
+
+        const { endpoint, shareOFT, composer } = network.hub
+        const queued = endpoint.composeQueue(null, network.hub.assetOFT.address, composer.address, stuck[0].packet.guid, 0)
+        assert.equal(queued, RECEIVED_MESSAGE_HASH)
+        assert.equal(network.hub.vault.balanceOf(null, shareOFT.address), WALLET_SHARES * 2n + expected)
+        assert.equal(network.spokes.katana.shareOFT.balanceOf(null, wallet), WALLET_SHARES + expected)
+        await assert.rejects(
+            quietly(() => retryCompose(['--deployment', network.manifestPath, '--tx', receipt.transactionHash, '--chain', 'base'])),
+            /already been executed/
+        )
+    })
+    it('refuses malformed retry-compose numbers instead of scanning with them', async () => {
+        const retry = (...args: string[]) => retryCompose(['--deployment', network.manifestPath, ...args])
+        const guid = ethers.utils.hexZeroPad('0x01', 32)
+        const tx = ethers.utils.hexZeroPad('0x02', 32)
+
+        await assert.rejects(retry('--guid', guid, '--index', 'first'), /--index must be a non-negative integer \(got "first"\)/)
+        await assert.rejects(retry('--guid', guid, '--from-block', 'latest'), /--from-block must be a non-negative integer \(got "latest"\)/)
+        await assert.rejects(retry('--tx', tx, '--chain', 'base', '--gas-limit', '1.5'), /--gas-limit must be a positive integer \(got "1.5"\)/)
+    })
+})
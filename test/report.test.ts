@@ -0,0 +1,185 @@
+/**
+ * --json reports and exit codes: what a journaled, tracked flow records, what a dry run
+ * records, and the failure kind each throw site tags its error with.
+ */
+
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { journalParams, runJournaled } from '../scripts/commands/resume'
+import { FlowParams } from '../scripts/flows'
+import { jsonReplacer } from '../scripts/lib/execution'
+import { CONFIG } from '../scripts/config'
+import { resolveApprovalConfig } from '../scripts/lib/approval'
+import { getChain, getChainKeyByEid } from '../scripts/lib/chains'
+import { EXIT_CODES, FailureKind, classifyError, exitCodeFor } from '../scripts/lib/exitCodes'
+import { decodePayload } from '../scripts/lib/inspect'
+import { JOURNALS_DIR_ENV, createJournal, loadJournal } from '../scripts/lib/journal'
+import { validateManifest } from '../scripts/lib/manifest'
+import { createReport, failureOf } from '../scripts/lib/report'
+import { resolveRoute } from '../scripts/lib/route'
+import { toBytes32 } from '../scripts/lib/sendParam'
+import { PRIVATE_KEY_ENV } from '../scripts/lib/signer'
+import { parseSlippageBps } from '../scripts/lib/slippage'
+import { parseStargateMode } from '../scripts/lib/stargate'
+import { parseTrackTimeout } from '../scripts/lib/tracking'
+import { TRACK_OPTIONS, quietly, runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_PRIVATE_KEY, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+describe('json report', () => {
+    let network: LocalNetwork
+    let dir: string
+    let params: FlowParams
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        process.env[PRIVATE_KEY_ENV] = WALLET_PRIVATE_KEY
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ovault-report-'))
+        process.env[JOURNALS_DIR_ENV] = dir
+        params = { deployment: network.manifest, signer: { type: 'env' }, src: 'base', dst: 'katana', hub: 'ethereum', amount: '100' }
+    })
+
+    afterEach(async () => {
+        await network.close()
+        delete process.env[JOURNALS_DIR_ENV]
+        fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    const reportFor = (flow: string, dryRun?: boolean) =>
+        createReport({ command: 'deposit', flow, deployment: network.manifest, dryRun, inputs: journalParams(params) })
+    const tooMuch = ethers.utils.formatUnits(WALLET_USDC + usdc('1'), 6)
+
+    it('records the SendParam, transactions, GUID and hops of a tracked deposit', async () => {
+        const report = reportFor('compose-deposit')
+        const journal = createJournal({ command: 'deposit', flow: 'compose-deposit', deployment: network.manifestPath, params: journalParams(params) })
+        await quietly(() => runJournaled(journal, { ...params, report }, TRACK_OPTIONS))
+
+        // Round-trips through the same JSON printReport writes
+        const json = JSON.parse(JSON.stringify(report, jsonReplacer))
+        assert.equal(json.status, 'ok')
+        assert.equal(json.exitCode, 0)
+        assert.equal(json.addresses.wallet, network.wallet.address)
+        assert.equal(json.addresses.chains.base.assetOFT, network.spokes.base.assetOFT.address)
+        assert.equal(json.details.sendParam.amountLD, usdc('100').toString())
+        assert.ok(BigInt(json.quotes.nativeFee) > 0n)
+        assert.deepEqual(
+            json.transactions.map((tx: any) => [tx.label, tx.chain, tx.status]),
+            [
+                ['Approve OFT', 'base', 'confirmed'],
+                ['OFT send to composer', 'base', 'confirmed'],
+            ]
+        )
+        assert.ok(json.transactions.every((tx: any) => ethers.utils.isHexString(tx.hash, 32) && tx.blockNumber > 0))
+
+        assert.equal(json.tracking.status, 'complete')
+        assert.equal(json.tracking.guids.length, 1)
+        assert.deepEqual(
+            json.tracking.hops.map((hop: any) => [hop.src, hop.dst, hop.status]),
+            [
+                ['base', 'ethereum', 'composed'],
+                ['ethereum', 'katana', 'delivered'],
+            ]
+        )
+        assert.equal(json.tracking.hops[0].guid, json.tracking.guids[0])
+    })
+
+    it('records the planned transactions and warnings of a dry run', async () => {
+        params = { ...params, src: 'ethereum', dst: 'ethereum', amount: tooMuch }
+        const report = reportFor('direct-deposit', true)
+        const run = await runFlow(network, 'deposit', { src: 'ethereum', dst: 'ethereum', amount: tooMuch }, { dryRun: true, report })
+
+        assert.equal(run.dryRun, true)
+        assert.equal(report.dryRun, true)
+        assert.equal(report.status, 'ok')
+        assert.equal(report.tracking, undefined)
+        assert.ok(report.transactions.length > 0)
+        assert.ok(report.transactions.every((tx: any) => tx.hash === undefined && tx.simulation))
+        assert.ok(report.warnings.some((warning) => /^Insufficient balance/.test(warning)))
+    })
+
+    // The kind is the one the throw site tagged, not one read back from the message
+    const assertKind = (error: any, kind: FailureKind) => {
+        assert.equal(error?.failureKind, kind, error?.message ?? `expected a ${kind} failure`)
+        assert.equal(exitCodeFor(error), EXIT_CODES[kind])
+    }
+    const thrownBy = (fn: () => unknown) => {
+        try {
+            fn()
+        } catch (error) {
+            return error
+        }
+    }
+
+    it('exits with a code for each kind of failure', async () => {
+        network.hub.vault.setPaused(true)
+        const preflight = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '100' }).catch((error) => error)
+        assert.equal(classifyError(preflight), 'config')
+        assertKind(preflight, 'config')
+        network.hub.vault.setPaused(false)
+
+        const funds = await runFlow(network, 'deposit', { src: 'ethereum', dst: 'ethereum', amount: tooMuch }).catch((error) => error)
+        assert.deepEqual(failureOf(funds), { status: 'failed', exitCode: 3, error: { kind: 'funds', message: funds.message.replace(/^❌\s*/, ''), reason: undefined, revert: undefined } })
+        assertKind(funds, 'funds')
+
+        const belowMinimum = await runFlow(network, 'deposit', { src: 'ethereum', dst: 'ethereum', amount: '100' }, { minAmount: '1000' }).catch((error) => error)
+        assert.match(belowMinimum.message, /is less than minimum/)
+        assertKind(belowMinimum, 'quote')
+
+        // Paused while the message is in flight: the compose is refunded
+        network.chains.base.onMined.unshift(() => network.hub.vault.setPaused(true))
+        const refunded = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '100' }).catch((error) => error)
+        assertKind(refunded, 'crossChain')
+
+        assert.equal(exitCodeFor(Object.assign(new Error('insufficient funds for gas'), { code: ethers.errors.INSUFFICIENT_FUNDS })), EXIT_CODES.funds)
+        assert.equal(exitCodeFor(Object.assign(new Error('execution reverted'), { code: ethers.errors.CALL_EXCEPTION })), EXIT_CODES.revert)
+        assert.equal(exitCodeFor(new Error('something else')), EXIT_CODES.error)
+    })
+
+    it('tags flag, manifest, route and journal errors as config where they are thrown', () => {
+        const { manifest } = network
+        const throwSites: (() => unknown)[] = [
+            () => getChain(manifest, 'nowhere'),
+            () => getChainKeyByEid(manifest, 1),
+            () => validateManifest({ name: 'broken', hub: 'ethereum', chains: {} }),
+            () => resolveRoute('bridge-assets', { src: 'base', dst: 'base', hub: 'ethereum' }),
+            () => parseSlippageBps('lots'),
+            () => parseStargateMode('boat'),
+            () => parseTrackTimeout('soon'),
+            () => resolveApprovalConfig({ approval: 'forever' }, CONFIG.approval),
+            () => loadJournal('missing'),
+            () => decodePayload('0xzz'),
+            () => toBytes32('nobody'),
+        ]
+        for (const site of throwSites) {
+            assertKind(thrownBy(site), 'config')
+        }
+    })
+
+    it('throws no ❌ error without a failure kind, and no tagged error without ❌', () => {
+        const untagged: string[] = []
+        const unmarked: string[] = []
+        const visit = (dir: string) => {
+            for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+                const file = path.join(dir, entry.name)
+                if (entry.isDirectory()) {
+                    visit(file)
+                } else if (file.endsWith('.ts')) {
+                    const source = fs.readFileSync(file, 'utf8')
+                    const at = (index?: number) => `${path.relative(process.cwd(), file)}:${source.slice(0, index).split('\n').length}`
+                    for (const match of source.matchAll(/new Error\(\s*[`'"]❌/g)) {
+                        untagged.push(at(match.index))
+                    }
+                    for (const match of source.matchAll(/'(?:config|funds|quote|revert|crossChain|rpc|error)',\s*[`'"](?!❌)/g)) {
+                        unmarked.push(at(match.index))
+                    }
+                }
+            }
+        }
+        visit(path.join(__dirname, '..', 'scripts'))
+        assert.deepEqual(untagged, [], 'throw failure(kind, message) instead')
+        assert.deepEqual(unmarked, [], 'start the message with ❌')
+    })
+})
@@ -0,0 +1,178 @@
+/**
+ * RPC provider: fallback past a failing endpoint, back-off on 429, quorum reads, and the
+ * rpc-health report. Flaky endpoints are proxies in front of the local chains.
+ */
+
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { run as rpcHealth } from '../scripts/commands/rpcHealth'
+import { CONFIG } from '../scripts/config'
+import { getProvider } from '../scripts/lib/chains'
+import { RpcEndpointConfig, validateManifest } from '../scripts/lib/manifest'
+import { checkRpcHealth } from '../scripts/lib/rpc'
+import { quietly, runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_SHARES, startNetwork, usdc } from './harness/network'
+
+interface Proxy {
+    url: string
+    close: () => Promise<void>
+}
+
+type Intercept = (request: { method: string; id: number }) => { status: number } | { result: unknown } | undefined
+
+/** An RPC in front of `target`; `intercept` fails a request with an HTTP status or answers it */
+async function startProxy(target: string, intercept: Intercept = () => undefined): Promise<Proxy> {
+    const proxy: Proxy = { url: '', close: async () => {} }
+    const server = http.createServer((req, res) => {
+        let body = ''
+        req.on('data', (chunk) => (body += chunk))
+        req.on('end', () => {
+            const request = JSON.parse(body)
+            const answer = intercept(request)
+            if (answer && 'status' in answer) {
+                res.writeHead(answer.status).end('unavailable')
+                return
+            }
+            if (answer) {
+                res.setHeader('Content-Type', 'application/json')
+                res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: answer.result }))
+                return
+            }
+            const forward = http.request(target, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, (response) => response.pipe(res))
+            forward.end(body)
+        })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    proxy.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    proxy.close = () => new Promise((resolve) => server.close(() => resolve()))
+    return proxy
+}
+
+/** A URL nothing listens on */
+async function deadUrl(): Promise<string> {
+    const server = http.createServer()
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+    await new Promise((resolve) => server.close(resolve))
+    return `http://127.0.0.1:${port}`
+}
+
+describe('rpc provider', () => {
+    let network: LocalNetwork
+    let proxies: Proxy[]
+    const rpc = { ...CONFIG.rpc }
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        proxies = []
+        Object.assign(CONFIG.rpc, { timeoutSeconds: 2, backoffMs: 20, maxBackoffMs: 200 })
+    })
+
+    afterEach(async () => {
+        Object.assign(CONFIG.rpc, rpc)
+        await Promise.all(proxies.map((proxy) => proxy.close()))
+        await network.close()
+    })
+
+    const proxy = async (chain: string, intercept?: Intercept) => {
+        const started = await startProxy(network.chains[chain].rpcUrl, intercept)
+        proxies.push(started)
+        return started
+    }
+    const useRpcs = (chain: string, rpcUrls: (string | RpcEndpointConfig)[], rpcQuorum?: number) => {
+        const config = network.manifest.chains[chain]
+        delete config.rpcUrl
+        Object.assign(config, { rpcUrls, rpcQuorum })
+        fs.writeFileSync(network.manifestPath, JSON.stringify(network.manifest, null, 2))
+    }
+
+    it('runs a flow past a failing preferred endpoint, backing it off', async () => {
+        let failures = 0
+        const failing = await proxy('base', () => (failures++, { status: 503 }))
+        useRpcs('base', [{ url: failing.url, weight: 2 }, network.chains.base.rpcUrl])
+
+        await runFlow(network, 'bridge-shares', { src: 'base', dst: 'katana', amount: '1' })
+
+        const { base, katana } = network.spokes
+        assert.equal(base.shareOFT.balanceOf(null, network.wallet.address), WALLET_SHARES - usdc('1'))
+        assert.equal(katana.shareOFT.balanceOf(null, network.wallet.address), WALLET_SHARES + usdc('1'))
+        // Backed off between failures instead of being asked first every time
+        assert.ok(failures > 0 && failures < 10, `failing endpoint asked ${failures} times`)
+    })
+
+    it('backs off exponentially on 429 and gives up after maxAttempts', async () => {
+        let requests = 0
+        const throttled = await proxy('base', () => (++requests <= 3 ? { status: 429 } : undefined))
+        useRpcs('base', [throttled.url])
+
+        // Network detection is the provider's first request
+        const started = Date.now()
+        assert.equal((await getProvider(network.manifest, 'base').ready).chainId, 31184)
+        assert.equal(requests, 4)
+        assert.ok(Date.now() - started >= 20 + 40 + 80, 'waited 20 + 40 + 80 ms between attempts')
+
+        const limited = await proxy('base', () => ({ status: 429 }))
+        useRpcs('base', [limited.url])
+        await assert.rejects(getProvider(network.manifest, 'base').send('eth_blockNumber', []), /eth_blockNumber failed on every RPC of Base after 6 attempts:\n {3}- http:\/\/127\.0\.0\.1:\d+: HTTP 429/)
+    })
+
+    it('answers quorum reads only when enough weight agrees', async () => {
+        let getCodeRequests = 0
+        const mirror = await proxy('base', (request) => void (getCodeRequests += request.method === 'eth_getCode' ? 1 : 0))
+        const shareOFT = network.spokes.base.shareOFT.address
+        useRpcs('base', [network.chains.base.rpcUrl, mirror.url], 2)
+        assert.equal(await getProvider(network.manifest, 'base').getCode(shareOFT), '0xfe')
+        assert.equal(getCodeRequests, 1)
+
+        // An endpoint of another chain disagrees, and one agreeing endpoint is not enough
+        useRpcs('base', [network.chains.base.rpcUrl, network.chains.katana.rpcUrl], 2)
+        await assert.rejects(getProvider(network.manifest, 'base').send('eth_getCode', [shareOFT, 'latest']), /No RPC quorum \(2\) for eth_getCode on Base after 6 rounds/)
+    })
+
+    it('reports latency, block-height skew and dead endpoints', async () => {
+        const ahead = await proxy('base', (request) => {
+            if (request.method === 'eth_blockNumber') {
+                return { result: ethers.utils.hexValue(network.chains.base.blocks.length - 1 + 3) }
+            }
+        })
+        const dead = await deadUrl()
+        useRpcs('base', [network.chains.base.rpcUrl, ahead.url, dead])
+
+        const health = await checkRpcHealth(network.manifest.chains.base, 2, 1000)
+        assert.deepEqual(
+            health.map(({ url, ok, skew, error }) => ({ url, ok, skew, error })),
+            [
+                { url: network.chains.base.rpcUrl, ok: true, skew: 3, error: undefined },
+                { url: ahead.url, ok: true, skew: 0, error: undefined },
+                { url: dead, ok: false, skew: undefined, error: 'ECONNREFUSED' },
+            ]
+        )
+        assert.ok(health.every((endpoint) => !endpoint.ok || endpoint.latencyMs! >= 0))
+        await quietly(() => rpcHealth(['--deployment', network.manifestPath]))
+
+        useRpcs('base', [dead])
+        await assert.rejects(
+            quietly(() => rpcHealth(['--deployment', network.manifestPath])),
+            (error: any) => /Not enough healthy RPC endpoints on base/.test(error.message) && error.failureKind === 'rpc'
+        )
+    })
+    it('refuses WebSocket RPC URLs, the providers only speak HTTP', () => {
+        const withRpcs = (config: object) => {
+            const manifest = JSON.parse(JSON.stringify(network.manifest))
+            delete manifest.chains.base.rpcUrl
+            Object.assign(manifest.chains.base, config)
+            return manifest
+        }
+
+        assert.throws(() => validateManifest(withRpcs({ rpcUrl: 'wss://base.example' })), /chains\.base\.rpcUrl must be an http\(s\) URL/)
+        assert.throws(
+            () => validateManifest(withRpcs({ rpcUrls: [network.chains.base.rpcUrl, { url: 'ws://base.example', weight: 2 }] })),
+            /chains\.base\.rpcUrls\[1\] must be an http\(s\) URL/
+        )
+        validateManifest(withRpcs({ rpcUrls: [network.chains.base.rpcUrl, { url: 'https://base.example', weight: 2 }] }))
+    })
+})
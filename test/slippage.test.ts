@@ -0,0 +1,45 @@
+/**
+ * Slippage: minimums derived from quoteOFT and the vault previews, rounded to shared decimals.
+ */
+
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ethers } from 'ethers'
+import { applySlippage, parseSlippageBps, removeDust } from '../scripts/lib/slippage'
+import { runFlow } from './harness/flows'
+import { LocalNetwork, ether, startNetwork } from './harness/network'
+
+describe('slippage', () => {
+    it('rounds minimums down to whole shared-decimal units', () => {
+        const rate = 10n ** 12n
+        assert.equal(removeDust(ether('1.2345678912345'), rate).toBigInt(), ether('1.234567'))
+        assert.equal(applySlippage(ether('100'), 50, rate).toBigInt(), ether('99.5'))
+        assert.equal(applySlippage(1_000_001n, 0).toBigInt(), 1_000_001n)
+    })
+
+    it('rejects budgets that are not whole basis points', () => {
+        assert.equal(parseSlippageBps('25'), 25)
+        assert.throws(() => parseSlippageBps('0.5'), /basis points/)
+        assert.throws(() => parseSlippageBps('10000'), /basis points/)
+    })
+
+    describe('with 18-decimal shares', () => {
+        let network: LocalNetwork
+
+        beforeEach(async () => {
+            network = await startNetwork({ native: true })
+        })
+
+        afterEach(() => network.close())
+
+        it('a zero budget still clears dust removal on the second hop', async () => {
+            const shares = network.hub.vault.previewDeposit(null, ethers.BigNumber.from(ether('1')))
+            assert.notEqual(shares % 10n ** 12n, 0n, 'the vault output carries dust')
+
+            const { hops } = await runFlow(network, 'deposit', { src: 'base', dst: 'katana', amount: '1' }, { maxSlippageBps: 0 })
+
+            assert.deepEqual(hops.map((hop) => hop.status), ['composed', 'delivered'])
+            assert.equal(network.spokes.katana.shareOFT.balanceOf(null, network.wallet.address), ether('1000') + network.hub.shareOFT.removeDust(shares))
+        })
+    })
+})
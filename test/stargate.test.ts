@@ -0,0 +1,91 @@
+/**
+ * Stargate bus vs taxi: both rides quoted, the bus booked with oftCmd 0x00 and followed
+ * through BusDriven to delivery, for single transfers and batches.
+ */
+
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { run as batch } from '../scripts/commands/batch'
+import { BatchResults } from '../scripts/lib/batch'
+import { BASE_MESSAGING_FEE, MockStargatePool } from './harness/contracts'
+import { quietly, runFlow } from './harness/flows'
+import { LocalNetwork, WALLET_ETH, WALLET_USDC, startNetwork, usdc } from './harness/network'
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'
+const DRIVER = '0x000000000000000000000000000000000000d71e'
+
+describe('stargate bus', () => {
+    let network: LocalNetwork
+    let wallet: string
+    let basePool: MockStargatePool
+
+    beforeEach(async () => {
+        network = await startNetwork()
+        wallet = network.wallet.address
+        basePool = network.spokes.base.assetOFT as MockStargatePool
+    })
+
+    afterEach(() => network.close())
+
+    const eid = (chain: string) => network.manifest.chains[chain].eid
+
+    it('auto rides the cheaper bus and tracks the seat through BusDriven to delivery', async () => {
+        // Nobody else is riding: drive the half-empty bus as soon as the seat is booked
+        const base = network.chains.base
+        base.setBalance(DRIVER, WALLET_ETH)
+        base.onMined.push(() => {
+            if (basePool.passengers(eid('ethereum')).length > 0) {
+                base.mine(DRIVER, basePool.address, basePool.iface.encodeFunctionData('driveBus', [eid('ethereum')]), BASE_MESSAGING_FEE)
+            }
+        })
+
+        const { hops } = await runFlow(network, 'bridge-assets', { src: 'base', dst: 'ethereum', amount: '100' }, { stargateMode: 'auto' })
+
+        assert.deepEqual(hops.map((hop) => hop.status), ['delivered'])
+        assert.equal(hops[0].packet.ticketId?.toNumber(), 0)
+        assert.equal(hops[0].recipient, wallet)
+        assert.equal(network.hub.usdc.balanceOf(null, wallet), WALLET_USDC + usdc('100'))
+        // The seat costs half the taxi: the bus carries two
+        assert.equal(base.balanceOf(wallet), WALLET_ETH - BASE_MESSAGING_FEE / 2n)
+    })
+
+    it('refuses --stargate-mode bus where no bus runs', async () => {
+        await assert.rejects(
+            runFlow(network, 'bridge-assets', { src: 'base', dst: 'katana', amount: '100' }, { stargateMode: 'bus' }),
+            /No Stargate bus runs to EID 30375/
+        )
+        assert.equal(network.spokes.base.usdc!.balanceOf(null, wallet), WALLET_USDC)
+    })
+
+    describe('batch', () => {
+        let dir: string
+        let rowsFile: string
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ovault-bus-'))
+            rowsFile = path.join(dir, 'payouts.csv')
+            fs.writeFileSync(rowsFile, ['dstChain,recipient,amount', `ethereum,${ALICE},10`, `ethereum,${BOB},5`].join('\n'))
+        })
+
+        afterEach(() => fs.rmSync(dir, { recursive: true, force: true }))
+
+        it('waits for the bus both rows fill and records the shared ride', async () => {
+            const args = ['bridge-assets', '--src', 'base', '--file', rowsFile, '--stargate-mode', 'auto', '--track-timeout', '0.05']
+            await quietly(() => batch([...args, '--deployment', network.manifestPath]))
+
+            const results: BatchResults = JSON.parse(fs.readFileSync(path.join(dir, 'payouts.results.json'), 'utf8'))
+            assert.deepEqual(results.rows.map((row) => [row.ride, row.ticketId, row.delivery]), [
+                ['bus', '0', 'delivered'],
+                ['bus', '1', 'delivered'],
+            ])
+            assert.match(results.rows[0].guid!, /^0x[0-9a-f]{64}$/)
+            assert.equal(results.rows[1].guid, results.rows[0].guid)
+            assert.equal(network.hub.usdc.balanceOf(null, ALICE), usdc('10'))
+            assert.equal(network.hub.usdc.balanceOf(null, BOB), usdc('5'))
+        })
+    })
+})